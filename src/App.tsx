@@ -1,6 +1,12 @@
 import React, { useEffect, useMemo, useState } from "react";
 import {
+  combineScenarioResults,
   computeScenarioResult,
+  computeSubElementBreakdown,
+  listRateOverrides,
+  listRateSources,
+  locationCategoryFactors,
+  RateOverrideLine,
   HeatBand,
   ScenarioSelection,
   ScenarioResult,
@@ -8,41 +14,118 @@ import {
   VMX_CATEGORIES,
   BenchmarkSet,
   CategoryResult,
+  AreaUnit,
+  AREA_UNITS,
+  areaUnitLabel,
+  areaToSqft,
+  sqftToArea,
+  psqftToRate,
+  isAreaUnit,
 } from "./domain/vmx-domain";
 import "./vmx-ui-overrides.css"; // IMPORTANT: load overrides once, globally
-import { Matrix } from "./components/Matrix";
+import { Matrix, RateOverride } from "./components/Matrix";
 import { SnapshotPanel } from "./components/SnapshotPanel";
 import { BenchmarkAdmin } from "./components/BenchmarkAdmin";
 import { BenchmarkLibraryAdmin } from "./components/BenchmarkLibraryAdmin";
 import { AdvisoryReadout } from "./components/AdvisoryReadout";
 import { DocumentationOverlay } from "./components/DocumentationOverlay";
 import { SoftCostsCashflowPanel } from "./components/SoftCostsCashflowPanel";
+import { FinancingPanel } from "./components/FinancingPanel";
 import { AdminGuardrails, GuardrailsState } from "./components/AdminGuardrails";
 import { ConstructionIndirectsPanel } from "./components/ConstructionIndirectsPanel";
+import { UncertaintyPanel } from "./components/UncertaintyPanel";
+import { BudgetSolverPanel } from "./components/BudgetSolverPanel";
+import { QuantityItemsPanel } from "./components/QuantityItemsPanel";
+import { BuildingsPanel } from "./components/BuildingsPanel";
+import { HistoricalProjectsPanel } from "./components/HistoricalProjectsPanel";
+import { CostIndexPanel } from "./components/CostIndexPanel";
+import { LibraryHistoryPanel } from "./components/LibraryHistoryPanel";
+import {
+  LibraryHistoryV1,
+  describeLibraryVersionRef,
+  libraryVersionRef,
+  loadLibraryHistory,
+  markLibraryVersionReferenced,
+  recordLibraryVersion,
+  saveLibraryHistory,
+} from "./data/benchmark-library-history";
+import { SensitivityPanel } from "./components/SensitivityPanel";
 import {
   BenchmarkLibrary,
+  RegionEntry,
   TierId,
-  TIERS,
+  defaultTierId,
   getInitialLibrary,
   getInitialSelection,
   saveLibrary,
   saveSelection,
   updateBenchmarkForRegionTier,
   resetRegionTierToDemo,
+  regionOptions,
+  safeTierId,
   tierLabel,
 } from "./data/benchmark-library-storage";
-import { formatMoney, formatPct } from "./utils/format";
+import { formatArea, formatMoney, formatPct, formatRate } from "./utils/format";
 import { VMX_APP_VERSION, formatProvenanceDate } from "./config/vmx-meta";
-import { exportClientPackZip, DeltaRowExport } from "./utils/exportClientPack";
-import { SoftCostsConfig, SoftCostsComputed, loadSoftCostsConfig, computeCashflowSchedule } from "./utils/softCosts";
+import { exportClientPackZip, ClientPackScenario } from "./utils/exportClientPack";
+import { Snapshot, SnapshotCapture, SnapshotRecompute, loadSnapshots } from "./utils/snapshots";
+import { DeltaSettings, DeltaSortMode, computeDeltaSummary, computeDriverLines } from "./utils/deltas";
+import {
+  SoftCostsConfig,
+  SoftCostsComputed,
+  loadSoftCostsConfig,
+  computeCashflowSchedule,
+  resolveSoftCostsForTier,
+  upgradeSoftCostsConfig,
+} from "./utils/softCosts";
+import { MonteCarloResult, UncertaintyConfigV1, loadUncertaintyConfig, runMonteCarlo, saveUncertaintyConfig } from "./utils/monteCarlo";
+import { FinancingComputed, FinancingConfigV1, computeProjectFinancing, loadFinancingConfig, saveFinancingConfig } from "./utils/financing";
+import {
+  SensitivityFlex,
+  SensitivityInputs,
+  SensitivityResult,
+  SensitivitySettings,
+  buildStandardFlexes,
+  computeSensitivity,
+  grandTotalFor,
+  loadSensitivitySettings,
+  saveSensitivitySettings,
+} from "./utils/sensitivity";
+import {
+  MAX_SCENARIOS,
+  ScenarioCollectionV1,
+  BuildingIndirectRates,
+  ScenarioBuilding,
+  ScenarioInputs,
+  TypologyId,
+  duplicateScenario,
+  loadScenarioCollection,
+  moveScenario,
+  normalizeScenarioCollection,
+  nextScenarioName,
+  saveScenarioCollection,
+  scenarioLetter,
+} from "./utils/scenarios";
 import {
   ConstructionIndirectsConfigV1,
   ConstructionIndirectsComputed,
   loadConstructionIndirectsConfig,
   saveConstructionIndirectsConfig,
+  PricedBuilding,
+  combineConstructionIndirects,
   computeConstructionIndirects,
   getRatesForTier,
 } from "./utils/constructionIndirects";
+import { HistoricalDatasetV1, loadHistoricalDataset, saveHistoricalDataset } from "./utils/historicalProjects";
+import {
+  CostIndexConfigV1,
+  IndexEscalation,
+  applyIndexEscalation,
+  computeIndexEscalation,
+  loadCostIndexConfig,
+  resolveEstimateDate,
+  saveCostIndexConfig,
+} from "./utils/costIndex";
 
 /**
  * Benchmark transforms
@@ -72,21 +155,21 @@ function mixBenchmarkSetsByCategory(args: {
     return hit ? hit : r;
   });
 
+  // Sub-elements follow their parent category's source
+  const subElements = [
+    ...(base.subElements ?? []).filter((s) => !catSet.has(s.parentId)),
+    ...(override.subElements ?? []).filter((s) => catSet.has(s.parentId)),
+  ];
+
   return {
     ...base,
     name: nameSuffix ? `${base.name}${nameSuffix}` : base.name,
     bands: nextBands,
     targetRanges: nextRanges,
+    subElements: subElements.length ? subElements : undefined,
   };
 }
 
-function buildDefaultSelections(): Record<VmxCategoryId, ScenarioSelection> {
-  const rec = {} as Record<VmxCategoryId, ScenarioSelection>;
-  for (const c of VMX_CATEGORIES) rec[c.id] = { categoryId: c.id, band: "MEDIUM" };
-  return rec;
-}
-
-
 type LocationPreset = { id: string; label: string; factor: number };
 
 const LOCATION_PRESETS: LocationPreset[] = [
@@ -110,8 +193,6 @@ function presetLabel(id: string): string {
 }
 
 
-type TypologyId = "suburban" | "hillside" | "waterfront" | "urban" | "rural" | "desert";
-
 type VmxProgramProfile = {
   totalSF?: number;
   byZoneSF?: Record<string, number>;
@@ -134,16 +215,16 @@ function typologyLabel(id: TypologyId): string {
   return hit ? hit.label : id;
 }
 
+/** Snapshot annotations store typology as a plain string id. */
+function typologyLabelById(id: string): string {
+  return typologyLabel(id as TypologyId);
+}
+
 function locationLabel(id: string): string {
   const hit = LOCATION_PRESETS.find((p) => p.id === id);
   return hit ? hit.label : id;
 }
 
-function dampedLocationFactor(globalFactor: number): number {
-  // 1 + ((G - 1) * 0.5)
-  return 1 + (globalFactor - 1) * 0.5;
-}
-
 function scaleBenchmarkSetByCategory(
   benchmark: BenchmarkSet,
   categoryFactors: Partial<Record<VmxCategoryId, number>>,
@@ -168,19 +249,8 @@ function applyLocationFactorWithDamping(benchmark: BenchmarkSet, globalFactor: n
   if (!Number.isFinite(globalFactor) || globalFactor <= 0) return benchmark;
   if (Math.abs(globalFactor - 1) < 1e-9) return benchmark;
 
-  const factors: Partial<Record<VmxCategoryId, number>> = {};
-
-  // Apply global multiplier to everything...
-  for (const c of VMX_CATEGORIES) factors[c.id] = globalFactor;
-
-  // ...except if this is a high-cost location ( > 1.10 ), damp Categories 4 (Interiors) & 5 (FF&E)
-  if (globalFactor > 1.10) {
-    const damped = dampedLocationFactor(globalFactor);
-    factors["INTERNAL_FINISHES"] = damped;
-    factors["FF_E"] = damped;
-  }
-
-  return scaleBenchmarkSetByCategory(benchmark, factors, ` (Loc×${globalFactor.toFixed(2)})`);
+  // Global multiplier, damped on Interiors & FF&E above 1.10
+  return scaleBenchmarkSetByCategory(benchmark, locationCategoryFactors(globalFactor), ` (Loc×${globalFactor.toFixed(2)})`);
 }
 
 const TYPOLOGY_CATEGORY_FACTORS: Record<TypologyId, Partial<Record<VmxCategoryId, number>>> = {
@@ -308,72 +378,6 @@ function pickSecondRegionId(lib: BenchmarkLibrary, primaryId: string) {
   return other ? other.id : primaryId;
 }
 
-type DeltaHeat = "low" | "medium" | "high";
-type DeltaDirection = "increase" | "decrease" | "flat";
-type DeltaSortMode = "impact" | "category";
-
-type DeltaRow = {
-  categoryId: VmxCategoryId;
-  categoryLabel: string;
-  deltaCost: number; // B - A
-  deltaPct: number; // B% - A%
-  absFracOfATotal: number; // |deltaCost| / A total
-  direction: DeltaDirection;
-  heat: DeltaHeat;
-  isTopDriver: boolean;
-};
-
-// Key Drivers (interactive comparisons)
-type DriverLine = {
-  categoryId: VmxCategoryId;
-  label: string;
-  deltaCost: number; // scenario - baseline
-  deltaPct: number; // (scenario/baseline)-1
-};
-
-const KEY_DRIVER_PCT_THRESHOLD = 0.05; // 5%
-
-function buildCategoryCostMap(result: { categories: CategoryResult[] }) {
-  const out = new Map<VmxCategoryId, { label: string; cost: number }>();
-  for (const c of result.categories) out.set(c.categoryId, { label: c.label, cost: c.cost });
-  return out;
-}
-
-function computeDriverLines(args: {
-  scenario: { totalCost: number; categories: CategoryResult[] };
-  baseline: { totalCost: number; categories: CategoryResult[] };
-}): { totalDeltaCost: number; totalDeltaPct: number; lines: DriverLine[] } {
-  const { scenario, baseline } = args;
-
-  const scenarioMap = buildCategoryCostMap(scenario);
-  const baselineMap = buildCategoryCostMap(baseline);
-
-  const lines: DriverLine[] = [];
-
-  for (const cat of VMX_CATEGORIES) {
-    const s = scenarioMap.get(cat.id);
-    const b = baselineMap.get(cat.id);
-    const sCost = s?.cost ?? 0;
-    const bCost = b?.cost ?? 0;
-    const deltaCost = sCost - bCost;
-    const deltaPct = bCost > 0 ? sCost / bCost - 1 : 0;
-    lines.push({ categoryId: cat.id, label: s?.label ?? cat.label, deltaCost, deltaPct });
-  }
-
-  // Only show categories with meaningful movement
-  const filtered = lines
-    .filter((l) => Math.abs(l.deltaPct) >= KEY_DRIVER_PCT_THRESHOLD)
-    .sort((a, b) => Math.abs(b.deltaCost) - Math.abs(a.deltaCost))
-    .slice(0, 6);
-
-  const totalDeltaCost = scenario.totalCost - baseline.totalCost;
-  const totalDeltaPct = baseline.totalCost > 0 ? scenario.totalCost / baseline.totalCost - 1 : 0;
-
-  return { totalDeltaCost, totalDeltaPct, lines: filtered };
-}
-
-
-
 type WatchoutLine = {
   categoryId: VmxCategoryId;
   label: string;
@@ -436,16 +440,337 @@ function inputToPct(v: string) {
   return n / 100;
 }
 
+type GrandTotalBreakdown = {
+  constructionContract: number;
+  landAcquisition: number;
+  ownerSoft: number;
+  escalation: number;
+  /** Capitalised interest + loan fees (0 when not financed) */
+  financing: number;
+  grandTotal: number;
+};
+
+type BuildingComputed = {
+  id: string;
+  name: string;
+  isMain: boolean;
+  areaSqft: number;
+  tier: TierId;
+  typology: TypologyId;
+  /** Benchmark this building is priced from */
+  benchmark: BenchmarkSet;
+  selections: ScenarioSelection[];
+  result: ScenarioResult | null;
+  error: string | null;
+  indirects: ConstructionIndirectsComputed | null;
+};
+
+function isPresent<T>(v: T | null): v is T {
+  return v !== null;
+}
+
+/** Additional buildings at their current pricing, for tools that only flex the main residence. */
+function otherPricedBuildings(buildings: BuildingComputed[]): PricedBuilding[] {
+  return buildings.flatMap((b) => (!b.isMain && b.result && b.indirects ? [{ result: b.result, indirects: b.indirects }] : []));
+}
+
+type ScenarioComputed = {
+  inputs: ScenarioInputs;
+  letter: string;
+  region: RegionEntry;
+  locationFactor: number;
+  interiorOverrideTier: TierId | null;
+  mixedBenchmark: BenchmarkSet;
+  benchmark: BenchmarkSet;
+  /** Library → estimate date escalation of the scenario tier (each tier set is escalated from its own effective date) */
+  costIndex: IndexEscalation;
+  /** Rolled up across all buildings */
+  result: ScenarioResult | null;
+  error: string | null;
+  /** Main residence first, then any additional buildings */
+  buildings: BuildingComputed[];
+  /** Manual $/sf overrides on the main residence, with deltas vs the band rate */
+  overrides: RateOverrideLine[];
+  watchouts: WatchoutLine[];
+  /** Soft-cost rules with the scenario tier's line overrides applied */
+  softCostsConfig: SoftCostsConfig;
+  soft: ReturnType<typeof computeCashflowSchedule> | null;
+  indirects: ConstructionIndirectsComputed | null;
+  financing: FinancingComputed | null;
+  grandTotal: GrandTotalBreakdown | null;
+  driversTypology: ReturnType<typeof computeDriverLines> | null;
+  driversLocation: ReturnType<typeof computeDriverLines> | null;
+};
+
+function scenarioLocationFactor(s: ScenarioInputs): number {
+  return s.locationPreset === "custom" ? s.locationCustom : presetFactor(s.locationPreset);
+}
+
+function tryComputeScenarioResult(args: Parameters<typeof computeScenarioResult>[0]) {
+  try {
+    return { result: computeScenarioResult(args), error: null as string | null };
+  } catch (e) {
+    return { result: null, error: e instanceof Error ? e.message : "Unknown error" };
+  }
+}
+
+/**
+ * Full per-scenario pipeline:
+ * tier benchmark → interiors override → location + typology → program bias → result
+ * → soft costs / indirects / grand total, plus Key Drivers vs the baseline location + typology.
+ */
+function computeScenarioPipeline(args: {
+  inputs: ScenarioInputs;
+  index: number;
+  library: BenchmarkLibrary;
+  programBias: ProgramBiasResult;
+  softCostsConfig: SoftCostsConfig;
+  indirectsConfig: ConstructionIndirectsConfigV1;
+  costIndexConfig: CostIndexConfigV1;
+  financingConfig: FinancingConfigV1;
+  baselineLocationFactor: number;
+  baselineTypology: TypologyId;
+}): ScenarioComputed {
+  const {
+    inputs,
+    index,
+    library,
+    programBias,
+    softCostsConfig,
+    indirectsConfig,
+    costIndexConfig,
+    financingConfig,
+    baselineLocationFactor,
+    baselineTypology,
+  } = args;
+
+  const region = library.regions.find((r) => r.id === inputs.regionId) ?? library.regions[0];
+  // Phase 1: bring each library tier set from its effective date to the estimate date
+  const tierBenchmark = (tier: TierId): BenchmarkSet | undefined => {
+    const set = region.byTier[tier];
+    return set && applyIndexEscalation(set, computeIndexEscalation(costIndexConfig, region.id, set.effectiveDate));
+  };
+  // A tier removed from the catalogue prices at the default tier until the scenario is re-pointed
+  const mainSet = region.byTier[safeTierId(library.tiers, inputs.tier)];
+  const costIndex = computeIndexEscalation(costIndexConfig, region.id, mainSet.effectiveDate);
+  const baseBenchmark = applyIndexEscalation(mainSet, costIndex);
+  const locationFactor = scenarioLocationFactor(inputs);
+
+  // Phase 2: category-specific tier override (Interiors + Equipment & Furnishings)
+  const interiorOverrideTier: TierId | null =
+    inputs.interiorTierOverride === "match" ? null : (inputs.interiorTierOverride as TierId);
+
+  const mixedBenchmark = interiorOverrideTier
+    ? mixBenchmarkSetsByCategory({
+        base: baseBenchmark,
+        override: tierBenchmark(interiorOverrideTier) ?? baseBenchmark,
+        categories: ["INTERNAL_FINISHES", "FF_E"],
+        nameSuffix: ` — Interior:${tierLabel(interiorOverrideTier, library.tiers)}`,
+      })
+    : baseBenchmark;
+
+  // Phase 3: Apply Location (global multiplier with damping on Interiors & FF&E) + Typology modifiers
+  const benchmark = applyProgramBias(buildAdjustedBenchmark(mixedBenchmark, locationFactor, inputs.typology), programBias);
+
+  const selections = Object.values(inputs.selections);
+  // Quantity items are explicit allowances: they are not location / typology adjusted
+  const quantityItems = inputs.quantityItems;
+
+  // Additional buildings share the region + location; the interiors package and program bias describe the main residence only
+  const buildingBenchmark = (b: ScenarioBuilding, loc: number, typology: TypologyId) =>
+    buildAdjustedBenchmark(tierBenchmark(b.tier) ?? baseBenchmark, loc, typology);
+  const priceBuilding = (b: ScenarioBuilding, loc: number, typology: TypologyId) =>
+    tryComputeScenarioResult({
+      areaSqft: b.areaSqft,
+      benchmark: buildingBenchmark(b, loc, typology),
+      selections: Object.values(b.selections),
+    });
+
+  const buildingRates = (tier: TierId, typology: TypologyId, override: BuildingIndirectRates | null): IndirectRates => {
+    const tierRates = getRatesForTier(indirectsConfig, tier, library.tiers);
+    return override ? { ...override, feeBase: tierRates.feeBase } : applyTypologyToIndirectRates(tierRates, typology);
+  };
+
+  const main = tryComputeScenarioResult({ areaSqft: inputs.areaSqft, benchmark, selections, quantityItems });
+  const buildings: BuildingComputed[] = [
+    {
+      id: inputs.id,
+      name: inputs.mainBuildingName,
+      isMain: true,
+      areaSqft: inputs.areaSqft,
+      tier: inputs.tier,
+      typology: inputs.typology,
+      benchmark,
+      selections,
+      result: main.result,
+      error: main.error,
+      // Construction Indirects (US) — derived from direct hard cost totals, typology-adjusted
+      indirects: main.result
+        ? computeConstructionIndirects({
+            directHardCost: main.result.totalCost,
+            areaSqft: inputs.areaSqft,
+            rates: buildingRates(inputs.tier, inputs.typology, null),
+          })
+        : null,
+    },
+    ...inputs.buildings.map((b): BuildingComputed => {
+      const priced = priceBuilding(b, locationFactor, b.typology);
+      return {
+        id: b.id,
+        name: b.name,
+        isMain: false,
+        areaSqft: b.areaSqft,
+        tier: b.tier,
+        typology: b.typology,
+        benchmark: buildingBenchmark(b, locationFactor, b.typology),
+        selections: Object.values(b.selections),
+        result: priced.result,
+        error: priced.error,
+        indirects: priced.result
+          ? computeConstructionIndirects({
+              directHardCost: priced.result.totalCost,
+              areaSqft: b.areaSqft,
+              rates: buildingRates(b.tier, b.typology, b.indirectRates),
+            })
+          : null,
+      };
+    }),
+  ];
+
+  const failed = buildings.find((b) => b.error);
+  const error = failed ? (buildings.length > 1 ? `${failed.name}: ${failed.error}` : failed.error) : null;
+  const buildingResults = buildings.map((b) => b.result).filter(isPresent);
+  const result = !error && buildingResults.length === buildings.length ? combineScenarioResults(buildingResults, benchmark) : null;
+  const indirects = result ? combineConstructionIndirects(buildings.map((b) => b.indirects).filter(isPresent), result.areaSqft) : null;
+
+  const tierSoftCosts = resolveSoftCostsForTier(softCostsConfig, safeTierId(library.tiers, inputs.tier));
+  const soft = result ? computeCashflowSchedule(result, tierSoftCosts, indirects?.totalIndirects) : null;
+
+  // Construction loan carry over the monthly cashflow
+  const financing =
+    result && indirects
+      ? computeProjectFinancing({
+          result,
+          softCostsConfig: tierSoftCosts,
+          indirectsAmount: indirects.totalIndirects,
+          landCost: inputs.landCost || 0,
+          config: financingConfig,
+        })
+      : null;
+
+  // Phase 2: Grand Total (Direct Hard + Construction Indirects + Soft Costs + Escalation + Financing)
+  const grandTotal: GrandTotalBreakdown | null =
+    result && indirects && soft
+      ? {
+          constructionContract: indirects.contractTotal,
+          landAcquisition: inputs.landCost || 0,
+          ownerSoft: soft.totals.softBase,
+          escalation: soft.totals.escalationAmount,
+          financing: financing?.carry ?? 0,
+          grandTotal:
+            indirects.contractTotal + (inputs.landCost || 0) + soft.totals.softBase + soft.totals.escalationAmount + (financing?.carry ?? 0),
+        }
+      : null;
+
+  // Key Drivers — DIRECT Hard Costs vs a baseline typology / baseline location (every building re-priced)
+  const priceProject = (loc: number, typology: TypologyId | null): ScenarioResult | null => {
+    const m = tryComputeScenarioResult({
+      areaSqft: inputs.areaSqft,
+      benchmark: buildAdjustedBenchmark(mixedBenchmark, loc, typology ?? inputs.typology),
+      selections,
+      quantityItems,
+    }).result;
+    const others = inputs.buildings.map((b) => priceBuilding(b, loc, typology ?? b.typology).result);
+    const priced = others.filter(isPresent);
+    return m && priced.length === others.length ? combineScenarioResults([m, ...priced], benchmark) : null;
+  };
+  const typologyBaseline = priceProject(locationFactor, baselineTypology);
+  const locationBaseline = priceProject(baselineLocationFactor, null);
+
+  return {
+    inputs,
+    letter: scenarioLetter(index),
+    region,
+    locationFactor,
+    interiorOverrideTier,
+    mixedBenchmark,
+    benchmark,
+    costIndex,
+    result,
+    error,
+    buildings,
+    overrides: listRateOverrides({ areaSqft: inputs.areaSqft, benchmark, selections }),
+    watchouts: result ? computeWatchouts({ result }) : [],
+    softCostsConfig: tierSoftCosts,
+    soft,
+    indirects,
+    financing,
+    grandTotal,
+    driversTypology: result && typologyBaseline ? computeDriverLines({ scenario: result, baseline: typologyBaseline }) : null,
+    driversLocation: result && locationBaseline ? computeDriverLines({ scenario: result, baseline: locationBaseline }) : null,
+  };
+}
+
+function parseLooseNumber(raw: string, inputMode: "numeric" | "decimal"): number | null {
+  const cleaned = inputMode === "numeric" ? raw.replace(/[^0-9]/g, "") : raw.trim();
+  const n = Number(cleaned);
+  return cleaned !== "" && Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Text input that keeps whatever the user typed (commas, partial decimals)
+ * and only commits values that parse to a positive number.
+ */
+function LooseNumberInput(props: {
+  value: number;
+  onCommit: (n: number) => void;
+  inputMode?: "numeric" | "decimal";
+  className?: string;
+}) {
+  const { value, onCommit, inputMode = "numeric", className } = props;
+  const [raw, setRaw] = useState<string>(() => String(value));
+
+  // Keep in sync when the value is set elsewhere (N4S context, unit change), without clobbering typing
+  useEffect(() => {
+    setRaw((prev) => (parseLooseNumber(prev, inputMode) === value ? prev : String(value)));
+  }, [value, inputMode]);
+
+  return (
+    <input
+      type="text"
+      className={className}
+      inputMode={inputMode}
+      value={raw}
+      onChange={(e) => {
+        setRaw(e.target.value);
+        const n = parseLooseNumber(e.target.value, inputMode);
+        if (n !== null) onCommit(n);
+      }}
+    />
+  );
+}
+
 export default function App() {
-  const [areaSqft, setAreaSqft] = useState<number>(15000);
-  // Keep a string input for Lite view so users can type commas etc (syncs to numeric areaSqft)
-  const [areaSqftInput, setAreaSqftInput] = useState<string>(() => String(areaSqft));
+  // Project-level display unit. Areas + all benchmarks stay canonical (sq ft);
+  // only inputs/labels/exports are converted.
+  const [areaUnit, setAreaUnit] = useState<AreaUnit>(() => {
+    try {
+      const raw = localStorage.getItem("vmx_area_unit_v1");
+      return isAreaUnit(raw) ? raw : "sqft";
+    } catch {
+      return "sqft";
+    }
+  });
 
   useEffect(() => {
-    // Keep input in sync when areaSqft is set from N4S context or other UI
-    setAreaSqftInput(String(areaSqft));
-  }, [areaSqft]);
+    try {
+      localStorage.setItem("vmx_area_unit_v1", areaUnit);
+    } catch {
+      // ignore
+    }
+  }, [areaUnit]);
 
+  const unitLabel = areaUnitLabel(areaUnit);
 
   const [showDocs, setShowDocs] = useState(false);
   const [showGuardrails, setShowGuardrails] = useState(false);
@@ -501,6 +826,41 @@ export default function App() {
     saveConstructionIndirectsConfig(constructionIndirectsConfig);
   }, [constructionIndirectsConfig]);
 
+  // Closed-out project actuals used to derive benchmark bands
+  const [historicalDataset, setHistoricalDataset] = useState<HistoricalDatasetV1>(() => loadHistoricalDataset());
+
+  useEffect(() => {
+    saveHistoricalDataset(historicalDataset);
+  }, [historicalDataset]);
+
+  // Cost index table + estimate date (escalates library rates from their effective date)
+  const [costIndexConfig, setCostIndexConfig] = useState<CostIndexConfigV1>(() => loadCostIndexConfig());
+
+  useEffect(() => {
+    saveCostIndexConfig(costIndexConfig);
+  }, [costIndexConfig]);
+
+  // Uncertainty mode (Monte Carlo P10 / P50 / P90)
+  const [uncertaintyConfig, setUncertaintyConfig] = useState<UncertaintyConfigV1>(() => loadUncertaintyConfig());
+
+  useEffect(() => {
+    saveUncertaintyConfig(uncertaintyConfig);
+  }, [uncertaintyConfig]);
+
+  // Construction loan (capitalised interest + fees in the Grand Total)
+  const [financingConfig, setFinancingConfig] = useState<FinancingConfigV1>(() => loadFinancingConfig());
+
+  useEffect(() => {
+    saveFinancingConfig(financingConfig);
+  }, [financingConfig]);
+
+  // Sensitivity / tornado flex ranges
+  const [sensitivitySettings, setSensitivitySettings] = useState<SensitivitySettings>(() => loadSensitivitySettings());
+
+  useEffect(() => {
+    saveSensitivitySettings(sensitivitySettings);
+  }, [sensitivitySettings]);
+
   useEffect(() => {
     const cleanup = () => document.body.classList.remove("print-vmx-report");
     window.addEventListener("afterprint", cleanup);
@@ -511,6 +871,7 @@ export default function App() {
     // Close any overlays first so the report prints cleanly
     setShowDocs(false);
     setShowGuardrails(false);
+    referenceLibraryVersion();
 
     // Print mode class enables report-friendly CSS
     document.body.classList.add("print-vmx-report");
@@ -531,14 +892,7 @@ export default function App() {
     });
   };
 
-  const [selA, setSelA] = useState<Record<VmxCategoryId, ScenarioSelection>>(buildDefaultSelections());
-  const [selB, setSelB] = useState<Record<VmxCategoryId, ScenarioSelection>>(buildDefaultSelections());
-
   const [library, setLibrary] = useState<BenchmarkLibrary>(() => getInitialLibrary());
-  const initialSel = useMemo(() => getInitialSelection(library), [library]);
-
-  const [regionAId, setRegionAId] = useState<string>(initialSel.regionId);
-  const [tier, setTier] = useState<TierId>(initialSel.tier);
 
   const [compareMode, setCompareMode] = useState<boolean>(() => {
     try {
@@ -548,92 +902,84 @@ export default function App() {
     }
   });
 
-  const [regionBId, setRegionBId] = useState<string>(() => {
-    try {
-      return localStorage.getItem("vmx_compare_region_b_v1") || pickSecondRegionId(library, initialSel.regionId);
-    } catch {
-      return pickSecondRegionId(library, initialSel.regionId);
-    }
-  });
-
-  // Phase 2: Location multipliers (Baseline × Location)
-  const [locationAPreset, setLocationAPreset] = useState<string>(() => {
-    try {
-      return localStorage.getItem("vmx_location_a_preset_v1") || "national";
-    } catch {
-      return "national";
-    }
-  });
-  const [locationACustom, setLocationACustom] = useState<number>(() => {
-    try {
-      const raw = localStorage.getItem("vmx_location_a_custom_v1");
-      const parsed = raw ? Number(raw) : 1.0;
-      return Number.isFinite(parsed) && parsed > 0 ? parsed : 1.0;
-    } catch {
-      return 1.0;
-    }
-  });
-
-  const [locationBPreset, setLocationBPreset] = useState<string>(() => {
-    try {
-      return localStorage.getItem("vmx_location_b_preset_v1") || "national";
-    } catch {
-      return "national";
-    }
-  });
-  const [locationBCustom, setLocationBCustom] = useState<number>(() => {
-    try {
-      const raw = localStorage.getItem("vmx_location_b_custom_v1");
-      const parsed = raw ? Number(raw) : 1.0;
-      return Number.isFinite(parsed) && parsed > 0 ? parsed : 1.0;
-    } catch {
-      return 1.0;
-    }
+  // Scenario collection (any number of scenarios; one is the delta baseline)
+  const [scenarioCollection, setScenarioCollection] = useState<ScenarioCollectionV1>(() => {
+    const initialSel = getInitialSelection(library);
+    return loadScenarioCollection({
+      regionIds: library.regions.map((r) => r.id),
+      defaultRegionId: initialSel.regionId,
+      secondRegionId: pickSecondRegionId(library, initialSel.regionId),
+      defaultTier: initialSel.tier,
+    });
   });
 
-  // String input states for custom location multipliers (for controlled inputs)
-  const [locationFactorAInput, setLocationFactorAInput] = useState<string>(() => String(locationACustom));
-  const [locationFactorBInput, setLocationFactorBInput] = useState<string>(() => String(locationBCustom));
+  const scenarios = scenarioCollection.scenarios;
+  const deltaBaselineId = scenarioCollection.baselineId;
+  const primaryScenario = scenarios[0];
 
-  // Sync string inputs when numeric values change
   useEffect(() => {
-    setLocationFactorAInput(String(locationACustom));
-  }, [locationACustom]);
+    saveScenarioCollection(scenarioCollection);
+  }, [scenarioCollection]);
+
+  function updateScenario(id: string, patch: Partial<ScenarioInputs>) {
+    setScenarioCollection((prev) => ({
+      ...prev,
+      scenarios: prev.scenarios.map((s) => (s.id === id ? { ...s, ...patch } : s)),
+    }));
+  }
 
-  useEffect(() => {
-    setLocationFactorBInput(String(locationBCustom));
-  }, [locationBCustom]);
+  function setScenarioBand(id: string, categoryId: VmxCategoryId, band: HeatBand) {
+    setScenarioCollection((prev) => ({
+      ...prev,
+      scenarios: prev.scenarios.map((s) =>
+        s.id === id ? { ...s, selections: { ...s.selections, [categoryId]: { ...s.selections[categoryId], band } } } : s
+      ),
+    }));
+  }
 
-  // Parse string inputs back to numbers
-  useEffect(() => {
-    const n = Number(locationFactorAInput);
-    if (Number.isFinite(n) && n > 0) setLocationACustom(n);
-  }, [locationFactorAInput]);
+  function setScenarioOverride(id: string, categoryId: VmxCategoryId, override: RateOverride | null) {
+    setScenarioCollection((prev) => ({
+      ...prev,
+      scenarios: prev.scenarios.map((s) => {
+        if (s.id !== id) return s;
+        const band = s.selections[categoryId]?.band ?? "MEDIUM";
+        const next: ScenarioSelection = override
+          ? { categoryId, band, overridePsqft: override.psqft, overrideReason: override.reason, overrideSource: override.source }
+          : { categoryId, band };
+        return { ...s, selections: { ...s.selections, [categoryId]: next } };
+      }),
+    }));
+  }
 
-  useEffect(() => {
-    const n = Number(locationFactorBInput);
-    if (Number.isFinite(n) && n > 0) setLocationBCustom(n);
-  }, [locationFactorBInput]);
+  function addScenario(sourceId?: string) {
+    setScenarioCollection((prev) => {
+      if (prev.scenarios.length >= MAX_SCENARIOS) return prev;
+      const source = prev.scenarios.find((s) => s.id === sourceId) ?? prev.scenarios[prev.scenarios.length - 1];
+      const next = duplicateScenario(source, nextScenarioName(prev.scenarios));
+      return { ...prev, scenarios: [...prev.scenarios, next] };
+    });
+    setCompareMode(true);
+  }
 
-  const locationFactorA = locationAPreset === "custom" ? locationACustom : presetFactor(locationAPreset);
-  const locationFactorB = locationBPreset === "custom" ? locationBCustom : presetFactor(locationBPreset);
+  function removeScenario(id: string) {
+    setScenarioCollection((prev) => {
+      if (prev.scenarios.length <= 1) return prev;
+      const remaining = prev.scenarios.filter((s) => s.id !== id);
+      return {
+        ...prev,
+        scenarios: remaining,
+        baselineId: prev.baselineId === id ? remaining[0].id : prev.baselineId,
+      };
+    });
+  }
 
-  // Phase 3: Typology modifiers (site conditions)
-  const [typologyA, setTypologyA] = useState<TypologyId>(() => {
-    try {
-      return (localStorage.getItem("vmx_typology_a_v1") as TypologyId) || "suburban";
-    } catch {
-      return "suburban";
-    }
-  });
+  function moveScenarioBy(id: string, dir: -1 | 1) {
+    setScenarioCollection((prev) => ({ ...prev, scenarios: moveScenario(prev.scenarios, id, dir) }));
+  }
 
-  const [typologyB, setTypologyB] = useState<TypologyId>(() => {
-    try {
-      return (localStorage.getItem("vmx_typology_b_v1") as TypologyId) || "suburban";
-    } catch {
-      return "suburban";
-    }
-  });
+  function setDeltaBaselineId(id: string) {
+    setScenarioCollection((prev) => (prev.scenarios.some((s) => s.id === id) ? { ...prev, baselineId: id } : prev));
+  }
 
   // Baselines used in Key Drivers comparisons
   const [baselineLocationPreset, setBaselineLocationPreset] = useState<string>(() => {
@@ -672,6 +1018,8 @@ export default function App() {
   // ---------------------------------------------------------------------------
 
   type VmxIncomingScenario = {
+    name?: string;
+    /** Always sq ft, regardless of areaUnit */
     areaSqft?: number;
     tier?: TierId;
     regionId?: string;
@@ -687,8 +1035,14 @@ export default function App() {
     clientName?: string;
     projectName?: string;
     compareMode?: boolean;
+    areaUnit?: AreaUnit;
+    /** Legacy pair (mapped to the first two scenarios) */
     scenarioA?: VmxIncomingScenario;
     scenarioB?: VmxIncomingScenario;
+    /** Any number of scenarios, in order (replaces the current collection) */
+    scenarios?: VmxIncomingScenario[];
+    /** Index into `scenarios` used as the delta baseline */
+    baselineIndex?: number;
   };
 
   type N4SProjectEntry = {
@@ -721,26 +1075,6 @@ export default function App() {
     }
   });
 
-  const [landCostA, setLandCostA] = useState<number>(() => {
-    try {
-      const raw = localStorage.getItem("vmx_land_cost_a_v1");
-      const parsed = raw ? Number(raw) : 0;
-      return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
-    } catch {
-      return 0;
-    }
-  });
-
-  const [landCostB, setLandCostB] = useState<number>(() => {
-    try {
-      const raw = localStorage.getItem("vmx_land_cost_b_v1");
-      const parsed = raw ? Number(raw) : 0;
-      return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
-    } catch {
-      return 0;
-    }
-  });
-
   const [programProfile, setProgramProfile] = useState<VmxProgramProfile | null>(() => {
     try {
       const raw = localStorage.getItem("vmx_program_profile_v1");
@@ -775,6 +1109,22 @@ export default function App() {
     return TYPOLOGY_PRESETS.some((tp) => tp.id === id) ? (id as TypologyId) : null;
   }
 
+  function applyIncomingScenario(target: ScenarioInputs, inc: VmxIncomingScenario): ScenarioInputs {
+    const next = { ...target };
+    if (typeof inc.name === "string" && inc.name.trim()) next.name = inc.name.trim();
+    if (typeof inc.areaSqft === "number" && Number.isFinite(inc.areaSqft) && inc.areaSqft > 0) next.areaSqft = Math.round(inc.areaSqft);
+    if (inc.tier && library.tiers.some((t) => t.id === inc.tier)) next.tier = inc.tier;
+    const rid = safeRegionId(inc.regionId);
+    if (rid) next.regionId = rid;
+    const lp = safePresetId(inc.locationPreset);
+    if (lp) next.locationPreset = lp;
+    if (typeof inc.locationCustom === "number" && Number.isFinite(inc.locationCustom)) next.locationCustom = inc.locationCustom;
+    const tp = safeTypologyId(inc.typology);
+    if (tp) next.typology = tp;
+    if (typeof inc.landCost === "number" && Number.isFinite(inc.landCost) && inc.landCost >= 0) next.landCost = inc.landCost;
+    return next;
+  }
+
   function applyIncomingContext(ctx: VmxIncomingContextV1) {
     if (!ctx || ctx.version !== 1) return;
 
@@ -783,32 +1133,29 @@ export default function App() {
     if (typeof ctx.projectId === "string") setN4sProjectId(ctx.projectId);
 
     if (typeof ctx.compareMode === "boolean") setCompareMode(ctx.compareMode);
-
-    const a = ctx.scenarioA;
-    if (a) {
-      if (typeof a.areaSqft === "number" && Number.isFinite(a.areaSqft) && a.areaSqft > 0) setAreaSqft(Math.round(a.areaSqft));
-      if (a.tier && TIERS.includes(a.tier)) setTier(a.tier);
-      const ridA = safeRegionId(a.regionId);
-      if (ridA) setRegionAId(ridA);
-      const lpA = safePresetId(a.locationPreset);
-      if (lpA) setLocationAPreset(lpA);
-      if (typeof a.locationCustom === "number" && Number.isFinite(a.locationCustom)) setLocationACustom(a.locationCustom);
-      const tpA = safeTypologyId(a.typology);
-      if (tpA) setTypologyA(tpA);
-      if (typeof a.landCost === "number" && Number.isFinite(a.landCost) && a.landCost >= 0) setLandCostA(a.landCost);
-    }
-
-    const b = ctx.scenarioB;
-    if (b) {
-      const ridB = safeRegionId(b.regionId);
-      if (ridB) setRegionBId(ridB);
-      const lpB = safePresetId(b.locationPreset);
-      if (lpB) setLocationBPreset(lpB);
-      if (typeof b.locationCustom === "number" && Number.isFinite(b.locationCustom)) setLocationBCustom(b.locationCustom);
-      const tpB = safeTypologyId(b.typology);
-      if (tpB) setTypologyB(tpB);
-      if (typeof b.landCost === "number" && Number.isFinite(b.landCost) && b.landCost >= 0) setLandCostB(b.landCost);
-    }
+    if (isAreaUnit(ctx.areaUnit)) setAreaUnit(ctx.areaUnit);
+
+    // `scenarios` (N-way) wins over the legacy scenarioA / scenarioB pair
+    const incoming: (VmxIncomingScenario | undefined)[] =
+      Array.isArray(ctx.scenarios) && ctx.scenarios.length > 0
+        ? ctx.scenarios.slice(0, MAX_SCENARIOS)
+        : [ctx.scenarioA, ctx.scenarioB];
+    if (!incoming.some(Boolean)) return;
+
+    setScenarioCollection((prev) => {
+      const list = [...prev.scenarios];
+      incoming.forEach((inc, idx) => {
+        if (!inc) return;
+        const base = list[idx] ?? duplicateScenario(list[list.length - 1], nextScenarioName(list));
+        list[idx] = applyIncomingScenario(base, inc);
+      });
+      const scenariosNext = Array.isArray(ctx.scenarios) && ctx.scenarios.length > 0 ? list.slice(0, incoming.length) : list;
+      const baselineFromCtx =
+        typeof ctx.baselineIndex === "number" ? scenariosNext[Math.floor(ctx.baselineIndex)]?.id : undefined;
+      const baselineId =
+        baselineFromCtx ?? (scenariosNext.some((s) => s.id === prev.baselineId) ? prev.baselineId : scenariosNext[0].id);
+      return { ...prev, scenarios: scenariosNext, baselineId };
+    });
   }
 
   // Persist key integration fields locally (so VMX works standalone too)
@@ -817,12 +1164,10 @@ export default function App() {
       localStorage.setItem("vmx_n4s_client_name_v1", n4sClientName || "");
       localStorage.setItem("vmx_n4s_project_name_v1", n4sProjectName || "");
       localStorage.setItem("vmx_n4s_project_id_v1", n4sProjectId || "");
-      localStorage.setItem("vmx_land_cost_a_v1", String(landCostA || 0));
-      localStorage.setItem("vmx_land_cost_b_v1", String(landCostB || 0));
     } catch {
       // ignore
     }
-  }, [n4sClientName, n4sProjectName, n4sProjectId, landCostA, landCostB]);
+  }, [n4sClientName, n4sProjectName, n4sProjectId]);
 
   // Bootstrap from N4S host if provided
   useEffect(() => {
@@ -848,46 +1193,13 @@ export default function App() {
 
   useEffect(() => {
     try {
-      localStorage.setItem("vmx_location_a_preset_v1", locationAPreset);
-      localStorage.setItem("vmx_location_a_custom_v1", String(locationACustom));
-      localStorage.setItem("vmx_location_b_preset_v1", locationBPreset);
-      localStorage.setItem("vmx_location_b_custom_v1", String(locationBCustom));
-    } catch {
-      // ignore
-    }
-  }, [locationAPreset, locationACustom, locationBPreset, locationBCustom]);
-
-
-  useEffect(() => {
-    try {
-      localStorage.setItem("vmx_typology_a_v1", typologyA);
-      localStorage.setItem("vmx_typology_b_v1", typologyB);
       localStorage.setItem("vmx_baseline_location_preset_v1", baselineLocationPreset);
       localStorage.setItem("vmx_baseline_location_custom_v1", String(baselineLocationCustom));
       localStorage.setItem("vmx_baseline_typology_v1", baselineTypology);
     } catch {
       // ignore
     }
-  }, [typologyA, typologyB, baselineLocationPreset, baselineLocationCustom, baselineTypology]);
-
-  // Phase 2: 4-tier override for Interiors + Equipment & Furnishings (finishes + FF&E)
-  const [interiorTierOverride, setInteriorTierOverride] = useState<string>(() => {
-    try {
-      return localStorage.getItem("vmx_interior_tier_override_v1") || "match";
-    } catch {
-      return "match";
-    }
-  });
-
-  useEffect(() => {
-    try {
-      localStorage.setItem("vmx_interior_tier_override_v1", interiorTierOverride);
-    } catch {
-      // ignore
-    }
-  }, [interiorTierOverride]);
-
-
+  }, [baselineLocationPreset, baselineLocationCustom, baselineTypology]);
 
   const [deltaMediumThr, setDeltaMediumThr] = useState<number>(() => {
     try {
@@ -1004,28 +1316,52 @@ export default function App() {
   });
 
 
+  // Keep every scenario pointing at a region that still exists
   useEffect(() => {
-    if (!library.regions.some((r) => r.id === regionAId)) {
-      setRegionAId(library.regions[0].id);
-    }
-    if (!library.regions.some((r) => r.id === regionBId)) {
-      setRegionBId(pickSecondRegionId(library, regionAId));
-    }
+    const ids = new Set(library.regions.map((r) => r.id));
+    if (scenarios.every((s) => ids.has(s.regionId))) return;
+    setScenarioCollection((prev) => ({
+      ...prev,
+      scenarios: prev.scenarios.map((s) => (ids.has(s.regionId) ? s : { ...s, regionId: library.regions[0].id })),
+    }));
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [library]);
 
+  // …and at tiers that are still in the catalogue (removed tiers fall back to the default tier)
+  useEffect(() => {
+    const known = (t: string) => library.tiers.some((x) => x.id === t);
+    const fallback = defaultTierId(library.tiers);
+    const stale = (s: ScenarioInputs) =>
+      !known(s.tier) || (s.interiorTierOverride !== "match" && !known(s.interiorTierOverride)) || s.buildings.some((b) => !known(b.tier));
+    if (!scenarios.some(stale)) return;
+    setScenarioCollection((prev) => ({
+      ...prev,
+      scenarios: prev.scenarios.map((s) =>
+        stale(s)
+          ? {
+              ...s,
+              tier: known(s.tier) ? s.tier : fallback,
+              interiorTierOverride: s.interiorTierOverride === "match" || known(s.interiorTierOverride) ? s.interiorTierOverride : "match",
+              buildings: s.buildings.map((b) => (known(b.tier) ? b : { ...b, tier: fallback })),
+            }
+          : s
+      ),
+    }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [library.tiers]);
+
+  // The primary scenario drives the library's remembered region + tier
   useEffect(() => {
-    saveSelection(regionAId, tier);
-  }, [regionAId, tier]);
+    saveSelection(primaryScenario.regionId, primaryScenario.tier);
+  }, [primaryScenario.regionId, primaryScenario.tier]);
 
   useEffect(() => {
     try {
       localStorage.setItem("vmx_compare_mode_v1", String(compareMode));
-      localStorage.setItem("vmx_compare_region_b_v1", regionBId);
     } catch {
       // ignore
     }
-  }, [compareMode, regionBId]);
+  }, [compareMode]);
 
   useEffect(() => {
     try {
@@ -1046,6 +1382,31 @@ export default function App() {
     }
   }, [library]);
 
+  // Library version history: every library change becomes (or extends) a version
+  const [libraryHistory, setLibraryHistory] = useState<LibraryHistoryV1>(() => loadLibraryHistory());
+
+  useEffect(() => {
+    setLibraryHistory((h) => recordLibraryVersion(h, library, new Date().toISOString()));
+  }, [library]);
+
+  useEffect(() => {
+    saveLibraryHistory(libraryHistory);
+  }, [libraryHistory]);
+
+  const libraryVersion = useMemo(() => libraryVersionRef(libraryHistory), [libraryHistory]);
+
+  /** The version an estimate is about to record; it is frozen so the record keeps pointing at these rates */
+  function referenceLibraryVersion() {
+    if (libraryVersion) setLibraryHistory((h) => markLibraryVersionReferenced(h, libraryVersion.id));
+    return libraryVersion;
+  }
+
+  /** Library change that should stand as its own, labelled version (reset, rollback) */
+  function commitLibraryVersion(next: BenchmarkLibrary, note: string) {
+    setLibrary(next);
+    setLibraryHistory((h) => recordLibraryVersion(h, next, new Date().toISOString(), note));
+  }
+
   const autoStampRef = React.useRef(false);
   useEffect(() => {
     // Only stamp after initial mount, and only if enabled
@@ -1062,408 +1423,432 @@ export default function App() {
 
   const programBias = useMemo(() => computeProgramBiasFromProfile(programProfile), [programProfile]);
 
-  const regionA = library.regions.find((r) => r.id === regionAId) ?? library.regions[0];
-  const regionB = library.regions.find((r) => r.id === regionBId) ?? library.regions[0];
+  // Compare off → only the primary scenario is computed/shown
+  const activeScenarios = useMemo(() => (compareMode ? scenarios : scenarios.slice(0, 1)), [compareMode, scenarios]);
+
+  const computedScenarios: ScenarioComputed[] = useMemo(
+    () =>
+      activeScenarios.map((inputs, index) =>
+        computeScenarioPipeline({
+          inputs,
+          index,
+          library,
+          programBias,
+          softCostsConfig,
+          indirectsConfig: constructionIndirectsConfig,
+          costIndexConfig,
+          financingConfig,
+          baselineLocationFactor,
+          baselineTypology,
+        })
+      ),
+    [
+      activeScenarios,
+      library,
+      programBias,
+      softCostsConfig,
+      constructionIndirectsConfig,
+      costIndexConfig,
+      financingConfig,
+      baselineLocationFactor,
+      baselineTypology,
+    ]
+  );
 
-  const baseBenchmarkA: BenchmarkSet = regionA.byTier[tier];
-  const baseBenchmarkB: BenchmarkSet = regionB.byTier[tier];
+  // Keyed by scenario id; empty when uncertainty mode is off
+  const uncertaintyResults: Record<string, MonteCarloResult | null> = useMemo(() => {
+    if (!uncertaintyConfig.enabled) return {};
+    const out: Record<string, MonteCarloResult | null> = {};
+    for (const c of computedScenarios) {
+      out[c.inputs.id] =
+        c.result && c.indirects
+          ? runMonteCarlo({
+              result: c.result,
+              // Each building against its own bands and indirect rates
+              buildings: c.buildings.flatMap((b) =>
+                b.result && b.indirects
+                  ? [
+                      {
+                        result: b.result,
+                        benchmark: b.benchmark,
+                        selections: b.selections,
+                        typologyCategories: Object.keys(TYPOLOGY_CATEGORY_FACTORS[b.typology] || {}) as VmxCategoryId[],
+                        indirectRates: b.indirects.ratesUsed,
+                      },
+                    ]
+                  : []
+              ),
+              softCostsConfig: c.softCostsConfig,
+              landCost: c.inputs.landCost,
+              financingConfig,
+              config: uncertaintyConfig,
+            })
+          : null;
+    }
+    return out;
+  }, [computedScenarios, financingConfig, uncertaintyConfig]);
+
+  // Keyed by scenario id. Location + typology flexes rebuild the priced benchmark the same way the pipeline does.
+  const sensitivityResults: Record<string, SensitivityResult | null> = useMemo(() => {
+    const out: Record<string, SensitivityResult | null> = {};
+    for (const c of computedScenarios) {
+      if (!c.result || !c.indirects) {
+        out[c.inputs.id] = null;
+        continue;
+      }
+      const tierRates = getRatesForTier(constructionIndirectsConfig, c.inputs.tier, library.tiers);
+      const inputsFor = (locationFactor: number, typology: TypologyId): SensitivityInputs => ({
+        areaSqft: c.inputs.areaSqft,
+        benchmark: applyProgramBias(buildAdjustedBenchmark(c.mixedBenchmark, locationFactor, typology), programBias),
+        selections: Object.values(c.inputs.selections),
+        indirectRates: applyTypologyToIndirectRates(tierRates, typology),
+        softCostsConfig: c.softCostsConfig,
+        landCost: c.inputs.landCost || 0,
+        quantityItems: c.inputs.quantityItems,
+        otherBuildings: otherPricedBuildings(c.buildings),
+        financingConfig,
+      });
+      const base = inputsFor(c.locationFactor, c.inputs.typology);
+
+      const locLo = Math.max(0.5, c.locationFactor - sensitivitySettings.locationSwing);
+      const locHi = c.locationFactor + sensitivitySettings.locationSwing;
+      const flexes: SensitivityFlex[] = [
+        ...buildStandardFlexes(base, sensitivitySettings),
+        {
+          id: "location",
+          label: "Location factor",
+          group: "location",
+          low: { label: `×${locLo.toFixed(2)}`, inputs: inputsFor(locLo, c.inputs.typology) },
+          high: { label: `×${locHi.toFixed(2)}`, inputs: inputsFor(locHi, c.inputs.typology) },
+        },
+      ];
+
+      // Typology: cheapest vs most expensive site type for this scenario
+      const byTypology = TYPOLOGY_PRESETS.map((t) => {
+        const inputs = inputsFor(c.locationFactor, t.id);
+        return { t, inputs, total: grandTotalFor(inputs) };
+      }).filter((x): x is typeof x & { total: number } => x.total !== null);
+      if (byTypology.length > 1) {
+        const sorted = [...byTypology].sort((a, b) => a.total - b.total);
+        const cheapest = sorted[0];
+        const dearest = sorted[sorted.length - 1];
+        flexes.push({
+          id: "typology",
+          label: "Typology",
+          group: "typology",
+          low: { label: cheapest.t.label, inputs: cheapest.inputs },
+          high: { label: dearest.t.label, inputs: dearest.inputs },
+        });
+      }
 
-  // Phase 2: category-specific tier override (Interiors + Equipment & Furnishings)
-  const interiorOverrideTier: TierId | null =
-    interiorTierOverride === "match" ? null : (interiorTierOverride as TierId);
-
-  const mixedBenchmarkA = useMemo(() => {
-    if (!interiorOverrideTier) return baseBenchmarkA;
-    const override = regionA.byTier[interiorOverrideTier] ?? baseBenchmarkA;
-    return mixBenchmarkSetsByCategory({
-      base: baseBenchmarkA,
-      override,
-      categories: ["INTERNAL_FINISHES", "FF_E"],
-      nameSuffix: ` — Interior:${tierLabel(interiorOverrideTier)}`,
-    });
-  }, [baseBenchmarkA, regionA, interiorOverrideTier]);
-
-  const mixedBenchmarkB = useMemo(() => {
-    if (!interiorOverrideTier) return baseBenchmarkB;
-    const override = regionB.byTier[interiorOverrideTier] ?? baseBenchmarkB;
-    return mixBenchmarkSetsByCategory({
-      base: baseBenchmarkB,
-      override,
-      categories: ["INTERNAL_FINISHES", "FF_E"],
-      nameSuffix: ` — Interior:${tierLabel(interiorOverrideTier)}`,
-    });
-  }, [baseBenchmarkB, regionB, interiorOverrideTier]);
+      out[c.inputs.id] = computeSensitivity(base, flexes);
+    }
+    return out;
+  }, [computedScenarios, constructionIndirectsConfig, library.tiers, programBias, financingConfig, sensitivitySettings]);
 
-  // Phase 3: Apply Location (global multiplier with damping on Interiors & FF&E) + Typology modifiers
-  const benchmarkA: BenchmarkSet = useMemo(() => {
-    return applyProgramBias(buildAdjustedBenchmark(mixedBenchmarkA, locationFactorA, typologyA), programBias);
-  }, [mixedBenchmarkA, locationFactorA, typologyA, programBias]);
+  const formatRange = (mc: MonteCarloResult | null | undefined) =>
+    mc ? `${formatMoney(mc.grandTotal.p10, currency)} – ${formatMoney(mc.grandTotal.p90, currency)}` : null;
+
+  const primary = computedScenarios[0];
+  const baselineScenario = computedScenarios.find((c) => c.inputs.id === deltaBaselineId) ?? primary;
+  const currency = primary.result?.currency ?? "USD";
+
+  // Benchmark editor target (region + tier). Follows the primary scenario by default.
+  const [adminRegionId, setAdminRegionId] = useState<string>(primary.region.id);
+  useEffect(() => setAdminRegionId(primary.region.id), [primary.region.id]);
+
+  const [adminTierState, setAdminTier] = useState<TierId>(primaryScenario.tier);
+  useEffect(() => setAdminTier(primaryScenario.tier), [primaryScenario.tier]);
+  const adminTier = safeTierId(library.tiers, adminTierState);
 
-  const benchmarkB: BenchmarkSet = useMemo(() => {
-    return applyProgramBias(buildAdjustedBenchmark(mixedBenchmarkB, locationFactorB, typologyB), programBias);
-  }, [mixedBenchmarkB, locationFactorB, typologyB, programBias]);
+  const adminRegion = library.regions.find((r) => r.id === adminRegionId) ?? primary.region;
+  const currentBenchmarkForAdmin: BenchmarkSet = adminRegion.byTier[adminTier];
 
-  const [adminRegionId, setAdminRegionId] = useState<string>(regionA.id);
-  useEffect(() => setAdminRegionId(regionA.id), [regionA.id]);
+  const adminTargetId =
+    computedScenarios.find((c) => c.region.id === adminRegion.id && c.inputs.tier === adminTier)?.inputs.id ?? "";
 
-  const adminRegion = library.regions.find((r) => r.id === adminRegionId) ?? regionA;
-  const currentBenchmarkForAdmin: BenchmarkSet = adminRegion.byTier[tier];
+  function setAdminTarget(scenarioId: string) {
+    const hit = computedScenarios.find((c) => c.inputs.id === scenarioId);
+    if (!hit) return;
+    setAdminRegionId(hit.region.id);
+    setAdminTier(hit.inputs.tier);
+  }
 
   function setCurrentBenchmark(nextBenchmark: BenchmarkSet) {
-    const nextLib = updateBenchmarkForRegionTier(library, adminRegion.id, tier, nextBenchmark);
+    const nextLib = updateBenchmarkForRegionTier(library, adminRegion.id, adminTier, nextBenchmark);
     setLibrary(nextLib);
   }
 
   function resetCurrentTierToDemo() {
-    const nextLib = resetRegionTierToDemo(library, adminRegion.id, tier);
-    setLibrary(nextLib);
+    const nextLib = resetRegionTierToDemo(library, adminRegion.id, adminTier);
+    const to = adminRegion.inherit ? "parent values" : "demo values";
+    commitLibraryVersion(nextLib, `Reset ${adminRegion.name} / ${tierLabel(adminTier, library.tiers)} to ${to}`);
   }
 
-  // IMPORTANT: never set React state inside useMemo.
-  const memoA = useMemo(() => {
-    try {
-      const result = computeScenarioResult({
-        areaSqft,
-        benchmark: benchmarkA,
-        selections: Object.values(selA),
-      });
-      return { result, error: null as string | null };
-    } catch (e) {
-      return { result: null, error: e instanceof Error ? e.message : "Unknown error" };
+  const tierNameById = useMemo(() => (id: string) => tierLabel(id, library.tiers), [library.tiers]);
+
+  // Everything that still uses a tier, listed before it is removed from the catalogue
+  function getTierDependencies(tierId: TierId): string[] {
+    const out: string[] = [];
+    for (const s of scenarios) {
+      if (s.tier === tierId) out.push(`Scenario "${s.name}"`);
+      else if (s.interiorTierOverride === tierId) out.push(`Scenario "${s.name}" (interiors)`);
+      for (const b of s.buildings) if (b.tier === tierId) out.push(`Building "${b.name}" in "${s.name}"`);
+    }
+    const historical = historicalDataset.projects.filter((p) => p.tier === tierId).length;
+    if (historical) out.push(`${historical} historical project(s)`);
+    if (constructionIndirectsConfig.byTier[tierId]) out.push("Edited construction indirect rates");
+    return out;
+  }
+
+  // Everything that still points at a region, listed before it is deleted
+  function getRegionDependencies(regionId: string): string[] {
+    const out: string[] = [];
+    for (const s of scenarios) if (s.regionId === regionId) out.push(`Scenario "${s.name}"`);
+
+    for (const snap of loadSnapshots()) {
+      const used =
+        snap.inputs?.scenarios.scenarios.some((s) => s.regionId === regionId) || snap.benchmarks?.some((b) => b.regionId === regionId);
+      if (used) out.push(`Snapshot "${snap.name}" (${snap.createdAtIso.slice(0, 10)})`);
     }
-  }, [areaSqft, benchmarkA, selA]);
 
-  const memoB = useMemo(() => {
-    if (!compareMode) return { result: null, error: null as string | null };
+    const contextUses = (ctx: VmxIncomingContextV1 | undefined) =>
+      !!ctx && [ctx.scenarioA, ctx.scenarioB, ...(ctx.scenarios ?? [])].some((s) => s?.regionId === regionId);
+    for (const p of n4sProjects) if (contextUses(p.context)) out.push(`N4S project "${p.label}"`);
     try {
-      const result = computeScenarioResult({
-        areaSqft,
-        benchmark: benchmarkB,
-        selections: Object.values(selB),
-      });
-      return { result, error: null as string | null };
-    } catch (e) {
-      return { result: null, error: e instanceof Error ? e.message : "Unknown error" };
+      const win = window as { __N4S_VMX_CONTEXT__?: VmxIncomingContextV1 };
+      if (contextUses(win.__N4S_VMX_CONTEXT__)) out.push("Current N4S host context");
+    } catch {
+      // ignore
     }
-  }, [areaSqft, benchmarkB, selB, compareMode]);
 
-  const resultA = memoA.result;
-  const resultB = memoB.result;
-  const errorA = memoA.error;
-  const errorB = memoB.error;
+    const historical = historicalDataset.projects.filter((p) => p.regionId === regionId).length;
+    if (historical) out.push(`${historical} historical project(s)`);
+    if (costIndexConfig.series.some((s) => s.regionId === regionId)) out.push("Cost index series");
+    return out;
+  }
 
-  const watchoutsA = useMemo(() => (resultA ? computeWatchouts({ result: resultA }) : []), [resultA]);
-  const watchoutsB = useMemo(() => (resultB ? computeWatchouts({ result: resultB }) : []), [resultB]);
+  const deltaSettings: DeltaSettings = useMemo(
+    () => ({
+      mediumThr: deltaMediumThr,
+      highThr: deltaHighThr,
+      sort: deltaSort,
+      driversOnly: deltaDriversOnly,
+      driverMode,
+      driverTopN,
+      driverPctThreshold,
+      driverPctMaxDrivers,
+    }),
+    [deltaMediumThr, deltaHighThr, deltaSort, deltaDriversOnly, driverMode, driverTopN, driverPctThreshold, driverPctMaxDrivers]
+  );
 
-  function setBandA(categoryId: VmxCategoryId, band: HeatBand) {
-    setSelA((prev) => ({ ...prev, [categoryId]: { ...prev[categoryId], band } }));
-  }
-  function setBandB(categoryId: VmxCategoryId, band: HeatBand) {
-    setSelB((prev) => ({ ...prev, [categoryId]: { ...prev[categoryId], band } }));
+  // Deltas: every other scenario vs the baseline scenario
+  const comparisons = useMemo(() => {
+    const base = baselineScenario.result;
+    if (!compareMode || !base) return [];
+    return computedScenarios
+      .filter((c) => c.inputs.id !== baselineScenario.inputs.id && c.result)
+      .map((c) => ({ scenario: c, delta: computeDeltaSummary(base, c.result as ScenarioResult, deltaSettings) }));
+  }, [compareMode, computedScenarios, baselineScenario, deltaSettings]);
+
+  // Which comparison the detailed Delta Heat table focuses on
+  const [deltaFocusId, setDeltaFocusId] = useState<string>("");
+  const focusComparison = comparisons.find((c) => c.scenario.inputs.id === deltaFocusId) ?? comparisons[0] ?? null;
+
+  // Snapshots: capture the complete input state + the benchmarks actually priced
+  function captureSnapshot(): SnapshotCapture | null {
+    if (!primary.result) return null;
+    return {
+      result: primary.result,
+      libraryVersion: referenceLibraryVersion(),
+      projectId: n4sProjectId,
+      projectName: n4sProjectName,
+      inputs: {
+        version: 1,
+        scenarios: scenarioCollection,
+        compareMode,
+        areaUnit,
+        softCostsConfig,
+        indirectsConfig: constructionIndirectsConfig,
+        programProfile,
+        baselineLocationPreset,
+        baselineLocationCustom,
+        baselineTypology,
+        costIndex: costIndexConfig,
+        financing: financingConfig,
+      },
+      benchmarks: computedScenarios.map((c) => ({
+        scenarioId: c.inputs.id,
+        scenarioName: c.inputs.name,
+        regionId: c.region.id,
+        regionName: c.region.name,
+        tier: c.inputs.tier,
+        source: c.mixedBenchmark,
+        applied: c.benchmark,
+      })),
+    };
   }
 
-  const delta = useMemo(() => {
-    if (!compareMode || !resultA || !resultB) return null;
+  function restoreSnapshot(snapshot: Snapshot) {
+    const inp = snapshot.inputs;
+    if (!inp) return;
 
-    const aTotal = resultA.totalCost > 0 ? resultA.totalCost : 1;
-    const totalDelta = resultB.totalCost - resultA.totalCost;
-
-    const baseRows: DeltaRow[] = resultA.categories.map((a: CategoryResult) => {
-      const b = resultB.categories.find((x: CategoryResult) => x.categoryId === a.categoryId);
-      if (!b) throw new Error(`Missing category in Scenario B: ${a.categoryId}`);
+    setScenarioCollection(
+      normalizeScenarioCollection(inp.scenarios, {
+        regionIds: library.regions.map((r) => r.id),
+        defaultRegionId: library.regions[0].id,
+        defaultTier: primaryScenario.tier,
+      })
+    );
+    setCompareMode(inp.compareMode);
+    setAreaUnit(inp.areaUnit);
+    setSoftCostsConfig(upgradeSoftCostsConfig(inp.softCostsConfig));
+    setConstructionIndirectsConfig(inp.indirectsConfig);
+    setProgramProfile(inp.programProfile);
+    setBaselineLocationPreset(inp.baselineLocationPreset);
+    setBaselineLocationCustom(inp.baselineLocationCustom);
+    setBaselineTypology(inp.baselineTypology);
+    if (inp.costIndex) setCostIndexConfig(inp.costIndex);
+    if (inp.financing) setFinancingConfig(inp.financing);
+  }
 
-      const deltaCost = b.cost - a.cost;
-      const deltaPct = b.pctOfTotal - a.pctOfTotal;
-      const absFrac = Math.abs(deltaCost) / aTotal;
-
-      let direction: DeltaDirection = "flat";
-      if (deltaCost > 0) direction = "increase";
-      else if (deltaCost < 0) direction = "decrease";
-
-      let heat: DeltaHeat = "low";
-      if (absFrac >= deltaHighThr) heat = "high";
-      else if (absFrac >= deltaMediumThr) heat = "medium";
-
-      return {
-        categoryId: a.categoryId,
-        categoryLabel: a.label,
-        deltaCost,
-        deltaPct,
-        absFracOfATotal: absFrac,
-        direction,
-        heat,
-        isTopDriver: false,
-      };
-    });
-
-    const eligible = [...baseRows].filter((r) => Math.abs(r.deltaCost) > 0);
-    const byAbs = eligible.sort((x, y) => Math.abs(y.deltaCost) - Math.abs(x.deltaCost));
-    let driverIds = new Set<VmxCategoryId>();
-    if (driverMode === "topN") {
-      const n = Math.max(1, Math.floor(driverTopN));
-      driverIds = new Set(byAbs.slice(0, n).map((r) => r.categoryId));
-    } else {
-      const thr = Math.max(0, driverPctThreshold);
-      const cap = Math.max(1, Math.floor(driverPctMaxDrivers));
-      const candidates = byAbs.filter((r) => r.absFracOfATotal >= thr);
-      driverIds = new Set(candidates.slice(0, cap).map((r) => r.categoryId));
-    }
-
-    let rows = baseRows.map((r) => {
-      const isTopDriver = driverIds.has(r.categoryId);
-      const heat: DeltaHeat = isTopDriver && r.heat === "low" && r.absFracOfATotal > 0 ? "medium" : r.heat;
-      return { ...r, isTopDriver, heat };
-    });
-
-    if (deltaSort === "impact") {
-      rows = [...rows].sort((a, b) => Math.abs(b.deltaCost) - Math.abs(a.deltaCost));
-    } else {
-      const order = new Map<VmxCategoryId, number>(VMX_CATEGORIES.map((c, idx) => [c.id, idx]));
-      rows = [...rows].sort((a, b) => (order.get(a.categoryId) ?? 999) - (order.get(b.categoryId) ?? 999));
-    }
-
-    if (deltaDriversOnly) rows = rows.filter((r) => r.isTopDriver);
-
-    const increases = [...rows].filter((r) => r.deltaCost > 0).sort((a, b) => b.deltaCost - a.deltaCost).slice(0, 3);
-    const decreases = [...rows].filter((r) => r.deltaCost < 0).sort((a, b) => a.deltaCost - b.deltaCost).slice(0, 3);
-
-    return {
-      totalDelta,
-      rows,
-      increases,
-      decreases,
-      currency: resultA?.currency ?? "USD",
-      aTotal: resultA.totalCost,
-      bTotal: resultB.totalCost,
-    };
-  }, [compareMode, resultA, resultB, deltaMediumThr, deltaHighThr, deltaSort, deltaDriversOnly, driverMode, driverTopN, driverPctThreshold, driverPctMaxDrivers]);
-
-  // Soft costs + escalation + cashflow (derived from Scenario results)
-  const softA = useMemo(() => (resultA ? computeCashflowSchedule(resultA, softCostsConfig) : null), [resultA, softCostsConfig]);
-  const softB = useMemo(() => (compareMode && resultB ? computeCashflowSchedule(resultB, softCostsConfig) : null), [compareMode, resultB, softCostsConfig]);
-
-  // Construction Indirects (US) — derived from direct hard cost totals
-  const indirectsA = useMemo(() => {
-    if (!resultA) return null;
-
-    const baseRates = getRatesForTier(constructionIndirectsConfig, tier);
-    const rates = applyTypologyToIndirectRates(baseRates, typologyA);
-
-    return computeConstructionIndirects({
-      directHardCost: resultA.totalCost,
-      areaSqft,
-      rates,
-    });
-  }, [resultA, areaSqft, constructionIndirectsConfig, tier, typologyA]);
-
-  const indirectsB = useMemo(() => {
-    if (!compareMode || !resultB) return null;
-
-    const baseRates = getRatesForTier(constructionIndirectsConfig, tier);
-    const rates = applyTypologyToIndirectRates(baseRates, typologyB);
-
-    return computeConstructionIndirects({
-      directHardCost: resultB.totalCost,
-      areaSqft,
-      rates,
-    });
-  }, [compareMode, resultB, areaSqft, constructionIndirectsConfig, tier, typologyB]);
-
-
-  // Phase 2: Grand Total (Direct Hard + Construction Indirects + Soft Costs + Escalation)
-  const grandTotalA = useMemo(() => {
-    if (!resultA || !indirectsA || !softA) return null;
-
-    const constructionContract = indirectsA.contractTotal;
-    const ownerSoft = softA.totals.softBase;
-    const escalation = softA.totals.escalationAmount;
-    const landAcquisition = landCostA || 0;
+  function recomputeSnapshot(snapshot: Snapshot): SnapshotRecompute {
+    const inp = snapshot.inputs;
+    const primaryInputs = inp?.scenarios.scenarios[0];
+    if (!inp || !primaryInputs) return { result: null, error: "Snapshot has no saved inputs.", regionMissing: false };
+
+    const c = computeScenarioPipeline({
+      inputs: primaryInputs,
+      index: 0,
+      library,
+      programBias: computeProgramBiasFromProfile(inp.programProfile),
+      softCostsConfig: upgradeSoftCostsConfig(inp.softCostsConfig),
+      indirectsConfig: inp.indirectsConfig,
+      costIndexConfig: inp.costIndex ?? costIndexConfig,
+      financingConfig: inp.financing ?? financingConfig,
+      baselineLocationFactor:
+        inp.baselineLocationPreset === "custom" ? inp.baselineLocationCustom : presetFactor(inp.baselineLocationPreset),
+      baselineTypology: inp.baselineTypology,
+    });
 
     return {
-      constructionContract,
-      landAcquisition,
-      ownerSoft,
-      escalation,
-      grandTotal: constructionContract + landAcquisition + ownerSoft + escalation,
+      result: c.result,
+      error: c.error,
+      regionMissing: !library.regions.some((r) => r.id === primaryInputs.regionId),
     };
-  }, [resultA, indirectsA, softA, landCostA]);
-
-  const grandTotalB = useMemo(() => {
-    if (!compareMode || !resultB || !indirectsB || !softB) return null;
-
-    const constructionContract = indirectsB.contractTotal;
-    const ownerSoft = softB.totals.softBase;
-    const escalation = softB.totals.escalationAmount;
-    const landAcquisition = landCostB || 0;
-
-    return {
-      constructionContract,
-      landAcquisition,
-      ownerSoft,
-      escalation,
-      grandTotal: constructionContract + landAcquisition + ownerSoft + escalation,
-    };
-  }, [compareMode, resultB, indirectsB, softB, landCostB]);
-
-  // ---------------------------------------------------------------------------
-  // Key Drivers — comparisons vs a baseline location + baseline typology
-  // These are DIRECT Hard Costs comparisons (before Construction Indirects).
-  // ---------------------------------------------------------------------------
-
-  const baselineBenchmarkA_Typology = useMemo(() => {
-    return buildAdjustedBenchmark(mixedBenchmarkA, locationFactorA, baselineTypology);
-  }, [mixedBenchmarkA, locationFactorA, baselineTypology]);
-
-  const baselineBenchmarkA_Location = useMemo(() => {
-    return buildAdjustedBenchmark(mixedBenchmarkA, baselineLocationFactor, typologyA);
-  }, [mixedBenchmarkA, baselineLocationFactor, typologyA]);
-
-  const baselineResultA_Typology = useMemo(() => {
-    try {
-      return computeScenarioResult({ areaSqft, benchmark: baselineBenchmarkA_Typology, selections: Object.values(selA) });
-    } catch {
-      return null;
-    }
-  }, [areaSqft, baselineBenchmarkA_Typology, selA]);
-
-  const baselineResultA_Location = useMemo(() => {
-    try {
-      return computeScenarioResult({ areaSqft, benchmark: baselineBenchmarkA_Location, selections: Object.values(selA) });
-    } catch {
-      return null;
-    }
-  }, [areaSqft, baselineBenchmarkA_Location, selA]);
-
-  const driversA_Typology = useMemo(() => {
-    if (!resultA || !baselineResultA_Typology) return null;
-    return computeDriverLines({ scenario: resultA, baseline: baselineResultA_Typology });
-  }, [resultA, baselineResultA_Typology]);
-
-  const driversA_Location = useMemo(() => {
-    if (!resultA || !baselineResultA_Location) return null;
-    return computeDriverLines({ scenario: resultA, baseline: baselineResultA_Location });
-  }, [resultA, baselineResultA_Location]);
-
-  const baselineBenchmarkB_Typology = useMemo(() => {
-    if (!compareMode) return null;
-    return buildAdjustedBenchmark(mixedBenchmarkB, locationFactorB, baselineTypology);
-  }, [compareMode, mixedBenchmarkB, locationFactorB, baselineTypology]);
-
-  const baselineBenchmarkB_Location = useMemo(() => {
-    if (!compareMode) return null;
-    return buildAdjustedBenchmark(mixedBenchmarkB, baselineLocationFactor, typologyB);
-  }, [compareMode, mixedBenchmarkB, baselineLocationFactor, typologyB]);
-
-  const baselineResultB_Typology = useMemo(() => {
-    if (!compareMode || !baselineBenchmarkB_Typology) return null;
-    try {
-      return computeScenarioResult({ areaSqft, benchmark: baselineBenchmarkB_Typology, selections: Object.values(selB) });
-    } catch {
-      return null;
-    }
-  }, [compareMode, areaSqft, baselineBenchmarkB_Typology, selB]);
-
-  const baselineResultB_Location = useMemo(() => {
-    if (!compareMode || !baselineBenchmarkB_Location) return null;
-    try {
-      return computeScenarioResult({ areaSqft, benchmark: baselineBenchmarkB_Location, selections: Object.values(selB) });
-    } catch {
-      return null;
-    }
-  }, [compareMode, areaSqft, baselineBenchmarkB_Location, selB]);
-
-  const driversB_Typology = useMemo(() => {
-    if (!compareMode || !resultB || !baselineResultB_Typology) return null;
-    return computeDriverLines({ scenario: resultB, baseline: baselineResultB_Typology });
-  }, [compareMode, resultB, baselineResultB_Typology]);
-
-  const driversB_Location = useMemo(() => {
-    if (!compareMode || !resultB || !baselineResultB_Location) return null;
-    return computeDriverLines({ scenario: resultB, baseline: baselineResultB_Location });
-  }, [compareMode, resultB, baselineResultB_Location]);
-
+  }
 
+  const scenarioTitle = (c: ScenarioComputed) => `${c.inputs.name} — ${c.region.name} (${tierLabel(c.inputs.tier, library.tiers)})`;
 
   const exportClientPack = async () => {
-    if (!resultA) {
-      alert("Nothing to export yet. Please ensure Scenario A has calculated results.");
+    if (!primary.result) {
+      alert("Nothing to export yet. Please ensure the primary scenario has calculated results.");
       return;
     }
 
     const generatedAtIso = new Date().toISOString();
+    const baselineName = baselineScenario.inputs.name;
+    const packLibraryVersion = referenceLibraryVersion();
 
     const meta = {
       appVersion: VMX_APP_VERSION,
       datasetName,
       datasetLastUpdated,
       assumptions: datasetAssumptions,
-      areaSqft,
-      tierLabel: tierLabel(tier),
-      scenarioAName: compareMode ? regionA.name : "Scenario",
-      scenarioABenchmarkName: `${regionA.name} — ${tierLabel(tier)}`,
-      locationFactorA,
-      locationFactorB: compareMode ? locationFactorB : undefined,
-      interiorTierOverride: interiorTierOverride === "match" ? undefined : interiorTierOverride,
+      areaUnit,
       compareMode,
-      scenarioBName: compareMode ? regionB.name : undefined,
-      scenarioBBenchmarkName: compareMode ? `${regionB.name} — ${tierLabel(tier)}` : undefined,
-      
+      baselineScenarioId: compareMode ? baselineScenario.inputs.id : undefined,
+      baselineScenarioName: compareMode ? baselineName : undefined,
+
       // N4S integration (optional)
       n4sProjectId: n4sProjectId || undefined,
       n4sProjectName: n4sProjectName || undefined,
       n4sClientName: n4sClientName || undefined,
 
-      // Scenario modifiers & land
-      scenarioALocationId: regionA.id,
-      scenarioALocationName: regionA.name,
-      scenarioALocationPreset: locationAPreset,
-      scenarioATypology: typologyA,
-      scenarioALandCost: landCostA || 0,
-
-      scenarioBLocationId: compareMode ? regionB.id : undefined,
-      scenarioBLocationName: compareMode ? regionB.name : undefined,
-      scenarioBLocationPreset: compareMode ? locationBPreset : undefined,
-      scenarioBTypology: compareMode ? typologyB : undefined,
-      scenarioBLandCost: compareMode ? (landCostB || 0) : undefined,
-
       baselineLocationPreset,
       baselineTypology,
-
-      // Rollups (for client pack summary)
-      grandTotalA: grandTotalA?.grandTotal,
-      grandTotalB: compareMode ? grandTotalB?.grandTotal : undefined,
+      estimateDate: resolveEstimateDate(costIndexConfig),
+      libraryVersion: describeLibraryVersionRef(packLibraryVersion),
+      libraryVersionId: packLibraryVersion?.id,
       generatedAtIso,
     };
 
-    const deltaRows: DeltaRowExport[] | null =
-      compareMode && delta && resultB
-        ? delta.rows.map((r) => ({
-            categoryId: r.categoryId,
-            categoryLabel: r.categoryLabel,
-            direction: r.direction,
-            deltaCost: r.deltaCost,
-            deltaPct: r.deltaPct,
-            impactVsATotal: r.absFracOfATotal,
-            heat: r.heat,
-            isDriver: r.isTopDriver,
-          }))
-        : null;
+    const packScenarios: ClientPackScenario[] = computedScenarios
+      .filter((c): c is ScenarioComputed & { result: ScenarioResult } => Boolean(c.result))
+      .map((c) => {
+        const cmp = comparisons.find((x) => x.scenario.inputs.id === c.inputs.id);
+        return {
+          id: c.inputs.id,
+          letter: c.letter,
+          name: c.inputs.name,
+          benchmarkName: `${c.region.name} — ${tierLabel(c.inputs.tier, library.tiers)}`,
+          isBaseline: c.inputs.id === baselineScenario.inputs.id,
+          areaSqft: c.result.areaSqft,
+          tierLabel: tierLabel(c.inputs.tier, library.tiers),
+          interiorTierOverride: c.interiorOverrideTier ? tierLabel(c.interiorOverrideTier, library.tiers) : undefined,
+          regionId: c.region.id,
+          regionName: c.region.name,
+          locationPreset: c.inputs.locationPreset,
+          locationFactor: c.locationFactor,
+          typology: c.inputs.typology,
+          landCost: c.inputs.landCost || 0,
+          grandTotal: c.grandTotal?.grandTotal,
+          costIndex: c.costIndex,
+          selections: c.inputs.selections,
+          rateOverrides: c.overrides,
+          quantityItems: c.inputs.quantityItems,
+          buildings:
+            c.buildings.length > 1
+              ? c.buildings.map((b) => ({
+                  name: b.name,
+                  isMain: b.isMain,
+                  areaSqft: b.areaSqft,
+                  tierLabel: tierLabel(b.tier, library.tiers),
+                  typology: typologyLabel(b.typology),
+                  directHard: b.result?.totalCost ?? 0,
+                  indirects: b.indirects?.totalIndirects ?? 0,
+                  contract: b.indirects?.contractTotal ?? 0,
+                }))
+              : undefined,
+          result: c.result,
+          subElements: computeSubElementBreakdown(c.result, c.benchmark),
+          sources: c.buildings.flatMap((b) => {
+            if (!b.result) return [];
+            const extra = c.inputs.buildings.find((x) => x.id === b.id);
+            const lines = b.isMain
+              ? listRateSources(b.result, c.benchmark, Object.values(c.inputs.selections))
+              : listRateSources(b.result, c.region.byTier[b.tier] ?? c.benchmark, Object.values(extra?.selections ?? {}));
+            return [{ buildingName: b.name, lines }];
+          }),
+          indirects: c.indirects,
+          softCosts: c.soft?.totals,
+          cashflow: c.soft?.rows,
+          cashflowStreams: c.soft?.streams,
+          financing: c.financing ?? undefined,
+          uncertainty: uncertaintyResults[c.inputs.id] ?? undefined,
+          sensitivity: sensitivityResults[c.inputs.id] ?? undefined,
+          deltaRows: cmp
+            ? cmp.delta.rows.map((r) => ({
+                categoryId: r.categoryId,
+                categoryLabel: r.categoryLabel,
+                direction: r.direction,
+                deltaCost: r.deltaCost,
+                deltaPct: r.deltaPct,
+                impactVsBaselineTotal: r.absFracOfATotal,
+                heat: r.heat,
+                isDriver: r.isTopDriver,
+              }))
+            : null,
+        };
+      });
 
     try {
       await exportClientPackZip({
         meta,
-        selectionsA: selA,
-        resultA,
-        indirectsA,
-        selectionsB: compareMode ? selB : null,
-        resultB: compareMode ? resultB : null,
-        indirectsB: compareMode ? indirectsB : null,
-        deltaRows,
+        scenarios: packScenarios,
         softCostsConfig,
-        softCostsA: softA ? softA.totals : undefined,
-        softCostsB: softB ? softB.totals : undefined,
-        cashflowA: softA ? softA.rows : undefined,
-        cashflowB: softB ? softB.rows : undefined,
+        uncertaintyConfig: uncertaintyConfig.enabled ? uncertaintyConfig : undefined,
+        financingConfig: financingConfig.enabled ? financingConfig : undefined,
       });
     } catch (e) {
       console.error(e);
@@ -1472,6 +1857,36 @@ export default function App() {
   };
 
 
+  /** One Grand Total line: a column per scenario, with Δ vs the baseline under non-baseline values. */
+  const renderGrandTotalRow = (
+    label: string,
+    pick: (c: ScenarioComputed) => number | null,
+    opts: { strong?: boolean; padding?: string } = {}
+  ) => {
+    const padding = opts.padding ?? "8px";
+    const baseValue = pick(baselineScenario);
+    const wrap = (node: React.ReactNode) => (opts.strong ? <strong>{node}</strong> : node);
+    return (
+      <tr>
+        <td style={{ padding }}>{wrap(label)}</td>
+        {computedScenarios.map((c) => {
+          const v = pick(c);
+          const showDelta = compareMode && c.inputs.id !== baselineScenario.inputs.id && v !== null && baseValue !== null;
+          return (
+            <td key={c.inputs.id} style={{ textAlign: "right", padding }}>
+              {wrap(v === null ? "—" : formatMoney(v, currency))}
+              {showDelta && (
+                <div className="muted" style={{ fontSize: 12 }}>
+                  Δ {formatMoney(v - baseValue, currency)}
+                </div>
+              )}
+            </td>
+          );
+        })}
+      </tr>
+    );
+  };
+
   type DriverSummary = ReturnType<typeof computeDriverLines>;
 
   type LiteScenarioCardProps = {
@@ -1487,6 +1902,7 @@ export default function App() {
     indirects: ConstructionIndirectsComputed | null;
     soft: SoftCostsComputed | null;
     grandTotal: number | null;
+    grandTotalRange?: string | null;
     driversTypology: DriverSummary | null;
     driversLocation: DriverSummary | null;
     watchouts: WatchoutLine[];
@@ -1506,7 +1922,8 @@ export default function App() {
       { k: "Owner Soft + Escalation", v: softTotal ? formatMoney(softTotal, currency) : "—" },
       { k: "Land Acquisition", v: p.landAcquisitionCost ? formatMoney(p.landAcquisitionCost, currency) : "—" },
       { k: "All-in Grand Total", v: grandTotalVal ? formatMoney(grandTotalVal, currency) : "—" },
-      { k: "All-in $/SF", v: grandTotalVal && areaSqftVal ? formatMoney(grandTotalVal / areaSqftVal, currency) : "—" },
+      ...(p.grandTotalRange ? [{ k: "Range (P10 – P90)", v: p.grandTotalRange }] : []),
+      { k: `All-in $/${unitLabel}`, v: grandTotalVal && areaSqftVal ? formatMoney(psqftToRate(grandTotalVal / areaSqftVal, areaUnit), currency) : "—" },
     ];
 
     const renderDriver = (title: string, d: DriverSummary | null) => {
@@ -1699,16 +2116,23 @@ export default function App() {
         <div className="printHeaderMeta">
           <div><strong>Dataset:</strong> {datasetName}</div>
           <div><strong>Updated:</strong> {datasetLastUpdated}</div>
-          <div><strong>Area:</strong> {areaSqft.toLocaleString()} sq ft</div>
-          <div><strong>Tier:</strong> {tierLabel(tier)}</div>
+          <div><strong>Library:</strong> {describeLibraryVersionRef(libraryVersion)}</div>
           {n4sClientName && <div><strong>Client:</strong> {n4sClientName}</div>}
           {n4sProjectName && <div><strong>Project:</strong> {n4sProjectName}</div>}
-          <div><strong>Scenario A:</strong> {regionA.name} (×{locationFactorA.toFixed(2)}) • {typologyLabel(typologyA)} • Land {formatMoney(landCostA || 0, "USD")}</div>
-          {compareMode && (
-            <div>
-              <strong>Scenario B:</strong> {regionB.name} (×{locationFactorB.toFixed(2)}) • {typologyLabel(typologyB)} • Land {formatMoney(landCostB || 0, "USD")}
+          {computedScenarios.map((c) => (
+            <div key={c.inputs.id}>
+              <strong>{c.inputs.name}:</strong> {c.region.name} (×{c.locationFactor.toFixed(2)}) • {tierLabel(c.inputs.tier, library.tiers)} • {formatArea(c.inputs.areaSqft, areaUnit)} • {typologyLabel(c.inputs.typology)} • Land {formatMoney(c.inputs.landCost || 0, "USD")}
+              {uncertaintyResults[c.inputs.id] ? ` • Grand Total ${formatMoney(c.grandTotal?.grandTotal ?? 0, currency)} (P10–P90 ${formatRange(uncertaintyResults[c.inputs.id])})` : ""}
+              {compareMode && c.inputs.id === baselineScenario.inputs.id ? " (baseline)" : ""}
+              {c.overrides.map((o) => (
+                <div key={o.categoryId} style={{ paddingLeft: 12 }}>
+                  Rate override — {o.label}: {formatRate(o.overridePsqft, currency, areaUnit)} vs band {formatRate(o.bandPsqft, currency, areaUnit)} (Δ{" "}
+                  {formatMoney(o.deltaCost, currency)}) • {o.reason}
+                  {o.source ? ` • Source: ${o.source}` : ""}
+                </div>
+              ))}
             </div>
-          )}
+          ))}
         </div>
       </div>
 
@@ -1757,27 +2181,11 @@ export default function App() {
               </div>
 
               <div>
-                <label className="label">Target Area (sq ft)</label>
-                <input
-                  type="text"
-                  inputMode="numeric"
-                  value={areaSqftInput}
-                  onChange={(e) => {
-                    const raw = e.target.value;
-                    setAreaSqftInput(raw);
-                    const cleaned = raw.replace(/[^0-9]/g, "");
-                    const n = Number(cleaned);
-                    if (Number.isFinite(n) && n > 0) setAreaSqft(Math.round(n));
-                  }}
-                />
-              </div>
-
-              <div>
-                <label className="label">Quality Tier</label>
-                <select value={tier} onChange={(e) => setTier(e.target.value as any)}>
-                  {TIERS.map((t) => (
-                    <option key={t} value={t}>
-                      {tierLabel(t)}
+                <label className="label">Units</label>
+                <select value={areaUnit} onChange={(e) => setAreaUnit(e.target.value as AreaUnit)}>
+                  {AREA_UNITS.map((u) => (
+                    <option key={u} value={u}>
+                      {areaUnitLabel(u)}
                     </option>
                   ))}
                 </select>
@@ -1792,82 +2200,61 @@ export default function App() {
                 <input type="checkbox" checked={compareMode} onChange={(e) => setCompareMode(e.target.checked)} />
                 <span className="slider" />
               </label>
+              {compareMode && (
+                <button
+                  type="button"
+                  className="secondaryBtn"
+                  onClick={() => addScenario()}
+                  disabled={scenarios.length >= MAX_SCENARIOS}
+                  title={scenarios.length >= MAX_SCENARIOS ? `Up to ${MAX_SCENARIOS} scenarios` : "Add a scenario (copies the last one)"}
+                >
+                  + Add Scenario
+                </button>
+              )}
             </div>
 
             <div className={compareMode ? "compareGrid" : ""} style={{ marginTop: 14 }}>
-              <div>
-                <h3 className="sectionTitle">Scenario A</h3>
-
-                <div className="formRow">
-                  <label className="label">Benchmark Set</label>
-                  <select value={regionAId} onChange={(e) => setRegionAId(e.target.value)}>
-                    {library.regions.map((r) => (
-                      <option key={r.id} value={r.id}>
-                        {r.name}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-
-                <div className="formRow">
-                  <label className="label">Location</label>
-                  <select value={locationAPreset} onChange={(e) => setLocationAPreset(e.target.value as any)}>
-                    {LOCATION_PRESETS.map((lp) => (
-                      <option key={lp.id} value={lp.id}>
-                        {lp.label}
-                      </option>
-                    ))}
-                  </select>
-                </div>
+              {activeScenarios.map((s, idx) => (
+                <div key={s.id}>
+                  <div style={{ display: "flex", gap: 8, alignItems: "center", justifyContent: "space-between" }}>
+                    <h3 className="sectionTitle">Scenario {scenarioLetter(idx)}</h3>
+                    {compareMode && scenarios.length > 1 && (
+                      <button type="button" className="secondaryBtn" onClick={() => removeScenario(s.id)} title="Remove scenario">
+                        Remove
+                      </button>
+                    )}
+                  </div>
 
-                {locationAPreset === "custom" && (
                   <div className="formRow">
-                    <label className="label">Custom Location Multiplier</label>
-                    <input
-                      type="text"
-                      inputMode="decimal"
-                      value={locationFactorAInput}
-                      onChange={(e) => setLocationFactorAInput(e.target.value)}
-                    />
+                    <label className="label">Scenario Name</label>
+                    <input type="text" value={s.name} onChange={(e) => updateScenario(s.id, { name: e.target.value })} />
                   </div>
-                )}
-
-                <div className="formRow">
-                  <label className="label">Site Typology</label>
-                  <select value={typologyA} onChange={(e) => setTypologyA(e.target.value as any)}>
-                    {TYPOLOGIES.map((t) => (
-                      <option key={t.id} value={t.id}>
-                        {t.label}
-                      </option>
-                    ))}
-                  </select>
-                </div>
 
-                <div className="formRow">
-                  <label className="label">Land Acquisition Cost</label>
-                  <input
-                    type="number"
-                    min={0}
-                    step={1000}
-                    value={landCostA}
-                    onChange={(e) => {
-                      const next = Number(e.target.value);
-                      setLandCostA(Number.isFinite(next) ? next : 0);
-                    }}
-                  />
-                </div>
-              </div>
+                  <div className="formRow">
+                    <label className="label">Benchmark Set</label>
+                    <select value={s.regionId} onChange={(e) => updateScenario(s.id, { regionId: e.target.value })}>
+                      {regionOptions(library, [s.regionId]).map((o) => (
+                        <option key={o.id} value={o.id}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
 
-              {compareMode && (
-                <div>
-                  <h3 className="sectionTitle">Scenario B</h3>
+                  <div className="formRow">
+                    <label className="label">Target Area ({unitLabel})</label>
+                    <LooseNumberInput
+                      value={Math.round(sqftToArea(s.areaSqft, areaUnit))}
+                      onCommit={(n) => updateScenario(s.id, { areaSqft: areaToSqft(n, areaUnit) })}
+                    />
+                  </div>
 
                   <div className="formRow">
-                    <label className="label">Benchmark Set</label>
-                    <select value={regionBId} onChange={(e) => setRegionBId(e.target.value)}>
-                      {library.regions.map((r) => (
-                        <option key={r.id} value={r.id}>
-                          {r.name}
+                    <label className="label">Quality Tier</label>
+                    <select value={s.tier} onChange={(e) => updateScenario(s.id, { tier: e.target.value as TierId })}>
+                      {library.tiers.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.label}
                         </option>
                       ))}
                     </select>
@@ -1875,7 +2262,7 @@ export default function App() {
 
                   <div className="formRow">
                     <label className="label">Location</label>
-                    <select value={locationBPreset} onChange={(e) => setLocationBPreset(e.target.value as any)}>
+                    <select value={s.locationPreset} onChange={(e) => updateScenario(s.id, { locationPreset: e.target.value })}>
                       {LOCATION_PRESETS.map((lp) => (
                         <option key={lp.id} value={lp.id}>
                           {lp.label}
@@ -1884,21 +2271,20 @@ export default function App() {
                     </select>
                   </div>
 
-                  {locationBPreset === "custom" && (
+                  {s.locationPreset === "custom" && (
                     <div className="formRow">
                       <label className="label">Custom Location Multiplier</label>
-                      <input
-                        type="text"
+                      <LooseNumberInput
                         inputMode="decimal"
-                        value={locationFactorBInput}
-                        onChange={(e) => setLocationFactorBInput(e.target.value)}
+                        value={s.locationCustom}
+                        onCommit={(n) => updateScenario(s.id, { locationCustom: n })}
                       />
                     </div>
                   )}
 
                   <div className="formRow">
                     <label className="label">Site Typology</label>
-                    <select value={typologyB} onChange={(e) => setTypologyB(e.target.value as any)}>
+                    <select value={s.typology} onChange={(e) => updateScenario(s.id, { typology: e.target.value as TypologyId })}>
                       {TYPOLOGIES.map((t) => (
                         <option key={t.id} value={t.id}>
                           {t.label}
@@ -1913,90 +2299,90 @@ export default function App() {
                       type="number"
                       min={0}
                       step={1000}
-                      value={landCostB}
+                      value={s.landCost}
                       onChange={(e) => {
                         const next = Number(e.target.value);
-                        setLandCostB(Number.isFinite(next) ? next : 0);
+                        updateScenario(s.id, { landCost: Number.isFinite(next) ? next : 0 });
                       }}
                     />
                   </div>
                 </div>
-              )}
+              ))}
             </div>
           </div>
 
-          {(errorA || (compareMode && errorB)) && (
+          {computedScenarios.some((c) => c.error) && (
             <div className="card" style={{ borderColor: "rgba(220, 38, 38, 0.35)" }}>
               <h3 style={{ marginTop: 0 }}>Scenario Error</h3>
-              {errorA && <div style={{ marginBottom: 6 }}>Scenario A: {errorA}</div>}
-              {compareMode && errorB && <div>Scenario B: {errorB}</div>}
+              {computedScenarios
+                .filter((c) => c.error)
+                .map((c) => (
+                  <div key={c.inputs.id} style={{ marginBottom: 6 }}>
+                    {c.inputs.name}: {c.error}
+                  </div>
+                ))}
             </div>
           )}
 
           <div className={compareMode ? "compareGrid" : ""}>
-            <LiteScenarioCard
-              title="Scenario A"
-              subtitle={`${regionA?.name ?? ""}`}
-              regionName={regionA?.name ?? ""}
-              locationName={locationLabel(locationAPreset)}
-              locationFactor={locationFactorA}
-              typology={typologyA}
-              landAcquisitionCost={landCostA}
-              result={resultA}
-              error={errorA}
-              indirects={indirectsA}
-              soft={softA?.totals ?? null}
-              grandTotal={grandTotalA?.grandTotal ?? null}
-              driversTypology={driversA_Typology}
-              driversLocation={driversA_Location}
-              watchouts={watchoutsA}
-            />
-
-            {compareMode && (
+            {computedScenarios.map((c) => (
               <LiteScenarioCard
-                title="Scenario B"
-                subtitle={`${regionB?.name ?? ""}`}
-                regionName={regionB?.name ?? ""}
-                locationName={locationLabel(locationBPreset)}
-                locationFactor={locationFactorB}
-                typology={typologyB}
-                landAcquisitionCost={landCostB}
-                result={resultB}
-                error={errorB}
-                indirects={indirectsB}
-                soft={softB?.totals ?? null}
-                grandTotal={grandTotalB?.grandTotal ?? null}
-                driversTypology={driversB_Typology}
-                driversLocation={driversB_Location}
-                watchouts={watchoutsB}
+                key={c.inputs.id}
+                title={c.inputs.name}
+                subtitle={compareMode && c.inputs.id === baselineScenario.inputs.id ? `${c.region.name} • Baseline` : c.region.name}
+                regionName={c.region.name}
+                locationName={locationLabel(c.inputs.locationPreset)}
+                locationFactor={c.locationFactor}
+                typology={c.inputs.typology}
+                landAcquisitionCost={c.inputs.landCost}
+                result={c.result}
+                error={c.error}
+                indirects={c.indirects}
+                soft={c.soft?.totals ?? null}
+                grandTotal={c.grandTotal?.grandTotal ?? null}
+                grandTotalRange={formatRange(uncertaintyResults[c.inputs.id])}
+                driversTypology={c.driversTypology}
+                driversLocation={c.driversLocation}
+                watchouts={c.watchouts}
               />
-            )}
+            ))}
           </div>
 
-          {compareMode && delta && (
+          {compareMode && comparisons.length > 0 && (
             <div className="card">
-              <h3 className="sectionTitle">Scenario A vs B — Key Differences</h3>
+              <h3 className="sectionTitle">Key Differences vs {baselineScenario.inputs.name}</h3>
               <div className="muted" style={{ marginBottom: 10 }}>
-                Delta is shown as <strong>B − A</strong> across each category.
+                Delta is shown as <strong>scenario − {baselineScenario.inputs.name}</strong> across each category.
               </div>
-              <table className="table">
-                <thead>
-                  <tr>
-                    <th>Category</th>
-                    <th style={{ textAlign: "right" }}>Delta ($)</th>
-                    <th style={{ textAlign: "right" }}>Delta (%)</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {delta.rows.slice(0, 8).map((r) => (
-                    <tr key={r.categoryId}>
-                      <td>{r.categoryLabel}</td>
-                      <td style={{ textAlign: "right" }}>{formatMoney(r.deltaCost, "USD")}</td>
-                      <td style={{ textAlign: "right" }}>{formatPct(r.deltaPct)}</td>
+              <div style={{ overflowX: "auto" }}>
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Category</th>
+                      {comparisons.map((cmp) => (
+                        <th key={cmp.scenario.inputs.id} style={{ textAlign: "right" }}>
+                          {cmp.scenario.inputs.name}
+                        </th>
+                      ))}
                     </tr>
-                  ))}
-                </tbody>
-              </table>
+                  </thead>
+                  <tbody>
+                    {VMX_CATEGORIES.map((cat) => (
+                      <tr key={cat.id}>
+                        <td>{cat.label}</td>
+                        {comparisons.map((cmp) => {
+                          const r = cmp.delta.rows.find((x) => x.categoryId === cat.id);
+                          return (
+                            <td key={cmp.scenario.inputs.id} style={{ textAlign: "right" }}>
+                              {r ? `${formatMoney(r.deltaCost, "USD")} (${formatPct(r.deltaPct)})` : "—"}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
             </div>
           )}
 
@@ -2022,13 +2408,28 @@ export default function App() {
         <div className="adminHeader">
           <div>
             <h2>Compare Setup</h2>
-            <div className="muted">Compare two regions at the same tier. Units: sq ft.</div>
+            <div className="muted">
+              Each scenario carries its own region, tier, area, interiors package, location, typology and land. Units: {unitLabel}.
+            </div>
           </div>
 
-          <label style={{ display: "flex", alignItems: "center", gap: 10, fontWeight: 900 }}>
-            <input type="checkbox" checked={compareMode} onChange={(e) => setCompareMode(e.target.checked)} />
-            Compare Mode
-          </label>
+          <div style={{ display: "flex", alignItems: "center", gap: 14 }}>
+            {compareMode && (
+              <button
+                type="button"
+                className="secondaryBtn"
+                onClick={() => addScenario()}
+                disabled={scenarios.length >= MAX_SCENARIOS}
+                title={scenarios.length >= MAX_SCENARIOS ? `Up to ${MAX_SCENARIOS} scenarios` : "Add a scenario (copies the last one)"}
+              >
+                + Add Scenario
+              </button>
+            )}
+            <label style={{ display: "flex", alignItems: "center", gap: 10, fontWeight: 900 }}>
+              <input type="checkbox" checked={compareMode} onChange={(e) => setCompareMode(e.target.checked)} />
+              Compare Mode
+            </label>
+          </div>
         </div>
 
         <div className="adminTopGrid" style={{ gridTemplateColumns: "1fr 1fr" }}>
@@ -2055,234 +2456,237 @@ export default function App() {
 
         <div className="adminTopGrid" style={{ gridTemplateColumns: "1fr 1fr 1fr" }}>
           <div>
-            <label className="label">Area (sq ft)</label>
-            <input className="input" type="number" min={1} value={areaSqft} onChange={(e) => setAreaSqft(Number(e.target.value))} />
-          </div>
-
-          <div>
-            <label className="label">Tier</label>
-            <select className="input" value={tier} onChange={(e) => setTier(e.target.value as TierId)}>
-              {TIERS.map((t) => (
-                <option key={t} value={t}>
-                  {tierLabel(t)}
+            <label className="label">Units</label>
+            <select className="input" value={areaUnit} onChange={(e) => setAreaUnit(e.target.value as AreaUnit)}>
+              {AREA_UNITS.map((u) => (
+                <option key={u} value={u}>
+                  {areaUnitLabel(u)}
                 </option>
               ))}
             </select>
           </div>
 
           <div>
-            <label className="label">Benchmark Editor Target</label>
+            <label className="label">Delta Baseline</label>
             <select
               className="input"
-              value={adminRegionId}
-              onChange={(e) => setAdminRegionId(e.target.value)}
+              value={baselineScenario.inputs.id}
+              onChange={(e) => setDeltaBaselineId(e.target.value)}
               disabled={!compareMode}
-              title={!compareMode ? "Enable Compare Mode to switch editor target" : undefined}
-            >
-              <option value={regionA.id}>Scenario A — {regionA.name}</option>
-              <option value={regionB.id}>Scenario B — {regionB.name}</option>
-            </select>
-          </div>
-        </div>
-
-
-        <div className="adminTopGrid" style={{ gridTemplateColumns: "1fr" }}>
-          <div>
-            <label className="label">Interiors + FF&amp;E Package (4-tier override)</label>
-            <select
-              className="input"
-              value={interiorTierOverride}
-              onChange={(e) => setInteriorTierOverride(e.target.value)}
+              title={!compareMode ? "Enable Compare Mode to choose a baseline" : "All deltas are shown as scenario − baseline"}
             >
-              <option value="match">Match overall Tier ({tierLabel(tier)})</option>
-              {TIERS.map((t) => (
-                <option key={t} value={t}>
-                  {tierLabel(t)}
+              {computedScenarios.map((c) => (
+                <option key={c.inputs.id} value={c.inputs.id}>
+                  {c.inputs.name}
                 </option>
               ))}
             </select>
-            <div className="muted" style={{ marginTop: 6 }}>
-              Overrides the benchmark for <span className="mono">Interiors</span> + <span className="mono">Equipment &amp; Furnishings</span> only.
-            </div>
           </div>
-        </div>
 
-        <div className="adminTopGrid" style={{ gridTemplateColumns: compareMode ? "1fr 1fr" : "1fr" }}>
           <div>
-            <label className="label">Scenario A — Region</label>
-            <select className="input" value={regionAId} onChange={(e) => setRegionAId(e.target.value)}>
-              {library.regions.map((r) => (
-                <option key={r.id} value={r.id}>
-                  {r.name}
+            <label className="label">Benchmark Editor Target</label>
+            <select className="input" value={adminTargetId} onChange={(e) => setAdminTarget(e.target.value)}>
+              {computedScenarios.map((c) => (
+                <option key={c.inputs.id} value={c.inputs.id}>
+                  {scenarioTitle(c)}
                 </option>
               ))}
-            </select>
-
-            <label className="label" style={{ marginTop: 10 }}>Scenario A — Location</label>
-            <select className="input" value={locationAPreset} onChange={(e) => setLocationAPreset(e.target.value)}>
-              {LOCATION_PRESETS.map((p) => (
-                <option key={p.id} value={p.id}>
-                  {p.label}{p.id !== "custom" ? ` (×${p.factor.toFixed(2)})` : ""}
+              {adminTargetId === "" && (
+                <option value="" disabled>
+                  Custom — {adminRegion.name} ({tierLabel(adminTier, library.tiers)})
                 </option>
-              ))}
+              )}
             </select>
-            {locationAPreset === "custom" && (
-              <input
-                className="input"
-                type="number"
-                min={0.5}
-                step={0.01}
-                value={locationACustom}
-                onChange={(e) => setLocationACustom(Number(e.target.value))}
-                placeholder="1.00"
-              />
-            )}
-            <div className="muted" style={{ marginTop: 6 }}>
-              Effective multiplier: <span className="mono">×{locationFactorA.toFixed(2)}</span>
-            </div>
+          </div>
+        </div>
 
-            <label className="label" style={{ marginTop: 10 }}>Scenario A — Typology</label>
-            <select className="input" value={typologyA} onChange={(e) => setTypologyA(e.target.value as TypologyId)}>
-              {TYPOLOGY_PRESETS.map((tp) => (
-                <option key={tp.id} value={tp.id}>
-                  {tp.label}
-                </option>
-              ))}
-            </select>
-            <div className="muted" style={{ marginTop: 6 }}>
-              Applies category-specific site impacts (e.g., Hillside increases Substructure + Exterior Works).
-            </div>
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(260px, 1fr))", gap: 12, marginTop: 12 }}>
+          {computedScenarios.map((c, idx) => {
+            const s = c.inputs;
+            const isBaseline = compareMode && s.id === baselineScenario.inputs.id;
+            return (
+              <div key={s.id} className="panel" style={{ padding: 12 }}>
+                <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                  <span className="mono" style={{ fontWeight: 900 }}>{c.letter}</span>
+                  <input
+                    className="input"
+                    value={s.name}
+                    onChange={(e) => updateScenario(s.id, { name: e.target.value })}
+                    aria-label="Scenario name"
+                    style={{ fontWeight: 900 }}
+                  />
+                  {isBaseline && <span className="deltaPill flat">Baseline</span>}
+                </div>
 
+                {compareMode && (
+                  <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginTop: 8 }}>
+                    <button type="button" className="secondaryBtn" onClick={() => moveScenarioBy(s.id, -1)} disabled={idx === 0} title="Move up">
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      className="secondaryBtn"
+                      onClick={() => moveScenarioBy(s.id, 1)}
+                      disabled={idx === computedScenarios.length - 1}
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      className="secondaryBtn"
+                      onClick={() => addScenario(s.id)}
+                      disabled={scenarios.length >= MAX_SCENARIOS}
+                    >
+                      Duplicate
+                    </button>
+                    {!isBaseline && (
+                      <button type="button" className="secondaryBtn" onClick={() => setDeltaBaselineId(s.id)}>
+                        Set as Baseline
+                      </button>
+                    )}
+                    {scenarios.length > 1 && (
+                      <button type="button" className="dangerBtn" onClick={() => removeScenario(s.id)}>
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                )}
 
-            <label className="label" style={{ marginTop: 10 }}>Scenario A — Land Acquisition Cost (USD)</label>
-            <input
-              className="input"
-              type="number"
-              min={0}
-              step={1000}
-              value={landCostA}
-              onChange={(e) => setLandCostA(Number(e.target.value) || 0)}
-              placeholder="0"
-            />
-            <div className="muted" style={{ marginTop: 6 }}>
-              Included in <strong>Grand Total (All-in)</strong> and PDF / Client Pack exports.
-            </div>
-          </div>
+                <label className="label" style={{ marginTop: 10 }}>Region</label>
+                <select className="input" value={s.regionId} onChange={(e) => updateScenario(s.id, { regionId: e.target.value })}>
+                  {regionOptions(library, [s.regionId]).map((o) => (
+                    <option key={o.id} value={o.id}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
 
-          {compareMode && (
-            <div>
-              <label className="label">Scenario B — Region</label>
-              <select className="input" value={regionBId} onChange={(e) => setRegionBId(e.target.value)}>
-                {library.regions.map((r) => (
-                  <option key={r.id} value={r.id}>
-                    {r.name}
-                  </option>
-                ))}
-              </select>
-
-              <label className="label" style={{ marginTop: 10 }}>Scenario B — Location</label>
-              <select className="input" value={locationBPreset} onChange={(e) => setLocationBPreset(e.target.value)}>
-                {LOCATION_PRESETS.map((p) => (
-                  <option key={p.id} value={p.id}>
-                    {p.label}{p.id !== "custom" ? ` (×${p.factor.toFixed(2)})` : ""}
-                  </option>
-                ))}
-              </select>
-              {locationBPreset === "custom" && (
-                <input
+                <label className="label" style={{ marginTop: 10 }}>Area ({unitLabel})</label>
+                <LooseNumberInput
                   className="input"
-                  type="number"
-                  min={0.5}
-                  step={0.01}
-                  value={locationBCustom}
-                  onChange={(e) => setLocationBCustom(Number(e.target.value))}
-                  placeholder="1.00"
+                  value={Math.round(sqftToArea(s.areaSqft, areaUnit))}
+                  onCommit={(n) => updateScenario(s.id, { areaSqft: areaToSqft(n, areaUnit) })}
                 />
-              )}
-              <div className="muted" style={{ marginTop: 6 }}>
-                Effective multiplier: <span className="mono">×{locationFactorB.toFixed(2)}</span>
-              </div>
 
-              <label className="label" style={{ marginTop: 10 }}>Scenario B — Typology</label>
-              <select className="input" value={typologyB} onChange={(e) => setTypologyB(e.target.value as TypologyId)}>
-                {TYPOLOGY_PRESETS.map((tp) => (
-                  <option key={tp.id} value={tp.id}>
-                    {tp.label}
-                  </option>
-                ))}
-              </select>
-              <div className="muted" style={{ marginTop: 6 }}>
-                Applies category-specific site impacts.
-              </div>
+                <label className="label" style={{ marginTop: 10 }}>Tier</label>
+                <select className="input" value={s.tier} onChange={(e) => updateScenario(s.id, { tier: e.target.value as TierId })}>
+                  {library.tiers.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.label}
+                    </option>
+                  ))}
+                </select>
 
+                <label className="label" style={{ marginTop: 10 }}>Interiors + FF&amp;E Package</label>
+                <select
+                  className="input"
+                  value={s.interiorTierOverride}
+                  onChange={(e) => updateScenario(s.id, { interiorTierOverride: e.target.value })}
+                >
+                  <option value="match">Match overall Tier ({tierLabel(s.tier, library.tiers)})</option>
+                  {library.tiers.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.label}
+                    </option>
+                  ))}
+                </select>
+                <div className="muted" style={{ marginTop: 6 }}>
+                  Overrides the benchmark for <span className="mono">Interiors</span> + <span className="mono">Equipment &amp; Furnishings</span> only.
+                </div>
 
-              <label className="label" style={{ marginTop: 10 }}>Scenario B — Land Acquisition Cost (USD)</label>
-              <input
-                className="input"
-                type="number"
-                min={0}
-                step={1000}
-                value={landCostB}
-                onChange={(e) => setLandCostB(Number(e.target.value) || 0)}
-                placeholder="0"
-              />
-              <div className="muted" style={{ marginTop: 6 }}>
-                Included in <strong>Grand Total (All-in)</strong> and PDF / Client Pack exports.
+                <label className="label" style={{ marginTop: 10 }}>Location</label>
+                <select className="input" value={s.locationPreset} onChange={(e) => updateScenario(s.id, { locationPreset: e.target.value })}>
+                  {LOCATION_PRESETS.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.label}{p.id !== "custom" ? ` (×${p.factor.toFixed(2)})` : ""}
+                    </option>
+                  ))}
+                </select>
+                {s.locationPreset === "custom" && (
+                  <LooseNumberInput
+                    className="input"
+                    inputMode="decimal"
+                    value={s.locationCustom}
+                    onCommit={(n) => updateScenario(s.id, { locationCustom: n })}
+                  />
+                )}
+                <div className="muted" style={{ marginTop: 6 }}>
+                  Effective multiplier: <span className="mono">×{c.locationFactor.toFixed(2)}</span>
+                </div>
+
+                <label className="label" style={{ marginTop: 10 }}>Typology</label>
+                <select className="input" value={s.typology} onChange={(e) => updateScenario(s.id, { typology: e.target.value as TypologyId })}>
+                  {TYPOLOGY_PRESETS.map((tp) => (
+                    <option key={tp.id} value={tp.id}>
+                      {tp.label}
+                    </option>
+                  ))}
+                </select>
+
+                <label className="label" style={{ marginTop: 10 }}>Land Acquisition Cost (USD)</label>
+                <input
+                  className="input"
+                  type="number"
+                  min={0}
+                  step={1000}
+                  value={s.landCost}
+                  onChange={(e) => updateScenario(s.id, { landCost: Number(e.target.value) || 0 })}
+                  placeholder="0"
+                />
               </div>
-            </div>
-          )}
+            );
+          })}
         </div>
 
-        {!compareMode && (
-          <div className="muted" style={{ marginTop: 8 }}>
-            Enable Compare Mode to select Scenario B and view deltas.
-          </div>
-        )}
+        <div className="muted" style={{ marginTop: 8 }}>
+          {compareMode
+            ? `Typology applies category-specific site impacts (e.g., Hillside increases Substructure + Exterior Works). Land is included in Grand Total (All-in) and PDF / Client Pack exports. Up to ${MAX_SCENARIOS} scenarios.`
+            : "Enable Compare Mode to add scenarios and view deltas against a baseline."}
+        </div>
       </div>
 
       {!compareMode ? (
         <Matrix
           title="Scenario"
-          areaSqft={areaSqft}
-          setAreaSqft={setAreaSqft}
-          benchmark={benchmarkA}
-          selections={selA}
-          setBand={setBandA}
-          result={resultA}
-          error={errorA}
+          areaSqft={primary.inputs.areaSqft}
+          setAreaSqft={(n) => updateScenario(primary.inputs.id, { areaSqft: n })}
+          areaUnit={areaUnit}
+          benchmark={primary.benchmark}
+          selections={primary.inputs.selections}
+          setBand={(categoryId, band) => setScenarioBand(primary.inputs.id, categoryId, band)}
+          setOverride={(categoryId, override) => setScenarioOverride(primary.inputs.id, categoryId, override)}
+          result={primary.result}
+          error={primary.error}
+          costIndex={primary.costIndex}
         />
       ) : (
         <>
           <div className="compareGrid">
-            <Matrix
-              title={`Scenario A — ${regionA.name}`}
-              areaSqft={areaSqft}
-              setAreaSqft={setAreaSqft}
-              showAreaInput={false}
-              benchmark={benchmarkA}
-              selections={selA}
-              setBand={setBandA}
-              result={resultA}
-              error={errorA}
-            />
-            <Matrix
-              title={`Scenario B — ${regionB.name}`}
-              areaSqft={areaSqft}
-              setAreaSqft={setAreaSqft}
-              showAreaInput={false}
-              benchmark={benchmarkB}
-              selections={selB}
-              setBand={setBandB}
-              result={resultB}
-              error={errorB}
-            />
+            {computedScenarios.map((c) => (
+              <Matrix
+                key={c.inputs.id}
+                title={scenarioTitle(c)}
+                areaSqft={c.inputs.areaSqft}
+                setAreaSqft={(n) => updateScenario(c.inputs.id, { areaSqft: n })}
+                areaUnit={areaUnit}
+                showAreaInput={false}
+                benchmark={c.benchmark}
+                selections={c.inputs.selections}
+                setBand={(categoryId, band) => setScenarioBand(c.inputs.id, categoryId, band)}
+                setOverride={(categoryId, override) => setScenarioOverride(c.inputs.id, categoryId, override)}
+                result={c.result}
+                error={c.error}
+                costIndex={c.costIndex}
+              />
+            ))}
           </div>
 
           <div className="card">
-            <h2>Delta Heat (B − A)</h2>
+            <h2>Delta Heat (scenario − {baselineScenario.inputs.name})</h2>
 
-            {!delta || !resultA || !resultB ? (
-              <div className="muted">Select two regions and adjust bands to see deltas.</div>
+            {comparisons.length === 0 || !baselineScenario.result ? (
+              <div className="muted">Add a second scenario and adjust bands to see deltas.</div>
             ) : (
               <>
                 <div className="adminTopGrid" style={{ gridTemplateColumns: "1fr 1fr 1fr 1fr", marginBottom: 10 }}>
@@ -2332,101 +2736,208 @@ export default function App() {
                   </div>
                 </div>
 
-                <div className="summaryTop">
-                  <div>
-                    <div className="label">Total Delta</div>
-                    <div className="big">{formatMoney(delta.totalDelta, delta.currency)}</div>
-                  </div>
-                  <div>
-                    <div className="label">A Total</div>
-                    <div className="big">{formatMoney(delta.aTotal, delta.currency)}</div>
-                  </div>
-                  <div>
-                    <div className="label">B Total</div>
-                    <div className="big">{formatMoney(delta.bTotal, delta.currency)}</div>
-                  </div>
-                </div>
-
-                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12, marginBottom: 12 }}>
-                  <div>
-                    <div className="label">Largest increases (B higher than A)</div>
-                    {delta.increases.length === 0 ? (
-                      <div className="muted">None</div>
-                    ) : (
-                      <ul style={{ margin: "6px 0 0 18px" }}>
-                        {delta.increases.map((r) => (
-                          <li key={r.categoryId}>
-                            <strong>{r.categoryLabel}</strong> — {formatMoney(r.deltaCost, delta.currency)}
-                          </li>
-                        ))}
-                      </ul>
-                    )}
-                  </div>
-
-                  <div>
-                    <div className="label">Largest decreases (B lower than A)</div>
-                    {delta.decreases.length === 0 ? (
-                      <div className="muted">None</div>
-                    ) : (
-                      <ul style={{ margin: "6px 0 0 18px" }}>
-                        {delta.decreases.map((r) => (
-                          <li key={r.categoryId}>
-                            <strong>{r.categoryLabel}</strong> — {formatMoney(r.deltaCost, delta.currency)}
-                          </li>
-                        ))}
-                      </ul>
-                    )}
-                  </div>
-                </div>
-
-                <table className="table small">
+                <table className="table small" style={{ marginBottom: 12 }}>
                   <thead>
                     <tr>
-                      <th>Category</th>
-                      <th>Direction</th>
-                      <th>Δ Cost</th>
-                      <th>Δ % of Total</th>
-                      <th>Impact vs A</th>
-                      <th>Heat</th>
+                      <th>Scenario</th>
+                      <th>Direct Hard Total</th>
+                      <th>Δ vs {baselineScenario.inputs.name}</th>
+                      <th>Δ %</th>
+                      <th>Δ per {unitLabel}</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {delta.rows.map((r) => {
-                      const dirLabel = r.direction === "increase" ? "Increase" : r.direction === "decrease" ? "Decrease" : "Flat";
-                      const heatLabel = r.heat === "high" ? "High" : r.heat === "medium" ? "Medium" : "Low";
-
-                      const impactPctLabel = `${(r.absFracOfATotal * 100).toFixed(1)}%`;
-                      const denom = deltaHighThr > 0 ? deltaHighThr : 0.0001;
-                      const barWidth = Math.min(1, r.absFracOfATotal / denom) * 100;
-
-                      return (
-                        <tr key={r.categoryId} className={`deltaRow ${r.heat} ${r.isTopDriver ? "top" : ""}`}>
-                          <td>{r.categoryLabel}</td>
-                          <td>
-                            <span className={`deltaPill ${r.direction}`}>{dirLabel}</span>
-                          </td>
-                          <td>{formatMoney(r.deltaCost, delta.currency)}</td>
-                          <td>{formatPct(r.deltaPct)}</td>
-                          <td>
-                            <div className="deltaImpact">
-                              <div className="deltaImpactPct">{impactPctLabel}</div>
-                              <div className="deltaBarWrap" aria-hidden="true">
-                                <div className={`deltaBar ${r.direction}`} style={{ width: `${barWidth}%` }} />
-                              </div>
-                            </div>
-                          </td>
-                          <td>
-                            <strong>{heatLabel}</strong>
-                            {r.isTopDriver ? <span className="muted"> (driver)</span> : null}
-                          </td>
-                        </tr>
-                      );
-                    })}
+                    <tr>
+                      <td>
+                        <strong>{baselineScenario.inputs.name}</strong> <span className="muted">(baseline • {tierLabel(baselineScenario.inputs.tier, library.tiers)} • {formatArea(baselineScenario.inputs.areaSqft, areaUnit)})</span>
+                      </td>
+                      <td>{formatMoney(baselineScenario.result.totalCost, currency)}</td>
+                      <td>—</td>
+                      <td>—</td>
+                      <td>—</td>
+                    </tr>
+                    {comparisons.map(({ scenario: c, delta: d }) => (
+                      <tr key={c.inputs.id}>
+                        <td>
+                          <strong>{c.inputs.name}</strong> <span className="muted">({tierLabel(c.inputs.tier, library.tiers)} • {formatArea(c.inputs.areaSqft, areaUnit)})</span>
+                        </td>
+                        <td>{formatMoney(d.bTotal, d.currency)}</td>
+                        <td>{formatMoney(d.totalDelta, d.currency)}</td>
+                        <td>{formatPct(d.aTotal > 0 ? d.totalDelta / d.aTotal : 0)}</td>
+                        <td className="mono">
+                          {c.result && baselineScenario.result
+                            ? formatRate(c.result.totalPsqft - baselineScenario.result.totalPsqft, d.currency, areaUnit)
+                            : "—"}
+                        </td>
+                      </tr>
+                    ))}
                   </tbody>
                 </table>
 
+                {comparisons.some((cmp) => cmp.scenario.inputs.areaSqft !== baselineScenario.inputs.areaSqft) && (
+                  <div className="muted" style={{ marginBottom: 10 }}>
+                    Some areas differ from the baseline, so cost deltas include the size effect. Use Δ per {unitLabel} to compare like for like.
+                  </div>
+                )}
+
+                <div style={{ overflowX: "auto", marginBottom: 12 }}>
+                  <table className="table small">
+                    <thead>
+                      <tr>
+                        <th>Category</th>
+                        {comparisons.map((cmp) => (
+                          <th key={cmp.scenario.inputs.id}>{cmp.scenario.inputs.name}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {VMX_CATEGORIES.map((cat) => (
+                        <tr key={cat.id}>
+                          <td>{cat.label}</td>
+                          {comparisons.map((cmp) => {
+                            const r = cmp.delta.rows.find((x) => x.categoryId === cat.id);
+                            if (!r) {
+                              return (
+                                <td key={cmp.scenario.inputs.id} className="muted">
+                                  —
+                                </td>
+                              );
+                            }
+                            return (
+                              <td key={cmp.scenario.inputs.id} className={`deltaRow ${r.heat} ${r.isTopDriver ? "top" : ""}`}>
+                                {formatMoney(r.deltaCost, cmp.delta.currency)}
+                                <span className="muted"> ({(r.absFracOfATotal * 100).toFixed(1)}%)</span>
+                                {r.isTopDriver ? <span className="muted"> •</span> : null}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {focusComparison && (() => {
+                  const d = focusComparison.delta;
+                  const name = focusComparison.scenario.inputs.name;
+                  const baseName = baselineScenario.inputs.name;
+                  return (
+                    <>
+                      <div className="adminTopGrid" style={{ gridTemplateColumns: "1fr 2fr", marginBottom: 10 }}>
+                        <div>
+                          <label className="label">Detail</label>
+                          <select
+                            className="input"
+                            value={focusComparison.scenario.inputs.id}
+                            onChange={(e) => setDeltaFocusId(e.target.value)}
+                          >
+                            {comparisons.map((cmp) => (
+                              <option key={cmp.scenario.inputs.id} value={cmp.scenario.inputs.id}>
+                                {cmp.scenario.inputs.name} vs {baseName}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+
+                      <div className="summaryTop">
+                        <div>
+                          <div className="label">Total Delta</div>
+                          <div className="big">{formatMoney(d.totalDelta, d.currency)}</div>
+                        </div>
+                        <div>
+                          <div className="label">{baseName} Total</div>
+                          <div className="big">{formatMoney(d.aTotal, d.currency)}</div>
+                        </div>
+                        <div>
+                          <div className="label">{name} Total</div>
+                          <div className="big">{formatMoney(d.bTotal, d.currency)}</div>
+                        </div>
+                      </div>
+
+                      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12, marginBottom: 12 }}>
+                        <div>
+                          <div className="label">Largest increases ({name} higher than {baseName})</div>
+                          {d.increases.length === 0 ? (
+                            <div className="muted">None</div>
+                          ) : (
+                            <ul style={{ margin: "6px 0 0 18px" }}>
+                              {d.increases.map((r) => (
+                                <li key={r.categoryId}>
+                                  <strong>{r.categoryLabel}</strong> — {formatMoney(r.deltaCost, d.currency)}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+
+                        <div>
+                          <div className="label">Largest decreases ({name} lower than {baseName})</div>
+                          {d.decreases.length === 0 ? (
+                            <div className="muted">None</div>
+                          ) : (
+                            <ul style={{ margin: "6px 0 0 18px" }}>
+                              {d.decreases.map((r) => (
+                                <li key={r.categoryId}>
+                                  <strong>{r.categoryLabel}</strong> — {formatMoney(r.deltaCost, d.currency)}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      </div>
+
+                      <table className="table small">
+                        <thead>
+                          <tr>
+                            <th>Category</th>
+                            <th>Direction</th>
+                            <th>Δ Cost</th>
+                            <th>Δ % of Total</th>
+                            <th>Impact vs {baseName}</th>
+                            <th>Heat</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {d.rows.map((r) => {
+                            const dirLabel = r.direction === "increase" ? "Increase" : r.direction === "decrease" ? "Decrease" : "Flat";
+                            const heatLabel = r.heat === "high" ? "High" : r.heat === "medium" ? "Medium" : "Low";
+
+                            const impactPctLabel = `${(r.absFracOfATotal * 100).toFixed(1)}%`;
+                            const denom = deltaHighThr > 0 ? deltaHighThr : 0.0001;
+                            const barWidth = Math.min(1, r.absFracOfATotal / denom) * 100;
+
+                            return (
+                              <tr key={r.categoryId} className={`deltaRow ${r.heat} ${r.isTopDriver ? "top" : ""}`}>
+                                <td>{r.categoryLabel}</td>
+                                <td>
+                                  <span className={`deltaPill ${r.direction}`}>{dirLabel}</span>
+                                </td>
+                                <td>{formatMoney(r.deltaCost, d.currency)}</td>
+                                <td>{formatPct(r.deltaPct)}</td>
+                                <td>
+                                  <div className="deltaImpact">
+                                    <div className="deltaImpactPct">{impactPctLabel}</div>
+                                    <div className="deltaBarWrap" aria-hidden="true">
+                                      <div className={`deltaBar ${r.direction}`} style={{ width: `${barWidth}%` }} />
+                                    </div>
+                                  </div>
+                                </td>
+                                <td>
+                                  <strong>{heatLabel}</strong>
+                                  {r.isTopDriver ? <span className="muted"> (driver)</span> : null}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </>
+                  );
+                })()}
+
                 <div className="muted" style={{ marginTop: 10 }}>
-                  Heat is based on |Δ Cost| versus Scenario A total. Medium ≥ {pctToInput(deltaMediumThr)}% and High ≥ {pctToInput(deltaHighThr)}%. Drivers are {driverMode === "topN" ? `the top ${driverTopN} non-zero |Δ Cost| categories` : `categories with impact ≥ ${pctToInput(driverPctThreshold)}% (cap ${driverPctMaxDrivers})`}.
+                  Heat is based on |Δ Cost| versus the baseline total ({baselineScenario.inputs.name}). Medium ≥ {pctToInput(deltaMediumThr)}% and High ≥ {pctToInput(deltaHighThr)}%. Drivers (•) are {driverMode === "topN" ? `the top ${driverTopN} non-zero |Δ Cost| categories` : `categories with impact ≥ ${pctToInput(driverPctThreshold)}% (cap ${driverPctMaxDrivers})`}.
                 </div>
               </>
             )}
@@ -2435,27 +2946,108 @@ export default function App() {
           {/* Advisory readout – compare mode only */}
           <AdvisoryReadout
             compareMode={compareMode}
-            scenarioAName={regionA.name}
-            scenarioBName={regionB.name}
-            resultA={resultA}
-            resultB={resultB}
+            scenarios={computedScenarios.map((c) => ({ id: c.inputs.id, name: scenarioTitle(c), result: c.result, overrides: c.overrides }))}
+            baselineId={baselineScenario.inputs.id}
+            areaUnit={areaUnit}
           />
         </>
       )}
 
+      <QuantityItemsPanel
+        currency={currency}
+        tiers={library.tiers}
+        scenarios={computedScenarios.map((c) => ({ id: c.inputs.id, name: scenarioTitle(c), tier: c.inputs.tier, items: c.inputs.quantityItems }))}
+        onChange={(id, quantityItems) => updateScenario(id, { quantityItems })}
+      />
+
+      <BuildingsPanel
+        currency={currency}
+        areaUnit={areaUnit}
+        typologyOptions={TYPOLOGY_PRESETS}
+        indirectsConfig={constructionIndirectsConfig}
+        tiers={library.tiers}
+        scenarios={computedScenarios.map((c) => ({
+          id: c.inputs.id,
+          name: scenarioTitle(c),
+          tier: c.inputs.tier,
+          typology: c.inputs.typology,
+          mainBuildingName: c.inputs.mainBuildingName,
+          buildings: c.inputs.buildings,
+          rows: c.buildings.map((b) => ({
+            id: b.id,
+            name: b.name,
+            isMain: b.isMain,
+            areaSqft: b.areaSqft,
+            tier: b.tier,
+            typology: b.typology,
+            directHard: b.result?.totalCost ?? null,
+            indirects: b.indirects?.totalIndirects ?? null,
+            contract: b.indirects?.contractTotal ?? null,
+            error: b.error,
+          })),
+        }))}
+        onChange={(id, patch) => updateScenario(id, patch)}
+      />
+
+      <BudgetSolverPanel
+        currency={currency}
+        areaUnit={areaUnit}
+        scenarios={computedScenarios.map((c) => ({
+          id: c.inputs.id,
+          name: scenarioTitle(c),
+          areaSqft: c.inputs.areaSqft,
+          benchmark: c.benchmark,
+          selections: c.inputs.selections,
+          indirectRates: c.result ? (c.buildings[0]?.indirects?.ratesUsed ?? null) : null,
+          landCost: c.inputs.landCost,
+          quantityItems: c.inputs.quantityItems,
+          otherBuildings: otherPricedBuildings(c.buildings),
+          softCostsConfig: c.softCostsConfig,
+        }))}
+        softCostsConfig={softCostsConfig}
+        financingConfig={financingConfig}
+        onApply={(id, selections) => updateScenario(id, { selections })}
+      />
+
       <BenchmarkLibraryAdmin
         library={library}
         setLibrary={setLibrary}
         regionId={adminRegion.id}
         setRegionId={setAdminRegionId}
-        tier={tier}
-        setTier={setTier}
+        tier={adminTier}
+        setTier={setAdminTier}
         currentBenchmark={currentBenchmarkForAdmin}
         onResetSelectedTier={resetCurrentTierToDemo}
+        areaUnit={areaUnit}
+        getRegionDependencies={getRegionDependencies}
+        getTierDependencies={getTierDependencies}
       >
-        <BenchmarkAdmin benchmark={currentBenchmarkForAdmin} setBenchmark={setCurrentBenchmark} />
+        <BenchmarkAdmin benchmark={currentBenchmarkForAdmin} setBenchmark={setCurrentBenchmark} areaUnit={areaUnit} />
       </BenchmarkLibraryAdmin>
 
+      <HistoricalProjectsPanel
+        library={library}
+        setLibrary={setLibrary}
+        dataset={historicalDataset}
+        setDataset={setHistoricalDataset}
+        areaUnit={areaUnit}
+        locationOptions={LOCATION_PRESETS.filter((p) => p.id !== "custom")}
+        regionId={adminRegion.id}
+        tier={adminTier}
+      />
+
+      <CostIndexPanel library={library} config={costIndexConfig} setConfig={setCostIndexConfig} />
+
+      <LibraryHistoryPanel
+        library={library}
+        history={libraryHistory}
+        setHistory={setLibraryHistory}
+        onRollback={commitLibraryVersion}
+        areaUnit={areaUnit}
+        regionId={adminRegion.id}
+        tier={adminTier}
+      />
+
 
       <div className="card" style={{ marginTop: 12 }}>
         <div className="adminHeader">
@@ -2532,32 +3124,56 @@ export default function App() {
         )}
       </div>
 
-      <SnapshotPanel current={resultA} />
+      <SnapshotPanel
+        current={primary.result}
+        areaUnit={areaUnit}
+        capture={captureSnapshot}
+        onRestore={restoreSnapshot}
+        recompute={recomputeSnapshot}
+        deltaSettings={deltaSettings}
+        locationLabel={presetLabel}
+        typologyLabel={typologyLabelById}
+        tierName={tierNameById}
+      />
 
       <ConstructionIndirectsPanel
-        areaSqft={areaSqft}
-        currency={resultA?.currency ?? "USD"}
-        tier={tier}
+        areaUnit={areaUnit}
+        currency={currency}
+        tier={primaryScenario.tier}
+        tiers={library.tiers}
         cfg={constructionIndirectsConfig}
         setCfg={setConstructionIndirectsConfig}
-        resultA={resultA}
-        resultB={resultB}
-        compareMode={compareMode}
+        scenarios={computedScenarios.map((c) => ({
+          id: c.inputs.id,
+          label: c.inputs.name,
+          tier: c.inputs.tier,
+          areaSqft: c.result?.areaSqft ?? c.inputs.areaSqft,
+          result: c.result,
+        }))}
       />
 
 
       <SoftCostsCashflowPanel
         visibleToAll={true}
-        currency={resultA?.currency ?? "USD"}
-        compareMode={compareMode}
-        scenarioAName={regionA.name}
-        scenarioBName={regionB.name}
-        resultA={resultA}
-        resultB={resultB}
+        currency={currency}
+        scenarios={computedScenarios.map((c) => ({
+          id: c.inputs.id,
+          name: `${c.inputs.name} — ${c.region.name}`,
+          result: c.result,
+          indirects: c.indirects?.totalIndirects,
+          tier: safeTierId(library.tiers, c.inputs.tier),
+        }))}
         config={softCostsConfig}
         setConfig={setSoftCostsConfig}
       />
 
+      <FinancingPanel
+        currency={currency}
+        config={financingConfig}
+        setConfig={setFinancingConfig}
+        scenarios={computedScenarios.map((c) => ({ id: c.inputs.id, name: c.inputs.name, result: c.financing }))}
+      />
+
 
       <div className="card" style={{ marginTop: 18 }}>
         <div className="cardHeader">
@@ -2629,107 +3245,24 @@ export default function App() {
             </div>
           </div>
 
-          {/* Scenario A drivers */}
-          <div className="card" style={{ padding: 12 }}>
-            <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
-              <div style={{ fontWeight: 700 }}>Scenario A — {regionA.name}</div>
-              <div className="muted">
-                {typologyLabel(typologyA)} • {presetLabel(locationAPreset)} (×{locationFactorA.toFixed(2)})
-              </div>
-            </div>
-
-            <div style={{ marginTop: 10 }}>
-              <div style={{ fontWeight: 600 }}>Typology impact</div>
-              <div className="muted" style={{ marginTop: 2 }}>
-                {typologyLabel(typologyA)} vs {typologyLabel(baselineTypology)} (same location)
-              </div>
-              {driversA_Typology ? (
-                <>
-                  <div style={{ marginTop: 6 }}>
-                    Overall: {formatMoney(driversA_Typology.totalDeltaCost, resultA?.currency ?? "USD")} ({formatPct(driversA_Typology.totalDeltaPct)})
-                  </div>
-                  {driversA_Typology.lines.length > 0 ? (
-                    <ul style={{ margin: "8px 0 0 18px" }}>
-                      {driversA_Typology.lines.map((l) => (
-                        <li key={`a_t_${l.categoryId}`}>
-                          {l.label}: {formatMoney(l.deltaCost, resultA?.currency ?? "USD")} ({formatPct(l.deltaPct)})
-                        </li>
-                      ))}
-                    </ul>
-                  ) : (
-                    <div className="muted" style={{ marginTop: 6 }}>
-                      No category moved ≥ 5%.
-                    </div>
-                  )}
-                </>
-              ) : (
-                <div className="muted" style={{ marginTop: 6 }}>
-                  —
-                </div>
-              )}
-            </div>
-
-            <div style={{ marginTop: 14 }}>
-              <div style={{ fontWeight: 600 }}>Location impact</div>
-              <div className="muted" style={{ marginTop: 2 }}>
-                {presetLabel(locationAPreset)} (×{locationFactorA.toFixed(2)}) vs {presetLabel(baselineLocationPreset)} (×{baselineLocationFactor.toFixed(2)}) (same typology)
-              </div>
-              {driversA_Location ? (
-                <>
-                  <div style={{ marginTop: 6 }}>
-                    Overall: {formatMoney(driversA_Location.totalDeltaCost, resultA?.currency ?? "USD")} ({formatPct(driversA_Location.totalDeltaPct)})
-                  </div>
-                  {driversA_Location.lines.length > 0 ? (
-                    <ul style={{ margin: "8px 0 0 18px" }}>
-                      {driversA_Location.lines.map((l) => (
-                        <li key={`a_l_${l.categoryId}`}>
-                          {l.label}: {formatMoney(l.deltaCost, resultA?.currency ?? "USD")} ({formatPct(l.deltaPct)})
-                        </li>
-                      ))}
-                    </ul>
-                  ) : (
-                    <div className="muted" style={{ marginTop: 6 }}>
-                      No category moved ≥ 5%.
-                    </div>
-                  )}
-                </>
-              ) : (
-                <div className="muted" style={{ marginTop: 6 }}>
-                  —
-                </div>
-              )}
-            </div>
-
-            <div className="muted" style={{ marginTop: 10 }}>
-              Tip: High-cost locations damp Interiors &amp; FF&amp;E (half the uplift) when the global multiplier is &gt; 1.10.
-            </div>
-          </div>
-
-          {/* Scenario B drivers */}
-          {compareMode && resultB ? (
-            <div className="card" style={{ padding: 12 }}>
-              <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
-                <div style={{ fontWeight: 700 }}>Scenario B — {regionB.name}</div>
-                <div className="muted">
-                  {typologyLabel(typologyB)} • {presetLabel(locationBPreset)} (×{locationFactorB.toFixed(2)})
-                </div>
-              </div>
-
-              <div style={{ marginTop: 10 }}>
-                <div style={{ fontWeight: 600 }}>Typology impact</div>
+          {computedScenarios.map((c) => {
+            const cur = c.result?.currency ?? "USD";
+            const renderImpact = (title: string, caption: string, d: ScenarioComputed["driversTypology"], keyPrefix: string) => (
+              <>
+                <div style={{ fontWeight: 600 }}>{title}</div>
                 <div className="muted" style={{ marginTop: 2 }}>
-                  {typologyLabel(typologyB)} vs {typologyLabel(baselineTypology)} (same location)
+                  {caption}
                 </div>
-                {driversB_Typology ? (
+                {d ? (
                   <>
                     <div style={{ marginTop: 6 }}>
-                      Overall: {formatMoney(driversB_Typology.totalDeltaCost, resultB.currency)} ({formatPct(driversB_Typology.totalDeltaPct)})
+                      Overall: {formatMoney(d.totalDeltaCost, cur)} ({formatPct(d.totalDeltaPct)})
                     </div>
-                    {driversB_Typology.lines.length > 0 ? (
+                    {d.lines.length > 0 ? (
                       <ul style={{ margin: "8px 0 0 18px" }}>
-                        {driversB_Typology.lines.map((l) => (
-                          <li key={`b_t_${l.categoryId}`}>
-                            {l.label}: {formatMoney(l.deltaCost, resultB.currency)} ({formatPct(l.deltaPct)})
+                        {d.lines.map((l) => (
+                          <li key={`${keyPrefix}_${l.categoryId}`}>
+                            {l.label}: {formatMoney(l.deltaCost, cur)} ({formatPct(l.deltaPct)})
                           </li>
                         ))}
                       </ul>
@@ -2744,48 +3277,45 @@ export default function App() {
                     —
                   </div>
                 )}
-              </div>
+              </>
+            );
 
-              <div style={{ marginTop: 14 }}>
-                <div style={{ fontWeight: 600 }}>Location impact</div>
-                <div className="muted" style={{ marginTop: 2 }}>
-                  {presetLabel(locationBPreset)} (×{locationFactorB.toFixed(2)}) vs {presetLabel(baselineLocationPreset)} (×{baselineLocationFactor.toFixed(2)}) (same typology)
-                </div>
-                {driversB_Location ? (
-                  <>
-                    <div style={{ marginTop: 6 }}>
-                      Overall: {formatMoney(driversB_Location.totalDeltaCost, resultB.currency)} ({formatPct(driversB_Location.totalDeltaPct)})
-                    </div>
-                    {driversB_Location.lines.length > 0 ? (
-                      <ul style={{ margin: "8px 0 0 18px" }}>
-                        {driversB_Location.lines.map((l) => (
-                          <li key={`b_l_${l.categoryId}`}>
-                            {l.label}: {formatMoney(l.deltaCost, resultB.currency)} ({formatPct(l.deltaPct)})
-                          </li>
-                        ))}
-                      </ul>
-                    ) : (
-                      <div className="muted" style={{ marginTop: 6 }}>
-                        No category moved ≥ 5%.
-                      </div>
-                    )}
-                  </>
-                ) : (
-                  <div className="muted" style={{ marginTop: 6 }}>
-                    —
+            return (
+              <div key={c.inputs.id} className="card" style={{ padding: 12 }}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "baseline" }}>
+                  <div style={{ fontWeight: 700 }}>
+                    {c.inputs.name} — {c.region.name}
                   </div>
-                )}
-              </div>
+                  <div className="muted">
+                    {typologyLabel(c.inputs.typology)} • {presetLabel(c.inputs.locationPreset)} (×{c.locationFactor.toFixed(2)})
+                  </div>
+                </div>
 
-              <div className="muted" style={{ marginTop: 10 }}>
-                Tip: Typology modifiers are category-targeted (e.g., Hillside raises Substructure + External Works far more than Interiors).
+                <div style={{ marginTop: 10 }}>
+                  {renderImpact(
+                    "Typology impact",
+                    `${typologyLabel(c.inputs.typology)} vs ${typologyLabel(baselineTypology)} (same location)`,
+                    c.driversTypology,
+                    `${c.inputs.id}_t`
+                  )}
+                </div>
+
+                <div style={{ marginTop: 14 }}>
+                  {renderImpact(
+                    "Location impact",
+                    `${presetLabel(c.inputs.locationPreset)} (×${c.locationFactor.toFixed(2)}) vs ${presetLabel(baselineLocationPreset)} (×${baselineLocationFactor.toFixed(2)}) (same typology)`,
+                    c.driversLocation,
+                    `${c.inputs.id}_l`
+                  )}
+                </div>
               </div>
-            </div>
-          ) : (
-            <div className="card" style={{ padding: 12 }}>
-              <div className="muted">Enable Compare Mode to generate Scenario B key drivers.</div>
-            </div>
-          )}
+            );
+          })}
+
+          <div className="muted" style={{ gridColumn: "1 / -1" }}>
+            Tip: High-cost locations damp Interiors &amp; FF&amp;E (half the uplift) when the global multiplier is &gt; 1.10. Typology modifiers are
+            category-targeted (e.g., Hillside raises Substructure + External Works far more than Interiors).
+          </div>
         </div>
       </div>
 
@@ -2795,7 +3325,8 @@ export default function App() {
           <div>
             <div className="cardTitle">Grand Total Project Cost</div>
             <div className="muted">
-              Direct Hard Costs + Construction Indirects + Soft Costs + Escalation (US roll-up)
+              Direct Hard Costs + Construction Indirects + Soft Costs + Escalation{financingConfig.enabled ? " + Financing" : ""} (US roll-up)
+              {compareMode && computedScenarios.length > 1 ? ` • Δ shown vs ${baselineScenario.inputs.name}` : ""}
             </div>
           </div>
         </div>
@@ -2805,130 +3336,46 @@ export default function App() {
             <thead>
               <tr>
                 <th style={{ textAlign: "left", padding: "10px 8px" }}>Line Item</th>
-                <th style={{ textAlign: "right", padding: "10px 8px" }}>{regionA.name}</th>
-                {compareMode && <th style={{ textAlign: "right", padding: "10px 8px" }}>{regionB.name}</th>}
-                {compareMode && <th style={{ textAlign: "right", padding: "10px 8px" }}>Delta</th>}
+                {computedScenarios.map((c) => (
+                  <th key={c.inputs.id} style={{ textAlign: "right", padding: "10px 8px" }}>
+                    {c.inputs.name}
+                    <div className="muted" style={{ fontWeight: 400 }}>
+                      {c.region.name}
+                    </div>
+                  </th>
+                ))}
               </tr>
             </thead>
             <tbody>
-              <tr>
-                <td style={{ padding: "8px" }}>Direct Hard Costs (7 categories)</td>
-                <td style={{ textAlign: "right", padding: "8px" }}>{formatMoney(resultA?.totalCost ?? 0, resultA?.currency ?? "USD")}</td>
-                {compareMode && resultB && <td style={{ textAlign: "right", padding: "8px" }}>{formatMoney(resultB.totalCost, resultB.currency)}</td>}
-                {compareMode && resultB && resultA && (
-                  <td style={{ textAlign: "right", padding: "8px" }}>
-                    {formatMoney(resultB.totalCost - resultA.totalCost, resultA?.currency ?? "USD")}
-                  </td>
-                )}
-              </tr>
-
-              <tr>
-                <td style={{ padding: "8px" }}>Construction Indirects (GCs + fee + contingency + GL)</td>
-                <td style={{ textAlign: "right", padding: "8px" }}>
-                  {indirectsA ? formatMoney(indirectsA.totalIndirects, resultA?.currency ?? "USD") : "—"}
-                </td>
-                {compareMode && (
-                  <td style={{ textAlign: "right", padding: "8px" }}>
-                    {indirectsB && resultB ? formatMoney(indirectsB.totalIndirects, resultB.currency) : "—"}
+              {renderGrandTotalRow("Direct Hard Costs (7 categories)", (c) => c.result?.totalCost ?? null)}
+              {renderGrandTotalRow("Construction Indirects (GCs + fee + contingency + GL)", (c) => c.indirects?.totalIndirects ?? null)}
+              {renderGrandTotalRow("Total Construction Contract", (c) => c.indirects?.contractTotal ?? null, { strong: true })}
+              {renderGrandTotalRow("Land Acquisition Cost", (c) => c.inputs.landCost || 0, { strong: true })}
+              {renderGrandTotalRow("Soft Costs (Owner-side)", (c) => c.soft?.totals.softBase ?? null)}
+              {renderGrandTotalRow("Escalation (per Soft Costs settings)", (c) => c.soft?.totals.escalationAmount ?? null)}
+              {financingConfig.enabled &&
+                renderGrandTotalRow("Financing Carry (capitalised interest + loan fees)", (c) => c.grandTotal?.financing ?? null)}
+              {renderGrandTotalRow("GRAND TOTAL (All-in Project Cost)", (c) => c.grandTotal?.grandTotal ?? null, { strong: true, padding: "10px 8px" })}
+              {uncertaintyConfig.enabled && (
+                <tr>
+                  <td style={{ padding: "8px" }}>
+                    <span className="muted">Range (P10 – P90, Monte Carlo)</span>
                   </td>
-                )}
-                {compareMode && (
-                  <td style={{ textAlign: "right", padding: "8px" }}>
-                    {indirectsB && resultB ? formatMoney(indirectsB.totalIndirects - (indirectsA?.totalIndirects ?? 0), resultA?.currency ?? "USD") : "—"}
-                  </td>
-                )}
-              </tr>
-
-              <tr>
-                <td style={{ padding: "8px" }}>
-                  <strong>Total Construction Contract</strong>
-                </td>
-                <td style={{ textAlign: "right", padding: "8px" }}>
-                  <strong>{indirectsA ? formatMoney(indirectsA.contractTotal, resultA?.currency ?? "USD") : "—"}</strong>
-                </td>
-                {compareMode && (
-                  <td style={{ textAlign: "right", padding: "8px" }}>
-                    <strong>{indirectsB && resultB ? formatMoney(indirectsB.contractTotal, resultB.currency) : "—"}</strong>
-                  </td>
-                )}
-                {compareMode && (
-                  <td style={{ textAlign: "right", padding: "8px" }}>
-                    <strong>{indirectsB && resultB ? formatMoney(indirectsB.contractTotal - (indirectsA?.contractTotal ?? 0), resultA?.currency ?? "USD") : "—"}</strong>
-                  </td>
-                )}
-              </tr>
-
-              <tr>
-                <td style={{ padding: "8px" }}>
-                  <strong>Land Acquisition Cost</strong>
-                </td>
-                <td style={{ textAlign: "right", padding: "8px" }}>
-                  <strong>{formatMoney(landCostA || 0, resultA?.currency ?? "USD")}</strong>
-                </td>
-                {compareMode && (
-                  <td style={{ textAlign: "right", padding: "8px" }}>
-                    <strong>{formatMoney(landCostB || 0, resultA?.currency ?? "USD")}</strong>
-                  </td>
-                )}
-                {compareMode && (
-                  <td style={{ textAlign: "right", padding: "8px" }}>
-                    <strong>{formatMoney((landCostB || 0) - (landCostA || 0), resultA?.currency ?? "USD")}</strong>
-                  </td>
-                )}
-              </tr>
-
-              <tr>
-                <td style={{ padding: "8px" }}>Soft Costs (Owner-side)</td>
-                <td style={{ textAlign: "right", padding: "8px" }}>
-                  {softA ? formatMoney(softA.totals.softBase, resultA?.currency ?? "USD") : "—"}
-                </td>
-                {compareMode && (
-                  <td style={{ textAlign: "right", padding: "8px" }}>
-                    {softB && resultB ? formatMoney(softB.totals.softBase, resultB.currency) : "—"}
-                  </td>
-                )}
-                {compareMode && (
-                  <td style={{ textAlign: "right", padding: "8px" }}>
-                    {softB && resultB ? formatMoney(softB.totals.softBase - (softA?.totals.softBase ?? 0), resultA?.currency ?? "USD") : "—"}
-                  </td>
-                )}
-              </tr>
-
-              <tr>
-                <td style={{ padding: "8px" }}>Escalation (per Soft Costs settings)</td>
-                <td style={{ textAlign: "right", padding: "8px" }}>
-                  {softA ? formatMoney(softA.totals.escalationAmount, resultA?.currency ?? "USD") : "—"}
-                </td>
-                {compareMode && (
-                  <td style={{ textAlign: "right", padding: "8px" }}>
-                    {softB && resultB ? formatMoney(softB.totals.escalationAmount, resultB.currency) : "—"}
-                  </td>
-                )}
-                {compareMode && (
-                  <td style={{ textAlign: "right", padding: "8px" }}>
-                    {softB && resultB ? formatMoney(softB.totals.escalationAmount - (softA?.totals.escalationAmount ?? 0), resultA?.currency ?? "USD") : "—"}
-                  </td>
-                )}
-              </tr>
-
-              <tr>
-                <td style={{ padding: "10px 8px" }}>
-                  <strong>GRAND TOTAL (All-in Project Cost)</strong>
-                </td>
-                <td style={{ textAlign: "right", padding: "10px 8px" }}>
-                  <strong>{grandTotalA ? formatMoney(grandTotalA.grandTotal, resultA?.currency ?? "USD") : "—"}</strong>
-                </td>
-                {compareMode && (
-                  <td style={{ textAlign: "right", padding: "10px 8px" }}>
-                    <strong>{grandTotalB && resultB ? formatMoney(grandTotalB.grandTotal, resultB.currency) : "—"}</strong>
-                  </td>
-                )}
-                {compareMode && (
-                  <td style={{ textAlign: "right", padding: "10px 8px" }}>
-                    <strong>{grandTotalB && resultB ? formatMoney(grandTotalB.grandTotal - (grandTotalA?.grandTotal ?? 0), resultA?.currency ?? "USD") : "—"}</strong>
-                  </td>
-                )}
-              </tr>
+                  {computedScenarios.map((c) => {
+                    const mc = uncertaintyResults[c.inputs.id];
+                    return (
+                      <td key={c.inputs.id} style={{ textAlign: "right", padding: "8px" }}>
+                        {mc ? formatRange(mc) : "—"}
+                        {mc && (
+                          <div className="muted" style={{ fontSize: 12 }}>
+                            P50 {formatMoney(mc.grandTotal.p50, currency)}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              )}
             </tbody>
           </table>
         </div>
@@ -2940,6 +3387,20 @@ export default function App() {
         </div>
       </div>
 
+      <UncertaintyPanel
+        currency={currency}
+        config={uncertaintyConfig}
+        setConfig={setUncertaintyConfig}
+        scenarios={computedScenarios.map((c) => ({ id: c.inputs.id, name: c.inputs.name, result: uncertaintyResults[c.inputs.id] ?? null }))}
+      />
+
+      <SensitivityPanel
+        currency={currency}
+        settings={sensitivitySettings}
+        setSettings={setSensitivitySettings}
+        scenarios={computedScenarios.map((c) => ({ id: c.inputs.id, name: c.inputs.name, result: sensitivityResults[c.inputs.id] ?? null }))}
+      />
+
 
 
       <div className="provenanceBar">
@@ -205,7 +205,7 @@ export function AdminGuardrails(props: Props) {
                 checked={v.driverMode === "pct"}
                 onChange={() => props.onChange({ ...v, driverMode: "pct" })}
               />
-              Impact threshold (vs Scenario A total)
+              Impact threshold (vs baseline total)
             </label>
 
             {v.driverMode === "pct" ? (
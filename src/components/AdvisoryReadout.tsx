@@ -1,13 +1,22 @@
 import React, { useMemo } from "react";
-import { RangeStatus, ScenarioResult, VMX_CATEGORIES, VmxCategoryId } from "../domain/vmx-domain";
-import { formatMoney, formatPct } from "../utils/format";
+import { AreaUnit, RangeStatus, RateOverrideLine, ScenarioResult, VMX_CATEGORIES, VmxCategoryId } from "../domain/vmx-domain";
+import { formatMoney, formatPct, formatRate } from "../utils/format";
+
+export type AdvisoryScenario = {
+  id: string;
+  name: string;
+  result: ScenarioResult | null;
+  /** Manual $/sf overrides (listed with their delta vs the band rate) */
+  overrides?: RateOverrideLine[];
+};
 
 type Props = {
   compareMode: boolean;
-  scenarioAName: string;
-  scenarioBName: string;
-  resultA: ScenarioResult | null;
-  resultB: ScenarioResult | null;
+  /** Ordered as presented */
+  scenarios: AdvisoryScenario[];
+  /** Reference scenario for deltas */
+  baselineId: string;
+  areaUnit?: AreaUnit;
 };
 
 type GuardrailRow = {
@@ -29,133 +38,128 @@ function clamp(n: number, lo: number, hi: number) {
   return Math.max(lo, Math.min(hi, n));
 }
 
-export function AdvisoryReadout({ compareMode, scenarioAName, scenarioBName, resultA, resultB }: Props) {
-  const computed = useMemo(() => {
-    if (!compareMode || !resultA || !resultB) return null;
-
-    const byIdA = new Map<
-      VmxCategoryId,
-      { pct: number; cost: number; minPct: number; maxPct: number; status: RangeStatus }
-    >();
-    resultA.categories.forEach((c) => {
-      byIdA.set(c.categoryId, {
-        pct: c.pctOfTotal,
-        cost: c.cost,
-        minPct: c.targetMinPct,
-        maxPct: c.targetMaxPct,
-        status: c.rangeStatus,
-      });
+type CategoryStat = { pct: number; cost: number; minPct: number; maxPct: number; status: RangeStatus };
+
+function statsById(result: ScenarioResult) {
+  const map = new Map<VmxCategoryId, CategoryStat>();
+  result.categories.forEach((c) => {
+    map.set(c.categoryId, {
+      pct: c.pctOfTotal,
+      cost: c.cost,
+      minPct: c.targetMinPct,
+      maxPct: c.targetMaxPct,
+      status: c.rangeStatus,
     });
+  });
+  return map;
+}
 
-    const byIdB = new Map<
-      VmxCategoryId,
-      { pct: number; cost: number; minPct: number; maxPct: number; status: RangeStatus }
-    >();
-    resultB.categories.forEach((c) => {
-      byIdB.set(c.categoryId, {
-        pct: c.pctOfTotal,
-        cost: c.cost,
-        minPct: c.targetMinPct,
-        maxPct: c.targetMaxPct,
-        status: c.rangeStatus,
-      });
-    });
+function countsFor(map: Map<VmxCategoryId, CategoryStat>) {
+  const counts = { ok: 0, low: 0, high: 0 };
+  for (const cat of VMX_CATEGORIES) {
+    const r = map.get(cat.id);
+    const s: RangeStatus = r?.status ?? "OK";
+    if (s === "OK") counts.ok += 1;
+    else if (s === "LOW") counts.low += 1;
+    else counts.high += 1;
+  }
+  return counts;
+}
 
-    const totalDelta = resultB.totalCost - resultA.totalCost;
-    const deltaPctVsA = resultA.totalCost > 0 ? totalDelta / resultA.totalCost : 0;
-
-    const countsFor = (map: Map<VmxCategoryId, { status: RangeStatus }>) => {
-      const counts = { ok: 0, low: 0, high: 0 };
-      for (const cat of VMX_CATEGORIES) {
-        const r = map.get(cat.id);
-        const s: RangeStatus = r?.status ?? "OK";
-        if (s === "OK") counts.ok += 1;
-        else if (s === "LOW") counts.low += 1;
-        else counts.high += 1;
-      }
-      return counts;
-    };
+function guardrailRows(res: ScenarioResult, map: Map<VmxCategoryId, CategoryStat>): GuardrailRow[] {
+  return VMX_CATEGORIES.map((cat) => {
+    const row = map.get(cat.id);
+    const actual = row?.pct ?? 0;
+    const minPct = row?.minPct ?? 0;
+    const maxPct = row?.maxPct ?? 1;
 
-    const guardrailRows = (scenario: "A" | "B"): GuardrailRow[] => {
-      const res = scenario === "A" ? resultA : resultB;
-      const map = scenario === "A" ? byIdA : byIdB;
-
-      return VMX_CATEGORIES.map((cat) => {
-        const row = map.get(cat.id);
-        const actual = row?.pct ?? 0;
-        const minPct = row?.minPct ?? 0;
-        const maxPct = row?.maxPct ?? 1;
-
-        const status: RangeStatus = row?.status ?? "OK";
-        if (status === "OK") return null;
-
-        const boundary = status === "LOW" ? minPct : status === "HIGH" ? maxPct : clamp(actual, minPct, maxPct);
-        const gap = actual - boundary;
-        const gapPctPoints = Math.abs(gap) * 100;
-        const approxDollarsToBoundary = Math.abs(gap) * res.totalCost;
-
-        return {
-          categoryId: cat.id,
-          categoryLabel: cat.label,
-          status,
-          actual,
-          minPct,
-          maxPct,
-          gapPctPoints,
-          approxDollarsToBoundary,
-        } as GuardrailRow;
-      })
-        .filter((r): r is GuardrailRow => Boolean(r))
-        .sort((a, b) => b.approxDollarsToBoundary - a.approxDollarsToBoundary);
-    };
+    const status: RangeStatus = row?.status ?? "OK";
+    if (status === "OK") return null;
 
-    const aGuardrails = guardrailRows("A");
-    const bGuardrails = guardrailRows("B");
-
-    const drivers = VMX_CATEGORIES.map((cat) => {
-      const a = byIdA.get(cat.id);
-      const b = byIdB.get(cat.id);
-      const deltaCost = (b?.cost ?? 0) - (a?.cost ?? 0);
-      return { id: cat.id, label: cat.label, deltaCost };
-    })
-      .filter((d) => Math.abs(d.deltaCost) > 0)
-      .sort((x, y) => Math.abs(y.deltaCost) - Math.abs(x.deltaCost))
-      .slice(0, 3);
-
-    const reallocation = (scenario: "A" | "B") => {
-      const res = scenario === "A" ? resultA : resultB;
-      const map = scenario === "A" ? byIdA : byIdB;
-
-      const adjustments = VMX_CATEGORIES.map((cat) => {
-        const r = map.get(cat.id);
-        const actual = r?.pct ?? 0;
-        const target = mid(r?.minPct ?? 0, r?.maxPct ?? 1);
-        const deltaPct = target - actual;
-        const dollars = deltaPct * res.totalCost;
-        return { id: cat.id, label: cat.label, dollars };
-      }).sort((a, b) => Math.abs(b.dollars) - Math.abs(a.dollars));
-
-      const increase = adjustments.filter((a) => a.dollars > 0).slice(0, 3);
-      const decrease = adjustments.filter((a) => a.dollars < 0).slice(0, 3);
-
-      return { increase, decrease };
-    };
+    const boundary = status === "LOW" ? minPct : status === "HIGH" ? maxPct : clamp(actual, minPct, maxPct);
+    const gap = actual - boundary;
+    const gapPctPoints = Math.abs(gap) * 100;
+    const approxDollarsToBoundary = Math.abs(gap) * res.totalCost;
+
+    return {
+      categoryId: cat.id,
+      categoryLabel: cat.label,
+      status,
+      actual,
+      minPct,
+      maxPct,
+      gapPctPoints,
+      approxDollarsToBoundary,
+    } as GuardrailRow;
+  })
+    .filter((r): r is GuardrailRow => Boolean(r))
+    .sort((a, b) => b.approxDollarsToBoundary - a.approxDollarsToBoundary);
+}
+
+function reallocation(res: ScenarioResult, map: Map<VmxCategoryId, CategoryStat>) {
+  const adjustments = VMX_CATEGORIES.map((cat) => {
+    const r = map.get(cat.id);
+    const actual = r?.pct ?? 0;
+    const target = mid(r?.minPct ?? 0, r?.maxPct ?? 1);
+    const deltaPct = target - actual;
+    const dollars = deltaPct * res.totalCost;
+    return { id: cat.id, label: cat.label, dollars };
+  }).sort((a, b) => Math.abs(b.dollars) - Math.abs(a.dollars));
+
+  const increase = adjustments.filter((a) => a.dollars > 0).slice(0, 3);
+  const decrease = adjustments.filter((a) => a.dollars < 0).slice(0, 3);
+
+  return { increase, decrease };
+}
+
+export function AdvisoryReadout({ compareMode, scenarios, baselineId, areaUnit = "sqft" }: Props) {
+  const computed = useMemo(() => {
+    const ready = scenarios.filter((s): s is AdvisoryScenario & { result: ScenarioResult } => Boolean(s.result));
+    if (!compareMode || ready.length < 2) return null;
+
+    const baseline = ready.find((s) => s.id === baselineId) ?? ready[0];
+    const baselineStats = statsById(baseline.result);
+
+    const rows = ready.map((s) => {
+      const stats = s.id === baseline.id ? baselineStats : statsById(s.result);
+      const isBaseline = s.id === baseline.id;
+      const totalDelta = s.result.totalCost - baseline.result.totalCost;
+      const deltaPctVsBaseline = baseline.result.totalCost > 0 ? totalDelta / baseline.result.totalCost : 0;
+
+      const drivers = isBaseline
+        ? []
+        : VMX_CATEGORIES.map((cat) => {
+            const a = baselineStats.get(cat.id);
+            const b = stats.get(cat.id);
+            const deltaCost = (b?.cost ?? 0) - (a?.cost ?? 0);
+            return { id: cat.id, label: cat.label, deltaCost };
+          })
+            .filter((d) => Math.abs(d.deltaCost) > 0)
+            .sort((x, y) => Math.abs(y.deltaCost) - Math.abs(x.deltaCost))
+            .slice(0, 3);
+
+      return {
+        id: s.id,
+        name: s.name,
+        result: s.result,
+        isBaseline,
+        total: s.result.totalCost,
+        totalDelta,
+        deltaPctVsBaseline,
+        guardrails: guardrailRows(s.result, stats),
+        counts: countsFor(stats),
+        drivers,
+        realloc: reallocation(s.result, stats),
+        overrides: s.overrides ?? [],
+      };
+    });
 
     return {
-      totalDelta,
-      deltaPctVsA,
-      aTotal: resultA.totalCost,
-      bTotal: resultB.totalCost,
-      currency: resultA.currency,
-      aGuardrails,
-      bGuardrails,
-      aCounts: countsFor(byIdA),
-      bCounts: countsFor(byIdB),
-      drivers,
-      reallocA: reallocation("A"),
-      reallocB: reallocation("B"),
+      baselineName: baseline.name,
+      currency: baseline.result.currency,
+      rows,
     };
-  }, [compareMode, resultA, resultB]);
+  }, [compareMode, scenarios, baselineId]);
 
   if (!compareMode) {
     return (
@@ -166,18 +170,15 @@ export function AdvisoryReadout({ compareMode, scenarioAName, scenarioBName, res
     );
   }
 
-  if (!computed || !resultA || !resultB) {
+  if (!computed) {
     return (
       <div className="card">
         <h2>VMX Advisory Readout</h2>
-        <div className="muted">Waiting for Scenario A + B results…</div>
+        <div className="muted">Waiting for at least two scenario results…</div>
       </div>
     );
   }
 
-  const scenarioANameUpper = scenarioAName.toUpperCase();
-  const scenarioBNameUpper = scenarioBName.toUpperCase();
-
   const pillStyle = (type: "ok" | "low" | "high") => {
     const base: React.CSSProperties = {
       display: "inline-flex",
@@ -312,66 +313,104 @@ export function AdvisoryReadout({ compareMode, scenarioAName, scenarioBName, res
     <div className="card" style={{ overflowX: "hidden" }}>
       <h2 style={{ marginBottom: 4 }}>VMX Advisory Readout</h2>
       <div className="muted" style={{ marginBottom: 12 }}>
-        A structured interpretation of guardrails, allocation pressure points, and the most material drivers.
+        A structured interpretation of guardrails, allocation pressure points, and the most material drivers. Deltas are vs the baseline
+        scenario (<strong>{computed.baselineName}</strong>).
       </div>
 
-      <div style={{ display: "grid", gridTemplateColumns: "repeat(3, minmax(0, 1fr))", gap: 18, alignItems: "start" }}>
-        <div style={{ minWidth: 0 }}>
-          <div className="label">Scenario A — {scenarioANameUpper} Total</div>
-          <div className="big">{formatMoney(computed.aTotal, computed.currency)}</div>
-          <div className="muted">Avg: {formatMoney(computed.aTotal / Math.max(1, resultA.areaSqft), computed.currency)} / sq ft</div>
-        </div>
-
-        <div style={{ minWidth: 0 }}>
-          <div className="label">Scenario B — {scenarioBNameUpper} Total</div>
-          <div className="big">{formatMoney(computed.bTotal, computed.currency)}</div>
-          <div className="muted">Avg: {formatMoney(computed.bTotal / Math.max(1, resultB.areaSqft), computed.currency)} / sq ft</div>
-        </div>
-
-        <div style={{ minWidth: 0 }}>
-          <div className="label">Total Delta (B − A)</div>
-          <div className="big">{formatMoney(computed.totalDelta, computed.currency)}</div>
-          <div className="muted">{(computed.deltaPctVsA * 100).toFixed(1)}% vs A</div>
-        </div>
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: `repeat(${Math.min(3, computed.rows.length)}, minmax(0, 1fr))`,
+          gap: 18,
+          alignItems: "start",
+        }}
+      >
+        {computed.rows.map((r) => (
+          <div key={r.id} style={{ minWidth: 0 }}>
+            <div className="label">{r.name.toUpperCase()} Total</div>
+            <div className="big">{formatMoney(r.total, computed.currency)}</div>
+            <div className="muted">Avg: {formatRate(r.total / Math.max(1, r.result.areaSqft), computed.currency, areaUnit)}</div>
+            <div className="muted">
+              {r.isBaseline
+                ? "Baseline"
+                : `Δ vs baseline: ${formatMoney(r.totalDelta, computed.currency)} (${(r.deltaPctVsBaseline * 100).toFixed(1)}%)`}
+            </div>
+          </div>
+        ))}
       </div>
 
       <div style={{ display: "grid", gridTemplateColumns: "repeat(2, minmax(0, 1fr))", gap: 18, marginTop: 16, alignItems: "start" }}>
-        <GuardrailSnapshot
-          title={`Scenario A — ${scenarioAName}`}
-          rows={computed.aGuardrails}
-          currency={computed.currency}
-          okCount={computed.aCounts.ok}
-          lowCount={computed.aCounts.low}
-          highCount={computed.aCounts.high}
-        />
-        <GuardrailSnapshot
-          title={`Scenario B — ${scenarioBName}`}
-          rows={computed.bGuardrails}
-          currency={computed.currency}
-          okCount={computed.bCounts.ok}
-          lowCount={computed.bCounts.low}
-          highCount={computed.bCounts.high}
-        />
+        {computed.rows.map((r) => (
+          <GuardrailSnapshot
+            key={r.id}
+            title={r.name}
+            rows={r.guardrails}
+            currency={computed.currency}
+            okCount={r.counts.ok}
+            lowCount={r.counts.low}
+            highCount={r.counts.high}
+          />
+        ))}
       </div>
 
       <div className="panel" style={{ marginTop: 16 }}>
         <div className="label" style={{ marginBottom: 8 }}>
-          Most material delta drivers (B − A)
+          Most material delta drivers (vs {computed.baselineName})
         </div>
-        {computed.drivers.length === 0 ? (
-          <div className="muted">No drivers (all deltas are zero).</div>
-        ) : (
-          <ul style={{ margin: "0 0 0 18px" }}>
-            {computed.drivers.map((d) => (
-              <li key={d.id}>
-                <strong>{d.label}</strong> — {formatMoney(d.deltaCost, computed.currency)}{" "}
-                <span className="muted">({d.deltaCost > 0 ? "increase" : "decrease"})</span>
-              </li>
-            ))}
-          </ul>
-        )}
+        {computed.rows
+          .filter((r) => !r.isBaseline)
+          .map((r) => (
+            <div key={r.id} style={{ marginBottom: 8 }}>
+              <div style={{ fontWeight: 900 }}>
+                {r.name} − {computed.baselineName}
+              </div>
+              {r.drivers.length === 0 ? (
+                <div className="muted">No drivers (all deltas are zero).</div>
+              ) : (
+                <ul style={{ margin: "0 0 0 18px" }}>
+                  {r.drivers.map((d) => (
+                    <li key={d.id}>
+                      <strong>{d.label}</strong> — {formatMoney(d.deltaCost, computed.currency)}{" "}
+                      <span className="muted">({d.deltaCost > 0 ? "increase" : "decrease"})</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
       </div>
 
+      {computed.rows.some((r) => r.overrides.length > 0) && (
+        <div className="panel" style={{ marginTop: 12 }}>
+          <div className="label" style={{ marginBottom: 6 }}>
+            Manual rate overrides
+          </div>
+          <div className="muted" style={{ marginBottom: 10 }}>
+            Categories priced from a manual rate instead of the benchmark band. Δ is versus the band rate at the scenario’s area.
+          </div>
+          {computed.rows
+            .filter((r) => r.overrides.length > 0)
+            .map((r) => (
+              <div key={r.id} style={{ marginBottom: 8 }}>
+                <div style={{ fontWeight: 900 }}>{r.name}</div>
+                <ul style={{ margin: "0 0 0 18px" }}>
+                  {r.overrides.map((o) => (
+                    <li key={o.categoryId}>
+                      <strong>{o.label}</strong> — {formatRate(o.overridePsqft, computed.currency, areaUnit)} vs {o.band} band{" "}
+                      {formatRate(o.bandPsqft, computed.currency, areaUnit)} ({o.deltaCost >= 0 ? "+" : ""}
+                      {formatMoney(o.deltaCost, computed.currency)})
+                      <div className="muted">
+                        {o.reason}
+                        {o.source ? ` • Source: ${o.source}` : ""}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+        </div>
+      )}
+
       <div className="panel" style={{ marginTop: 12 }}>
         <div className="label" style={{ marginBottom: 6 }}>
           Reallocation guidance (heuristic)
@@ -381,61 +420,35 @@ export function AdvisoryReadout({ compareMode, scenarioAName, scenarioBName, res
         </div>
 
         <div style={{ display: "grid", gridTemplateColumns: "repeat(2, minmax(0, 1fr))", gap: 18 }}>
-          <div style={{ minWidth: 0 }}>
-            <div className="label" style={{ marginBottom: 6 }}>
-              Scenario A — {scenarioAName}
-            </div>
-
-            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
-              <div style={{ minWidth: 0 }}>
-                <div style={{ fontWeight: 900, marginBottom: 6 }}>Increase allocation</div>
-                {computed.reallocA.increase.map((x) => (
-                  <div key={x.id} style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
-                    <span style={{ overflowWrap: "anywhere" }}>{x.label}</span>
-                    <strong style={{ whiteSpace: "nowrap" }}>{formatMoney(x.dollars, computed.currency)}</strong>
-                  </div>
-                ))}
+          {computed.rows.map((r) => (
+            <div key={r.id} style={{ minWidth: 0 }}>
+              <div className="label" style={{ marginBottom: 6 }}>
+                {r.name}
               </div>
 
-              <div style={{ minWidth: 0 }}>
-                <div style={{ fontWeight: 900, marginBottom: 6 }}>Decrease allocation</div>
-                {computed.reallocA.decrease.map((x) => (
-                  <div key={x.id} style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
-                    <span style={{ overflowWrap: "anywhere" }}>{x.label}</span>
-                    <strong style={{ whiteSpace: "nowrap" }}>{formatMoney(Math.abs(x.dollars), computed.currency)}</strong>
-                  </div>
-                ))}
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+                <div style={{ minWidth: 0 }}>
+                  <div style={{ fontWeight: 900, marginBottom: 6 }}>Increase allocation</div>
+                  {r.realloc.increase.map((x) => (
+                    <div key={x.id} style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
+                      <span style={{ overflowWrap: "anywhere" }}>{x.label}</span>
+                      <strong style={{ whiteSpace: "nowrap" }}>{formatMoney(x.dollars, computed.currency)}</strong>
+                    </div>
+                  ))}
+                </div>
+
+                <div style={{ minWidth: 0 }}>
+                  <div style={{ fontWeight: 900, marginBottom: 6 }}>Decrease allocation</div>
+                  {r.realloc.decrease.map((x) => (
+                    <div key={x.id} style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
+                      <span style={{ overflowWrap: "anywhere" }}>{x.label}</span>
+                      <strong style={{ whiteSpace: "nowrap" }}>{formatMoney(Math.abs(x.dollars), computed.currency)}</strong>
+                    </div>
+                  ))}
+                </div>
               </div>
             </div>
-          </div>
-
-          <div style={{ minWidth: 0 }}>
-            <div className="label" style={{ marginBottom: 6 }}>
-              Scenario B — {scenarioBName}
-            </div>
-
-            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
-              <div style={{ minWidth: 0 }}>
-                <div style={{ fontWeight: 900, marginBottom: 6 }}>Increase allocation</div>
-                {computed.reallocB.increase.map((x) => (
-                  <div key={x.id} style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
-                    <span style={{ overflowWrap: "anywhere" }}>{x.label}</span>
-                    <strong style={{ whiteSpace: "nowrap" }}>{formatMoney(x.dollars, computed.currency)}</strong>
-                  </div>
-                ))}
-              </div>
-
-              <div style={{ minWidth: 0 }}>
-                <div style={{ fontWeight: 900, marginBottom: 6 }}>Decrease allocation</div>
-                {computed.reallocB.decrease.map((x) => (
-                  <div key={x.id} style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
-                    <span style={{ overflowWrap: "anywhere" }}>{x.label}</span>
-                    <strong style={{ whiteSpace: "nowrap" }}>{formatMoney(Math.abs(x.dollars), computed.currency)}</strong>
-                  </div>
-                ))}
-              </div>
-            </div>
-          </div>
+          ))}
         </div>
       </div>
     </div>
@@ -1,17 +1,32 @@
 import React, { useMemo, useState } from "react";
 import {
+  AreaUnit,
+  BandProvenance,
   BenchmarkSet,
   HeatBand,
+  PROVENANCE_CONFIDENCES,
+  ProvenanceConfidence,
+  SubElementBenchmark,
+  UNIFORMAT_L2_ELEMENTS,
   VMX_CATEGORIES,
   VmxCategoryId,
+  areaUnitLabel,
+  psqftToRate,
+  rateToPsqft,
   computeImpliedMediumAllocationShares,
   deriveTargetRangesFromMedium,
   ensureCompleteTargetRanges,
+  describeProvenance,
+  getBandProvenance,
+  getSubElements,
+  rollUpSubElements,
 } from "../domain/vmx-domain";
 
 type Props = {
   benchmark: BenchmarkSet;
   setBenchmark: (next: BenchmarkSet) => void;
+  /** Display/input unit; bands are always stored as $/sq ft. */
+  areaUnit?: AreaUnit;
 };
 
 const BANDS: HeatBand[] = ["LOW", "MEDIUM", "HIGH"];
@@ -37,6 +52,42 @@ function setBandPsqft(benchmark: BenchmarkSet, categoryId: VmxCategoryId, band:
   return next;
 }
 
+/** Empty source clears the record (the band goes back to "No source recorded"). */
+function setBandProvenance(benchmark: BenchmarkSet, categoryId: VmxCategoryId, band: HeatBand, provenance: BandProvenance | undefined): BenchmarkSet {
+  const next = deepClone(benchmark);
+  const existing = next.bands.find((x) => x.categoryId === categoryId && x.band === band);
+  if (!existing) return benchmark;
+  if (provenance && provenance.source.trim()) existing.provenance = provenance;
+  else delete existing.provenance;
+  return next;
+}
+
+const EMPTY_PROVENANCE: BandProvenance = { source: "", effectiveDate: "", sampleCount: 0, confidence: "medium", author: "" };
+
+function withSubElements(benchmark: BenchmarkSet, subElements: SubElementBenchmark[]): BenchmarkSet {
+  return rollUpSubElements({ ...benchmark, subElements: subElements.length ? subElements : undefined });
+}
+
+/** The first sub-element inherits the category's current rates so adding it never changes the rolled-up total. */
+function addSubElement(benchmark: BenchmarkSet, categoryId: VmxCategoryId, def: { id: string; label: string; code?: string }): BenchmarkSet {
+  const existing = benchmark.subElements ?? [];
+  const isFirst = !existing.some((s) => s.parentId === categoryId);
+  let id = def.id;
+  let n = 2;
+  while (existing.some((s) => s.id === id)) id = `${def.id}_${n++}`;
+  const psqft = {} as Record<HeatBand, number>;
+  for (const band of BANDS) psqft[band] = isFirst ? getBandPsqft(benchmark, categoryId, band) : 0;
+  return withSubElements(benchmark, [...existing, { id, parentId: categoryId, label: def.label, code: def.code, psqft }]);
+}
+
+function updateSubElement(benchmark: BenchmarkSet, id: string, patch: Partial<SubElementBenchmark>): BenchmarkSet {
+  return withSubElements(benchmark, (benchmark.subElements ?? []).map((s) => (s.id === id ? { ...s, ...patch } : s)));
+}
+
+function removeSubElement(benchmark: BenchmarkSet, id: string): BenchmarkSet {
+  return withSubElements(benchmark, (benchmark.subElements ?? []).filter((s) => s.id !== id));
+}
+
 function getRangePct(benchmark: BenchmarkSet, categoryId: VmxCategoryId) {
   const r = benchmark.targetRanges.find((x) => x.categoryId === categoryId);
   return { minPct: r?.minPct ?? 0, maxPct: r?.maxPct ?? 0 };
@@ -85,7 +136,9 @@ function Btn(props: { label: string; onClick: () => void; title?: string }) {
   );
 }
 
-export function BenchmarkAdmin({ benchmark, setBenchmark }: Props) {
+export function BenchmarkAdmin({ benchmark, setBenchmark, areaUnit = "sqft" }: Props) {
+  const unitLabel = areaUnitLabel(areaUnit);
+
   // Implied Medium allocation shares (helps the advisor understand calibration)
   const impliedShares = useMemo(() => {
     try {
@@ -115,6 +168,11 @@ export function BenchmarkAdmin({ benchmark, setBenchmark }: Props) {
   const [minHalfWidthPp, setMinHalfWidthPp] = useState<number>(1.0);
   const [maxHalfWidthPp, setMaxHalfWidthPp] = useState<number>(6.0);
 
+  // UniFormat Level 2 drill-down (per category)
+  const [openSubs, setOpenSubs] = useState<Partial<Record<VmxCategoryId, boolean>>>({});
+  // Per-band provenance editor (per category)
+  const [openSources, setOpenSources] = useState<Partial<Record<VmxCategoryId, boolean>>>({});
+
   function normalizeAndFillRanges() {
     const filled = ensureCompleteTargetRanges(benchmark);
     setBenchmark({ ...benchmark, targetRanges: filled });
@@ -137,7 +195,7 @@ export function BenchmarkAdmin({ benchmark, setBenchmark }: Props) {
 
   return (
     <div style={{ marginTop: 14 }}>
-      <h3>Benchmark (Bands $/sq ft) + Target Ranges (%)</h3>
+      <h3>Benchmark (Bands $/{unitLabel}) + Target Ranges (%)</h3>
 
       <div className="adminTopGrid" style={{ marginTop: 10 }}>
         <div>
@@ -154,6 +212,22 @@ export function BenchmarkAdmin({ benchmark, setBenchmark }: Props) {
             placeholder="USD"
           />
         </div>
+
+        <div>
+          <label className="label" title="Month the band rates were priced at; escalated to the estimate date through the region's cost index">
+            Effective date (rates as of)
+          </label>
+          <input
+            className="input"
+            type="month"
+            value={benchmark.effectiveDate ?? ""}
+            onChange={(e) => {
+              const next: BenchmarkSet = { ...benchmark, effectiveDate: e.target.value };
+              if (!e.target.value) delete next.effectiveDate;
+              setBenchmark(next);
+            }}
+          />
+        </div>
       </div>
 
       {/* Calibration tools */}
@@ -254,68 +328,279 @@ export function BenchmarkAdmin({ benchmark, setBenchmark }: Props) {
             const impliedPct = (implied * 100).toFixed(1);
 
             const isInvalid = range.maxPct < range.minPct;
+            const subs = getSubElements(benchmark, cat.id);
+            const isOpen = !!openSubs[cat.id];
+            const sourcesOpen = !!openSources[cat.id];
+            const undocumented = BANDS.filter((band) => !getBandProvenance(benchmark, cat.id, band)).length;
+            const suggestions = UNIFORMAT_L2_ELEMENTS.filter((d) => d.parentId === cat.id && !subs.some((s) => s.id === d.id));
 
             return (
-              <tr key={cat.id}>
-                <td>
-                  <div className="catLabel">{cat.label}</div>
-                </td>
-
-                {BANDS.map((band) => {
-                  const value = getBandPsqft(benchmark, cat.id, band);
-                  return (
-                    <td key={band}>
-                      <input
-                        className="input adminInput"
-                        type="number"
-                        step="1"
-                        value={value}
-                        onChange={(e) => {
-                          const psqft = Number(e.target.value);
-                          const safe = Number.isFinite(psqft) ? psqft : 0;
-                          setBenchmark(setBandPsqft(benchmark, cat.id, band, safe));
-                        }}
-                        aria-label={`${cat.label} ${band} $/sq ft`}
-                      />
+              <React.Fragment key={cat.id}>
+                <tr>
+                  <td>
+                    <div className="catLabel">{cat.label}</div>
+                    <button
+                      type="button"
+                      className="secondaryBtn"
+                      style={{ marginTop: 6, padding: "4px 8px", fontSize: 12 }}
+                      onClick={() => setOpenSubs((p) => ({ ...p, [cat.id]: !p[cat.id] }))}
+                    >
+                      {isOpen ? "▾" : "▸"} Sub-elements{subs.length ? ` (${subs.length})` : ""}
+                    </button>
+                    <button
+                      type="button"
+                      className="secondaryBtn"
+                      style={{ marginTop: 6, marginLeft: 6, padding: "4px 8px", fontSize: 12 }}
+                      onClick={() => setOpenSources((p) => ({ ...p, [cat.id]: !p[cat.id] }))}
+                    >
+                      {sourcesOpen ? "▾" : "▸"} Sources{undocumented ? ` (${undocumented} missing)` : ""}
+                    </button>
+                  </td>
+
+                  {BANDS.map((band) => {
+                    // Round only for display; an untouched cell is never written back, so no drift.
+                    const value = Math.round(psqftToRate(getBandPsqft(benchmark, cat.id, band), areaUnit) * 100) / 100;
+                    return (
+                      <td key={band}>
+                        <input
+                          className="input adminInput"
+                          type="number"
+                          step="1"
+                          value={value}
+                          readOnly={subs.length > 0}
+                          title={subs.length > 0 ? "Rolled up from sub-elements" : undefined}
+                          onChange={(e) => {
+                            const rate = Number(e.target.value);
+                            const safe = Number.isFinite(rate) ? rate : 0;
+                            setBenchmark(setBandPsqft(benchmark, cat.id, band, rateToPsqft(safe, areaUnit)));
+                          }}
+                          aria-label={`${cat.label} ${band} $/${unitLabel}`}
+                        />
+                        <div className="muted" style={{ fontSize: 11, marginTop: 2 }} title={describeProvenance(getBandProvenance(benchmark, cat.id, band))}>
+                          {getBandProvenance(benchmark, cat.id, band)?.source || "No source"}
+                        </div>
+                      </td>
+                    );
+                  })}
+
+                  <td>
+                    <input
+                      className="input adminInput"
+                      type="number"
+                      step="0.1"
+                      value={pctToInput(range.minPct)}
+                      onChange={(e) => {
+                        const nextMin = inputToPct(e.target.value);
+                        // Keep sane: if Min rises above Max, push Max up to Min
+                        const nextMax = Math.max(range.maxPct, nextMin);
+                        setBenchmark(setRangePct(benchmark, cat.id, nextMin, nextMax));
+                      }}
+                    />
+                  </td>
+
+                  <td>
+                    <input
+                      className="input adminInput"
+                      type="number"
+                      step="0.1"
+                      value={pctToInput(range.maxPct)}
+                      onChange={(e) => {
+                        const nextMax = inputToPct(e.target.value);
+                        // Keep sane: if Max drops below Min, pull Min down to Max
+                        const nextMin = Math.min(range.minPct, nextMax);
+                        setBenchmark(setRangePct(benchmark, cat.id, nextMin, nextMax));
+                      }}
+                    />
+                  </td>
+
+                  <td className="muted">
+                    <div>Implied “Medium” share: {impliedPct}%</div>
+                    {isInvalid ? <div style={{ fontWeight: 900 }}>Range invalid (max &lt; min)</div> : null}
+                    {subs.length > 0 ? <div>Bands = sum of {subs.length} sub-elements</div> : null}
+                  </td>
+                </tr>
+
+                {sourcesOpen && (
+                  <tr>
+                    <td colSpan={7} style={{ paddingLeft: 18 }}>
+                      <table className="table small" style={{ marginBottom: 8 }}>
+                        <thead>
+                          <tr>
+                            <th style={{ width: "10%" }}>Band</th>
+                            <th style={{ width: "32%" }}>Source (project / publication)</th>
+                            <th style={{ width: "15%" }}>Effective date</th>
+                            <th style={{ width: "10%" }}>Samples</th>
+                            <th style={{ width: "13%" }}>Confidence</th>
+                            <th style={{ width: "20%" }}>Author</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {BANDS.map((band) => {
+                            const prov = getBandProvenance(benchmark, cat.id, band);
+                            const edit = (patch: Partial<BandProvenance>) =>
+                              setBenchmark(setBandProvenance(benchmark, cat.id, band, { ...(prov ?? EMPTY_PROVENANCE), ...patch }));
+                            return (
+                              <tr key={band}>
+                                <td>{band}</td>
+                                <td>
+                                  <input
+                                    className="input adminInput"
+                                    value={prov?.source ?? ""}
+                                    placeholder="e.g. RLB Q3 2025 report"
+                                    onChange={(e) => edit({ source: e.target.value })}
+                                    aria-label={`${cat.label} ${band} source`}
+                                  />
+                                </td>
+                                <td>
+                                  <input
+                                    className="input adminInput"
+                                    type="date"
+                                    value={prov?.effectiveDate ?? ""}
+                                    disabled={!prov}
+                                    onChange={(e) => edit({ effectiveDate: e.target.value })}
+                                    aria-label={`${cat.label} ${band} effective date`}
+                                  />
+                                </td>
+                                <td>
+                                  <input
+                                    className="input adminInput"
+                                    type="number"
+                                    min={0}
+                                    step={1}
+                                    value={prov?.sampleCount ?? 0}
+                                    disabled={!prov}
+                                    onChange={(e) => edit({ sampleCount: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                                    aria-label={`${cat.label} ${band} sample count`}
+                                  />
+                                </td>
+                                <td>
+                                  <select
+                                    className="input adminInput"
+                                    value={prov?.confidence ?? "medium"}
+                                    disabled={!prov}
+                                    onChange={(e) => edit({ confidence: e.target.value as ProvenanceConfidence })}
+                                    aria-label={`${cat.label} ${band} confidence`}
+                                  >
+                                    {PROVENANCE_CONFIDENCES.map((c) => (
+                                      <option key={c} value={c}>
+                                        {c}
+                                      </option>
+                                    ))}
+                                  </select>
+                                </td>
+                                <td>
+                                  <input
+                                    className="input adminInput"
+                                    value={prov?.author ?? ""}
+                                    disabled={!prov}
+                                    onChange={(e) => edit({ author: e.target.value })}
+                                    aria-label={`${cat.label} ${band} author`}
+                                  />
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                      <div className="muted" style={{ marginBottom: 8 }}>
+                        Enter a source first; clearing it removes the band’s provenance. Samples = 0 means professional judgement.
+                      </div>
+                    </td>
+                  </tr>
+                )}
+
+                {isOpen && (
+                  <tr>
+                    <td colSpan={7} style={{ paddingLeft: 18 }}>
+                      {subs.length === 0 ? (
+                        <div className="muted" style={{ marginBottom: 8 }}>
+                          No sub-elements — this category is priced as a single line. The first sub-element you add takes over the category’s current rates.
+                        </div>
+                      ) : (
+                        <table className="table small" style={{ marginBottom: 8 }}>
+                          <thead>
+                            <tr>
+                              <th style={{ width: "12%" }}>Code</th>
+                              <th style={{ width: "28%" }}>Sub-element</th>
+                              {BANDS.map((band) => (
+                                <th key={band} style={{ width: "16%" }}>
+                                  {band} ($/{unitLabel})
+                                </th>
+                              ))}
+                              <th />
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {subs.map((s) => (
+                              <tr key={s.id}>
+                                <td>
+                                  <input
+                                    className="input adminInput"
+                                    value={s.code ?? ""}
+                                    onChange={(e) => setBenchmark(updateSubElement(benchmark, s.id, { code: e.target.value || undefined }))}
+                                    aria-label={`${s.label} UniFormat code`}
+                                  />
+                                </td>
+                                <td>
+                                  <input
+                                    className="input adminInput"
+                                    value={s.label}
+                                    onChange={(e) => setBenchmark(updateSubElement(benchmark, s.id, { label: e.target.value }))}
+                                    aria-label={`${cat.label} sub-element name`}
+                                  />
+                                </td>
+                                {BANDS.map((band) => (
+                                  <td key={band}>
+                                    <input
+                                      className="input adminInput"
+                                      type="number"
+                                      step="1"
+                                      value={Math.round(psqftToRate(s.psqft[band], areaUnit) * 100) / 100}
+                                      onChange={(e) => {
+                                        const rate = Number(e.target.value);
+                                        const psqft = rateToPsqft(Number.isFinite(rate) ? Math.max(0, rate) : 0, areaUnit);
+                                        setBenchmark(updateSubElement(benchmark, s.id, { psqft: { ...s.psqft, [band]: psqft } }));
+                                      }}
+                                      aria-label={`${s.label} ${band} $/${unitLabel}`}
+                                    />
+                                  </td>
+                                ))}
+                                <td>
+                                  <button type="button" className="secondaryBtn" onClick={() => setBenchmark(removeSubElement(benchmark, s.id))}>
+                                    Remove
+                                  </button>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+
+                      <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                        {suggestions.map((d) => (
+                          <button
+                            key={d.id}
+                            type="button"
+                            className="secondaryBtn"
+                            style={{ padding: "4px 8px", fontSize: 12 }}
+                            onClick={() => setBenchmark(addSubElement(benchmark, cat.id, d))}
+                          >
+                            + {d.code} {d.label}
+                          </button>
+                        ))}
+                        <button
+                          type="button"
+                          className="secondaryBtn"
+                          style={{ padding: "4px 8px", fontSize: 12 }}
+                          onClick={() => setBenchmark(addSubElement(benchmark, cat.id, { id: `${cat.id}_CUSTOM`, label: "Custom sub-element" }))}
+                        >
+                          + Custom
+                        </button>
+                      </div>
                     </td>
-                  );
-                })}
-
-                <td>
-                  <input
-                    className="input adminInput"
-                    type="number"
-                    step="0.1"
-                    value={pctToInput(range.minPct)}
-                    onChange={(e) => {
-                      const nextMin = inputToPct(e.target.value);
-                      // Keep sane: if Min rises above Max, push Max up to Min
-                      const nextMax = Math.max(range.maxPct, nextMin);
-                      setBenchmark(setRangePct(benchmark, cat.id, nextMin, nextMax));
-                    }}
-                  />
-                </td>
-
-                <td>
-                  <input
-                    className="input adminInput"
-                    type="number"
-                    step="0.1"
-                    value={pctToInput(range.maxPct)}
-                    onChange={(e) => {
-                      const nextMax = inputToPct(e.target.value);
-                      // Keep sane: if Max drops below Min, pull Min down to Max
-                      const nextMin = Math.min(range.minPct, nextMax);
-                      setBenchmark(setRangePct(benchmark, cat.id, nextMin, nextMax));
-                    }}
-                  />
-                </td>
-
-                <td className="muted">
-                  <div>Implied “Medium” share: {impliedPct}%</div>
-                  {isInvalid ? <div style={{ fontWeight: 900 }}>Range invalid (max &lt; min)</div> : null}
-                </td>
-              </tr>
+                  </tr>
+                )}
+              </React.Fragment>
             );
           })}
         </tbody>
@@ -0,0 +1,230 @@
+import React, { useMemo, useRef, useState } from "react";
+import { AreaUnit, VMX_CATEGORIES, areaUnitLabel, psqftToRate } from "../domain/vmx-domain";
+import { BenchmarkLibrary, tierLabel } from "../data/benchmark-library-storage";
+import {
+  CSV_FIELDS,
+  ColumnMapping,
+  CsvField,
+  applyCsvImport,
+  buildBandsCsv,
+  guessColumnMapping,
+  parseCsv,
+  planCsvImport,
+} from "../data/benchmark-csv-import";
+import { formatPct } from "../utils/format";
+
+type Props = {
+  library: BenchmarkLibrary;
+  setLibrary: (next: BenchmarkLibrary) => void;
+  areaUnit: AreaUnit;
+  onClose: () => void;
+};
+
+type LoadedCsv = { fileName: string; headers: string[]; rows: string[][] };
+
+const MAX_ISSUES_SHOWN = 200;
+
+/**
+ * Spreadsheet import for band rates and target ranges: pick a CSV, map its
+ * columns, review every cell that would change, then apply to the library.
+ */
+export function BenchmarkCsvImport({ library, setLibrary, areaUnit, onClose }: Props) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [loaded, setLoaded] = useState<LoadedCsv | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [rateUnit, setRateUnit] = useState<AreaUnit>(areaUnit);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const plan = useMemo(
+    () => (loaded && mapping ? planCsvImport(library, loaded.rows, mapping, rateUnit, `Spreadsheet import — ${loaded.fileName}`) : null),
+    [library, loaded, mapping, rateUnit]
+  );
+
+  const errors = plan?.issues.filter((i) => i.severity === "error") ?? [];
+  const warnings = plan?.issues.filter((i) => i.severity === "warning") ?? [];
+  const unit = areaUnitLabel(areaUnit);
+
+  async function onFile(file: File) {
+    setReadError(null);
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        setReadError(`${file.name}: needs a header row and at least one data row.`);
+        return;
+      }
+      const headers = rows[0].map((h) => h.trim());
+      setLoaded({ fileName: file.name, headers, rows: rows.slice(1) });
+      setMapping(guessColumnMapping(headers));
+    } catch {
+      setReadError(`Could not read "${file.name}".`);
+    }
+  }
+
+  function onDownloadTemplate() {
+    const blob = new Blob([buildBandsCsv(library, rateUnit)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "VMX_Benchmark_Bands.csv";
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 2500);
+  }
+
+  function onApply() {
+    if (!plan || plan.changes.length === 0) return;
+    if (errors.length) {
+      const ok = window.confirm(`${errors.length} row(s) have errors and will be skipped. Apply the remaining changes?`);
+      if (!ok) return;
+    }
+    setLibrary(applyCsvImport(library, plan));
+    setLoaded(null);
+    setMapping(null);
+    onClose();
+  }
+
+  const setField = (f: CsvField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [f]: value === "" ? null : Number(value) });
+  };
+
+  return (
+    <div className="panel" style={{ marginTop: 10 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+        <div>
+          <strong>Import bands from CSV</strong>
+          <div className="muted">
+            One row per region / tier / category / band, with a rate and optional target min / max %. Bands not in the file keep their current value.
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <select className="input" style={{ width: 150 }} value={rateUnit} onChange={(e) => setRateUnit(e.target.value as AreaUnit)}>
+            <option value="sqft">Rates per sq ft</option>
+            <option value="sqm">Rates per m²</option>
+          </select>
+          <button className="secondaryBtn" type="button" onClick={onDownloadTemplate}>
+            Download current as CSV
+          </button>
+          <button className="secondaryBtn" type="button" onClick={() => fileInputRef.current?.click()}>
+            Choose CSV…
+          </button>
+          <button className="secondaryBtn" type="button" onClick={onClose}>
+            Close
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void onFile(file);
+            }}
+          />
+        </div>
+      </div>
+
+      {readError && <div style={{ marginTop: 8, color: "#b91c1c" }}>{readError}</div>}
+
+      {loaded && mapping && (
+        <>
+          <div className="muted" style={{ marginTop: 10 }}>
+            {loaded.fileName} — {loaded.rows.length} data row(s)
+          </div>
+
+          <div className="adminTopGrid" style={{ gridTemplateColumns: "repeat(auto-fill, minmax(170px, 1fr))", marginTop: 8 }}>
+            {CSV_FIELDS.map((f) => (
+              <div key={f.key}>
+                <label className="label" title={f.hint}>
+                  {f.label}
+                </label>
+                <select className="input" value={mapping[f.key] ?? ""} onChange={(e) => setField(f.key, e.target.value)}>
+                  <option value="">— not mapped —</option>
+                  {loaded.headers.map((h, i) => (
+                    <option key={i} value={i}>
+                      {h || `Column ${i + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {plan && (
+            <>
+              <div style={{ marginTop: 10 }}>
+                <strong>
+                  {plan.changes.length} cell change(s) from {plan.rowsUsed} of {plan.rowsRead} row(s)
+                </strong>
+                <span className="muted">
+                  {" "}
+                  · {errors.length} error(s) · {warnings.length} warning(s)
+                </span>
+              </div>
+
+              {plan.issues.length > 0 && (
+                <ul style={{ margin: "6px 0 0 16px", padding: 0, maxHeight: 200, overflowY: "auto" }}>
+                  {plan.issues.slice(0, MAX_ISSUES_SHOWN).map((issue, i) => (
+                    <li key={i} style={{ color: issue.severity === "error" ? "#b91c1c" : "#92400e" }}>
+                      {issue.row !== null ? `Row ${issue.row}: ` : ""}
+                      {issue.message}
+                    </li>
+                  ))}
+                  {plan.issues.length > MAX_ISSUES_SHOWN && (
+                    <li className="muted">…and {plan.issues.length - MAX_ISSUES_SHOWN} more</li>
+                  )}
+                </ul>
+              )}
+
+              {plan.changes.length > 0 && (
+                <div style={{ maxHeight: 360, overflowY: "auto", marginTop: 10 }}>
+                  <table className="table small">
+                    <thead>
+                      <tr>
+                        <th>Region</th>
+                        <th>Tier</th>
+                        <th>Category</th>
+                        <th>Field</th>
+                        <th style={{ textAlign: "right" }}>Current</th>
+                        <th style={{ textAlign: "right" }}>Imported</th>
+                        <th style={{ textAlign: "right" }}>Change</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {plan.changes.map((c) => {
+                        const isRate = c.field !== "minPct" && c.field !== "maxPct";
+                        const fmt = (n: number) => (isRate ? (Math.round(psqftToRate(n, areaUnit) * 100) / 100).toLocaleString() : formatPct(n));
+                        const label = VMX_CATEGORIES.find((x) => x.id === c.categoryId)?.label ?? c.categoryId;
+                        return (
+                          <tr key={`${c.regionId}-${c.tier}-${c.categoryId}-${c.field}`}>
+                            <td>{c.regionName}</td>
+                            <td>{tierLabel(c.tier, library.tiers)}</td>
+                            <td>{label}</td>
+                            <td>{isRate ? `${c.field} (per ${unit})` : c.field === "minPct" ? "Target min" : "Target max"}</td>
+                            <td style={{ textAlign: "right" }}>{fmt(c.from)}</td>
+                            <td style={{ textAlign: "right", fontWeight: 700, color: isRate && c.to === 0 ? "#b91c1c" : undefined }}>{fmt(c.to)}</td>
+                            <td style={{ textAlign: "right" }}>
+                              {isRate && c.from > 0 ? `${c.to >= c.from ? "+" : ""}${formatPct((c.to - c.from) / c.from)}` : "—"}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div style={{ display: "flex", gap: 10, marginTop: 10 }}>
+                <button className="secondaryBtn" type="button" disabled={plan.changes.length === 0} onClick={onApply}>
+                  Apply {plan.changes.length} change(s)
+                </button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
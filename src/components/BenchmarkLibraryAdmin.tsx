@@ -1,14 +1,37 @@
-import React, { useMemo, useState } from "react";
-import { BenchmarkSet } from "../domain/vmx-domain";
+import React, { useMemo, useRef, useState } from "react";
+import { AreaUnit, BenchmarkSet, areaUnitLabel } from "../domain/vmx-domain";
 import {
   BenchmarkLibrary,
   TierId,
-  TIERS,
   addRegion,
+  regionOptions,
+  regionPath,
   tierLabel,
   updateRegionName,
   copyTierWithinRegion,
 } from "../data/benchmark-library-storage";
+import {
+  ImportMode,
+  ParsedLibraryFile,
+  applyLibraryImport,
+  buildLibraryFile,
+  describeBandChange,
+  diffLibraries,
+  diffTierCatalogues,
+  importModeLabel,
+  parseLibraryFile,
+} from "../data/benchmark-library-transfer";
+import { VMX_APP_VERSION } from "../config/vmx-meta";
+import { BenchmarkCsvImport } from "./BenchmarkCsvImport";
+import { RegionManager } from "./RegionManager";
+import { TierCatalogueEditor } from "./TierCatalogueEditor";
+
+type PendingImport = {
+  fileName: string;
+  parsed: Extract<ParsedLibraryFile, { ok: true }>;
+};
+
+const IMPORT_MODES: ImportMode[] = ["merge", "add", "replace"];
 
 type Props = {
   library: BenchmarkLibrary;
@@ -24,6 +47,14 @@ type Props = {
 
   onResetSelectedTier: () => void;
 
+  areaUnit?: AreaUnit;
+
+  /** Labels of scenarios / snapshots / N4S contexts using a region, for the delete confirmation */
+  getRegionDependencies?: (regionId: string) => string[];
+
+  /** Labels of scenarios / buildings using a tier, for the remove confirmation */
+  getTierDependencies?: (tierId: TierId) => string[];
+
   children?: React.ReactNode;
 };
 
@@ -37,6 +68,9 @@ export function BenchmarkLibraryAdmin(props: Props) {
     setTier,
     currentBenchmark,
     onResetSelectedTier,
+    areaUnit = "sqft",
+    getRegionDependencies,
+    getTierDependencies,
     children,
   } = props;
 
@@ -45,14 +79,33 @@ export function BenchmarkLibraryAdmin(props: Props) {
 
   const [copyFromTier, setCopyFromTier] = useState<TierId>("reserve");
 
-  const copyFromOptions = useMemo(() => TIERS.filter((t) => t !== tier), [tier]);
+  const copyFromOptions = useMemo(() => library.tiers.filter((t) => t.id !== tier), [library.tiers, tier]);
+  const copyFrom = copyFromOptions.some((t) => t.id === copyFromTier) ? copyFromTier : copyFromOptions[0]?.id;
+
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  const [importError, setImportError] = useState<string | null>(null);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showRegions, setShowRegions] = useState(false);
+  const [showTiers, setShowTiers] = useState(false);
+
+  const tierCatalogueDiff = useMemo(
+    () => (pendingImport ? diffTierCatalogues(library, pendingImport.parsed.library, importMode) : []),
+    [library, pendingImport, importMode]
+  );
+
+  const importDiff = useMemo(
+    () => (pendingImport ? diffLibraries(library, pendingImport.parsed.library) : []),
+    [library, pendingImport]
+  );
 
   function onAddRegion() {
     const name = window.prompt("New region name (e.g., Malibu — Flat):");
     if (!name || !name.trim()) return;
     const next = addRegion(library, name.trim());
     setLibrary(next);
-    setRegionId(next.regions[0].id);
+    setRegionId(next.regions[next.regions.length - 1].id);
   }
 
   function onRenameRegion() {
@@ -63,18 +116,68 @@ export function BenchmarkLibraryAdmin(props: Props) {
   }
 
   function onCopyTier() {
-    if (copyFromTier === tier) return;
+    if (!copyFrom || copyFrom === tier) return;
     const ok = window.confirm(
-      `Copy ${tierLabel(copyFromTier)} into ${tierLabel(tier)} for region "${region.name}"? This overwrites the destination tier.`
+      `Copy ${tierLabel(copyFrom, library.tiers)} into ${tierLabel(tier, library.tiers)} for region "${region.name}"? This overwrites the destination tier.`
     );
     if (!ok) return;
 
-    const next = copyTierWithinRegion(library, region.id, copyFromTier, tier);
+    const next = copyTierWithinRegion(library, region.id, copyFrom, tier);
+    setLibrary(next);
+  }
+
+  function onExportLibrary() {
+    const doc = buildLibraryFile(library, VMX_APP_VERSION);
+    const blob = new Blob([JSON.stringify(doc, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `VMX_Benchmark_Library_${doc.exportedAt.slice(0, 10)}.json`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 2500);
+  }
+
+  async function onImportFile(file: File) {
+    setImportError(null);
+    setPendingImport(null);
+    let text = "";
+    try {
+      text = await file.text();
+    } catch {
+      setImportError(`Could not read "${file.name}".`);
+      return;
+    }
+    const parsed = parseLibraryFile(text);
+    if (!parsed.ok) {
+      setImportError(`${file.name}: ${parsed.error}`);
+      return;
+    }
+    setPendingImport({ fileName: file.name, parsed });
+  }
+
+  function onApplyImport() {
+    if (!pendingImport) return;
+    if (importMode === "replace") {
+      const ok = window.confirm("Replace the entire benchmark library with the imported file? Regions not in the file are removed.");
+      if (!ok) return;
+    }
+    const next = applyLibraryImport(library, pendingImport.parsed.library, importMode);
     setLibrary(next);
+    if (!next.regions.some((r) => r.id === region.id)) setRegionId(next.regions[0].id);
+    setPendingImport(null);
   }
 
   if (!region) return null;
 
+  const diffCounts = {
+    new: importDiff.filter((d) => d.status === "new").length,
+    changed: importDiff.filter((d) => d.status === "changed").length,
+    unchanged: importDiff.filter((d) => d.status === "unchanged").length,
+    removed: importDiff.filter((d) => d.status === "removed").length,
+  };
+
   return (
     <div className="card">
       <div className="adminHeader">
@@ -82,7 +185,7 @@ export function BenchmarkLibraryAdmin(props: Props) {
           <h2>Benchmark Library</h2>
           <div className="muted">
             Organized by <strong>Region</strong> first, then{" "}
-            <strong>Tier</strong>. Units: <strong>$/sq ft</strong>.
+            <strong>Tier</strong>. Units: <strong>$/{areaUnitLabel(areaUnit)}</strong>{areaUnit !== "sqft" ? " (stored as $/sq ft)" : ""}.
           </div>
         </div>
 
@@ -97,9 +200,202 @@ export function BenchmarkLibraryAdmin(props: Props) {
           >
             Rename Region
           </button>
+          <button className="secondaryBtn" type="button" onClick={() => setShowRegions((v) => !v)}>
+            Manage Regions
+          </button>
+          <button className="secondaryBtn" type="button" onClick={() => setShowTiers((v) => !v)}>
+            Manage Tiers
+          </button>
+          <button className="secondaryBtn" type="button" onClick={onExportLibrary}>
+            Export Library
+          </button>
+          <button
+            className="secondaryBtn"
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Import Library
+          </button>
+          <button
+            className="secondaryBtn"
+            type="button"
+            onClick={() => setShowCsvImport((v) => !v)}
+          >
+            Import CSV
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void onImportFile(file);
+            }}
+          />
         </div>
       </div>
 
+      {showTiers && (
+        <TierCatalogueEditor
+          library={library}
+          setLibrary={setLibrary}
+          tier={tier}
+          setTier={setTier}
+          getTierDependencies={getTierDependencies}
+          onClose={() => setShowTiers(false)}
+        />
+      )}
+
+      {showRegions && (
+        <RegionManager
+          library={library}
+          setLibrary={setLibrary}
+          regionId={region.id}
+          setRegionId={setRegionId}
+          tier={tier}
+          getRegionDependencies={getRegionDependencies}
+          onClose={() => setShowRegions(false)}
+        />
+      )}
+
+      {showCsvImport && (
+        <BenchmarkCsvImport
+          library={library}
+          setLibrary={setLibrary}
+          areaUnit={areaUnit}
+          onClose={() => setShowCsvImport(false)}
+        />
+      )}
+
+      {importError && (
+        <div className="panel" style={{ marginTop: 10, color: "#b91c1c" }}>
+          {importError}
+        </div>
+      )}
+
+      {pendingImport && (
+        <div className="panel" style={{ marginTop: 10 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+            <div>
+              <strong>Import preview — {pendingImport.fileName}</strong>
+              <div className="muted">
+                {pendingImport.parsed.library.regions.length} region(s)
+                {pendingImport.parsed.exportedAt ? ` · exported ${pendingImport.parsed.exportedAt.slice(0, 10)}` : ""}
+                {pendingImport.parsed.appVersion ? ` · VMX v${pendingImport.parsed.appVersion}` : ""}
+                {" · "}
+                {pendingImport.parsed.checksum === "valid"
+                  ? "checksum OK"
+                  : pendingImport.parsed.checksum === "mismatch"
+                    ? "checksum MISMATCH (file was edited or is incomplete)"
+                    : "no checksum"}
+              </div>
+            </div>
+            <div className="muted">
+              {diffCounts.new} new · {diffCounts.changed} changed · {diffCounts.unchanged} unchanged
+              {diffCounts.removed ? ` · ${diffCounts.removed} only in current library` : ""}
+            </div>
+          </div>
+
+          {tierCatalogueDiff.length > 0 && (
+            <ul style={{ margin: "8px 0 0 16px", padding: 0 }}>
+              {tierCatalogueDiff.map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          )}
+
+          <table className="table small" style={{ marginTop: 10 }}>
+            <thead>
+              <tr>
+                <th>Region</th>
+                <th>Status</th>
+                <th>Differences</th>
+              </tr>
+            </thead>
+            <tbody>
+              {importDiff.map((d) => (
+                <tr key={`${d.status}-${d.id}`}>
+                  <td>
+                    {d.name} <span className="muted">({d.id})</span>
+                  </td>
+                  <td>
+                    {d.status === "new"
+                      ? "New"
+                      : d.status === "changed"
+                        ? "Changed"
+                        : d.status === "unchanged"
+                          ? "Unchanged"
+                          : "Not in file"}
+                  </td>
+                  <td>
+                    {d.renamedFrom && <div>Renamed from "{d.renamedFrom}"</div>}
+                    {d.regionChanges.map((c) => (
+                      <div key={c}>{c}</div>
+                    ))}
+                    {d.tiers.map((t) => (
+                      <details key={t.tier}>
+                        <summary>
+                          {tierLabel(t.tier, library.tiers)}: {t.bandChanges.length} band change(s)
+                          {t.otherChanges.length ? `, ${t.otherChanges.join(", ")}` : ""}
+                        </summary>
+                        <ul style={{ margin: "4px 0 0 16px", padding: 0 }}>
+                          {t.bandChanges.map((c) => (
+                            <li key={`${c.categoryId}-${c.band}`}>{describeBandChange(c)}</li>
+                          ))}
+                        </ul>
+                      </details>
+                    ))}
+                    {d.status === "removed" && (
+                      <span className="muted">
+                        {importMode === "replace" ? "Will be removed" : "Kept"}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={{ marginTop: 10 }}>
+            <strong>Fixed during validation ({pendingImport.parsed.fixes.length})</strong>
+            {pendingImport.parsed.fixes.length === 0 ? (
+              <div className="muted">Nothing needed fixing.</div>
+            ) : (
+              <ul style={{ margin: "4px 0 0 16px", padding: 0, maxHeight: 180, overflowY: "auto" }}>
+                {pendingImport.parsed.fixes.map((f, i) => (
+                  <li key={i}>{f}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginTop: 12 }}>
+            {IMPORT_MODES.map((m) => (
+              <label key={m} style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                <input
+                  type="radio"
+                  name="libraryImportMode"
+                  checked={importMode === m}
+                  onChange={() => setImportMode(m)}
+                />
+                {importModeLabel(m)}
+              </label>
+            ))}
+            <button className="secondaryBtn" type="button" onClick={onApplyImport}>
+              Apply import
+            </button>
+            <button className="secondaryBtn" type="button" onClick={() => setPendingImport(null)}>
+              Cancel
+            </button>
+          </div>
+          <div className="muted" style={{ marginTop: 6 }}>
+            Merge overwrites regions with the same id and appends new ones. Add keeps the current library and adds every imported region under a new id.
+          </div>
+        </div>
+      )}
+
       <div className="adminTopGrid">
         <div>
           <label className="label">Region</label>
@@ -108,9 +404,9 @@ export function BenchmarkLibraryAdmin(props: Props) {
             value={region.id}
             onChange={(e) => setRegionId(e.target.value)}
           >
-            {library.regions.map((r) => (
-              <option key={r.id} value={r.id}>
-                {r.name}
+            {regionOptions(library, [region.id]).map((o) => (
+              <option key={o.id} value={o.id}>
+                {o.label}
               </option>
             ))}
           </select>
@@ -123,9 +419,9 @@ export function BenchmarkLibraryAdmin(props: Props) {
             value={tier}
             onChange={(e) => setTier(e.target.value as TierId)}
           >
-            {TIERS.map((t) => (
-              <option key={t} value={t}>
-                {tierLabel(t)}
+            {library.tiers.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.label}
               </option>
             ))}
           </select>
@@ -134,9 +430,16 @@ export function BenchmarkLibraryAdmin(props: Props) {
 
       <div className="libraryToolbar">
         <div className="muted">
-          Editing: <strong>{region.name}</strong> /{" "}
-          <strong>{tierLabel(tier)}</strong> —{" "}
+          Editing: <strong>{regionPath(library, region.id)}</strong> /{" "}
+          <strong>{tierLabel(tier, library.tiers)}</strong> —{" "}
           <strong>{currentBenchmark.currency}</strong>
+          {region.inherit && (
+            <>
+              {" "}
+              — follows {library.regions.find((r) => r.id === region.parentId)?.name ?? "parent"} ×{region.inherit.factor.toFixed(2)},{" "}
+              {region.inherit.overrides[tier]?.length ?? 0} override(s); edited cells become overrides
+            </>
+          )}
         </div>
 
         <div className="libraryActions">
@@ -145,7 +448,7 @@ export function BenchmarkLibraryAdmin(props: Props) {
             type="button"
             onClick={onResetSelectedTier}
           >
-            Reset selected tier to Demo
+            {region.inherit ? "Reset selected tier to parent" : "Reset selected tier to Demo"}
           </button>
 
           <div className="copyBox">
@@ -155,17 +458,17 @@ export function BenchmarkLibraryAdmin(props: Props) {
             <div style={{ display: "flex", gap: 8 }}>
               <select
                 className="input"
-                value={copyFromTier}
-                onChange={(e) => setCopyFromTier(e.target.value as TierId)}
+                value={copyFrom ?? ""}
+                onChange={(e) => setCopyFromTier(e.target.value)}
               >
                 {copyFromOptions.map((t) => (
-                  <option key={t} value={t}>
-                    {tierLabel(t)}
+                  <option key={t.id} value={t.id}>
+                    {t.label}
                   </option>
                 ))}
               </select>
-              <button className="secondaryBtn" type="button" onClick={onCopyTier}>
-                Copy into {tierLabel(tier)}
+              <button className="secondaryBtn" type="button" disabled={!copyFrom} onClick={onCopyTier}>
+                Copy into {tierLabel(tier, library.tiers)}
               </button>
             </div>
           </div>
@@ -0,0 +1,271 @@
+import React, { useState } from "react";
+import {
+  VMX_CATEGORIES,
+  areaUnitLabel,
+  rateToPsqft,
+  type AreaUnit,
+  type BenchmarkSet,
+  type HeatBand,
+  type QuantityItem,
+  type ScenarioSelection,
+  type VmxCategoryId,
+} from "../domain/vmx-domain";
+import { formatMoney, formatPct, formatRate } from "../utils/format";
+import { BUDGET_TARGET_LABELS, BudgetSolveResult, BudgetTargetKind, solveForBudget } from "../utils/budgetSolver";
+import type { ConstructionIndirectsRates, PricedBuilding } from "../utils/constructionIndirects";
+import type { SoftCostsConfig } from "../utils/softCosts";
+import type { FinancingConfigV1 } from "../utils/financing";
+
+export type BudgetSolverScenario = {
+  id: string;
+  name: string;
+  areaSqft: number;
+  benchmark: BenchmarkSet;
+  selections: Record<VmxCategoryId, ScenarioSelection>;
+  indirectRates: ConstructionIndirectsRates | null;
+  landCost: number;
+  quantityItems: QuantityItem[];
+  otherBuildings: PricedBuilding[];
+  /** Soft-cost rules with the scenario tier's overrides; the shared config when absent */
+  softCostsConfig?: SoftCostsConfig;
+};
+
+type Props = {
+  currency: string;
+  areaUnit: AreaUnit;
+  scenarios: BudgetSolverScenario[];
+  softCostsConfig: SoftCostsConfig;
+  financingConfig?: FinancingConfigV1;
+  onApply: (scenarioId: string, selections: Record<VmxCategoryId, ScenarioSelection>) => void;
+};
+
+const SHORT_BAND: Record<HeatBand, string> = { LOW: "L", MEDIUM: "M", HIGH: "H" };
+
+/**
+ * Design-to-budget: enter a ceiling, lock the categories that are not
+ * negotiable, and pick from ranked band combinations that hit it.
+ */
+export function BudgetSolverPanel({ currency, areaUnit, scenarios, softCostsConfig, financingConfig, onApply }: Props) {
+  const [scenarioId, setScenarioId] = useState<string>("");
+  const [targetKind, setTargetKind] = useState<BudgetTargetKind>("grandTotal");
+  const [targetInput, setTargetInput] = useState<string>("");
+  const [tolerancePct, setTolerancePct] = useState<number>(3);
+  const [locks, setLocks] = useState<Partial<Record<VmxCategoryId, HeatBand>>>({});
+  const [solved, setSolved] = useState<BudgetSolveResult | null>(null);
+
+  const scenario = scenarios.find((s) => s.id === scenarioId) ?? scenarios[0];
+  const unit = areaUnitLabel(areaUnit);
+
+  const targetNumber = Number(targetInput.replace(/,/g, ""));
+  const targetValue = targetKind === "psqft" ? rateToPsqft(targetNumber, areaUnit) : targetNumber;
+
+  const solve = () => {
+    if (!scenario?.indirectRates) return;
+    setSolved(
+      solveForBudget({
+        areaSqft: scenario.areaSqft,
+        benchmark: scenario.benchmark,
+        current: scenario.selections,
+        locks,
+        targetKind,
+        targetValue,
+        tolerance: tolerancePct / 100,
+        indirectRates: scenario.indirectRates,
+        softCostsConfig: scenario.softCostsConfig ?? softCostsConfig,
+        financingConfig,
+        landCost: scenario.landCost,
+        quantityItems: scenario.quantityItems,
+        otherBuildings: scenario.otherBuildings,
+      })
+    );
+  };
+
+  const formatMetric = (v: number) => (targetKind === "psqft" ? formatRate(v, currency, areaUnit) : formatMoney(v, currency));
+
+  if (!scenario) return null;
+
+  return (
+    <div className="card" style={{ marginTop: 18 }}>
+      <div className="adminHeader">
+        <div>
+          <h2>Design to Budget</h2>
+          <div className="muted">
+            Enter a budget ceiling and VMX proposes band selections that hit it, ranked by guardrail fit and how balanced the allocation is.
+          </div>
+        </div>
+      </div>
+
+      <div className="adminTopGrid noPrint" style={{ gridTemplateColumns: "repeat(4, 1fr)", marginTop: 10 }}>
+        {scenarios.length > 1 && (
+          <div>
+            <label className="label">Scenario</label>
+            <select
+              className="input"
+              value={scenario.id}
+              onChange={(e) => {
+                setScenarioId(e.target.value);
+                setSolved(null);
+              }}
+            >
+              {scenarios.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="label">Target</label>
+          <select
+            className="input"
+            value={targetKind}
+            onChange={(e) => {
+              setTargetKind(e.target.value as BudgetTargetKind);
+              setSolved(null);
+            }}
+          >
+            {(Object.keys(BUDGET_TARGET_LABELS) as BudgetTargetKind[]).map((k) => (
+              <option key={k} value={k}>
+                {k === "psqft" ? `${BUDGET_TARGET_LABELS[k]} (${currency} / ${unit})` : BUDGET_TARGET_LABELS[k]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="label">{targetKind === "psqft" ? `Target (${currency} / ${unit})` : `Target (${currency})`}</label>
+          <input className="input" type="text" inputMode="decimal" value={targetInput} onChange={(e) => setTargetInput(e.target.value)} />
+        </div>
+        <div>
+          <label className="label">Tolerance (± %)</label>
+          <input
+            className="input"
+            type="number"
+            min={0}
+            step={0.5}
+            value={tolerancePct}
+            onChange={(e) => setTolerancePct(Math.max(0, Number(e.target.value) || 0))}
+          />
+        </div>
+      </div>
+
+      <div className="noPrint" style={{ marginTop: 10 }}>
+        <div className="label">Locks</div>
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 10 }}>
+          {VMX_CATEGORIES.map((c) => (
+            <label key={c.id} style={{ display: "grid", gap: 4, fontSize: 12 }}>
+              {c.label}
+              <select
+                className="input"
+                value={locks[c.id] ?? ""}
+                onChange={(e) => {
+                  const v = e.target.value as HeatBand | "";
+                  setLocks((prev) => {
+                    const next = { ...prev };
+                    if (v) next[c.id] = v;
+                    else delete next[c.id];
+                    return next;
+                  });
+                }}
+              >
+                <option value="">Free</option>
+                <option value="LOW">Must be LOW</option>
+                <option value="MEDIUM">Must be MEDIUM</option>
+                <option value="HIGH">Must be HIGH</option>
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div style={{ display: "flex", gap: 10, alignItems: "center", marginTop: 10 }}>
+          <button type="button" className="secondaryBtn" disabled={!(targetValue > 0) || !scenario.indirectRates} onClick={solve}>
+            Solve
+          </button>
+          {!scenario.indirectRates && <span className="muted">Fix the scenario’s pricing errors first.</span>}
+        </div>
+      </div>
+
+      {solved && (
+        <div style={{ marginTop: 12 }}>
+          <div className="muted">
+            {solved.closestOnly
+              ? `No combination lands within ±${tolerancePct}% of ${formatMetric(targetValue)}. Closest of ${solved.evaluated} combinations shown.`
+              : `${solved.evaluated} combinations evaluated. Ranked by guardrail fit, then balance, then distance from ${formatMetric(targetValue)}.`}
+          </div>
+
+          {solved.solutions.length === 0 ? (
+            <div className="muted" style={{ marginTop: 8 }}>
+              No priceable combinations (check the benchmark bands).
+            </div>
+          ) : (
+            <table className="table small" style={{ marginTop: 8 }}>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  {VMX_CATEGORIES.map((c) => (
+                    <th key={c.id} style={{ textAlign: "center" }} title={c.label}>
+                      {c.sortOrder}
+                    </th>
+                  ))}
+                  <th style={{ textAlign: "right" }}>{BUDGET_TARGET_LABELS[targetKind]}</th>
+                  <th style={{ textAlign: "right" }}>Gap</th>
+                  <th style={{ textAlign: "right" }}>Out of range</th>
+                  <th style={{ textAlign: "right" }}>Balance</th>
+                  <th className="noPrint" />
+                </tr>
+              </thead>
+              <tbody>
+                {solved.solutions.map((s, i) => (
+                  <tr key={i}>
+                    <td>{i + 1}</td>
+                    {VMX_CATEGORIES.map((c) => {
+                      const band = s.selections[c.id].band;
+                      const changed = scenario.selections[c.id]?.band !== band;
+                      const status = s.result.categories.find((r) => r.categoryId === c.id)?.rangeStatus;
+                      return (
+                        <td
+                          key={c.id}
+                          style={{ textAlign: "center", fontWeight: changed ? 900 : 400, color: status !== "OK" ? "#b91c1c" : undefined }}
+                          title={`${c.label}: ${band}${locks[c.id] ? " (locked)" : ""}${changed ? " (changed)" : ""}${status !== "OK" ? ` — ${status} vs target range` : ""}`}
+                        >
+                          {SHORT_BAND[band]}
+                        </td>
+                      );
+                    })}
+                    <td style={{ textAlign: "right" }}>
+                      {formatMetric(s.metric)}
+                      {targetKind !== "directHard" && (
+                        <div className="muted" style={{ fontSize: 12 }}>
+                          Direct {formatMoney(s.directHard, currency)}
+                        </div>
+                      )}
+                    </td>
+                    <td style={{ textAlign: "right" }}>
+                      {formatMetric(s.gap)}
+                      <div className="muted" style={{ fontSize: 12 }}>
+                        {formatPct(s.gapPct)}
+                      </div>
+                    </td>
+                    <td style={{ textAlign: "right" }}>{s.outOfRange}</td>
+                    <td style={{ textAlign: "right" }}>{Math.round(s.balance * 100)}%</td>
+                    <td className="noPrint" style={{ textAlign: "right" }}>
+                      <button type="button" className="secondaryBtn" onClick={() => onApply(scenario.id, s.selections)}>
+                        Apply
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="muted" style={{ marginTop: 8 }}>
+            Columns 1–7 follow the Matrix categories. Bold = band changes from the current selection; red = outside its target range.
+            Locked categories keep any manual rate.
+            {scenario.otherBuildings.length > 0 && " Bands are solved for the main residence; additional buildings stay at their current selections."}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import React, { useState } from "react";
+import { DEFAULT_TIERS, tierLabel, type TierDefinition, type TierId } from "../data/benchmark-library-storage";
+import { VMX_CATEGORIES, areaToSqft, areaUnitLabel, sqftToArea, type AreaUnit, type HeatBand } from "../domain/vmx-domain";
+import { formatArea, formatMoney, formatPct, formatRate } from "../utils/format";
+import { getRatesForTier, type ConstructionIndirectsConfigV1 } from "../utils/constructionIndirects";
+import { createBuilding, type BuildingIndirectRates, type ScenarioBuilding, type TypologyId } from "../utils/scenarios";
+
+export type BuildingRow = {
+  id: string;
+  name: string;
+  isMain: boolean;
+  /** Always canonical sq ft */
+  areaSqft: number;
+  tier: TierId;
+  typology: TypologyId;
+  directHard: number | null;
+  indirects: number | null;
+  contract: number | null;
+  error: string | null;
+};
+
+export type BuildingsScenario = {
+  id: string;
+  name: string;
+  tier: TierId;
+  typology: TypologyId;
+  mainBuildingName: string;
+  buildings: ScenarioBuilding[];
+  rows: BuildingRow[];
+};
+
+type Props = {
+  currency: string;
+  areaUnit: AreaUnit;
+  typologyOptions: { id: TypologyId; label: string }[];
+  indirectsConfig: ConstructionIndirectsConfigV1;
+  /** Library tier catalogue (labels and default indirect rates) */
+  tiers?: TierDefinition[];
+  scenarios: BuildingsScenario[];
+  onChange: (scenarioId: string, patch: { mainBuildingName?: string; buildings?: ScenarioBuilding[] }) => void;
+};
+
+const QUICK_ADD: { name: string; areaSqft: number }[] = [
+  { name: "Guest house", areaSqft: 3500 },
+  { name: "Pool pavilion", areaSqft: 1200 },
+  { name: "Staff quarters", areaSqft: 2500 },
+];
+
+const RATE_FIELDS: { key: keyof BuildingIndirectRates; label: string }[] = [
+  { key: "generalConditionsRate", label: "GC %" },
+  { key: "glInsuranceRate", label: "GL %" },
+  { key: "contingencyRate", label: "Contingency %" },
+  { key: "feeRate", label: "Fee %" },
+];
+
+/**
+ * Estate structure: the scenario's own inputs are the main residence, and each
+ * additional building is priced at its own area / tier / typology / bands.
+ * Everything rolls up into the scenario totals, guardrails and soft costs.
+ */
+export function BuildingsPanel({ currency, areaUnit, typologyOptions, indirectsConfig, tiers = DEFAULT_TIERS, scenarios, onChange }: Props) {
+  const [scenarioId, setScenarioId] = useState<string>("");
+  const scenario = scenarios.find((s) => s.id === scenarioId) ?? scenarios[0];
+  if (!scenario) return null;
+
+  const unit = areaUnitLabel(areaUnit);
+  const typologyName = (id: TypologyId) => typologyOptions.find((t) => t.id === id)?.label ?? id;
+
+  const setBuildings = (buildings: ScenarioBuilding[]) => onChange(scenario.id, { buildings });
+  const update = (id: string, patch: Partial<ScenarioBuilding>) =>
+    setBuildings(scenario.buildings.map((b) => (b.id === id ? { ...b, ...patch } : b)));
+
+  const add = (name: string, areaSqft: number) =>
+    setBuildings([...scenario.buildings, createBuilding({ name, areaSqft, tier: scenario.tier, typology: scenario.typology })]);
+
+  const toggleRates = (b: ScenarioBuilding) => {
+    if (b.indirectRates) {
+      update(b.id, { indirectRates: null });
+      return;
+    }
+    const r = getRatesForTier(indirectsConfig, b.tier, tiers);
+    update(b.id, {
+      indirectRates: {
+        generalConditionsRate: r.generalConditionsRate,
+        glInsuranceRate: r.glInsuranceRate,
+        contingencyRate: r.contingencyRate,
+        feeRate: r.feeRate,
+      },
+    });
+  };
+
+  const rows = scenario.rows;
+  const totalArea = rows.reduce((sum, r) => sum + r.areaSqft, 0);
+  const totalDirect = rows.reduce((sum, r) => sum + (r.directHard ?? 0), 0);
+  const totalIndirects = rows.reduce((sum, r) => sum + (r.indirects ?? 0), 0);
+  const totalContract = rows.reduce((sum, r) => sum + (r.contract ?? 0), 0);
+
+  return (
+    <div className="card" style={{ marginTop: 18 }}>
+      <div className="adminHeader">
+        <div>
+          <h2>Buildings</h2>
+          <div className="muted">
+            Estates with more than one structure: each building has its own area, tier, typology and bands, and rolls up into the scenario totals, guardrails and soft costs.
+          </div>
+        </div>
+
+        {scenarios.length > 1 && (
+          <div className="adminHeaderBtns noPrint">
+            <select className="input" style={{ width: 240 }} value={scenario.id} onChange={(e) => setScenarioId(e.target.value)}>
+              {scenarios.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <table className="table small" style={{ marginTop: 10 }}>
+        <thead>
+          <tr>
+            <th>Building</th>
+            <th style={{ textAlign: "right" }}>Area</th>
+            <th>Tier</th>
+            <th>Typology</th>
+            <th style={{ textAlign: "right" }}>Direct Hard</th>
+            <th style={{ textAlign: "right" }}>Per {unit}</th>
+            <th style={{ textAlign: "right" }}>Indirects</th>
+            <th style={{ textAlign: "right" }}>Contract</th>
+            <th style={{ textAlign: "right" }}>% of Direct</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.id}>
+              <td>
+                {r.name}
+                {r.isMain ? <span className="muted"> (main)</span> : null}
+                {r.error ? (
+                  <div className="muted" style={{ color: "#b91c1c", fontSize: 12 }}>
+                    {r.error}
+                  </div>
+                ) : null}
+              </td>
+              <td style={{ textAlign: "right" }}>{formatArea(r.areaSqft, areaUnit)}</td>
+              <td>{tierLabel(r.tier, tiers)}</td>
+              <td>{typologyName(r.typology)}</td>
+              <td style={{ textAlign: "right" }}>{r.directHard !== null ? formatMoney(r.directHard, currency) : "—"}</td>
+              <td style={{ textAlign: "right" }}>
+                {r.directHard !== null ? formatRate(r.directHard / Math.max(1, r.areaSqft), currency, areaUnit) : "—"}
+              </td>
+              <td style={{ textAlign: "right" }}>{r.indirects !== null ? formatMoney(r.indirects, currency) : "—"}</td>
+              <td style={{ textAlign: "right" }}>{r.contract !== null ? formatMoney(r.contract, currency) : "—"}</td>
+              <td style={{ textAlign: "right" }}>{r.directHard !== null && totalDirect > 0 ? formatPct(r.directHard / totalDirect) : "—"}</td>
+            </tr>
+          ))}
+          {rows.length > 1 && (
+            <tr>
+              <td>
+                <strong>Project total</strong>
+              </td>
+              <td style={{ textAlign: "right" }}>
+                <strong>{formatArea(totalArea, areaUnit)}</strong>
+              </td>
+              <td />
+              <td />
+              <td style={{ textAlign: "right" }}>
+                <strong>{formatMoney(totalDirect, currency)}</strong>
+              </td>
+              <td style={{ textAlign: "right" }}>
+                <strong>{formatRate(totalDirect / Math.max(1, totalArea), currency, areaUnit)}</strong>
+              </td>
+              <td style={{ textAlign: "right" }}>
+                <strong>{formatMoney(totalIndirects, currency)}</strong>
+              </td>
+              <td style={{ textAlign: "right" }}>
+                <strong>{formatMoney(totalContract, currency)}</strong>
+              </td>
+              <td />
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="noPrint" style={{ marginTop: 12 }}>
+        <div style={{ maxWidth: 320 }}>
+          <label className="label">Main building name</label>
+          <input
+            className="input"
+            value={scenario.mainBuildingName}
+            onChange={(e) => onChange(scenario.id, { mainBuildingName: e.target.value })}
+          />
+        </div>
+        <div className="muted" style={{ marginTop: 4 }}>
+          The main residence uses the scenario’s own area, tier, typology and Matrix bands.
+        </div>
+
+        {scenario.buildings.map((b) => (
+          <div key={b.id} style={{ border: "1px solid #e5e7eb", borderRadius: 8, padding: 10, marginTop: 12 }}>
+            <div className="adminTopGrid" style={{ gridTemplateColumns: "2fr 1fr 1fr 1fr auto", alignItems: "end" }}>
+              <div>
+                <label className="label">Building</label>
+                <input className="input" value={b.name} onChange={(e) => update(b.id, { name: e.target.value })} />
+              </div>
+              <div>
+                <label className="label">Area ({unit})</label>
+                <input
+                  className="input"
+                  type="number"
+                  min={1}
+                  value={Math.round(sqftToArea(b.areaSqft, areaUnit))}
+                  onChange={(e) => update(b.id, { areaSqft: Math.max(1, areaToSqft(Number(e.target.value) || 0, areaUnit)) })}
+                />
+              </div>
+              <div>
+                <label className="label">Tier</label>
+                <select className="input" value={b.tier} onChange={(e) => update(b.id, { tier: e.target.value as TierId })}>
+                  {tiers.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="label">Typology</label>
+                <select className="input" value={b.typology} onChange={(e) => update(b.id, { typology: e.target.value as TypologyId })}>
+                  {typologyOptions.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button type="button" className="secondaryBtn" onClick={() => setBuildings(scenario.buildings.filter((x) => x.id !== b.id))}>
+                Remove
+              </button>
+            </div>
+
+            <div style={{ display: "flex", flexWrap: "wrap", gap: 10, marginTop: 10 }}>
+              {VMX_CATEGORIES.map((c) => (
+                <label key={c.id} style={{ display: "grid", gap: 4, fontSize: 12 }}>
+                  {c.label}
+                  <select
+                    className="input"
+                    value={b.selections[c.id]?.band ?? "MEDIUM"}
+                    onChange={(e) =>
+                      update(b.id, { selections: { ...b.selections, [c.id]: { categoryId: c.id, band: e.target.value as HeatBand } } })
+                    }
+                  >
+                    <option value="LOW">LOW</option>
+                    <option value="MEDIUM">MEDIUM</option>
+                    <option value="HIGH">HIGH</option>
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div style={{ display: "flex", flexWrap: "wrap", gap: 10, alignItems: "end", marginTop: 10 }}>
+              <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 12 }}>
+                <input type="checkbox" checked={!!b.indirectRates} onChange={() => toggleRates(b)} />
+                Own indirect rates
+              </label>
+              {b.indirectRates ? (
+                RATE_FIELDS.map((f) => (
+                  <div key={f.key}>
+                    <label className="label">{f.label}</label>
+                    <input
+                      className="input"
+                      type="number"
+                      step="0.1"
+                      min={0}
+                      style={{ width: 110 }}
+                      value={((b.indirectRates?.[f.key] ?? 0) * 100).toFixed(1)}
+                      onChange={(e) => {
+                        const rates = b.indirectRates;
+                        if (!rates) return;
+                        const v = Math.max(0, Math.min(100, Number(e.target.value) || 0)) / 100;
+                        update(b.id, { indirectRates: { ...rates, [f.key]: v } });
+                      }}
+                    />
+                  </div>
+                ))
+              ) : (
+                <span className="muted" style={{ fontSize: 12 }}>
+                  Using {tierLabel(b.tier, tiers)} tier defaults (typology-adjusted).
+                </span>
+              )}
+            </div>
+          </div>
+        ))}
+
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", marginTop: 12 }}>
+          {QUICK_ADD.map((q) => (
+            <button key={q.name} type="button" className="secondaryBtn" onClick={() => add(q.name, q.areaSqft)}>
+              + {q.name}
+            </button>
+          ))}
+          <button type="button" className="secondaryBtn" onClick={() => add("Building", 2000)}>
+            + Building
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,34 @@
 import React, { useMemo } from "react";
-import type { TierId } from "../data/benchmark-library-storage";
-import type { ScenarioResult } from "../domain/vmx-domain";
-import { formatMoney } from "../utils/format";
+import { DEFAULT_TIERS, tierLabel, type TierDefinition, type TierId } from "../data/benchmark-library-storage";
+import { AreaUnit, ScenarioResult, areaUnitLabel, psqftToRate } from "../domain/vmx-domain";
+import { formatArea, formatMoney } from "../utils/format";
 import {
   ConstructionIndirectsConfigV1,
   computeConstructionIndirects,
   getRatesForTier,
 } from "../utils/constructionIndirects";
 
+export type IndirectsScenario = {
+  id: string;
+  label: string;
+  tier: TierId;
+  /** Always canonical sq ft */
+  areaSqft: number;
+  result: ScenarioResult | null;
+};
+
 type Props = {
   title?: string;
-  areaSqft: number;
+  areaUnit?: AreaUnit;
   currency: string;
+  /** Tier whose default rates are edited here */
   tier: TierId;
   cfg: ConstructionIndirectsConfigV1;
   setCfg: (next: ConstructionIndirectsConfigV1) => void;
-  resultA: ScenarioResult | null;
-  resultB?: ScenarioResult | null;
-  compareMode?: boolean;
+  /** Scenarios to roll up (each at its own tier + area) */
+  scenarios: IndirectsScenario[];
+  /** Library tier catalogue (labels and default rates) */
+  tiers?: TierDefinition[];
 };
 
 function pctToInput(p: number) {
@@ -33,34 +44,31 @@ function inputToPct(v: string) {
 
 export function ConstructionIndirectsPanel({
   title = "Construction Indirects (US)",
-  areaSqft,
+  areaUnit = "sqft",
   currency,
   tier,
   cfg,
   setCfg,
-  resultA,
-  resultB,
-  compareMode = false,
+  scenarios,
+  tiers = DEFAULT_TIERS,
 }: Props) {
-  const rates = cfg.byTier[tier];
-
-  const indirectsA = useMemo(() => {
-    if (!resultA) return null;
-    return computeConstructionIndirects({
-      directHardCost: resultA.totalCost,
-      areaSqft,
-      rates: getRatesForTier(cfg, tier),
-    });
-  }, [resultA, areaSqft, cfg, tier]);
-
-  const indirectsB = useMemo(() => {
-    if (!compareMode || !resultB) return null;
-    return computeConstructionIndirects({
-      directHardCost: resultB.totalCost,
-      areaSqft,
-      rates: getRatesForTier(cfg, tier),
-    });
-  }, [resultB, areaSqft, cfg, tier, compareMode]);
+  const rates = getRatesForTier(cfg, tier, tiers);
+  const edited = !!cfg.byTier[tier];
+
+  const computed = useMemo(
+    () =>
+      scenarios.map((s) => ({
+        ...s,
+        indirects: s.result
+          ? computeConstructionIndirects({
+              directHardCost: s.result.totalCost,
+              areaSqft: s.areaSqft,
+              rates: getRatesForTier(cfg, s.tier, tiers),
+            })
+          : null,
+      })),
+    [scenarios, cfg, tiers]
+  );
 
   const feeBaseLabel = cfg.feeBase === "direct_only" ? "Direct Hard Costs" : "Cost of the Work";
 
@@ -74,7 +82,10 @@ export function ConstructionIndirectsPanel({
       byTier: {
         ...cfg.byTier,
         [tier]: {
-          ...cfg.byTier[tier],
+          generalConditionsRate: rates.generalConditionsRate,
+          glInsuranceRate: rates.glInsuranceRate,
+          contingencyRate: rates.contingencyRate,
+          feeRate: rates.feeRate,
           [key]: nextPct,
         },
       },
@@ -85,7 +96,11 @@ export function ConstructionIndirectsPanel({
     setCfg({ ...cfg, feeBase: next });
   };
 
-  const renderScenario = (label: string, indirects: ReturnType<typeof computeConstructionIndirects> | null) => {
+  const renderScenario = (
+    label: string,
+    indirects: ReturnType<typeof computeConstructionIndirects> | null,
+    scenarioAreaSqft: number
+  ) => {
     if (!indirects) {
       return <div className="muted">No scenario result available.</div>;
     }
@@ -94,7 +109,7 @@ export function ConstructionIndirectsPanel({
       <div style={{ display: "grid", gap: 10 }}>
         <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline" }}>
           <div style={{ fontWeight: 900 }}>{label}</div>
-          <div className="muted">Area: {areaSqft.toLocaleString()} sq ft</div>
+          <div className="muted">Area: {formatArea(scenarioAreaSqft, areaUnit)}</div>
         </div>
 
         <table className="table small" style={{ width: "100%" }}>
@@ -132,8 +147,8 @@ export function ConstructionIndirectsPanel({
 
         <div style={{ display: "flex", gap: 14, alignItems: "baseline", justifyContent: "space-between" }}>
           <div>
-            <div className="label">Contract / sq ft</div>
-            <div className="big">{formatMoney(indirects.contractPsqft, currency)}</div>
+            <div className="label">Contract / {areaUnitLabel(areaUnit)}</div>
+            <div className="big">{formatMoney(psqftToRate(indirects.contractPsqft, areaUnit), currency)}</div>
           </div>
           <div className="muted" style={{ textAlign: "right", maxWidth: 460 }}>
             GC Fee base: <strong>{feeBaseLabel}</strong>. (Industry standard is <strong>Cost of the Work</strong>.)
@@ -156,7 +171,24 @@ export function ConstructionIndirectsPanel({
 
       <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 14, marginTop: 12 }}>
         <div style={{ display: "grid", gap: 10 }}>
-          <div style={{ fontWeight: 900 }}>Defaults (Tier: {tier.toUpperCase()})</div>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 8 }}>
+            <div style={{ fontWeight: 900 }}>Defaults (Tier: {tierLabel(tier, tiers).toUpperCase()})</div>
+            {edited ? (
+              <button
+                type="button"
+                className="secondaryBtn"
+                onClick={() => {
+                  const byTier = { ...cfg.byTier };
+                  delete byTier[tier];
+                  setCfg({ ...cfg, byTier });
+                }}
+              >
+                Use tier catalogue rates
+              </button>
+            ) : (
+              <span className="muted">From tier catalogue</span>
+            )}
+          </div>
 
           <div style={{ display: "grid", gridTemplateColumns: "1fr 120px", gap: 10, alignItems: "center" }}>
             <div className="muted">General Conditions</div>
@@ -208,8 +240,11 @@ export function ConstructionIndirectsPanel({
         </div>
 
         <div style={{ display: "grid", gap: 14 }}>
-          {renderScenario("Scenario A", indirectsA)}
-          {compareMode ? renderScenario("Scenario B", indirectsB) : null}
+          {computed.map((s) => (
+            <React.Fragment key={s.id}>
+              {renderScenario(`${s.label} (${s.tier.toUpperCase()})`, s.indirects, s.areaSqft)}
+            </React.Fragment>
+          ))}
         </div>
       </div>
     </div>
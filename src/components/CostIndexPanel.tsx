@@ -0,0 +1,273 @@
+import React, { useRef, useState } from "react";
+import { BenchmarkLibrary, tierIds, tierLabel } from "../data/benchmark-library-storage";
+import {
+  COST_INDEX_CSV_HEADERS,
+  CostIndexConfigV1,
+  CostIndexPoint,
+  CostIndexSeries,
+  FALLBACK_SERIES_ID,
+  buildCostIndexCsv,
+  computeIndexEscalation,
+  currentMonth,
+  mergeCostIndexSeries,
+  normalizePoints,
+  parseCostIndexCsv,
+  resolveEstimateDate,
+} from "../utils/costIndex";
+import { formatPct } from "../utils/format";
+
+type Props = {
+  library: BenchmarkLibrary;
+  config: CostIndexConfigV1;
+  setConfig: (next: CostIndexConfigV1) => void;
+};
+
+/**
+ * Regional cost index table and estimate date. Library rates are escalated
+ * from each tier set's effective date to the estimate date at compute time.
+ */
+export function CostIndexPanel({ library, config, setConfig }: Props) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [seriesId, setSeriesId] = useState<string>(FALLBACK_SERIES_ID);
+  const [messages, setMessages] = useState<string[]>([]);
+
+  const series = config.series.find((s) => s.regionId === seriesId) ?? null;
+  const estimateDate = resolveEstimateDate(config);
+  const regionName = (id: string) =>
+    id === FALLBACK_SERIES_ID ? "All other regions (fallback)" : library.regions.find((r) => r.id === id)?.name ?? `${id} (missing region)`;
+
+  const putSeries = (next: CostIndexSeries) =>
+    setConfig({ ...config, series: [...config.series.filter((s) => s.regionId !== next.regionId), next] });
+
+  const setPoints = (points: CostIndexPoint[]) => {
+    if (series) putSeries({ ...series, points });
+  };
+
+  const addPoint = () => {
+    if (!series) {
+      putSeries({ regionId: seriesId, label: "Cost index", points: [{ date: currentMonth(), value: 100 }] });
+      return;
+    }
+    const last = series.points[series.points.length - 1];
+    const [y, m] = (last?.date ?? currentMonth()).split("-").map(Number);
+    const nextDate = last ? (m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, "0")}`) : currentMonth();
+    setPoints(normalizePoints([...series.points, { date: nextDate, value: last?.value ?? 100 }]));
+  };
+
+  const removeSeries = () => {
+    if (!series) return;
+    const ok = window.confirm(`Remove the cost index for ${regionName(series.regionId)} (${series.points.length} point(s))?`);
+    if (ok) setConfig({ ...config, series: config.series.filter((s) => s.regionId !== series.regionId) });
+  };
+
+  async function onImportFile(file: File) {
+    let text = "";
+    try {
+      text = await file.text();
+    } catch {
+      setMessages([`Could not read "${file.name}".`]);
+      return;
+    }
+    const { series: imported, pointCount, issues } = parseCostIndexCsv(text, library);
+    if (imported.length) setConfig(mergeCostIndexSeries(config, imported));
+    setMessages([
+      `${file.name}: ${pointCount} point(s) in ${imported.length} series imported${imported.length ? ` (${imported.map((s) => regionName(s.regionId)).join(", ")} replaced)` : ""}.`,
+      ...issues,
+    ]);
+  }
+
+  function onExport() {
+    const csv = config.series.length ? buildCostIndexCsv(config) : COST_INDEX_CSV_HEADERS.join(",") + "\n";
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "VMX_Cost_Index.csv";
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 2500);
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 18 }}>
+      <div className="adminHeader">
+        <div>
+          <h2>Cost Index Escalation</h2>
+          <div className="muted">
+            Escalates library rates from each benchmark’s effective date to the estimate date, using the region’s cost index (or the fallback series). Forward escalation during construction stays in Soft Costs.
+          </div>
+        </div>
+        <div className="adminHeaderBtns noPrint">
+          <button type="button" className="secondaryBtn" onClick={() => fileInputRef.current?.click()}>
+            Import CSV
+          </button>
+          <button type="button" className="secondaryBtn" onClick={onExport}>
+            {config.series.length ? "Export CSV" : "CSV template"}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void onImportFile(file);
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="adminTopGrid" style={{ gridTemplateColumns: "repeat(3, minmax(160px, 1fr))", marginTop: 10 }}>
+        <div>
+          <label className="label">Escalation</label>
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <input type="checkbox" checked={config.enabled} onChange={(e) => setConfig({ ...config, enabled: e.target.checked })} />
+            Escalate benchmarks to the estimate date
+          </label>
+        </div>
+        <div>
+          <label className="label">Estimate date (blank = today)</label>
+          <input className="input" type="month" value={config.estimateDate} onChange={(e) => setConfig({ ...config, estimateDate: e.target.value })} />
+        </div>
+        <div>
+          <label className="label">Series</label>
+          <select className="input" value={seriesId} onChange={(e) => setSeriesId(e.target.value)}>
+            <option value={FALLBACK_SERIES_ID}>
+              {regionName(FALLBACK_SERIES_ID)}
+              {config.series.some((s) => s.regionId === FALLBACK_SERIES_ID) ? "" : " — none"}
+            </option>
+            {library.regions.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.name}
+                {config.series.some((s) => s.regionId === r.id) ? "" : " — none"}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {messages.length > 0 && (
+        <ul className="muted" style={{ margin: "10px 0 0 16px", padding: 0 }}>
+          {messages.map((m, i) => (
+            <li key={i}>{m}</li>
+          ))}
+        </ul>
+      )}
+
+      <div style={{ display: "flex", gap: 10, alignItems: "flex-end", marginTop: 12, flexWrap: "wrap" }}>
+        {series ? (
+          <div style={{ minWidth: 260 }}>
+            <label className="label">Index name / publisher</label>
+            <input className="input" value={series.label} onChange={(e) => putSeries({ ...series, label: e.target.value })} />
+          </div>
+        ) : (
+          <div className="muted">
+            No index for {regionName(seriesId)}
+            {seriesId !== FALLBACK_SERIES_ID ? " — the fallback series is used." : " — regions without their own series are not escalated."}
+          </div>
+        )}
+        <button type="button" className="secondaryBtn noPrint" onClick={addPoint}>
+          + Point
+        </button>
+        {series ? (
+          <button type="button" className="secondaryBtn noPrint" onClick={removeSeries}>
+            Remove series
+          </button>
+        ) : null}
+      </div>
+
+      {series && series.points.length > 0 && (
+        <table className="table small" style={{ marginTop: 10, maxWidth: 560 }}>
+          <thead>
+            <tr>
+              <th>Month</th>
+              <th style={{ textAlign: "right" }}>Index</th>
+              <th style={{ textAlign: "right" }}>Change</th>
+              <th className="noPrint"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {series.points.map((p, i) => {
+              const prev = series.points[i - 1];
+              return (
+                <tr key={p.date}>
+                  <td>
+                    <input
+                      className="input adminInput"
+                      type="month"
+                      value={p.date}
+                      onChange={(e) =>
+                        e.target.value && setPoints(normalizePoints(series.points.map((x, j) => (j === i ? { ...x, date: e.target.value } : x))))
+                      }
+                    />
+                  </td>
+                  <td style={{ textAlign: "right" }}>
+                    <input
+                      className="input adminInput"
+                      type="number"
+                      min={0}
+                      step="0.1"
+                      value={p.value}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        if (Number.isFinite(value) && value > 0) setPoints(series.points.map((x, j) => (j === i ? { ...x, value } : x)));
+                      }}
+                    />
+                  </td>
+                  <td style={{ textAlign: "right" }}>{prev ? formatPct(p.value / prev.value - 1) : "—"}</td>
+                  <td className="noPrint">
+                    <button type="button" className="secondaryBtn" onClick={() => setPoints(series.points.filter((_, j) => j !== i))}>
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <h3 style={{ marginTop: 16 }}>Applied factors at {estimateDate}</h3>
+      <table className="table small">
+        <thead>
+          <tr>
+            <th>Region</th>
+            {tierIds(library).map((t) => (
+              <th key={t} style={{ textAlign: "right" }}>
+                {tierLabel(t, library.tiers)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {library.regions.map((r) => (
+            <tr key={r.id}>
+              <td>{r.name}</td>
+              {tierIds(library).map((t) => {
+                const e = computeIndexEscalation(config, r.id, r.byTier[t].effectiveDate);
+                const text =
+                  e.status === "applied"
+                    ? `×${e.factor.toFixed(3)} from ${e.fromDate}${e.clamped ? " *" : ""}`
+                    : e.status === "no-effective-date"
+                      ? "no effective date"
+                      : e.status === "no-index"
+                        ? "no index"
+                        : "off";
+                return (
+                  <td key={t} style={{ textAlign: "right", color: e.status === "applied" && !e.clamped ? undefined : "#92400e" }}>
+                    {text}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="muted" style={{ marginTop: 6 }}>
+        * Date outside the index range — the nearest point is used (the index is not extrapolated). Set effective dates in the benchmark editor above.
+      </div>
+    </div>
+  );
+}
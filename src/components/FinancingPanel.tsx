@@ -0,0 +1,244 @@
+import React, { useState } from "react";
+import { formatMoney, formatPct } from "../utils/format";
+import { buildLoanBalanceCsv } from "../utils/exportClientPack";
+import { FINANCING_DRAW_ORDER_LABELS, FinancingComputed, FinancingConfigV1, FinancingDrawOrder } from "../utils/financing";
+import { formatMonth } from "../utils/softCosts";
+
+export type FinancingScenario = {
+  id: string;
+  name: string;
+  result: FinancingComputed | null;
+};
+
+type Props = {
+  currency: string;
+  config: FinancingConfigV1;
+  setConfig: (next: FinancingConfigV1) => void;
+  scenarios: FinancingScenario[];
+};
+
+function pctToInput(p: number) {
+  if (!Number.isFinite(p)) return "0";
+  return (p * 100).toFixed(2).replace(/\.?0+$/, "");
+}
+
+function inputToPct(v: string) {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return 0;
+  return n / 100;
+}
+
+function downloadCsv(filename: string, csv: string) {
+  const blob = new Blob([csv], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 2500);
+}
+
+/**
+ * Construction loan carry: loan-to-cost, draw order, interest, fees and an
+ * optional interest reserve, run month by month over the cashflow schedule.
+ */
+export function FinancingPanel({ currency, config, setConfig, scenarios }: Props) {
+  const [focusId, setFocusId] = useState<string>("");
+  const focus = scenarios.find((s) => s.id === focusId && s.result) ?? scenarios.find((s) => s.result) ?? null;
+
+  const set = (patch: Partial<FinancingConfigV1>) => setConfig({ ...config, ...patch });
+
+  const pctInput = (label: string, key: "loanToCost" | "annualInterestRate" | "originationFeeRate", max: number) => (
+    <div>
+      <label className="label">{label} (%)</label>
+      <input
+        className="input"
+        type="number"
+        step="0.25"
+        min={0}
+        max={max * 100}
+        value={pctToInput(config[key])}
+        onChange={(e) => set({ [key]: Math.max(0, Math.min(max, inputToPct(e.target.value))) })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="card" style={{ marginTop: 18 }}>
+      <div className="adminHeader">
+        <div>
+          <h2>Financing / Carry</h2>
+          <div className="muted">
+            Sizes a construction loan on loan-to-cost and draws it against the monthly cashflow. Interest and loan fees are added to the Grand Total as
+            capitalised carry.
+          </div>
+        </div>
+
+        <label style={{ display: "flex", alignItems: "center", gap: 10, fontWeight: 900 }}>
+          <input type="checkbox" checked={config.enabled} onChange={(e) => set({ enabled: e.target.checked })} />
+          Financed
+        </label>
+      </div>
+
+      {config.enabled && (
+        <div className="adminTopGrid noPrint" style={{ gridTemplateColumns: "repeat(4, 1fr)", marginTop: 10 }}>
+          <div>
+            <label className="label">Draw order</label>
+            <select className="input" value={config.drawOrder} onChange={(e) => set({ drawOrder: e.target.value as FinancingDrawOrder })}>
+              {(Object.keys(FINANCING_DRAW_ORDER_LABELS) as FinancingDrawOrder[]).map((k) => (
+                <option key={k} value={k}>
+                  {FINANCING_DRAW_ORDER_LABELS[k]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {pctInput("Loan-to-cost", "loanToCost", 1)}
+          {pctInput("Interest rate (annual)", "annualInterestRate", 0.5)}
+          {pctInput("Origination fee", "originationFeeRate", 0.2)}
+          <div>
+            <label className="label">Closing costs ({currency})</label>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              step={1000}
+              value={config.closingCosts}
+              onChange={(e) => set({ closingCosts: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </div>
+          <div>
+            <label className="label">Interest</label>
+            <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input type="checkbox" checked={config.interestReserve} onChange={(e) => set({ interestReserve: e.target.checked })} />
+              Funded from an interest reserve
+            </label>
+          </div>
+          <div>
+            <label className="label">Land</label>
+            <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input type="checkbox" checked={config.includeLand} onChange={(e) => set({ includeLand: e.target.checked })} />
+              Funded at month 1 (in loan-to-cost)
+            </label>
+          </div>
+        </div>
+      )}
+
+      {!config.enabled ? (
+        <div className="muted" style={{ marginTop: 10 }}>
+          Financing is off. Turn it on to add construction loan interest and fees to the all-in cost.
+        </div>
+      ) : (
+        <>
+          <table className="table small" style={{ marginTop: 12 }}>
+            <thead>
+              <tr>
+                <th>Scenario</th>
+                <th style={{ textAlign: "right" }}>Cost basis</th>
+                <th style={{ textAlign: "right" }}>Loan</th>
+                <th style={{ textAlign: "right" }}>Equity</th>
+                <th style={{ textAlign: "right" }}>Interest</th>
+                <th style={{ textAlign: "right" }}>Fees</th>
+                <th style={{ textAlign: "right" }}>Carry</th>
+                <th style={{ textAlign: "right" }}>Peak balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scenarios.map((s) =>
+                s.result ? (
+                  <tr key={s.id}>
+                    <td>
+                      <strong>{s.name}</strong>
+                    </td>
+                    <td style={{ textAlign: "right" }}>{formatMoney(s.result.costBasis, currency)}</td>
+                    <td style={{ textAlign: "right" }}>{formatMoney(s.result.loanCommitment, currency)}</td>
+                    <td style={{ textAlign: "right" }}>{formatMoney(s.result.equity, currency)}</td>
+                    <td style={{ textAlign: "right" }}>{formatMoney(s.result.totalInterest, currency)}</td>
+                    <td style={{ textAlign: "right" }}>{formatMoney(s.result.originationFee + s.result.closingCosts, currency)}</td>
+                    <td style={{ textAlign: "right" }}>
+                      <strong>{formatMoney(s.result.carry, currency)}</strong>{" "}
+                      <span className="muted">({formatPct(s.result.carry / Math.max(1, s.result.costBasis))})</span>
+                    </td>
+                    <td style={{ textAlign: "right" }}>{formatMoney(s.result.peakBalance, currency)}</td>
+                  </tr>
+                ) : (
+                  <tr key={s.id}>
+                    <td>
+                      <strong>{s.name}</strong>
+                    </td>
+                    <td colSpan={7} className="muted">
+                      No cashflow to finance.
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+
+          {focus?.result && (
+            <div style={{ marginTop: 14 }}>
+              <div style={{ display: "flex", gap: 10, alignItems: "center", justifyContent: "space-between" }}>
+                <div style={{ fontWeight: 900 }}>
+                  Loan balance — {focus.name}{" "}
+                  <span className="muted" style={{ fontWeight: 400 }}>
+                    ({focus.result.rows.length} months, repaid {formatMoney(focus.result.payoff, currency)} at completion)
+                  </span>
+                </div>
+                <div className="noPrint" style={{ display: "flex", gap: 8 }}>
+                  {scenarios.length > 1 && (
+                    <select className="input" style={{ width: 240 }} value={focus.id} onChange={(e) => setFocusId(e.target.value)}>
+                      {scenarios.map((s) => (
+                        <option key={s.id} value={s.id} disabled={!s.result}>
+                          {s.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    type="button"
+                    className="secondaryBtn"
+                    onClick={() => focus.result && downloadCsv(`VMX_Loan_${focus.name.replace(/[^a-z0-9]+/gi, "_")}.csv`, buildLoanBalanceCsv(focus.result.rows))}
+                  >
+                    Export CSV
+                  </button>
+                </div>
+              </div>
+              <div style={{ maxHeight: 360, overflowY: "auto", marginTop: 6 }}>
+                <table className="table small">
+                  <thead>
+                    <tr>
+                      <th>Month</th>
+                      <th style={{ textAlign: "right" }}>Cost</th>
+                      <th style={{ textAlign: "right" }}>Equity</th>
+                      <th style={{ textAlign: "right" }}>Loan draw</th>
+                      <th style={{ textAlign: "right" }}>Interest</th>
+                      <th style={{ textAlign: "right" }}>Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {focus.result.rows.map((r) => (
+                      <tr key={r.month}>
+                        <td>
+                          M{r.month} <span className="muted">{formatMonth(r.date)}</span>
+                        </td>
+                        <td style={{ textAlign: "right" }}>{formatMoney(r.costDraw, currency)}</td>
+                        <td style={{ textAlign: "right" }}>{formatMoney(r.equityDraw, currency)}</td>
+                        <td style={{ textAlign: "right" }}>{formatMoney(r.loanDraw, currency)}</td>
+                        <td style={{ textAlign: "right" }}>
+                          {formatMoney(r.interest, currency)}
+                          {r.interestPaid > 0 ? <span className="muted"> paid</span> : null}
+                        </td>
+                        <td style={{ textAlign: "right" }}>{formatMoney(r.closingBalance, currency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
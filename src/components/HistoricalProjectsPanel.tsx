@@ -0,0 +1,405 @@
+import React, { useMemo, useRef, useState } from "react";
+import { AreaUnit, HeatBand, VMX_CATEGORIES, areaToSqft, areaUnitLabel, sqftToArea } from "../domain/vmx-domain";
+import { BenchmarkLibrary, TierId, regionOptions, safeTierId, tierIds, tierLabel, updateBenchmarkForRegionTier } from "../data/benchmark-library-storage";
+import {
+  HISTORICAL_CSV_HEADERS,
+  HistoricalDatasetV1,
+  HistoricalProject,
+  applyDerivedBands,
+  createHistoricalProjectId,
+  deriveBandsFromHistory,
+  parseHistoricalCsv,
+} from "../utils/historicalProjects";
+import { formatPct, formatRate } from "../utils/format";
+
+type Props = {
+  library: BenchmarkLibrary;
+  setLibrary: (next: BenchmarkLibrary) => void;
+  dataset: HistoricalDatasetV1;
+  setDataset: (next: HistoricalDatasetV1) => void;
+  areaUnit: AreaUnit;
+  locationOptions: { id: string; label: string; factor: number }[];
+  /** Initial region / tier for the derivation (the library admin selection) */
+  regionId: string;
+  tier: TierId;
+};
+
+const BANDS: HeatBand[] = ["LOW", "MEDIUM", "HIGH"];
+
+/**
+ * Closed-out project actuals, normalised for location and escalation, turned
+ * into percentile LOW / MEDIUM / HIGH bands for a region + tier.
+ */
+export function HistoricalProjectsPanel({ library, setLibrary, dataset, setDataset, areaUnit, locationOptions, regionId, tier }: Props) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [targetRegionId, setTargetRegionId] = useState<string>(regionId);
+  const [targetTierState, setTargetTier] = useState<TierId>(tier);
+  const [messages, setMessages] = useState<string[]>([]);
+
+  const region = library.regions.find((r) => r.id === targetRegionId) ?? library.regions[0];
+  const targetTier = safeTierId(library.tiers, targetTierState);
+  const current = region.byTier[targetTier];
+  const unit = areaUnitLabel(areaUnit);
+
+  const derivation = useMemo(() => deriveBandsFromHistory(dataset, region.id, targetTier), [dataset, region.id, targetTier]);
+  const preview = useMemo(() => applyDerivedBands(current, derivation, dataset), [current, derivation, dataset]);
+
+  const pct = dataset.percentiles;
+  const percentilesAscending = pct.LOW <= pct.MEDIUM && pct.MEDIUM <= pct.HIGH;
+
+  const setProjects = (projects: HistoricalProject[]) => setDataset({ ...dataset, projects });
+  const update = (id: string, patch: Partial<HistoricalProject>) =>
+    setProjects(dataset.projects.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  const addProject = () =>
+    setProjects([
+      ...dataset.projects,
+      {
+        id: createHistoricalProjectId(),
+        name: `Project ${dataset.projects.length + 1}`,
+        regionId: region.id,
+        tier: targetTier,
+        completionDate: dataset.baseDate,
+        locationFactor: 1,
+        areaSqft: 10000,
+        costs: {},
+        included: true,
+      },
+    ]);
+
+  async function onImportFile(file: File) {
+    let text = "";
+    try {
+      text = await file.text();
+    } catch {
+      setMessages([`Could not read "${file.name}".`]);
+      return;
+    }
+    const { projects, issues } = parseHistoricalCsv(text, library, dataset.baseDate);
+    if (projects.length) setProjects([...dataset.projects, ...projects]);
+    setMessages([`${file.name}: ${projects.length} project(s) imported.`, ...issues]);
+  }
+
+  function onDownloadTemplate() {
+    const blob = new Blob([HISTORICAL_CSV_HEADERS.join(",") + "\n"], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "VMX_Historical_Projects_Template.csv";
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 2500);
+  }
+
+  function onWriteToLibrary() {
+    if (preview.applied.length === 0) return;
+    const ok = window.confirm(
+      `Overwrite ${preview.applied.length} categor${preview.applied.length === 1 ? "y" : "ies"} in ${region.name} / ${tierLabel(targetTier, library.tiers)} with the derived bands?`
+    );
+    if (!ok) return;
+    setLibrary(updateBenchmarkForRegionTier(library, region.id, targetTier, preview.benchmark));
+    setMessages([
+      `Updated ${preview.applied.join(", ")} in ${region.name} / ${tierLabel(targetTier, library.tiers)}.`,
+      ...preview.skipped.map((s) => `${s.categoryId} kept (${s.reason}).`),
+    ]);
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 18 }}>
+      <div className="adminHeader">
+        <div>
+          <h2>Historical Projects</h2>
+          <div className="muted">
+            Closed-out actuals, normalised to national average (÷ location factor, damped for Interiors / FF&amp;E like pricing) and escalated to the base date, then summarised as percentile bands.
+          </div>
+        </div>
+        <div className="adminHeaderBtns noPrint">
+          <button type="button" className="secondaryBtn" onClick={addProject}>
+            + Project
+          </button>
+          <button type="button" className="secondaryBtn" onClick={() => fileInputRef.current?.click()}>
+            Import CSV
+          </button>
+          <button type="button" className="secondaryBtn" onClick={onDownloadTemplate}>
+            CSV template
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void onImportFile(file);
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="adminTopGrid" style={{ gridTemplateColumns: "repeat(6, minmax(110px, 1fr))", marginTop: 10 }}>
+        <div>
+          <label className="label">Base date</label>
+          <input
+            className="input"
+            type="month"
+            value={dataset.baseDate}
+            onChange={(e) => e.target.value && setDataset({ ...dataset, baseDate: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="label">Escalation % / yr</label>
+          <input
+            className="input"
+            type="number"
+            step="0.1"
+            min={0}
+            value={(dataset.annualEscalationRate * 100).toFixed(1)}
+            onChange={(e) => setDataset({ ...dataset, annualEscalationRate: Math.max(0, Math.min(50, Number(e.target.value) || 0)) / 100 })}
+          />
+        </div>
+        {BANDS.map((band) => (
+          <div key={band}>
+            <label className="label">{band} percentile</label>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              max={100}
+              value={pct[band]}
+              onChange={(e) =>
+                setDataset({ ...dataset, percentiles: { ...pct, [band]: Math.max(0, Math.min(100, Number(e.target.value) || 0)) } })
+              }
+            />
+          </div>
+        ))}
+        <div>
+          <label className="label">Min sample</label>
+          <input
+            className="input"
+            type="number"
+            min={1}
+            value={dataset.minSample}
+            onChange={(e) => setDataset({ ...dataset, minSample: Math.max(1, Math.round(Number(e.target.value) || 1)) })}
+          />
+        </div>
+      </div>
+      {!percentilesAscending && (
+        <div style={{ marginTop: 6, color: "#b91c1c" }}>Percentiles should rise from LOW to HIGH.</div>
+      )}
+
+      {messages.length > 0 && (
+        <ul className="muted" style={{ margin: "10px 0 0 16px", padding: 0 }}>
+          {messages.map((m, i) => (
+            <li key={i}>{m}</li>
+          ))}
+        </ul>
+      )}
+
+      {dataset.projects.length === 0 ? (
+        <div className="muted" style={{ marginTop: 10 }}>
+          No historical projects yet. Add them one by one or import a CSV (one project per row, one column per category).
+        </div>
+      ) : (
+        <div style={{ overflowX: "auto", marginTop: 10 }}>
+          <table className="table small">
+            <thead>
+              <tr>
+                <th>Use</th>
+                <th>Project</th>
+                <th>Region</th>
+                <th>Tier</th>
+                <th>Completed</th>
+                <th>Location ×</th>
+                <th style={{ textAlign: "right" }}>Area ({unit})</th>
+                {VMX_CATEGORIES.map((c) => (
+                  <th key={c.id} style={{ textAlign: "right" }}>
+                    {c.label}
+                  </th>
+                ))}
+                <th className="noPrint" />
+              </tr>
+            </thead>
+            <tbody>
+              {dataset.projects.map((p) => (
+                <tr key={p.id} style={p.included ? undefined : { opacity: 0.5 }}>
+                  <td>
+                    <input type="checkbox" checked={p.included} onChange={(e) => update(p.id, { included: e.target.checked })} />
+                  </td>
+                  <td>
+                    <input className="input" style={{ width: 160 }} value={p.name} onChange={(e) => update(p.id, { name: e.target.value })} />
+                  </td>
+                  <td>
+                    <select className="input" value={p.regionId} onChange={(e) => update(p.id, { regionId: e.target.value })}>
+                      {!library.regions.some((r) => r.id === p.regionId) && <option value={p.regionId}>{p.regionId} (missing)</option>}
+                      {regionOptions(library, [p.regionId]).map((o) => (
+                        <option key={o.id} value={o.id}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <select className="input" value={p.tier} onChange={(e) => update(p.id, { tier: e.target.value as TierId })}>
+                      {tierIds(library).map((t) => (
+                        <option key={t} value={t}>
+                          {tierLabel(t, library.tiers)}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      className="input"
+                      type="month"
+                      value={p.completionDate}
+                      onChange={(e) => e.target.value && update(p.id, { completionDate: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <div style={{ display: "flex", gap: 4 }}>
+                      <input
+                        className="input"
+                        type="number"
+                        step="0.01"
+                        min={0.5}
+                        style={{ width: 70 }}
+                        value={p.locationFactor}
+                        onChange={(e) => update(p.id, { locationFactor: Math.max(0.5, Math.min(3, Number(e.target.value) || 1)) })}
+                      />
+                      <select
+                        className="input"
+                        style={{ width: 28 }}
+                        title="Location preset"
+                        value=""
+                        onChange={(e) => {
+                          const hit = locationOptions.find((o) => o.id === e.target.value);
+                          if (hit) update(p.id, { locationFactor: hit.factor });
+                        }}
+                      >
+                        <option value="" />
+                        {locationOptions.map((o) => (
+                          <option key={o.id} value={o.id}>
+                            {o.label} (×{o.factor.toFixed(2)})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </td>
+                  <td style={{ textAlign: "right" }}>
+                    <input
+                      className="input"
+                      type="number"
+                      min={1}
+                      style={{ width: 90, textAlign: "right" }}
+                      value={Math.round(sqftToArea(p.areaSqft, areaUnit))}
+                      onChange={(e) => update(p.id, { areaSqft: Math.max(1, areaToSqft(Number(e.target.value) || 0, areaUnit)) })}
+                    />
+                  </td>
+                  {VMX_CATEGORIES.map((c) => (
+                    <td key={c.id} style={{ textAlign: "right" }}>
+                      <input
+                        className="input"
+                        type="number"
+                        min={0}
+                        placeholder="—"
+                        style={{ width: 110, textAlign: "right" }}
+                        value={p.costs[c.id] ?? ""}
+                        onChange={(e) => {
+                          const costs = { ...p.costs };
+                          if (e.target.value === "") delete costs[c.id];
+                          else costs[c.id] = Math.max(0, Number(e.target.value) || 0);
+                          update(p.id, { costs });
+                        }}
+                      />
+                    </td>
+                  ))}
+                  <td className="noPrint">
+                    <button type="button" className="secondaryBtn" onClick={() => setProjects(dataset.projects.filter((x) => x.id !== p.id))}>
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="adminHeader" style={{ marginTop: 16 }}>
+        <div>
+          <h3 style={{ margin: 0 }}>Derived bands</h3>
+          <div className="muted">
+            {derivation.projectCount} included project(s) in {region.name} / {tierLabel(targetTier, library.tiers)}. Categories with fewer than {dataset.minSample} samples keep their library values.
+          </div>
+        </div>
+        <div className="adminHeaderBtns noPrint">
+          <select className="input" value={region.id} onChange={(e) => setTargetRegionId(e.target.value)}>
+            {regionOptions(library, [region.id]).map((o) => (
+              <option key={o.id} value={o.id}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          <select className="input" value={targetTier} onChange={(e) => setTargetTier(e.target.value as TierId)}>
+            {tierIds(library).map((t) => (
+              <option key={t} value={t}>
+                {tierLabel(t, library.tiers)}
+              </option>
+            ))}
+          </select>
+          <button type="button" className="secondaryBtn" disabled={preview.applied.length === 0} onClick={onWriteToLibrary}>
+            Write to library
+          </button>
+        </div>
+      </div>
+
+      <table className="table small" style={{ marginTop: 10 }}>
+        <thead>
+          <tr>
+            <th>Category</th>
+            <th style={{ textAlign: "right" }}>n</th>
+            <th style={{ textAlign: "right" }}>Min – Max</th>
+            <th style={{ textAlign: "right" }}>CV</th>
+            {BANDS.map((band) => (
+              <th key={band} style={{ textAlign: "right" }}>
+                {band} (P{pct[band]})
+              </th>
+            ))}
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {derivation.categories.map((d) => {
+            const label = VMX_CATEGORIES.find((c) => c.id === d.categoryId)?.label ?? d.categoryId;
+            const skipped = preview.skipped.find((s) => s.categoryId === d.categoryId);
+            const currentRate = (band: HeatBand) => current.bands.find((b) => b.categoryId === d.categoryId && b.band === band)?.psqft ?? 0;
+            return (
+              <tr key={d.categoryId}>
+                <td>{label}</td>
+                <td style={{ textAlign: "right" }}>{d.n}</td>
+                <td style={{ textAlign: "right" }}>
+                  {d.n ? `${formatRate(d.min, current.currency, areaUnit)} – ${formatRate(d.max, current.currency, areaUnit)}` : "—"}
+                </td>
+                <td style={{ textAlign: "right", color: d.cv > 0.35 ? "#b45309" : undefined }}>{d.n > 1 ? formatPct(d.cv) : "—"}</td>
+                {BANDS.map((band) => (
+                  <td key={band} style={{ textAlign: "right" }}>
+                    {d.bands ? formatRate(d.bands[band], current.currency, areaUnit) : "—"}
+                    <div className="muted" style={{ fontSize: 11 }}>
+                      now {formatRate(currentRate(band), current.currency, areaUnit)}
+                    </div>
+                  </td>
+                ))}
+                <td className="muted">{skipped ? `Kept — ${skipped.reason}` : "Will update"}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="muted" style={{ marginTop: 6 }}>
+        CV = standard deviation ÷ mean of the normalised rates; above ~35% the sample is too mixed to trust a single band.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import React, { useMemo, useState } from "react";
+import { AreaUnit, areaUnitLabel, psqftToRate } from "../domain/vmx-domain";
+import { BenchmarkLibrary, TierId, tierIds, tierLabel } from "../data/benchmark-library-storage";
+import {
+  LibraryHistoryV1,
+  describeLibraryChange,
+  describeLibraryVersionRef,
+  diffLibraryVersions,
+  libraryVersionRef,
+  publishLibraryVersion,
+  rollbackRegionTier,
+  summarizeLibraryChanges,
+  unpublishLibraryVersion,
+} from "../data/benchmark-library-history";
+
+type Props = {
+  library: BenchmarkLibrary;
+  history: LibraryHistoryV1;
+  setHistory: (next: LibraryHistoryV1) => void;
+  /** Applies a rolled-back library and records it as a noted version */
+  onRollback: (next: BenchmarkLibrary, note: string) => void;
+  areaUnit: AreaUnit;
+  /** Initial rollback target (the library admin selection) */
+  regionId: string;
+  tier: TierId;
+};
+
+const VERSIONS_SHOWN = 15;
+const CHANGES_SHOWN = 200;
+
+/**
+ * Version list, diff between any two versions, per region / tier rollback and
+ * "published" tags for the benchmark library.
+ */
+export function LibraryHistoryPanel({ library, history, setHistory, onRollback, areaUnit, regionId, tier }: Props) {
+  const versions = history.versions;
+  const latest = versions[versions.length - 1];
+  const [showAll, setShowAll] = useState(false);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+  const [rollbackId, setRollbackId] = useState<string>("");
+  const [rollbackRegionId, setRollbackRegionId] = useState<string>(regionId);
+  const [rollbackTier, setRollbackTier] = useState<TierId>(tier);
+
+  const unit = areaUnitLabel(areaUnit);
+  const fmtRate = (psqft: number) => `$${(Math.round(psqftToRate(psqft, areaUnit) * 100) / 100).toLocaleString()}/${unit}`;
+  const byId = (id: string) => versions.find((v) => v.id === id);
+
+  // Default comparison: previous version → latest
+  const fromVersion = byId(fromId) ?? versions[versions.length - 2] ?? latest;
+  const toVersion = byId(toId) ?? latest;
+  const compared = useMemo(
+    () => (fromVersion && toVersion ? diffLibraryVersions(fromVersion.library, toVersion.library) : []),
+    [fromVersion, toVersion]
+  );
+
+  const rollbackVersion = byId(rollbackId) ?? versions[versions.length - 2];
+  const rollbackRegions = rollbackVersion?.library.regions ?? [];
+  const rollbackRegion = rollbackRegions.find((r) => r.id === rollbackRegionId) ?? rollbackRegions[0];
+  const rolledBack = useMemo(
+    () => (rollbackVersion && rollbackRegion ? rollbackRegionTier(library, rollbackVersion.library, rollbackRegion.id, rollbackTier) : null),
+    [library, rollbackVersion, rollbackRegion, rollbackTier]
+  );
+  const rollbackChanges = useMemo(() => (rolledBack ? diffLibraryVersions(library, rolledBack) : []), [library, rolledBack]);
+
+  const shown = [...versions].reverse().slice(0, showAll ? versions.length : VERSIONS_SHOWN);
+
+  function onPublish(id: string) {
+    const v = byId(id);
+    if (!v) return;
+    const tag = window.prompt(`Tag for library v${v.number} (e.g. "2026 Q4 release")`, `v${v.number}`);
+    if (tag === null) return;
+    setHistory(publishLibraryVersion(history, id, tag, new Date().toISOString()));
+  }
+
+  function onApplyRollback() {
+    if (!rolledBack || !rollbackVersion || !rollbackRegion) return;
+    const target = `${rollbackRegion.name} / ${tierLabel(rollbackTier, library.tiers)}`;
+    const ok = window.confirm(`Roll back ${target} to library v${rollbackVersion.number}? ${rollbackChanges.length} change(s) will be applied as a new version.`);
+    if (!ok) return;
+    onRollback(rolledBack, `Rolled back ${target} to v${rollbackVersion.number}`);
+  }
+
+  const versionOption = (id: string, n: number, tag?: string) => (
+    <option key={id} value={id}>
+      v{n}
+      {tag ? ` — ${tag}` : ""}
+    </option>
+  );
+
+  return (
+    <div className="card" style={{ marginTop: 18 }}>
+      <div className="adminHeader">
+        <div>
+          <h2>Library History</h2>
+          <div className="muted">
+            Every change to the benchmark library is kept as a version. {describeLibraryVersionRef(libraryVersionRef(history))}.
+          </div>
+        </div>
+        <div style={{ minWidth: 220 }}>
+          <label className="label">Editing as</label>
+          <input
+            className="input"
+            value={history.author}
+            placeholder="Your name"
+            onChange={(e) => setHistory({ ...history, author: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <table className="table small" style={{ marginTop: 10 }}>
+        <thead>
+          <tr>
+            <th style={{ width: 60 }}>Version</th>
+            <th style={{ width: 170 }}>When</th>
+            <th style={{ width: 140 }}>Who</th>
+            <th>What</th>
+            <th style={{ width: 170 }}>Published</th>
+            <th className="noPrint" style={{ width: 190 }}></th>
+          </tr>
+        </thead>
+        <tbody>
+          {shown.map((v) => (
+            <React.Fragment key={v.id}>
+              <tr>
+                <td style={{ fontWeight: 700 }}>v{v.number}</td>
+                <td title={v.updatedAtIso ? `Last edit ${new Date(v.updatedAtIso).toLocaleString()}` : undefined}>
+                  {new Date(v.createdAtIso).toLocaleString()}
+                </td>
+                <td>{v.author || <span className="muted">Unknown</span>}</td>
+                <td>
+                  {v.note ? <div style={{ fontWeight: 700 }}>{v.note}</div> : null}
+                  <div className="muted">{summarizeLibraryChanges(v.changes)}</div>
+                </td>
+                <td>
+                  {v.published ? (
+                    <span title={`${new Date(v.published.atIso).toLocaleString()}${v.published.by ? ` by ${v.published.by}` : ""}`}>
+                      <strong>{v.published.tag}</strong>
+                    </span>
+                  ) : (
+                    <span className="muted">draft</span>
+                  )}
+                </td>
+                <td className="noPrint">
+                  <div style={{ display: "flex", gap: 6 }}>
+                    <button type="button" className="secondaryBtn" disabled={!v.changes.length} onClick={() => setOpenId(openId === v.id ? null : v.id)}>
+                      {openId === v.id ? "Hide" : "Changes"}
+                    </button>
+                    {v.published ? (
+                      <button type="button" className="secondaryBtn" onClick={() => setHistory(unpublishLibraryVersion(history, v.id))}>
+                        Unpublish
+                      </button>
+                    ) : (
+                      <button type="button" className="secondaryBtn" onClick={() => onPublish(v.id)}>
+                        Publish…
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+              {openId === v.id && (
+                <tr>
+                  <td colSpan={6} style={{ paddingLeft: 18 }}>
+                    <ul style={{ margin: 0, paddingLeft: 16 }}>
+                      {v.changes.slice(0, CHANGES_SHOWN).map((c, i) => (
+                        <li key={i}>{describeLibraryChange(c, fmtRate)}</li>
+                      ))}
+                      {v.changes.length > CHANGES_SHOWN && <li className="muted">…and {v.changes.length - CHANGES_SHOWN} more</li>}
+                    </ul>
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+      {versions.length > VERSIONS_SHOWN && (
+        <button type="button" className="secondaryBtn noPrint" style={{ marginTop: 8 }} onClick={() => setShowAll(!showAll)}>
+          {showAll ? "Show latest only" : `Show all ${versions.length} versions`}
+        </button>
+      )}
+
+      {versions.length > 1 && fromVersion && toVersion && (
+        <div className="panel noPrint" style={{ marginTop: 12 }}>
+          <strong>Compare versions</strong>
+          <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8, flexWrap: "wrap" }}>
+            <select className="input" style={{ width: 200 }} value={fromVersion.id} onChange={(e) => setFromId(e.target.value)}>
+              {[...versions].reverse().map((v) => versionOption(v.id, v.number, v.published?.tag))}
+            </select>
+            <span className="muted">→</span>
+            <select className="input" style={{ width: 200 }} value={toVersion.id} onChange={(e) => setToId(e.target.value)}>
+              {[...versions].reverse().map((v) => versionOption(v.id, v.number, v.published?.tag))}
+            </select>
+            <span className="muted">{summarizeLibraryChanges(compared)}</span>
+          </div>
+          {compared.length > 0 && (
+            <ul style={{ margin: "8px 0 0 16px", padding: 0, maxHeight: 260, overflowY: "auto" }}>
+              {compared.slice(0, CHANGES_SHOWN).map((c, i) => (
+                <li key={i}>{describeLibraryChange(c, fmtRate)}</li>
+              ))}
+              {compared.length > CHANGES_SHOWN && <li className="muted">…and {compared.length - CHANGES_SHOWN} more</li>}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {versions.length > 1 && rollbackVersion && (
+        <div className="panel noPrint" style={{ marginTop: 12 }}>
+          <strong>Roll back a region / tier</strong>
+          <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8, flexWrap: "wrap" }}>
+            <select className="input" style={{ width: 200 }} value={rollbackVersion.id} onChange={(e) => setRollbackId(e.target.value)}>
+              {[...versions].reverse().map((v) => versionOption(v.id, v.number, v.published?.tag))}
+            </select>
+            <select className="input" style={{ width: 200 }} value={rollbackRegion?.id ?? ""} onChange={(e) => setRollbackRegionId(e.target.value)}>
+              {rollbackRegions.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.name}
+                  {library.regions.some((x) => x.id === r.id) ? "" : " (deleted — restores whole region)"}
+                </option>
+              ))}
+            </select>
+            <select className="input" style={{ width: 140 }} value={rollbackTier} onChange={(e) => setRollbackTier(e.target.value as TierId)}>
+              {tierIds(library).map((t) => (
+                <option key={t} value={t}>
+                  {tierLabel(t, library.tiers)}
+                </option>
+              ))}
+            </select>
+            <button type="button" className="secondaryBtn" disabled={!rollbackChanges.length} onClick={onApplyRollback}>
+              Roll back ({rollbackChanges.length} change{rollbackChanges.length === 1 ? "" : "s"})
+            </button>
+          </div>
+          {rollbackChanges.length > 0 ? (
+            <ul style={{ margin: "8px 0 0 16px", padding: 0, maxHeight: 200, overflowY: "auto" }}>
+              {rollbackChanges.slice(0, CHANGES_SHOWN).map((c, i) => (
+                <li key={i}>{describeLibraryChange(c, fmtRate)}</li>
+              ))}
+            </ul>
+          ) : (
+            <div className="muted" style={{ marginTop: 6 }}>
+              The current library already matches this version for the selected region / tier.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
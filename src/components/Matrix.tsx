@@ -1,26 +1,49 @@
-import React from "react";
+import React, { useState } from "react";
 import {
+  AreaUnit,
   BenchmarkSet,
   HeatBand,
   ScenarioSelection,
   ScenarioResult,
   VmxCategoryId,
   VMX_CATEGORIES,
+  areaToSqft,
+  areaUnitLabel,
+  computeSubElementBreakdown,
+  describeProvenance,
+  getBandProvenance,
+  getSubElements,
+  psqftToRate,
+  rateToPsqft,
+  sqftToArea,
+  subElementShares,
 } from "../domain/vmx-domain";
-import { formatMoney, formatPct } from "../utils/format";
+import { formatArea, formatMoney, formatPct } from "../utils/format";
+import { IndexEscalation, describeIndexEscalation } from "../utils/costIndex";
 
 type Props = {
   title: string;
   areaSqft: number;
   setAreaSqft: (n: number) => void;
   showAreaInput?: boolean;
+  /** Display unit only; areaSqft and benchmark rates stay canonical (sq ft). */
+  areaUnit?: AreaUnit;
   benchmark: BenchmarkSet;
   selections: Record<VmxCategoryId, ScenarioSelection>;
   setBand: (categoryId: VmxCategoryId, band: HeatBand) => void;
   result: ScenarioResult | null;
   error: string | null;
+  /** When provided, categories accept a manual $/sq ft (canonical) with a required reason; null clears it. */
+  setOverride?: (categoryId: VmxCategoryId, override: RateOverride | null) => void;
+  /** Library → estimate date escalation already included in `benchmark` */
+  costIndex?: IndexEscalation;
 };
 
+export type RateOverride = { psqft: number; reason: string; source: string };
+
+const OVERRIDE_TINT = "rgba(245,158,11,.10)";
+const OVERRIDE_TEXT = "#92400e";
+
 function bandLabel(b: HeatBand) {
   return b === "LOW" ? "Low" : b === "MEDIUM" ? "Medium" : "High";
 }
@@ -36,31 +59,63 @@ export function Matrix({
   areaSqft,
   setAreaSqft,
   showAreaInput = true,
+  areaUnit = "sqft",
   benchmark,
   selections,
   setBand,
   result,
   error,
+  setOverride,
+  costIndex,
 }: Props) {
+  const unitLabel = areaUnitLabel(areaUnit);
+  const [expanded, setExpanded] = useState<Partial<Record<VmxCategoryId, boolean>>>({});
+  const [editing, setEditing] = useState<VmxCategoryId | null>(null);
+  const [draft, setDraft] = useState<{ rate: string; reason: string; source: string }>({ rate: "", reason: "", source: "" });
+
+  const openEditor = (categoryId: VmxCategoryId, bandPsqft: number) => {
+    const sel = selections[categoryId];
+    const psqft = sel?.overridePsqft ?? bandPsqft;
+    setDraft({
+      rate: String(Math.round(psqftToRate(psqft, areaUnit) * 100) / 100),
+      reason: sel?.overrideReason ?? "",
+      source: sel?.overrideSource ?? "",
+    });
+    setEditing(categoryId);
+  };
+
+  const draftRate = Number(draft.rate.replace(/,/g, ""));
+  const draftValid = Number.isFinite(draftRate) && draftRate > 0 && draft.reason.trim().length > 0;
+  const subResults = result ? computeSubElementBreakdown(result, benchmark) : [];
+
   return (
     <div className="card">
       <div className="matrixHeader">
         <div>
           <h2>{title}</h2>
           <div className="muted">
-            {benchmark.name} — {benchmark.currency} · Area: {areaSqft.toLocaleString()} sq ft
+            {benchmark.name} — {benchmark.currency} · Area: {formatArea(areaSqft, areaUnit)}
+            {result && result.areaSqft !== areaSqft ? ` · All buildings: ${formatArea(result.areaSqft, areaUnit)}` : ""}
           </div>
+          {costIndex && costIndex.status !== "disabled" ? (
+            <div
+              className="muted"
+              style={{ fontSize: 12, marginTop: 2, color: costIndex.status !== "applied" || costIndex.clamped ? OVERRIDE_TEXT : undefined }}
+            >
+              {describeIndexEscalation(costIndex)}
+            </div>
+          ) : null}
         </div>
 
         {showAreaInput ? (
           <div style={{ minWidth: 220 }}>
-            <label className="label">Area (sq ft)</label>
+            <label className="label">Area ({unitLabel})</label>
             <input
               className="input"
               type="number"
               min={1}
-              value={areaSqft}
-              onChange={(e) => setAreaSqft(Number(e.target.value))}
+              value={Math.round(sqftToArea(areaSqft, areaUnit))}
+              onChange={(e) => setAreaSqft(areaToSqft(Number(e.target.value), areaUnit))}
             />
           </div>
         ) : null}
@@ -87,28 +142,162 @@ export function Matrix({
             const low = getPsqft(benchmark, c.id, "LOW");
             const med = getPsqft(benchmark, c.id, "MEDIUM");
             const high = getPsqft(benchmark, c.id, "HIGH");
+            const subs = getSubElements(benchmark, c.id);
+            const isOpen = subs.length > 0 && !!expanded[c.id];
+            const override = selections[c.id]?.overridePsqft;
+            const selectedPsqft = sel === "LOW" ? low : sel === "MEDIUM" ? med : high;
+            const sharesByBand = {
+              LOW: subElementShares(subs, "LOW"),
+              MEDIUM: subElementShares(subs, "MEDIUM"),
+              HIGH: subElementShares(subs, "HIGH"),
+            };
 
             return (
-              <tr key={c.id}>
-                <td className="catCell">{c.label}</td>
-
-                {(["LOW", "MEDIUM", "HIGH"] as HeatBand[]).map((band) => {
-                  const perSqft = band === "LOW" ? low : band === "MEDIUM" ? med : high;
-                  const isActive = sel === band;
-                  return (
-                    <td key={band}>
+              <React.Fragment key={c.id}>
+                <tr style={override !== undefined ? { background: OVERRIDE_TINT } : undefined}>
+                  <td className="catCell">
+                    {subs.length > 0 ? (
                       <button
                         type="button"
-                        className={`bandBtn ${band.toLowerCase()} ${isActive ? "active" : ""}`}
-                        onClick={() => setBand(c.id, band)}
+                        onClick={() => setExpanded((p) => ({ ...p, [c.id]: !p[c.id] }))}
+                        aria-expanded={isOpen}
+                        title={isOpen ? "Hide sub-elements" : `Show ${subs.length} sub-elements`}
+                        style={{ border: "none", background: "transparent", color: "inherit", font: "inherit", padding: 0, cursor: "pointer", textAlign: "left" }}
                       >
-                        <div className="bandTop">{band.toUpperCase()}</div>
-                        <div className="bandBottom">${perSqft.toLocaleString()} / sq ft</div>
+                        {isOpen ? "▾" : "▸"} {c.label}
                       </button>
+                    ) : (
+                      c.label
+                    )}
+                    {override !== undefined ? (
+                      <div
+                        style={{ fontSize: 11, fontWeight: 900, color: OVERRIDE_TEXT, marginTop: 4 }}
+                        title={[selections[c.id]?.overrideReason, selections[c.id]?.overrideSource].filter(Boolean).join(" — ")}
+                      >
+                        Override ${Math.round(psqftToRate(override, areaUnit)).toLocaleString()} / {unitLabel} (band ${Math.round(psqftToRate(selectedPsqft, areaUnit)).toLocaleString()})
+                      </div>
+                    ) : null}
+                    {setOverride ? (
+                      <div className="noPrint" style={{ marginTop: 4 }}>
+                        <button
+                          type="button"
+                          onClick={() => (editing === c.id ? setEditing(null) : openEditor(c.id, selectedPsqft))}
+                          style={{ border: "none", background: "transparent", color: "#64748b", font: "inherit", fontSize: 11, padding: 0, cursor: "pointer", textDecoration: "underline" }}
+                        >
+                          {override !== undefined ? "Edit override" : "Override rate"}
+                        </button>
+                      </div>
+                    ) : null}
+                  </td>
+
+                  {(["LOW", "MEDIUM", "HIGH"] as HeatBand[]).map((band) => {
+                    const perSqft = band === "LOW" ? low : band === "MEDIUM" ? med : high;
+                    const perUnit = Math.round(psqftToRate(perSqft, areaUnit));
+                    const isActive = sel === band;
+                    return (
+                      <td key={band}>
+                        <button
+                          type="button"
+                          className={`bandBtn ${band.toLowerCase()} ${isActive ? "active" : ""}`}
+                          onClick={() => setBand(c.id, band)}
+                          title={describeProvenance(getBandProvenance(benchmark, c.id, band))}
+                        >
+                          <div className="bandTop">{band.toUpperCase()}</div>
+                          <div className="bandBottom">${perUnit.toLocaleString()} / {unitLabel}</div>
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+
+                {setOverride && editing === c.id ? (
+                  <tr className="noPrint">
+                    <td colSpan={4} style={{ background: OVERRIDE_TINT }}>
+                      <div style={{ display: "grid", gridTemplateColumns: "1fr 2fr 2fr auto", gap: 10, alignItems: "end" }}>
+                        <div>
+                          <label className="label">Rate ({benchmark.currency} / {unitLabel})</label>
+                          <input
+                            className="input"
+                            type="text"
+                            inputMode="decimal"
+                            value={draft.rate}
+                            onChange={(e) => setDraft({ ...draft, rate: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <label className="label">Reason (required)</label>
+                          <input
+                            className="input"
+                            value={draft.reason}
+                            placeholder="e.g., Sub-contractor quote received"
+                            onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <label className="label">Source</label>
+                          <input
+                            className="input"
+                            value={draft.source}
+                            placeholder="e.g., ABC Mechanical, quote #1042, 2026-03-14"
+                            onChange={(e) => setDraft({ ...draft, source: e.target.value })}
+                          />
+                        </div>
+                        <div style={{ display: "flex", gap: 8 }}>
+                          <button
+                            type="button"
+                            className="secondaryBtn"
+                            disabled={!draftValid}
+                            title={draftValid ? "Apply override" : "Enter a positive rate and a reason"}
+                            onClick={() => {
+                              setOverride(c.id, { psqft: rateToPsqft(draftRate, areaUnit), reason: draft.reason.trim(), source: draft.source.trim() });
+                              setEditing(null);
+                            }}
+                          >
+                            Apply
+                          </button>
+                          {override !== undefined ? (
+                            <button
+                              type="button"
+                              className="secondaryBtn"
+                              onClick={() => {
+                                setOverride(c.id, null);
+                                setEditing(null);
+                              }}
+                            >
+                              Clear
+                            </button>
+                          ) : null}
+                          <button type="button" className="secondaryBtn" onClick={() => setEditing(null)}>
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                      <div className="muted" style={{ fontSize: 12, marginTop: 6 }}>
+                        The override replaces the location / typology-adjusted band rate for this category. Band buttons keep working for guardrail context but no longer change cost.
+                      </div>
                     </td>
-                  );
-                })}
-              </tr>
+                  </tr>
+                ) : null}
+
+                {isOpen &&
+                  subs.map((s, i) => (
+                    <tr key={s.id}>
+                      <td className="muted" style={{ paddingLeft: 22, fontSize: 12 }}>
+                        {s.code ? `${s.code} ` : ""}
+                        {s.label}
+                      </td>
+                      {(["LOW", "MEDIUM", "HIGH"] as HeatBand[]).map((band) => {
+                        const perSqft = (band === "LOW" ? low : band === "MEDIUM" ? med : high) * sharesByBand[band][i];
+                        return (
+                          <td key={band} className="muted" style={{ textAlign: "center", fontSize: 12, fontWeight: sel === band ? 900 : 400 }}>
+                            ${Math.round(psqftToRate(perSqft, areaUnit)).toLocaleString()} / {unitLabel}
+                            <div style={{ fontSize: 11 }}>{formatPct(sharesByBand[band][i])}</div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+              </React.Fragment>
             );
           })}
         </tbody>
@@ -120,9 +309,9 @@ export function Matrix({
           <div className="big">{result ? formatMoney(result.totalCost, result.currency) : "—"}</div>
         </div>
         <div>
-          <div className="label">Total / sq ft</div>
+          <div className="label">Total / {unitLabel}</div>
           <div className="big">
-            {result ? formatMoney(result.totalCost / Math.max(1, areaSqft), result.currency) : "—"}
+            {result ? formatMoney(psqftToRate(result.totalPsqft, areaUnit), result.currency) : "—"}
           </div>
         </div>
       </div>
@@ -149,40 +338,71 @@ export function Matrix({
               const pillClass = rangeStatus === "OK" ? "ok" : rangeStatus === "LOW" ? "low" : "high";
 
               return (
-                <tr key={row.categoryId}>
-                  <td>{row.label}</td>
-                  <td>{bandLabel(selections[row.categoryId]?.band ?? "MEDIUM")}</td>
-                  <td>{formatMoney(row.cost, result.currency)}</td>
-                  <td>{formatPct(row.pctOfTotal)}</td>
-                  <td>
-                    <div style={{ lineHeight: 1.1 }}>
-                      {formatPct(row.targetMinPct)}–<br />
-                      {formatPct(row.targetMaxPct)}
-                    </div>
-                  </td>
+                <React.Fragment key={row.categoryId}>
+                  <tr>
+                    <td>{row.label}</td>
+                    <td>
+                      {bandLabel(selections[row.categoryId]?.band ?? "MEDIUM")}
+                      {selections[row.categoryId]?.overridePsqft !== undefined ? (
+                        <div style={{ fontSize: 11, fontWeight: 900, color: OVERRIDE_TEXT }}>Override</div>
+                      ) : null}
+                    </td>
+                    <td>
+                      {formatMoney(row.cost, result.currency)}
+                      {row.quantityCost ? (
+                        <div className="muted" style={{ fontSize: 11 }}>
+                          incl. {formatMoney(row.quantityCost, result.currency)} qty items
+                        </div>
+                      ) : null}
+                    </td>
+                    <td>{formatPct(row.pctOfTotal)}</td>
+                    <td>
+                      <div style={{ lineHeight: 1.1 }}>
+                        {formatPct(row.targetMinPct)}–<br />
+                        {formatPct(row.targetMaxPct)}
+                      </div>
+                    </td>
+
+                    <td className="statusCell">
+                      <div className={`rangePill ${pillClass}`}>
+                        {rangeStatus === "HIGH" ? <div className="rangeArrow up">▲</div> : null}
+
+                        <div className="rangeText">
+                          {rangeStatus === "OK" ? (
+                            "OK"
+                          ) : rangeStatus === "LOW" ? (
+                            <>
+                              Below<br />range
+                            </>
+                          ) : (
+                            <>
+                              Above<br />range
+                            </>
+                          )}
+                        </div>
 
-                  <td className="statusCell">
-                    <div className={`rangePill ${pillClass}`}>
-                      {rangeStatus === "HIGH" ? <div className="rangeArrow up">▲</div> : null}
-
-                      <div className="rangeText">
-                        {rangeStatus === "OK" ? (
-                          "OK"
-                        ) : rangeStatus === "LOW" ? (
-                          <>
-                            Below<br />range
-                          </>
-                        ) : (
-                          <>
-                            Above<br />range
-                          </>
-                        )}
+                        {rangeStatus === "LOW" ? <div className="rangeArrow down">▼</div> : null}
                       </div>
+                    </td>
+                  </tr>
 
-                      {rangeStatus === "LOW" ? <div className="rangeArrow down">▼</div> : null}
-                    </div>
-                  </td>
-                </tr>
+                  {expanded[row.categoryId] &&
+                    subResults
+                      .filter((s) => s.parentId === row.categoryId)
+                      .map((s) => (
+                        <tr key={s.id} className="muted">
+                          <td style={{ paddingLeft: 22 }}>
+                            {s.code ? `${s.code} ` : ""}
+                            {s.label}
+                          </td>
+                          <td>{formatPct(s.shareOfParent)} of parent</td>
+                          <td>{formatMoney(s.cost, result.currency)}</td>
+                          <td>{formatPct(s.pctOfTotal)}</td>
+                          <td />
+                          <td />
+                        </tr>
+                      ))}
+                </React.Fragment>
               );
             })}
           </tbody>
@@ -0,0 +1,171 @@
+import React, { useState } from "react";
+import { DEFAULT_TIERS, tierLabel, type TierDefinition, type TierId } from "../data/benchmark-library-storage";
+import { QUANTITY_ITEM_PRESETS, createQuantityItemId, presetRate, quantityItemFromPreset } from "../data/quantity-items";
+import { VMX_CATEGORIES, quantityItemAmount, type QuantityItem, type VmxCategoryId } from "../domain/vmx-domain";
+import { formatMoney } from "../utils/format";
+
+export type QuantityItemsScenario = {
+  id: string;
+  name: string;
+  tier: TierId;
+  items: QuantityItem[];
+};
+
+type Props = {
+  currency: string;
+  scenarios: QuantityItemsScenario[];
+  onChange: (scenarioId: string, items: QuantityItem[]) => void;
+  /** Library tier catalogue (labels, nearest built-in preset rate) */
+  tiers?: TierDefinition[];
+};
+
+/**
+ * Allowance / quantity × unit-rate items per scenario. Amounts roll into the
+ * attached category's cost, so they count toward guardrails, deltas and exports.
+ */
+export function QuantityItemsPanel({ currency, scenarios, onChange, tiers = DEFAULT_TIERS }: Props) {
+  const [scenarioId, setScenarioId] = useState<string>("");
+  const [presetKey, setPresetKey] = useState<string>(QUANTITY_ITEM_PRESETS[0]?.key ?? "");
+
+  const scenario = scenarios.find((s) => s.id === scenarioId) ?? scenarios[0];
+  if (!scenario) return null;
+
+  const items = scenario.items;
+  const total = items.reduce((sum, q) => sum + quantityItemAmount(q), 0);
+
+  const update = (id: string, patch: Partial<QuantityItem>) =>
+    onChange(scenario.id, items.map((q) => (q.id === id ? { ...q, ...patch } : q)));
+
+  const addPreset = () => {
+    const preset = QUANTITY_ITEM_PRESETS.find((p) => p.key === presetKey);
+    if (preset) onChange(scenario.id, [...items, quantityItemFromPreset(preset, scenario.tier, tiers)]);
+  };
+
+  const addCustom = () =>
+    onChange(scenario.id, [
+      ...items,
+      { id: createQuantityItemId(), categoryId: "EXTERNAL_WORKS", label: "Allowance", unit: "ls", quantity: 1, rate: 0 },
+    ]);
+
+  return (
+    <div className="card" style={{ marginTop: 18 }}>
+      <div className="adminHeader">
+        <div>
+          <h2>Quantity &amp; Allowance Items</h2>
+          <div className="muted">
+            Items priced per unit rather than per sq ft. Each amount is added to its category, so it counts toward the category’s % of total.
+          </div>
+        </div>
+
+        {scenarios.length > 1 && (
+          <div className="adminHeaderBtns noPrint">
+            <select className="input" style={{ width: 240 }} value={scenario.id} onChange={(e) => setScenarioId(e.target.value)}>
+              {scenarios.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <div className="muted" style={{ marginTop: 10 }}>
+          No quantity items on this scenario.
+        </div>
+      ) : (
+        <table className="table small" style={{ marginTop: 10 }}>
+          <thead>
+            <tr>
+              <th>Category</th>
+              <th>Item</th>
+              <th>Unit</th>
+              <th style={{ textAlign: "right" }}>Quantity</th>
+              <th style={{ textAlign: "right" }}>Rate ({currency} / unit)</th>
+              <th style={{ textAlign: "right" }}>Amount</th>
+              <th className="noPrint" />
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((q) => (
+              <tr key={q.id}>
+                <td>
+                  <select className="input" value={q.categoryId} onChange={(e) => update(q.id, { categoryId: e.target.value as VmxCategoryId })}>
+                    {VMX_CATEGORIES.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <input className="input" value={q.label} onChange={(e) => update(q.id, { label: e.target.value })} />
+                </td>
+                <td>
+                  <input className="input" style={{ width: 70 }} value={q.unit} onChange={(e) => update(q.id, { unit: e.target.value })} />
+                </td>
+                <td style={{ textAlign: "right" }}>
+                  <input
+                    className="input"
+                    type="number"
+                    min={0}
+                    style={{ width: 100, textAlign: "right" }}
+                    value={q.quantity}
+                    onChange={(e) => update(q.id, { quantity: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                </td>
+                <td style={{ textAlign: "right" }}>
+                  <input
+                    className="input"
+                    type="number"
+                    min={0}
+                    style={{ width: 130, textAlign: "right" }}
+                    value={q.rate}
+                    onChange={(e) => update(q.id, { rate: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                </td>
+                <td style={{ textAlign: "right" }}>{formatMoney(quantityItemAmount(q), currency)}</td>
+                <td className="noPrint" style={{ textAlign: "right" }}>
+                  <button type="button" className="secondaryBtn" onClick={() => onChange(scenario.id, items.filter((x) => x.id !== q.id))}>
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+            <tr>
+              <td colSpan={5}>
+                <strong>Total quantity items</strong>
+              </td>
+              <td style={{ textAlign: "right" }}>
+                <strong>{formatMoney(total, currency)}</strong>
+              </td>
+              <td className="noPrint" />
+            </tr>
+          </tbody>
+        </table>
+      )}
+
+      <div className="noPrint" style={{ display: "flex", gap: 10, alignItems: "center", marginTop: 10, flexWrap: "wrap" }}>
+        <select className="input" style={{ width: 320 }} value={presetKey} onChange={(e) => setPresetKey(e.target.value)}>
+          {QUANTITY_ITEM_PRESETS.map((p) => (
+            <option key={p.key} value={p.key}>
+              {p.label} — {formatMoney(presetRate(p, scenario.tier, tiers), currency)} / {p.unit}
+            </option>
+          ))}
+        </select>
+        <button type="button" className="secondaryBtn" onClick={addPreset}>
+          + Add preset
+        </button>
+        <button type="button" className="secondaryBtn" onClick={addCustom}>
+          + Custom item
+        </button>
+        <span className="muted">Preset rates are {tierLabel(scenario.tier, tiers)} tier defaults.</span>
+      </div>
+
+      <div className="muted" style={{ marginTop: 8 }}>
+        Quantity rates are used as entered (no location or typology adjustment).
+      </div>
+    </div>
+  );
+}
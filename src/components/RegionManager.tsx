@@ -0,0 +1,271 @@
+import React, { useState } from "react";
+import { VMX_CATEGORIES } from "../domain/vmx-domain";
+import {
+  BenchmarkLibrary,
+  TierId,
+  addRegion,
+  clearRegionOverrides,
+  deleteRegion,
+  moveRegion,
+  regionOptions,
+  regionPath,
+  regionSubtreeIds,
+  regionTree,
+  setRegionArchived,
+  setRegionInheritance,
+  setRegionParent,
+  tierLabel,
+} from "../data/benchmark-library-storage";
+
+type Props = {
+  library: BenchmarkLibrary;
+  setLibrary: (next: BenchmarkLibrary) => void;
+  regionId: string;
+  setRegionId: (id: string) => void;
+  tier: TierId;
+  /** What still points at a region (scenarios, snapshots, N4S contexts…), shown before deleting */
+  getRegionDependencies?: (regionId: string) => string[];
+  onClose: () => void;
+};
+
+const DEPENDENCIES_SHOWN = 12;
+
+/**
+ * Region list: drag to reorder within a group, re-parent, follow the parent's
+ * rates (× factor) with per-cell overrides, archive, or delete.
+ */
+export function RegionManager({ library, setLibrary, regionId, setRegionId, tier, getRegionDependencies, onClose }: Props) {
+  const [dragId, setDragId] = useState<string | null>(null);
+  const rows = regionTree(library);
+  const allOptions = regionOptions(library, library.regions.map((r) => r.id));
+  const byId = (id: string | undefined) => library.regions.find((r) => r.id === id);
+  const selected = byId(regionId);
+  const overrides = selected?.inherit?.overrides[tier] ?? [];
+
+  function onAddChild(parentId: string) {
+    const name = window.prompt(`New sub-region of ${byId(parentId)?.name ?? parentId}:`);
+    if (!name || !name.trim()) return;
+    const next = addRegion(library, name.trim(), parentId);
+    setLibrary(next);
+    const added = next.regions.find((r) => !library.regions.some((x) => x.id === r.id));
+    if (added) setRegionId(added.id);
+  }
+
+  function onDelete(id: string) {
+    const region = byId(id);
+    if (!region) return;
+    const deps = getRegionDependencies?.(id) ?? [];
+    const children = library.regions.filter((r) => r.parentId === id);
+    const lines = [`Delete region "${region.name}" and all of its tiers?`];
+    if (children.length) {
+      lines.push(`${children.map((c) => c.name).join(", ")} will move up a level and keep their current rates.`);
+    }
+    if (deps.length) {
+      lines.push(
+        "",
+        `Still used by ${deps.length} item(s):`,
+        ...deps.slice(0, DEPENDENCIES_SHOWN).map((d) => `• ${d}`),
+        ...(deps.length > DEPENDENCIES_SHOWN ? [`…and ${deps.length - DEPENDENCIES_SHOWN} more`] : []),
+        "",
+        "These will fall back to another region when recomputed. Archive the region instead to keep them priced."
+      );
+    }
+    if (!window.confirm(lines.join("\n"))) return;
+
+    const next = deleteRegion(library, id);
+    setLibrary(next);
+    if (id === regionId) setRegionId(region.parentId ?? next.regions[0].id);
+  }
+
+  function onDrop(targetId: string) {
+    const moving = byId(dragId ?? undefined);
+    const target = byId(targetId);
+    setDragId(null);
+    if (!moving || !target || (moving.parentId ?? "") !== (target.parentId ?? "")) return;
+    setLibrary(moveRegion(library, moving.id, target.id));
+  }
+
+  const overrideLabel = (key: string) => {
+    const [categoryId, band] = key.split("::");
+    return `${VMX_CATEGORIES.find((c) => c.id === categoryId)?.label ?? categoryId} ${band}`;
+  };
+
+  return (
+    <div className="panel" style={{ marginTop: 10 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+        <div>
+          <strong>Regions</strong>
+          <div className="muted">
+            Drag rows to reorder within a group. Sub-regions can follow their parent’s rates (× factor); cells edited in a sub-region become overrides.
+            Archived regions are hidden from pickers but still price scenarios that use them.
+          </div>
+        </div>
+        <div>
+          <button className="secondaryBtn" type="button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+
+      <table className="table small" style={{ marginTop: 10 }}>
+        <thead>
+          <tr>
+            <th>Region</th>
+            <th style={{ width: 200 }}>Parent</th>
+            <th style={{ width: 190 }}>Follows parent</th>
+            <th style={{ width: 110, textAlign: "right" }}>{tierLabel(tier, library.tiers)} overrides</th>
+            <th style={{ width: 270 }}></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ region: r, depth }) => {
+            const invalidParents = regionSubtreeIds(library, r.id);
+            const sameGroup = dragId !== null && (byId(dragId)?.parentId ?? "") === (r.parentId ?? "");
+            return (
+              <tr
+                key={r.id}
+                draggable
+                onDragStart={(e) => {
+                  setDragId(r.id);
+                  e.dataTransfer.effectAllowed = "move";
+                }}
+                onDragEnd={() => setDragId(null)}
+                onDragOver={(e) => {
+                  if (sameGroup) e.preventDefault();
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  onDrop(r.id);
+                }}
+                style={{
+                  cursor: "grab",
+                  opacity: dragId === r.id ? 0.4 : r.archived ? 0.6 : 1,
+                  background: r.id === regionId ? "rgba(0,0,0,0.04)" : undefined,
+                }}
+              >
+                <td style={{ paddingLeft: 8 + depth * 18 }} title={regionPath(library, r.id)}>
+                  <span className="muted" style={{ marginRight: 6 }}>
+                    ⋮⋮
+                  </span>
+                  <button type="button" className="secondaryBtn" style={{ padding: "2px 8px" }} onClick={() => setRegionId(r.id)}>
+                    {r.name}
+                  </button>
+                  {r.archived && <span className="muted"> (archived)</span>}
+                </td>
+                <td>
+                  <select
+                    className="input adminInput"
+                    value={r.parentId ?? ""}
+                    onChange={(e) => setLibrary(setRegionParent(library, r.id, e.target.value || null))}
+                  >
+                    <option value="">— top level —</option>
+                    {allOptions
+                      .filter((o) => !invalidParents.includes(o.id))
+                      .map((o) => (
+                        <option key={o.id} value={o.id}>
+                          {o.label}
+                        </option>
+                      ))}
+                  </select>
+                </td>
+                <td>
+                  {r.parentId ? (
+                    <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                      <input
+                        type="checkbox"
+                        checked={!!r.inherit}
+                        onChange={(e) => {
+                          if (!e.target.checked) {
+                            setLibrary(setRegionInheritance(library, r.id, null));
+                            return;
+                          }
+                          const ok = window.confirm(
+                            `Make ${r.name} follow ${byId(r.parentId)?.name ?? "its parent"}? Every band rate in every tier is replaced by the parent's rate.`
+                          );
+                          if (ok) setLibrary(setRegionInheritance(library, r.id, 1));
+                        }}
+                      />
+                      {r.inherit ? (
+                        <>
+                          ×
+                          <input
+                            className="input adminInput"
+                            type="number"
+                            min={0.1}
+                            max={10}
+                            step="0.01"
+                            style={{ width: 80 }}
+                            value={r.inherit.factor}
+                            onChange={(e) => {
+                              const factor = Number(e.target.value);
+                              if (Number.isFinite(factor) && factor > 0) setLibrary(setRegionInheritance(library, r.id, factor));
+                            }}
+                          />
+                        </>
+                      ) : (
+                        <span className="muted">own rates</span>
+                      )}
+                    </div>
+                  ) : (
+                    <span className="muted">—</span>
+                  )}
+                </td>
+                <td style={{ textAlign: "right" }}>{r.inherit ? r.inherit.overrides[tier]?.length ?? 0 : "—"}</td>
+                <td>
+                  <div style={{ display: "flex", gap: 6 }}>
+                    <button type="button" className="secondaryBtn" onClick={() => onAddChild(r.id)}>
+                      + Sub-region
+                    </button>
+                    <button type="button" className="secondaryBtn" onClick={() => setLibrary(setRegionArchived(library, r.id, !r.archived))}>
+                      {r.archived ? "Unarchive" : "Archive"}
+                    </button>
+                    <button type="button" className="secondaryBtn" disabled={library.regions.length <= 1} onClick={() => onDelete(r.id)}>
+                      Delete
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {selected?.inherit && (
+        <div style={{ marginTop: 10 }}>
+          <strong>
+            {selected.name} / {tierLabel(tier, library.tiers)} — {overrides.length} override(s)
+          </strong>
+          {overrides.length === 0 ? (
+            <div className="muted">Every band follows {byId(selected.parentId)?.name ?? "the parent"}.</div>
+          ) : (
+            <>
+              <ul style={{ margin: "4px 0 0 16px", padding: 0 }}>
+                {overrides.map((key) => (
+                  <li key={key}>
+                    {overrideLabel(key)}{" "}
+                    <button
+                      type="button"
+                      className="secondaryBtn"
+                      style={{ padding: "0 6px" }}
+                      onClick={() => setLibrary(clearRegionOverrides(library, selected.id, tier, key))}
+                    >
+                      Follow parent
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <button
+                type="button"
+                className="secondaryBtn"
+                style={{ marginTop: 6 }}
+                onClick={() => setLibrary(clearRegionOverrides(library, selected.id, tier))}
+              >
+                Clear all {tierLabel(tier, library.tiers)} overrides
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import { formatMoney } from "../utils/format";
+import { SENSITIVITY_GROUP_LABELS, SensitivityResult, SensitivitySettings } from "../utils/sensitivity";
+
+export type SensitivityScenario = {
+  id: string;
+  name: string;
+  result: SensitivityResult | null;
+};
+
+type Props = {
+  currency: string;
+  settings: SensitivitySettings;
+  setSettings: (next: SensitivitySettings) => void;
+  scenarios: SensitivityScenario[];
+};
+
+const W = 720;
+const ROW_H = 22;
+const LABEL_W = 220;
+const PAD_RIGHT = 20;
+
+function Tornado({ sens, currency, maxRows }: { sens: SensitivityResult; currency: string; maxRows: number }) {
+  const rows = sens.drivers.slice(0, maxRows);
+  if (rows.length === 0) return <div className="muted">No driver moves the Grand Total.</div>;
+
+  const lo = Math.min(sens.baseTotal, ...rows.map((d) => Math.min(d.lowTotal, d.highTotal)));
+  const hi = Math.max(sens.baseTotal, ...rows.map((d) => Math.max(d.lowTotal, d.highTotal)));
+  const plotW = W - LABEL_W - PAD_RIGHT;
+  const x = (v: number) => LABEL_W + ((v - lo) / (hi - lo || 1)) * plotW;
+  const H = rows.length * ROW_H + 30;
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} style={{ width: "100%", height: "auto" }} role="img" aria-label="Sensitivity tornado">
+      {rows.map((d, i) => {
+        const y = i * ROW_H + 4;
+        const seg = (v: number, fill: string, setting: string) => {
+          const a = Math.min(x(v), x(sens.baseTotal));
+          const w = Math.abs(x(v) - x(sens.baseTotal));
+          return (
+            <rect x={a} y={y} width={Math.max(1, w)} height={ROW_H - 6} fill={fill}>
+              <title>{`${d.label} @ ${setting}: ${formatMoney(v, currency)} (Δ ${formatMoney(v - sens.baseTotal, currency)})`}</title>
+            </rect>
+          );
+        };
+        return (
+          <g key={d.id}>
+            <text x={LABEL_W - 8} y={y + ROW_H / 2} fontSize={11} textAnchor="end">
+              {d.label}
+            </text>
+            {seg(d.lowTotal, "#94a3b8", d.lowLabel)}
+            {seg(d.highTotal, "#0f172a", d.highLabel)}
+          </g>
+        );
+      })}
+      <line x1={x(sens.baseTotal)} x2={x(sens.baseTotal)} y1={0} y2={rows.length * ROW_H + 4} stroke="#dc2626" />
+      <text x={LABEL_W} y={H - 6} fontSize={10}>
+        {formatMoney(lo, currency)}
+      </text>
+      <text x={x(sens.baseTotal)} y={H - 6} fontSize={10} textAnchor="middle" fill="#dc2626">
+        {formatMoney(sens.baseTotal, currency)}
+      </text>
+      <text x={W - PAD_RIGHT} y={H - 6} fontSize={10} textAnchor="end">
+        {formatMoney(hi, currency)}
+      </text>
+    </svg>
+  );
+}
+
+/**
+ * One-at-a-time sensitivity: each driver flexed low/high with everything else
+ * held, ranked by Grand Total swing.
+ */
+export function SensitivityPanel({ currency, settings, setSettings, scenarios }: Props) {
+  const [focusId, setFocusId] = useState<string>("");
+  const [showAll, setShowAll] = useState(false);
+  const focus = scenarios.find((s) => s.id === focusId && s.result) ?? scenarios.find((s) => s.result) ?? null;
+  const sens = focus?.result ?? null;
+
+  const pctInput = (label: string, key: "rateSwing" | "escalationRateSwing" | "landSwing") => (
+    <div>
+      <label className="label">{label}</label>
+      <input
+        className="input"
+        type="number"
+        step="0.5"
+        min={0}
+        value={(settings[key] * 100).toFixed(1)}
+        onChange={(e) => setSettings({ ...settings, [key]: Math.max(0, (Number(e.target.value) || 0) / 100) })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="card" style={{ marginTop: 18 }}>
+      <div className="adminHeader">
+        <div>
+          <h2>Sensitivity (Tornado)</h2>
+          <div className="muted">
+            Each input is flexed low / high with everything else held at current values. Bars show the Grand Total (All-in) at each end, ranked by swing.
+          </div>
+        </div>
+
+        {scenarios.length > 1 && focus && (
+          <div className="adminHeaderBtns noPrint">
+            <select className="input" style={{ width: 240 }} value={focus.id} onChange={(e) => setFocusId(e.target.value)}>
+              {scenarios.map((s) => (
+                <option key={s.id} value={s.id} disabled={!s.result}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="adminTopGrid noPrint" style={{ gridTemplateColumns: "repeat(5, 1fr)", marginTop: 10 }}>
+        {pctInput("Indirect + soft-cost rates (± %)", "rateSwing")}
+        {pctInput("Escalation rate (± points)", "escalationRateSwing")}
+        <div>
+          <label className="label">Duration (± years)</label>
+          <input
+            className="input"
+            type="number"
+            min={0}
+            max={5}
+            value={settings.durationSwingYears}
+            onChange={(e) => setSettings({ ...settings, durationSwingYears: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+          />
+        </div>
+        <div>
+          <label className="label">Location factor (± ×)</label>
+          <input
+            className="input"
+            type="number"
+            step="0.01"
+            min={0}
+            value={settings.locationSwing}
+            onChange={(e) => setSettings({ ...settings, locationSwing: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </div>
+        {pctInput("Land cost (± %)", "landSwing")}
+      </div>
+
+      {!focus || !sens ? (
+        <div className="muted" style={{ marginTop: 10 }}>
+          No priced scenario to analyse.
+        </div>
+      ) : (
+        <div style={{ marginTop: 12 }}>
+          <div className="muted" style={{ marginBottom: 6 }}>
+            {focus.name} — light bar: low setting • dark bar: high setting • red line: current Grand Total
+          </div>
+          <Tornado sens={sens} currency={currency} maxRows={showAll ? sens.drivers.length : 12} />
+
+          <table className="table small" style={{ marginTop: 10 }}>
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Driver</th>
+                <th>Group</th>
+                <th style={{ textAlign: "right" }}>Low</th>
+                <th style={{ textAlign: "right" }}>High</th>
+                <th style={{ textAlign: "right" }}>Swing</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(showAll ? sens.drivers : sens.drivers.slice(0, 12)).map((d, i) => (
+                <tr key={d.id}>
+                  <td>{i + 1}</td>
+                  <td>{d.label}</td>
+                  <td className="muted">{SENSITIVITY_GROUP_LABELS[d.group]}</td>
+                  <td style={{ textAlign: "right" }}>
+                    {formatMoney(d.lowTotal - sens.baseTotal, currency)}
+                    <div className="muted" style={{ fontSize: 12 }}>
+                      @ {d.lowLabel}
+                    </div>
+                  </td>
+                  <td style={{ textAlign: "right" }}>
+                    {formatMoney(d.highTotal - sens.baseTotal, currency)}
+                    <div className="muted" style={{ fontSize: 12 }}>
+                      @ {d.highLabel}
+                    </div>
+                  </td>
+                  <td style={{ textAlign: "right" }}>
+                    <strong>{formatMoney(d.swing, currency)}</strong>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {sens.drivers.length > 12 && (
+            <button type="button" className="secondaryBtn noPrint" style={{ marginTop: 8 }} onClick={() => setShowAll((p) => !p)}>
+              {showAll ? "Show top 12" : `Show all ${sens.drivers.length} drivers`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from "react";
+import { formatMoney, formatPct, formatRate } from "../utils/format";
+import { DeltaSettings, computeDeltaSummary, computeDriverLines } from "../utils/deltas";
+import { InputChangeLabels, Snapshot, describeInputChanges } from "../utils/snapshots";
+
+type Props = {
+  /** Oldest first */
+  snapshots: Snapshot[];
+  deltaSettings: DeltaSettings;
+  labels: InputChangeLabels;
+};
+
+function optionLabel(s: Snapshot) {
+  return `${s.name} — ${new Date(s.createdAtIso).toLocaleDateString()} (${formatMoney(s.totalCost, s.currency)})`;
+}
+
+/**
+ * Side-by-side diff of two snapshots (To − From), using the same category
+ * delta rows and key-driver logic as compare mode.
+ */
+export function SnapshotDiff({ snapshots, deltaSettings, labels }: Props) {
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+
+  // Default: the two most recent snapshots
+  const from = snapshots.find((s) => s.id === fromId) ?? snapshots[snapshots.length - 2] ?? null;
+  const to = snapshots.find((s) => s.id === toId) ?? snapshots[snapshots.length - 1] ?? null;
+
+  const diff = useMemo(() => {
+    if (!from || !to || from.id === to.id) return null;
+    return {
+      delta: computeDeltaSummary(from.payload, to.payload, deltaSettings),
+      drivers: computeDriverLines({ scenario: to.payload, baseline: from.payload }),
+      changes: describeInputChanges(from, to, labels),
+    };
+  }, [from, to, deltaSettings, labels]);
+
+  if (snapshots.length < 2) {
+    return <div className="muted">Save at least two snapshots to compare them.</div>;
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div className="adminTopGrid" style={{ gridTemplateColumns: "1fr 1fr" }}>
+        <div>
+          <label className="label">From</label>
+          <select className="input" value={from?.id ?? ""} onChange={(e) => setFromId(e.target.value)}>
+            {snapshots.map((s) => (
+              <option key={s.id} value={s.id}>
+                {optionLabel(s)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="label">To</label>
+          <select className="input" value={to?.id ?? ""} onChange={(e) => setToId(e.target.value)}>
+            {snapshots.map((s) => (
+              <option key={s.id} value={s.id}>
+                {optionLabel(s)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!diff || !from || !to ? (
+        <div className="muted">Pick two different snapshots.</div>
+      ) : (
+        <>
+          <div className="summaryTop">
+            <div>
+              <div className="label">{from.name}</div>
+              <div className="big">{formatMoney(from.totalCost, from.currency)}</div>
+            </div>
+            <div>
+              <div className="label">{to.name}</div>
+              <div className="big">{formatMoney(to.totalCost, to.currency)}</div>
+            </div>
+            <div>
+              <div className="label">Total Delta</div>
+              <div className="big">{formatMoney(diff.delta.totalDelta, diff.delta.currency)}</div>
+              <div className="muted">
+                {formatPct(diff.drivers.totalDeltaPct)} • Δ per unit{" "}
+                {formatRate(to.payload.totalPsqft - from.payload.totalPsqft, diff.delta.currency, labels.areaUnit)}
+              </div>
+            </div>
+          </div>
+
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+            <div>
+              <div className="label">What changed</div>
+              {diff.changes.length === 0 ? (
+                <div className="muted">No input changes recorded.</div>
+              ) : (
+                <ul style={{ margin: "6px 0 0 18px" }}>
+                  {diff.changes.map((c) => (
+                    <li key={c}>{c}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <div className="label">Key drivers (categories moving ≥ 5%)</div>
+              {diff.drivers.lines.length === 0 ? (
+                <div className="muted">No category moved ≥ 5%.</div>
+              ) : (
+                <ul style={{ margin: "6px 0 0 18px" }}>
+                  {diff.drivers.lines.map((l) => (
+                    <li key={l.categoryId}>
+                      <strong>{l.label}</strong> — {formatMoney(l.deltaCost, diff.delta.currency)} ({formatPct(l.deltaPct)})
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <table className="table small">
+            <thead>
+              <tr>
+                <th>Category</th>
+                <th style={{ textAlign: "right" }}>{from.name}</th>
+                <th style={{ textAlign: "right" }}>{to.name}</th>
+                <th style={{ textAlign: "right" }}>Δ Cost</th>
+                <th style={{ textAlign: "right" }}>Δ % of Total</th>
+                <th>Heat</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.delta.rows.map((r) => {
+                const a = from.payload.categories.find((c) => c.categoryId === r.categoryId);
+                const b = to.payload.categories.find((c) => c.categoryId === r.categoryId);
+                const heatLabel = r.heat === "high" ? "High" : r.heat === "medium" ? "Medium" : "Low";
+                return (
+                  <tr key={r.categoryId} className={`deltaRow ${r.heat} ${r.isTopDriver ? "top" : ""}`}>
+                    <td>{r.categoryLabel}</td>
+                    <td style={{ textAlign: "right" }}>{a ? formatMoney(a.cost, from.currency) : "—"}</td>
+                    <td style={{ textAlign: "right" }}>{b ? formatMoney(b.cost, to.currency) : "—"}</td>
+                    <td style={{ textAlign: "right" }}>{formatMoney(r.deltaCost, diff.delta.currency)}</td>
+                    <td style={{ textAlign: "right" }}>{formatPct(r.deltaPct)}</td>
+                    <td>
+                      <strong>{heatLabel}</strong>
+                      {r.isTopDriver ? <span className="muted"> (driver)</span> : null}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
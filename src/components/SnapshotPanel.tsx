@@ -1,44 +1,40 @@
 import React, { useEffect, useMemo, useState } from "react";
-import type { ScenarioResult } from "../domain/vmx-domain";
-import { formatMoney } from "../utils/format";
-
-type Snapshot = {
-  id: string;
-  name: string;
-  createdAtIso: string;
-  currency: string;
-  totalCost: number;
-  totalPsqft?: number;
-  payload: ScenarioResult;
-};
-
-const STORAGE_KEY = "vmx_snapshots_v1";
-
-function safeParse<T>(raw: string | null): T | null {
-  if (!raw) return null;
-  try {
-    return JSON.parse(raw) as T;
-  } catch {
-    return null;
-  }
-}
+import { tierLabel } from "../data/benchmark-library-storage";
+import { describeLibraryVersionRef } from "../data/benchmark-library-history";
+import type { AreaUnit, ScenarioResult } from "../domain/vmx-domain";
+import { formatArea, formatMoney, formatPct, formatRate } from "../utils/format";
+import type { DeltaSettings } from "../utils/deltas";
+import {
+  InputChangeLabels,
+  Snapshot,
+  SnapshotCapture,
+  SnapshotRecompute,
+  createSnapshot,
+  loadSnapshots,
+  persistSnapshots,
+  snapshotPrimaryScenario,
+  sortSnapshotsByDate,
+} from "../utils/snapshots";
+import { SnapshotDiff } from "./SnapshotDiff";
+import { SnapshotTimeline } from "./SnapshotTimeline";
 
-function loadSnapshots(): Snapshot[] {
-  try {
-    const parsed = safeParse<Snapshot[]>(localStorage.getItem(STORAGE_KEY));
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
+type Props = {
+  current: ScenarioResult | null;
+  areaUnit?: AreaUnit;
+  /** Full input state + benchmarks for the current app state */
+  capture: () => SnapshotCapture | null;
+  /** Rehydrate the app from a snapshot's inputs */
+  onRestore: (snapshot: Snapshot) => void;
+  /** Re-price the snapshot's primary scenario against today's library */
+  recompute: (snapshot: Snapshot) => SnapshotRecompute;
+  /** Same heat / driver rules as compare mode */
+  deltaSettings: DeltaSettings;
+  locationLabel?: (id: string) => string;
+  typologyLabel?: (id: string) => string;
+  tierName?: (id: string) => string;
+};
 
-function persistSnapshots(next: Snapshot[]) {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
-  } catch {
-    // ignore
-  }
-}
+const NO_PROJECT = "__none__";
 
 function downloadJson(filename: string, data: unknown) {
   const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
@@ -50,9 +46,49 @@ function downloadJson(filename: string, data: unknown) {
   URL.revokeObjectURL(url);
 }
 
-export function SnapshotPanel({ current }: { current: ScenarioResult | null }) {
+function withoutKey<T>(rec: Record<string, T>, key: string): Record<string, T> {
+  const next = { ...rec };
+  delete next[key];
+  return next;
+}
+
+export function SnapshotPanel({
+  current,
+  areaUnit = "sqft",
+  capture,
+  onRestore,
+  recompute,
+  deltaSettings,
+  locationLabel,
+  typologyLabel,
+  tierName = tierLabel,
+}: Props) {
   const [snapshots, setSnapshots] = useState<Snapshot[]>(() => loadSnapshots());
   const [name, setName] = useState<string>("");
+  const [recomputed, setRecomputed] = useState<Record<string, SnapshotRecompute>>({});
+  const [tab, setTab] = useState<"list" | "diff" | "timeline">("list");
+  const [projectFilter, setProjectFilter] = useState<string>("");
+
+  const labels: InputChangeLabels = useMemo(
+    () => ({ areaUnit, location: locationLabel, typology: typologyLabel, tier: tierName }),
+    [areaUnit, locationLabel, typologyLabel, tierName]
+  );
+
+  const projects = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const s of snapshots) if (s.projectId) byId.set(s.projectId, s.projectName || s.projectId);
+    return [...byId.entries()].map(([id, label]) => ({ id, label }));
+  }, [snapshots]);
+
+  // Diff + timeline read oldest → newest within the selected project
+  const history = useMemo(() => {
+    const filtered = snapshots.filter((s) => {
+      if (!projectFilter) return true;
+      if (projectFilter === NO_PROJECT) return !s.projectId;
+      return s.projectId === projectFilter;
+    });
+    return sortSnapshotsByDate(filtered);
+  }, [snapshots, projectFilter]);
 
   useEffect(() => {
     persistSnapshots(snapshots);
@@ -67,20 +103,10 @@ export function SnapshotPanel({ current }: { current: ScenarioResult | null }) {
   }, []);
 
   function onSave() {
-    if (!current) return;
+    const captured = capture();
+    if (!captured) return;
 
-    const id = `${Date.now()}_${Math.random().toString(16).slice(2)}`;
-    const createdAtIso = new Date().toISOString();
-
-    const snap: Snapshot = {
-      id,
-      name: (name || defaultName).trim(),
-      createdAtIso,
-      currency: current.currency,
-      totalCost: current.totalCost,
-      totalPsqft: (current as any).totalPsqft, // optional if present in your domain model
-      payload: current,
-    };
+    const snap = createSnapshot((name || defaultName).trim(), captured);
 
     setSnapshots((prev) => [snap, ...prev]);
     setName("");
@@ -88,8 +114,66 @@ export function SnapshotPanel({ current }: { current: ScenarioResult | null }) {
 
   function onDelete(id: string) {
     setSnapshots((prev) => prev.filter((s) => s.id !== id));
+    setRecomputed((prev) => withoutKey(prev, id));
+  }
+
+  function onRestoreClick(s: Snapshot) {
+    const ok = window.confirm(`Restore "${s.name}"?\n\nThis replaces the current scenarios, soft-cost settings and indirect rates.`);
+    if (ok) onRestore(s);
+  }
+
+  function onToggleRecompute(s: Snapshot) {
+    setRecomputed((prev) => {
+      if (prev[s.id]) return withoutKey(prev, s.id);
+      return { ...prev, [s.id]: recompute(s) };
+    });
   }
 
+  const renderRecompute = (s: Snapshot, rc: SnapshotRecompute) => {
+    if (!rc.result) {
+      return <div className="muted">Could not recompute: {rc.error ?? "no result"}</div>;
+    }
+    const then = s.payload;
+    const today = rc.result;
+    const delta = today.totalCost - then.totalCost;
+
+    return (
+      <div style={{ display: "grid", gap: 8 }}>
+        <div className="muted">
+          Snapshot: <strong>{formatMoney(then.totalCost, s.currency)}</strong> → Today&apos;s library:{" "}
+          <strong>{formatMoney(today.totalCost, today.currency)}</strong> (Δ {formatMoney(delta, today.currency)},{" "}
+          {formatPct(then.totalCost > 0 ? delta / then.totalCost : 0)}; Δ per unit {formatRate(today.totalPsqft - then.totalPsqft, today.currency, areaUnit)})
+        </div>
+        {rc.regionMissing && (
+          <div className="muted">The snapshot&apos;s region is no longer in the library; the first region was used instead.</div>
+        )}
+        <table className="table small">
+          <thead>
+            <tr>
+              <th>Category</th>
+              <th style={{ textAlign: "right" }}>Snapshot</th>
+              <th style={{ textAlign: "right" }}>Today</th>
+              <th style={{ textAlign: "right" }}>Δ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {then.categories.map((c) => {
+              const t = today.categories.find((x) => x.categoryId === c.categoryId);
+              return (
+                <tr key={c.categoryId}>
+                  <td>{c.label}</td>
+                  <td style={{ textAlign: "right" }}>{formatMoney(c.cost, s.currency)}</td>
+                  <td style={{ textAlign: "right" }}>{t ? formatMoney(t.cost, today.currency) : "—"}</td>
+                  <td style={{ textAlign: "right" }}>{t ? formatMoney(t.cost - c.cost, today.currency) : "—"}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
   function onExportOne(s: Snapshot) {
     const safeName = s.name.replace(/[^a-z0-9\-_ ]/gi, "").trim().slice(0, 60) || "snapshot";
     downloadJson(`vmx_${safeName}.json`, s);
@@ -104,7 +188,10 @@ export function SnapshotPanel({ current }: { current: ScenarioResult | null }) {
       <div className="adminHeader">
         <div>
           <h2>Snapshots</h2>
-          <div className="muted">Save Scenario A results as point-in-time references.</div>
+          <div className="muted">
+            Save the full input state (scenarios, soft costs, indirect rates and the exact benchmarks priced). Restore it later, or recompute
+            against today&apos;s library to see how the number moved.
+          </div>
         </div>
 
         <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
@@ -130,44 +217,103 @@ export function SnapshotPanel({ current }: { current: ScenarioResult | null }) {
         </div>
       ) : null}
 
-      {snapshots.length === 0 ? (
+      <div className="noPrint" style={{ display: "flex", gap: 10, alignItems: "center", marginTop: 12, flexWrap: "wrap" }}>
+        <button type="button" className={tab === "list" ? "docsBtn" : "secondaryBtn"} onClick={() => setTab("list")}>
+          Saved
+        </button>
+        <button type="button" className={tab === "diff" ? "docsBtn" : "secondaryBtn"} onClick={() => setTab("diff")}>
+          Diff
+        </button>
+        <button type="button" className={tab === "timeline" ? "docsBtn" : "secondaryBtn"} onClick={() => setTab("timeline")}>
+          Timeline
+        </button>
+
+        {tab !== "list" && (
+          <select className="input" style={{ width: 260 }} value={projectFilter} onChange={(e) => setProjectFilter(e.target.value)}>
+            <option value="">All snapshots</option>
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>
+                Project: {p.label}
+              </option>
+            ))}
+            <option value={NO_PROJECT}>No project</option>
+          </select>
+        )}
+      </div>
+
+      {tab === "diff" && (
+        <div style={{ marginTop: 12 }}>
+          <SnapshotDiff snapshots={history} deltaSettings={deltaSettings} labels={labels} />
+        </div>
+      )}
+
+      {tab === "timeline" && (
+        <div style={{ marginTop: 12 }}>
+          <SnapshotTimeline snapshots={history} labels={labels} />
+        </div>
+      )}
+
+      {tab !== "list" ? null : snapshots.length === 0 ? (
         <div className="muted" style={{ marginTop: 10 }}>
           No snapshots saved yet.
         </div>
       ) : (
         <div style={{ marginTop: 12, display: "grid", gap: 10 }}>
-          {snapshots.map((s) => (
-            <div
-              key={s.id}
-              style={{
-                border: "1px solid rgba(15,23,42,0.08)",
-                borderRadius: 14,
-                padding: 12,
-                display: "grid",
-                gridTemplateColumns: "1fr auto",
-                gap: 10,
-                alignItems: "center",
-              }}
-            >
-              <div>
-                <div style={{ fontWeight: 900 }}>{s.name}</div>
-                <div className="muted" style={{ marginTop: 2 }}>
-                  {new Date(s.createdAtIso).toLocaleString()}
-                  {" • "}
-                  Total: {formatMoney(s.totalCost, s.currency)}
+          {snapshots.map((s) => {
+            const primary = snapshotPrimaryScenario(s);
+            const primaryBenchmark = s.benchmarks?.[0];
+            const rc = recomputed[s.id];
+            return (
+              <div
+                key={s.id}
+                style={{
+                  border: "1px solid rgba(15,23,42,0.08)",
+                  borderRadius: 14,
+                  padding: 12,
+                  display: "grid",
+                  gridTemplateColumns: "1fr auto",
+                  gap: 10,
+                  alignItems: "center",
+                }}
+              >
+                <div>
+                  <div style={{ fontWeight: 900 }}>{s.name}</div>
+                  <div className="muted" style={{ marginTop: 2 }}>
+                    {new Date(s.createdAtIso).toLocaleString()}
+                    {" • "}
+                    Total: {formatMoney(s.totalCost, s.currency)}
+                    {primary && (
+                      <>
+                        {" • "}
+                        {primary.name}: {primaryBenchmark?.regionName ?? primary.regionId} • {tierName(primary.tier)} •{" "}
+                        {formatArea(primary.areaSqft, areaUnit)}
+                        {(s.inputs?.scenarios.scenarios.length ?? 0) > 1 ? ` (+${(s.inputs?.scenarios.scenarios.length ?? 1) - 1} more)` : ""}
+                      </>
+                    )}
+                    {s.libraryVersion && ` • ${describeLibraryVersionRef(s.libraryVersion)}`}
+                    {!s.inputs && " • Result only (saved before full-input snapshots)"}
+                  </div>
+                </div>
+
+                <div style={{ display: "flex", gap: 10 }}>
+                  <button type="button" onClick={() => onRestoreClick(s)} disabled={!s.inputs}>
+                    Restore
+                  </button>
+                  <button type="button" onClick={() => onToggleRecompute(s)} disabled={!s.inputs}>
+                    {rc ? "Hide Recompute" : "Recompute vs Today"}
+                  </button>
+                  <button type="button" onClick={() => onExportOne(s)}>
+                    Export
+                  </button>
+                  <button type="button" onClick={() => onDelete(s.id)}>
+                    Delete
+                  </button>
                 </div>
-              </div>
 
-              <div style={{ display: "flex", gap: 10 }}>
-                <button type="button" onClick={() => onExportOne(s)}>
-                  Export
-                </button>
-                <button type="button" onClick={() => onDelete(s.id)}>
-                  Delete
-                </button>
+                {rc && <div style={{ gridColumn: "1 / -1" }}>{renderRecompute(s, rc)}</div>}
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,137 @@
+import React, { useMemo } from "react";
+import { areaUnitLabel, psqftToRate } from "../domain/vmx-domain";
+import { formatMoney, formatRate } from "../utils/format";
+import { InputChangeLabels, Snapshot, describeInputChanges } from "../utils/snapshots";
+
+type Props = {
+  /** Oldest first */
+  snapshots: Snapshot[];
+  labels: InputChangeLabels;
+};
+
+const W = 720;
+const H = 240;
+const PAD = { left: 86, right: 86, top: 18, bottom: 34 };
+
+function range(values: number[]) {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const pad = (max - min) * 0.1 || Math.abs(max) * 0.05 || 1;
+  return { lo: min - pad, hi: max + pad };
+}
+
+/**
+ * Total cost and $/unit across snapshots, with each step annotated by the
+ * inputs that changed since the previous snapshot.
+ */
+export function SnapshotTimeline({ snapshots, labels }: Props) {
+  const points = useMemo(
+    () =>
+      snapshots.map((s, i) => ({
+        snapshot: s,
+        step: i + 1,
+        total: s.totalCost,
+        rate: psqftToRate(s.payload.totalPsqft, labels.areaUnit),
+        changes: i === 0 ? [] : describeInputChanges(snapshots[i - 1], s, labels),
+      })),
+    [snapshots, labels]
+  );
+
+  if (points.length < 2) {
+    return <div className="muted">Save at least two snapshots to see a timeline.</div>;
+  }
+
+  const currency = points[points.length - 1].snapshot.currency;
+  const unit = areaUnitLabel(labels.areaUnit);
+  const totals = range(points.map((p) => p.total));
+  const rates = range(points.map((p) => p.rate));
+
+  const plotW = W - PAD.left - PAD.right;
+  const plotH = H - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (points.length === 1 ? plotW / 2 : (i / (points.length - 1)) * plotW);
+  const yTotal = (v: number) => PAD.top + (1 - (v - totals.lo) / (totals.hi - totals.lo)) * plotH;
+  const yRate = (v: number) => PAD.top + (1 - (v - rates.lo) / (rates.hi - rates.lo)) * plotH;
+
+  const totalPath = points.map((p, i) => `${x(i)},${yTotal(p.total)}`).join(" ");
+  const ratePath = points.map((p, i) => `${x(i)},${yRate(p.rate)}`).join(" ");
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <svg viewBox={`0 0 ${W} ${H}`} style={{ width: "100%", height: "auto" }} role="img" aria-label="Snapshot timeline">
+        <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={H - PAD.bottom} stroke="rgba(15,23,42,0.2)" />
+        <line x1={W - PAD.right} y1={PAD.top} x2={W - PAD.right} y2={H - PAD.bottom} stroke="rgba(15,23,42,0.2)" />
+        <line x1={PAD.left} y1={H - PAD.bottom} x2={W - PAD.right} y2={H - PAD.bottom} stroke="rgba(15,23,42,0.2)" />
+
+        <text x={PAD.left - 6} y={PAD.top + 4} fontSize={10} textAnchor="end">
+          {formatMoney(totals.hi, currency)}
+        </text>
+        <text x={PAD.left - 6} y={H - PAD.bottom} fontSize={10} textAnchor="end">
+          {formatMoney(totals.lo, currency)}
+        </text>
+        <text x={W - PAD.right + 6} y={PAD.top + 4} fontSize={10}>
+          {formatMoney(rates.hi, currency)}/{unit}
+        </text>
+        <text x={W - PAD.right + 6} y={H - PAD.bottom} fontSize={10}>
+          {formatMoney(rates.lo, currency)}/{unit}
+        </text>
+
+        <polyline points={totalPath} fill="none" stroke="#0f172a" strokeWidth={2} />
+        <polyline points={ratePath} fill="none" stroke="#64748b" strokeWidth={2} strokeDasharray="5 4" />
+
+        {points.map((p, i) => (
+          <g key={p.snapshot.id}>
+            <circle cx={x(i)} cy={yTotal(p.total)} r={9} fill="#0f172a">
+              <title>
+                {`${p.step}. ${p.snapshot.name}\n${formatMoney(p.total, currency)} • ${formatMoney(p.rate, currency)} / ${unit}`}
+                {p.changes.length ? `\n${p.changes.join("\n")}` : ""}
+              </title>
+            </circle>
+            <text x={x(i)} y={yTotal(p.total) + 3.5} fontSize={10} fill="#fff" textAnchor="middle" fontWeight={900}>
+              {p.step}
+            </text>
+            <circle cx={x(i)} cy={yRate(p.rate)} r={3.5} fill="#64748b" />
+            <text x={x(i)} y={H - PAD.bottom + 16} fontSize={10} textAnchor="middle">
+              {new Date(p.snapshot.createdAtIso).toLocaleDateString()}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      <div className="muted">
+        Solid: Direct hard cost total (left axis) • Dashed: {currency} / {unit} (right axis)
+      </div>
+
+      <table className="table small">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Snapshot</th>
+            <th style={{ textAlign: "right" }}>Total</th>
+            <th style={{ textAlign: "right" }}>Rate</th>
+            <th>Changed since previous</th>
+          </tr>
+        </thead>
+        <tbody>
+          {points.map((p, i) => {
+            const prev = points[i - 1];
+            return (
+              <tr key={p.snapshot.id}>
+                <td>{p.step}</td>
+                <td>
+                  <strong>{p.snapshot.name}</strong>
+                  <div className="muted">{new Date(p.snapshot.createdAtIso).toLocaleString()}</div>
+                </td>
+                <td style={{ textAlign: "right" }}>
+                  {formatMoney(p.total, currency)}
+                  {prev && <div className="muted">Δ {formatMoney(p.total - prev.total, currency)}</div>}
+                </td>
+                <td style={{ textAlign: "right" }}>{formatRate(p.snapshot.payload.totalPsqft, currency, labels.areaUnit)}</td>
+                <td>{i === 0 ? <span className="muted">Starting point</span> : p.changes.length ? p.changes.join(" • ") : <span className="muted">No input changes recorded</span>}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
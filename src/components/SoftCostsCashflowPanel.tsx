@@ -1,24 +1,60 @@
 import React, { useMemo, useState } from "react";
-import { ScenarioResult } from "../domain/vmx-domain";
+import { ScenarioResult, VMX_CATEGORIES } from "../domain/vmx-domain";
 import { formatMoney, formatPct } from "../utils/format";
+import { buildCashflowCsv } from "../utils/exportClientPack";
 import {
-  CashflowYearRow,
+  CashflowGranularity,
+  CashflowPeriodRow,
+  CashflowSettings,
+  CashflowStream,
+  S_CURVE_SHAPES,
+  SCurveShape,
+  SOFT_COST_CURVE_LABELS,
+  SoftCostCurve,
+  SoftCostTiming,
   SoftCostsConfig,
+  addMonths,
+  categoryPhaseId,
+  softCostWindow,
   computeCashflowSchedule,
+  resolveSoftCostsForTier,
+  formatMonth,
+  resolveCashflowStart,
   configToPrettyJson,
   parseConfigFromJson,
   saveSoftCostsConfig,
   getDefaultSoftCostsConfig,
 } from "../utils/softCosts";
+import {
+  CONSTRUCTION_PHASE_ID,
+  MAX_PHASE_MONTHS,
+  PROJECT_PHASE_ID,
+  ProjectPhase,
+  addPhase,
+  getDefaultPhases,
+  phaseLabel,
+  phaseWindow,
+  projectDurationMonths,
+  removePhase,
+  safePhaseId,
+  updatePhase,
+} from "../utils/projectPhases";
+
+export type SoftCostsScenario = {
+  id: string;
+  name: string;
+  result: ScenarioResult | null;
+  /** Construction indirects total, drawn in the indirects phase */
+  indirects?: number;
+  /** Library tier id; line items may override their formula per tier */
+  tier?: string;
+};
 
 type Props = {
   visibleToAll: boolean;
   currency: string;
-  compareMode: boolean;
-  scenarioAName: string;
-  scenarioBName: string;
-  resultA: ScenarioResult | null;
-  resultB: ScenarioResult | null;
+  /** Scenarios to show (primary first) */
+  scenarios: SoftCostsScenario[];
   config: SoftCostsConfig;
   setConfig: (next: SoftCostsConfig) => void;
 };
@@ -27,16 +63,65 @@ function money(n: number, ccy: string) {
   return formatMoney(n, ccy);
 }
 
-function Table({ title, rows, currency }: { title: string; rows: CashflowYearRow[]; currency: string }) {
+const GRANULARITY_LABELS: Record<CashflowGranularity, string> = { month: "Monthly", quarter: "Quarterly", year: "Annual" };
+const PERIOD_PREFIX: Record<CashflowGranularity, string> = { month: "M", quarter: "Q", year: "Y" };
+
+function downloadCsv(filename: string, csv: string) {
+  const blob = new Blob([csv], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 2500);
+}
+
+const STREAM_COLORS = ["#64748b", "#2563eb", "#7c3aed", "#db2777", "#ea580c", "#ca8a04", "#16a34a", "#0891b2", "#9333ea", "#dc2626", "#4d7c0f"];
+
+
+function Table({
+  title,
+  rows,
+  streams,
+  currency,
+  granularity,
+}: {
+  title: string;
+  rows: CashflowPeriodRow[];
+  streams: CashflowStream[];
+  currency: string;
+  granularity: CashflowGranularity;
+}) {
+  const peak = Math.max(...rows.map((r) => r.baseDraw), 0);
+  const color = (i: number) => STREAM_COLORS[i % STREAM_COLORS.length];
   return (
     <div style={{ marginTop: 10 }}>
-      <div className="label" style={{ marginBottom: 6 }}>
-        {title}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 6 }}>
+        <div className="label">{title}</div>
+        <button
+          type="button"
+          className="secondaryBtn noPrint"
+          onClick={() => downloadCsv(`VMX_Cashflow_${title.replace(/[^a-z0-9]+/gi, "_")}.csv`, buildCashflowCsv(rows, streams))}
+        >
+          Export CSV
+        </button>
+      </div>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "4px 12px", marginBottom: 6 }}>
+        {streams.map((s, i) => (
+          <span key={s.id} className="muted" style={{ display: "inline-flex", gap: 4, alignItems: "center" }}>
+            <span style={{ width: 10, height: 10, background: color(i), display: "inline-block" }} />
+            {s.label}
+          </span>
+        ))}
       </div>
       <table className="table small">
         <thead>
           <tr>
-            <th>Year</th>
+            <th>Period</th>
+            <th>Dates</th>
+            <th style={{ width: 150 }}>Draw by line item</th>
             <th style={{ textAlign: "right" }}>Weight</th>
             <th style={{ textAlign: "right" }}>Base Draw</th>
             <th style={{ textAlign: "right" }}>Escalation</th>
@@ -46,8 +131,26 @@ function Table({ title, rows, currency }: { title: string; rows: CashflowYearRow
         </thead>
         <tbody>
           {rows.map((r) => (
-            <tr key={r.year}>
-              <td>{r.year}</td>
+            <tr key={r.period}>
+              <td>
+                {PERIOD_PREFIX[granularity]}
+                {r.period}
+              </td>
+              <td>{r.label}</td>
+              <td>
+                <div
+                  style={{ display: "flex", width: 140, height: 10, background: "rgba(0,0,0,0.04)" }}
+                  title={streams
+                    .filter((s) => (r.draws[s.id] ?? 0) > 0)
+                    .map((s) => `${s.label}: ${money(r.draws[s.id], currency)}`)
+                    .join("\n")}
+                >
+                  {streams.map((s, i) => {
+                    const v = r.draws[s.id] ?? 0;
+                    return v > 0 && peak > 0 ? <div key={s.id} style={{ width: `${(v / peak) * 100}%`, background: color(i) }} /> : null;
+                  })}
+                </div>
+              </td>
               <td style={{ textAlign: "right" }}>{(r.weight * 100).toFixed(1)}%</td>
               <td style={{ textAlign: "right" }}>{money(r.baseDraw, currency)}</td>
               <td style={{ textAlign: "right" }}>{money(r.escalationDraw, currency)}</td>
@@ -66,25 +169,93 @@ function Table({ title, rows, currency }: { title: string; rows: CashflowYearRow
 export function SoftCostsCashflowPanel({
   visibleToAll,
   currency,
-  compareMode,
-  scenarioAName,
-  scenarioBName,
-  resultA,
-  resultB,
+  scenarios,
   config,
   setConfig,
 }: Props) {
   const [tab, setTab] = useState<"summary" | "cashflow" | "json">("summary");
   const [jsonDraft, setJsonDraft] = useState<string>(() => configToPrettyJson(config));
   const [jsonError, setJsonError] = useState<string | null>(null);
+  const [showTrace, setShowTrace] = useState(false);
 
-  const calcA = useMemo(() => (resultA ? computeCashflowSchedule(resultA, config) : null), [resultA, config]);
-  const calcB = useMemo(() => (compareMode && resultB ? computeCashflowSchedule(resultB, config) : null), [compareMode, resultB, config]);
+  const calcs = useMemo(
+    () =>
+      scenarios
+        .filter((s): s is SoftCostsScenario & { result: ScenarioResult } => Boolean(s.result))
+        .map((s) => ({
+          id: s.id,
+          name: s.name,
+          calc: computeCashflowSchedule(s.result, s.tier ? resolveSoftCostsForTier(config, s.tier) : config, s.indirects),
+        })),
+    [scenarios, config]
+  );
 
   const activePresetKey = config.selectedPresetKey || String(config.projectDurationYears);
   const activePreset = config.cashflowPresets[activePresetKey] || config.cashflowPresets[String(config.projectDurationYears)];
 
   const showAdmin = visibleToAll;
+  const cf = config.cashflow;
+  const construction = phaseWindow(config.phases, CONSTRUCTION_PHASE_ID);
+  const totalMonths = projectDurationMonths(config.phases);
+  const start = resolveCashflowStart(config);
+  const save = (next: SoftCostsConfig) => {
+    setConfig(next);
+    saveSoftCostsConfig(next);
+    setJsonDraft(configToPrettyJson(next));
+  };
+  const setCashflow = (patch: Partial<CashflowSettings>) => save({ ...config, cashflow: { ...cf, ...patch } });
+  const setLineTiming = (id: string, patch: Partial<SoftCostTiming>) =>
+    save({ ...config, lineItems: config.lineItems.map((li) => (li.id === id ? { ...li, timing: { ...li.timing, ...patch } } : li)) });
+  const applyDefaultTiming = () => {
+    const defaults = getDefaultSoftCostsConfig().lineItems;
+    save({
+      ...config,
+      lineItems: config.lineItems.map((li) => ({ ...li, timing: defaults.find((d) => d.id === li.id)?.timing ?? li.timing })),
+    });
+  };
+  const setPhases = (phases: ProjectPhase[]) => {
+    // Category / indirects assignments to a removed phase fall back to construction
+    const ids = new Set(phases.map((p) => p.id));
+    const categoryPhases = Object.fromEntries(Object.entries(config.categoryPhases).filter(([, phaseId]) => ids.has(phaseId)));
+    save({ ...config, phases, categoryPhases, indirectsPhase: ids.has(config.indirectsPhase) ? config.indirectsPhase : CONSTRUCTION_PHASE_ID });
+  };
+  const setPhaseMonths = (p: ProjectPhase, key: "startMonth" | "durationMonths", value: string) => {
+    const months = Math.round(Number(value));
+    if (!Number.isFinite(months)) return;
+    const min = key === "startMonth" ? 0 : 1;
+    setPhases(updatePhase(config.phases, p.id, { [key]: Math.max(min, Math.min(key === "startMonth" ? MAX_PHASE_MONTHS * 2 : MAX_PHASE_MONTHS, months)) }));
+  };
+  const onAddPhase = () => {
+    const label = window.prompt("New phase name:");
+    if (label && label.trim()) setPhases(addPhase(config.phases, label.trim()));
+  };
+  const setCategoryPhase = (categoryId: string, phaseId: string) => {
+    const categoryPhases = { ...config.categoryPhases };
+    if (phaseId === CONSTRUCTION_PHASE_ID) delete categoryPhases[categoryId];
+    else categoryPhases[categoryId] = phaseId;
+    save({ ...config, categoryPhases });
+  };
+  const phaseOptions = (withProject: boolean) => (
+    <>
+      {config.phases.map((p) => (
+        <option key={p.id} value={p.id}>
+          {p.label}
+        </option>
+      ))}
+      {withProject ? <option value={PROJECT_PHASE_ID}>{phaseLabel(config.phases, PROJECT_PHASE_ID)}</option> : null}
+    </>
+  );
+  const windowLabel = (timing: SoftCostTiming) => {
+    if (timing.curve === "follow_hard") return "With hard cost";
+    const w = softCostWindow(config, timing);
+    const first = addMonths(start, timing.curve === "at_end" ? w.end - 1 : w.start);
+    if (timing.curve === "at_start" || timing.curve === "at_end") return formatMonth(first);
+    return `${formatMonth(first)} – ${formatMonth(addMonths(start, w.end - 1))} (${w.end - w.start} mo)`;
+  };
+  const scheduleLabel =
+    cf.method === "s_curve"
+      ? `${cf.shape === "custom" ? `Custom S-curve (α ${cf.alpha}, β ${cf.beta})` : S_CURVE_SHAPES[cf.shape].label} over ${construction.end - construction.start} months of construction`
+      : `${activePreset?.label ?? activePresetKey} (year weights) over ${construction.end - construction.start} months of construction`;
 
   return (
     <div className="card" style={{ marginTop: 12 }}>
@@ -92,7 +263,7 @@ export function SoftCostsCashflowPanel({
         <div>
           <h2>Soft Costs + Escalation + Cash Flow</h2>
           <div className="muted">
-            Adds soft costs on top of VMX Hard Costs, then applies escalation over duration and shows an annual draw schedule.
+            Adds soft costs on top of VMX Hard Costs, then applies escalation over duration and shows a dated monthly, quarterly or annual draw schedule.
           </div>
         </div>
 
@@ -109,57 +280,35 @@ export function SoftCostsCashflowPanel({
         </div>
       </div>
 
-      {!resultA ? <div className="muted">No Scenario A result yet.</div> : null}
+      {calcs.length === 0 ? <div className="muted">No scenario results yet.</div> : null}
 
-      {tab === "summary" && resultA && calcA ? (
+      {tab === "summary" && calcs.length ? (
         <>
-          <div style={{ display: "grid", gridTemplateColumns: compareMode ? "1fr 1fr" : "1fr", gap: 12 }}>
-            <div>
-              <div className="label">Scenario A — {scenarioAName}</div>
-              <div className="big" style={{ marginTop: 4 }}>
-                {money(calcA.totals.totalWithEscalation, currency)}
-              </div>
-              <div className="muted">
-                Hard: {money(calcA.totals.hardBase, currency)} | Soft: {money(calcA.totals.softBase, currency)} | Escalation: {money(calcA.totals.escalationAmount, currency)}
-              </div>
-
-              <div style={{ marginTop: 10 }}>
-                <div className="label">Soft cost breakdown</div>
-                <table className="table small">
-                  <thead>
-                    <tr>
-                      <th>Line Item</th>
-                      <th style={{ textAlign: "right" }}>Amount</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {calcA.totals.breakdown.map((b) => (
-                      <tr key={b.label}>
-                        <td>{b.label}</td>
-                        <td style={{ textAlign: "right" }}>{money(b.amount, currency)}</td>
-                      </tr>
-                    ))}
-                    <tr>
-                      <td><strong>Soft Total</strong></td>
-                      <td style={{ textAlign: "right" }}><strong>{money(calcA.totals.softBase, currency)}</strong></td>
-                    </tr>
-                  </tbody>
-                </table>
-              </div>
-            </div>
-
-            {compareMode && resultB && calcB ? (
-              <div>
-                <div className="label">Scenario B — {scenarioBName}</div>
+          <div style={{ display: "grid", gridTemplateColumns: `repeat(${Math.min(2, calcs.length)}, minmax(0, 1fr))`, gap: 12 }}>
+            {calcs.map(({ id, name, calc }) => (
+              <div key={id}>
+                <div className="label">{name}</div>
                 <div className="big" style={{ marginTop: 4 }}>
-                  {money(calcB.totals.totalWithEscalation, currency)}
+                  {money(calc.totals.totalWithEscalation, currency)}
                 </div>
                 <div className="muted">
-                  Hard: {money(calcB.totals.hardBase, currency)} | Soft: {money(calcB.totals.softBase, currency)} | Escalation: {money(calcB.totals.escalationAmount, currency)}
+                  Hard: {money(calc.totals.hardBase, currency)} | Soft: {money(calc.totals.softBase, currency)} | Escalation: {money(calc.totals.escalationAmount, currency)}
                 </div>
 
+                {calc.totals.issues.map((issue) => (
+                  <div key={issue} className="muted" style={{ color: "#b91c1c", marginTop: 6 }}>
+                    {issue} — these lines are priced at 0.
+                  </div>
+                ))}
+
                 <div style={{ marginTop: 10 }}>
-                  <div className="label">Soft cost breakdown</div>
+                  <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+                    <div className="label">Soft cost breakdown</div>
+                    <label className="muted noPrint" style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                      <input type="checkbox" checked={showTrace} onChange={(e) => setShowTrace(e.target.checked)} />
+                      Show calculation
+                    </label>
+                  </div>
                   <table className="table small">
                     <thead>
                       <tr>
@@ -168,44 +317,296 @@ export function SoftCostsCashflowPanel({
                       </tr>
                     </thead>
                     <tbody>
-                      {calcB.totals.breakdown.map((b) => (
-                        <tr key={b.label}>
-                          <td>{b.label}</td>
-                          <td style={{ textAlign: "right" }}>{money(b.amount, currency)}</td>
-                        </tr>
+                      {calc.totals.breakdown.map((b) => (
+                        <React.Fragment key={b.id}>
+                          <tr>
+                            <td>{b.label}</td>
+                            <td style={{ textAlign: "right" }}>{money(b.amount, currency)}</td>
+                          </tr>
+                          {showTrace &&
+                            b.trace.map((t, i) => (
+                              <tr key={i} className="muted">
+                                <td style={{ paddingLeft: 18 }}>{t.label}</td>
+                                <td style={{ textAlign: "right" }}>{money(t.amount, currency)}</td>
+                              </tr>
+                            ))}
+                        </React.Fragment>
                       ))}
                       <tr>
                         <td><strong>Soft Total</strong></td>
-                        <td style={{ textAlign: "right" }}><strong>{money(calcB.totals.softBase, currency)}</strong></td>
+                        <td style={{ textAlign: "right" }}><strong>{money(calc.totals.softBase, currency)}</strong></td>
                       </tr>
                     </tbody>
                   </table>
                 </div>
               </div>
-            ) : null}
+            ))}
           </div>
 
           <div className="muted" style={{ marginTop: 10 }}>
-            Duration: <strong>{config.projectDurationYears} years</strong> | Escalation rate: <strong>{(config.annualEscalationRate * 100).toFixed(1)}%</strong> | Scope: <strong>{config.escalationScope === "hard_only" ? "Hard costs" : "Hard + Soft"}</strong> | Cashflow preset: <strong>{activePreset?.label ?? activePresetKey}</strong>
+            Project: <strong>{totalMonths} months from {formatMonth(start)}</strong>, complete{" "}
+            <strong>{formatMonth(addMonths(start, totalMonths - 1))}</strong> | Construction:{" "}
+            <strong>
+              {formatMonth(addMonths(start, construction.start))} – {formatMonth(addMonths(start, construction.end - 1))}
+            </strong>{" "}
+            | Escalation rate: <strong>{(config.annualEscalationRate * 100).toFixed(1)}%</strong> | Scope: <strong>{config.escalationScope === "hard_only" ? "Hard costs" : "Hard + Soft"}</strong> | Cashflow: <strong>{scheduleLabel}</strong>
           </div>
         </>
       ) : null}
 
-      {tab === "cashflow" && resultA && calcA ? (
+      {tab === "cashflow" && calcs.length ? (
         <>
-          <div className="muted">
-            This schedule allocates base costs by year weight, and computes escalation per-year using a mid-year assumption (t=0.5, 1.5, …).
+          {showAdmin ? (
+            <div className="adminTopGrid noPrint" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(140px, 1fr))", marginTop: 6 }}>
+              <div>
+                <label className="label">Schedule</label>
+                <select className="input" value={cf.method} onChange={(e) => setCashflow({ method: e.target.value === "preset" ? "preset" : "s_curve" })}>
+                  <option value="s_curve">S-curve</option>
+                  <option value="preset">Year-weight preset</option>
+                </select>
+              </div>
+              <div>
+                <label className="label">Periods</label>
+                <select className="input" value={cf.granularity} onChange={(e) => setCashflow({ granularity: e.target.value as CashflowGranularity })}>
+                  {(Object.keys(GRANULARITY_LABELS) as CashflowGranularity[]).map((g) => (
+                    <option key={g} value={g}>
+                      {GRANULARITY_LABELS[g]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="label">Project start (blank = this month)</label>
+                <input className="input" type="month" value={cf.startDate} onChange={(e) => setCashflow({ startDate: e.target.value })} />
+              </div>
+              {cf.method === "s_curve" ? (
+                <>
+                  <div>
+                    <label className="label">Shape</label>
+                    <select className="input" value={cf.shape} onChange={(e) => setCashflow({ shape: e.target.value as SCurveShape })}>
+                      {(Object.keys(S_CURVE_SHAPES) as Exclude<SCurveShape, "custom">[]).map((s) => (
+                        <option key={s} value={s}>
+                          {S_CURVE_SHAPES[s].label}
+                        </option>
+                      ))}
+                      <option value="custom">Custom (beta α / β)</option>
+                    </select>
+                  </div>
+                  {cf.shape === "custom" ? (
+                    <div>
+                      <label className="label">α / β (1–10)</label>
+                      <div style={{ display: "flex", gap: 6 }}>
+                        {(["alpha", "beta"] as const).map((k) => (
+                          <input
+                            key={k}
+                            className="input"
+                            type="number"
+                            min={1}
+                            max={10}
+                            step="0.1"
+                            value={cf[k]}
+                            onChange={(e) => {
+                              const v = Number(e.target.value);
+                              if (Number.isFinite(v)) setCashflow({ [k]: Math.max(1, Math.min(10, v)) });
+                            }}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ) : null}
+                </>
+              ) : (
+                <div>
+                  <label className="label">Preset</label>
+                  <div className="muted">{activePreset?.label ?? activePresetKey} — edit presets in Config JSON</div>
+                </div>
+              )}
+              <div>
+                <label className="label">Construction indirects phase</label>
+                <select className="input" value={config.indirectsPhase} onChange={(e) => save({ ...config, indirectsPhase: e.target.value })}>
+                  {phaseOptions(false)}
+                </select>
+              </div>
+            </div>
+          ) : null}
+
+          <div className="muted" style={{ marginTop: 8 }}>
+            {cf.method === "s_curve"
+              ? "Hard costs follow a beta-distribution S-curve over their phase; α < β front-loads the spend, α > β back-loads it."
+              : "Hard costs follow the year-weight preset, stretched over their phase."}{" "}
+            Each soft cost is drawn on its own timing below. Escalation is computed per period at its midpoint (annual periods: t = 0.5, 1.5, … years
+            from the project start); construction indirects are drawn but not escalated.
           </div>
 
-          <div style={{ display: "grid", gridTemplateColumns: compareMode ? "1fr 1fr" : "1fr", gap: 12 }}>
-            <div>
-              <Table title={`Scenario A — ${scenarioAName}`} rows={calcA.rows} currency={currency} />
+          {showAdmin ? (
+            <div className="noPrint" style={{ marginTop: 10 }}>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+                <div className="label">Project phases</div>
+                <div style={{ display: "flex", gap: 6 }}>
+                  <button type="button" className="secondaryBtn" onClick={onAddPhase}>
+                    + Phase
+                  </button>
+                  <button type="button" className="secondaryBtn" onClick={() => setPhases(getDefaultPhases())}>
+                    Default phases
+                  </button>
+                </div>
+              </div>
+              <table className="table small" style={{ marginTop: 6 }}>
+                <thead>
+                  <tr>
+                    <th style={{ width: 180 }}>Phase</th>
+                    <th style={{ width: 90, textAlign: "right" }}>Start mo</th>
+                    <th style={{ width: 90, textAlign: "right" }}>Months</th>
+                    <th>Timeline ({totalMonths} mo)</th>
+                    <th style={{ width: 190 }}>Dates</th>
+                    <th style={{ width: 80 }}></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {config.phases.map((p) => (
+                    <tr key={p.id}>
+                      <td>
+                        <input className="input" value={p.label} onChange={(e) => setPhases(updatePhase(config.phases, p.id, { label: e.target.value || p.id }))} />
+                      </td>
+                      {(["startMonth", "durationMonths"] as const).map((k) => (
+                        <td key={k} style={{ textAlign: "right" }}>
+                          <input
+                            className="input"
+                            type="number"
+                            min={k === "startMonth" ? 0 : 1}
+                            max={MAX_PHASE_MONTHS * (k === "startMonth" ? 2 : 1)}
+                            value={p[k]}
+                            onChange={(e) => setPhaseMonths(p, k, e.target.value)}
+                          />
+                        </td>
+                      ))}
+                      <td>
+                        <div style={{ position: "relative", height: 12, background: "rgba(0,0,0,0.04)" }}>
+                          <div
+                            style={{
+                              position: "absolute",
+                              left: `${(p.startMonth / totalMonths) * 100}%`,
+                              width: `${(p.durationMonths / totalMonths) * 100}%`,
+                              top: 0,
+                              bottom: 0,
+                              background: p.id === CONSTRUCTION_PHASE_ID ? STREAM_COLORS[0] : STREAM_COLORS[1],
+                            }}
+                          />
+                        </div>
+                      </td>
+                      <td className="muted">
+                        {formatMonth(addMonths(start, p.startMonth))} – {formatMonth(addMonths(start, p.startMonth + p.durationMonths - 1))}
+                      </td>
+                      <td>
+                        <button
+                          type="button"
+                          className="secondaryBtn"
+                          disabled={p.id === CONSTRUCTION_PHASE_ID}
+                          onClick={() => setPhases(removePhase(config.phases, p.id))}
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="muted">Phases may overlap. Construction carries the hard-cost curve and cannot be removed.</div>
+
+              <div className="label" style={{ marginTop: 10 }}>
+                Hard-cost categories by phase
+              </div>
+              <div className="adminTopGrid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))", marginTop: 6 }}>
+                {VMX_CATEGORIES.map((c) => (
+                  <div key={c.id}>
+                    <label className="label">{c.label}</label>
+                    <select className="input" value={categoryPhaseId(config, c.id)} onChange={(e) => setCategoryPhase(c.id, e.target.value)}>
+                      {phaseOptions(false)}
+                    </select>
+                  </div>
+                ))}
+              </div>
             </div>
-            {compareMode && resultB && calcB ? (
-              <div>
-                <Table title={`Scenario B — ${scenarioBName}`} rows={calcB.rows} currency={currency} />
+          ) : null}
+
+          {showAdmin ? (
+            <div className="noPrint" style={{ marginTop: 10 }}>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+                <div className="label">Soft cost timing</div>
+                <button type="button" className="secondaryBtn" onClick={applyDefaultTiming}>
+                  Apply default timing
+                </button>
+              </div>
+              <table className="table small" style={{ marginTop: 6 }}>
+                <thead>
+                  <tr>
+                    <th>Line Item</th>
+                    <th style={{ width: 150 }}>Phase</th>
+                    <th style={{ width: 160 }}>Curve</th>
+                    <th style={{ width: 90, textAlign: "right" }}>Start ±mo</th>
+                    <th style={{ width: 90, textAlign: "right" }}>End ±mo</th>
+                    <th style={{ width: 220 }}>Window</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {config.lineItems
+                    .filter((li) => li.enabled)
+                    .map((li) => {
+                      const followsHard = li.timing.curve === "follow_hard";
+                      return (
+                        <tr key={li.id}>
+                          <td>{li.label}</td>
+                          <td>
+                            <select
+                              className="input"
+                              value={safePhaseId(config.phases, li.timing.phase)}
+                              disabled={followsHard}
+                              onChange={(e) => setLineTiming(li.id, { phase: e.target.value })}
+                            >
+                              {phaseOptions(true)}
+                            </select>
+                          </td>
+                          <td>
+                            <select className="input" value={li.timing.curve} onChange={(e) => setLineTiming(li.id, { curve: e.target.value as SoftCostCurve })}>
+                              {(Object.keys(SOFT_COST_CURVE_LABELS) as SoftCostCurve[]).map((c) => (
+                                <option key={c} value={c}>
+                                  {SOFT_COST_CURVE_LABELS[c]}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          {(["startOffsetMonths", "endOffsetMonths"] as const).map((k) => (
+                            <td key={k} style={{ textAlign: "right" }}>
+                              <input
+                                className="input"
+                                type="number"
+                                min={-120}
+                                max={120}
+                                disabled={followsHard}
+                                value={li.timing[k]}
+                                onChange={(e) => {
+                                  const months = Math.round(Number(e.target.value));
+                                  if (Number.isFinite(months)) setLineTiming(li.id, { [k]: Math.max(-120, Math.min(120, months)) });
+                                }}
+                              />
+                            </td>
+                          ))}
+                          <td className="muted">{windowLabel(li.timing)}</td>
+                        </tr>
+                      );
+                    })}
+                </tbody>
+              </table>
+              <div className="muted">Offsets move the start / end of the phase window (e.g. Construction, start +24 = from month 25 of construction).</div>
+            </div>
+          ) : null}
+
+          <div style={{ display: "grid", gridTemplateColumns: `repeat(${Math.min(2, calcs.length)}, minmax(0, 1fr))`, gap: 12 }}>
+            {calcs.map(({ id, name, calc }) => (
+              <div key={id}>
+                <Table title={name} rows={calc.rows} streams={calc.streams} currency={currency} granularity={cf.granularity} />
               </div>
-            ) : null}
+            ))}
           </div>
         </>
       ) : null}
@@ -215,6 +616,14 @@ export function SoftCostsCashflowPanel({
           <div className="muted">
             Edit defaults here (visible to all). Use decimals (0.06 = 6%). Recommended: keep weights summing to ~1.0.
           </div>
+          <div className="muted" style={{ marginTop: 6 }}>
+            Line item formulas: <code>basis</code> is hard, ffe, hard_plus_ffe, total_before_escalation, line_items (with <code>basisItems</code>: ids of the
+            lines it is charged on) or fixed. <code>scale</code> is a sliding scale of bands, e.g.{" "}
+            <code>[{"{"}"upTo": 5000000, "rate": 0.08{"}"}, {"{"}"upTo": null, "rate": 0.06{"}"}]</code>, used instead of <code>rate</code>; without an
+            open-ended (<code>null</code>) band the excess is charged at the last band's rate.{" "}
+            <code>minAmount</code> / <code>maxAmount</code> set a minimum fee and a cap. <code>byTier</code> overrides rate, scale, min, max, fixedAmount
+            or enabled per tier id (a tier <code>rate</code> without a <code>scale</code> replaces the line's scale). Circular references are flagged and priced at 0.
+          </div>
 
           <div style={{ marginTop: 10, display: "grid", gridTemplateColumns: "1fr", gap: 10 }}>
             <textarea
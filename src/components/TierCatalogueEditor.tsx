@@ -0,0 +1,145 @@
+import React, { useState } from "react";
+import { BenchmarkLibrary, TierDefinition, TierId, TierIndirectRates, addTier, removeTier, updateTier } from "../data/benchmark-library-storage";
+
+type Props = {
+  library: BenchmarkLibrary;
+  setLibrary: (next: BenchmarkLibrary) => void;
+  /** Tier selected in the library admin (new tiers are copied from it) */
+  tier: TierId;
+  setTier: (t: TierId) => void;
+  /** What still uses a tier (scenarios, buildings…), shown before removing it */
+  getTierDependencies?: (tierId: TierId) => string[];
+  onClose: () => void;
+};
+
+const INDIRECT_FIELDS: { key: keyof TierIndirectRates; label: string }[] = [
+  { key: "generalConditionsRate", label: "GC %" },
+  { key: "glInsuranceRate", label: "GL %" },
+  { key: "contingencyRate", label: "Contingency %" },
+  { key: "feeRate", label: "Fee %" },
+];
+
+/**
+ * Tier catalogue: label, sort order and default construction indirect rates.
+ * Ids are fixed once created because scenarios, snapshots and history refer to them.
+ */
+export function TierCatalogueEditor({ library, setLibrary, tier, setTier, getTierDependencies, onClose }: Props) {
+  const [copyFrom, setCopyFrom] = useState<TierId>(tier);
+  const source = library.tiers.find((t) => t.id === copyFrom) ?? library.tiers[0];
+
+  function onAdd() {
+    const label = window.prompt(`New tier label (rates copied from ${source.label}):`);
+    if (!label || !label.trim()) return;
+    const next = addTier(library, label.trim(), source.id);
+    setLibrary(next);
+    const added = next.tiers.find((t) => !library.tiers.some((x) => x.id === t.id));
+    if (added) setTier(added.id);
+  }
+
+  function onRemove(t: TierDefinition) {
+    const deps = getTierDependencies?.(t.id) ?? [];
+    const lines = [`Remove tier "${t.label}" and its rates from all ${library.regions.length} region(s)?`];
+    if (deps.length) {
+      lines.push("", `Still used by ${deps.length} item(s):`, ...deps.slice(0, 12).map((d) => `• ${d}`), "", "These move to the default tier.");
+    }
+    if (!window.confirm(lines.join("\n"))) return;
+    const next = removeTier(library, t.id);
+    setLibrary(next);
+    if (t.id === tier) setTier(next.tiers[0].id);
+  }
+
+  const setIndirect = (t: TierDefinition, key: keyof TierIndirectRates, value: string) => {
+    const pct = Number(value);
+    if (!Number.isFinite(pct)) return;
+    setLibrary(updateTier(library, t.id, { indirects: { ...t.indirects, [key]: Math.max(0, Math.min(1, pct / 100)) } }));
+  };
+
+  return (
+    <div className="panel" style={{ marginTop: 10 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+        <div>
+          <strong>Tiers</strong>
+          <div className="muted">
+            Every region has rates for each tier. Indirect rates are the defaults used by Construction Indirects until edited there.
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <span className="muted">Copy rates from</span>
+          <select className="input" style={{ width: 150 }} value={source.id} onChange={(e) => setCopyFrom(e.target.value)}>
+            {library.tiers.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+          <button className="secondaryBtn" type="button" onClick={onAdd}>
+            + Tier
+          </button>
+          <button className="secondaryBtn" type="button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+
+      <table className="table small" style={{ marginTop: 10 }}>
+        <thead>
+          <tr>
+            <th style={{ width: 110 }}>Id</th>
+            <th>Label</th>
+            <th style={{ width: 80, textAlign: "right" }}>Sort</th>
+            {INDIRECT_FIELDS.map((f) => (
+              <th key={f.key} style={{ width: 100, textAlign: "right" }}>
+                {f.label}
+              </th>
+            ))}
+            <th style={{ width: 90 }}></th>
+          </tr>
+        </thead>
+        <tbody>
+          {library.tiers.map((t) => (
+            <tr key={t.id}>
+              <td className="muted">{t.id}</td>
+              <td>
+                <input
+                  className="input adminInput"
+                  value={t.label}
+                  onChange={(e) => setLibrary(updateTier(library, t.id, { label: e.target.value || t.id }))}
+                />
+              </td>
+              <td style={{ textAlign: "right" }}>
+                <input
+                  className="input adminInput"
+                  type="number"
+                  step={1}
+                  value={t.sort}
+                  onChange={(e) => {
+                    const sort = Number(e.target.value);
+                    if (Number.isFinite(sort)) setLibrary(updateTier(library, t.id, { sort }));
+                  }}
+                />
+              </td>
+              {INDIRECT_FIELDS.map((f) => (
+                <td key={f.key} style={{ textAlign: "right" }}>
+                  <input
+                    className="input adminInput"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.1"
+                    value={Math.round(t.indirects[f.key] * 1000) / 10}
+                    onChange={(e) => setIndirect(t, f.key, e.target.value)}
+                  />
+                </td>
+              ))}
+              <td>
+                <button type="button" className="secondaryBtn" disabled={library.tiers.length <= 1} onClick={() => onRemove(t)}>
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
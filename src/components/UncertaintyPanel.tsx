@@ -0,0 +1,253 @@
+import React, { useState } from "react";
+import { formatMoney, formatPct } from "../utils/format";
+import {
+  MAX_ITERATIONS,
+  MIN_ITERATIONS,
+  MonteCarloResult,
+  UncertaintyCategoryMode,
+  UncertaintyConfigV1,
+} from "../utils/monteCarlo";
+
+export type UncertaintyScenario = {
+  id: string;
+  name: string;
+  result: MonteCarloResult | null;
+};
+
+type Props = {
+  currency: string;
+  config: UncertaintyConfigV1;
+  setConfig: (next: UncertaintyConfigV1) => void;
+  scenarios: UncertaintyScenario[];
+};
+
+function pctToInput(p: number) {
+  if (!Number.isFinite(p)) return "0";
+  return (p * 100).toFixed(1);
+}
+
+function inputToPct(v: string) {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return 0;
+  return n / 100;
+}
+
+const HIST_W = 640;
+const HIST_H = 160;
+
+function Histogram({ mc, currency }: { mc: MonteCarloResult; currency: string }) {
+  const bins = mc.histogram;
+  if (bins.length === 0) return null;
+  const maxCount = Math.max(...bins.map((b) => b.count), 1);
+  const lo = bins[0].from;
+  const hi = bins[bins.length - 1].to;
+  const x = (v: number) => ((v - lo) / (hi - lo || 1)) * HIST_W;
+  const barW = HIST_W / bins.length;
+
+  const markers = [
+    { key: "P10", v: mc.grandTotal.p10 },
+    { key: "P50", v: mc.grandTotal.p50 },
+    { key: "P90", v: mc.grandTotal.p90 },
+  ];
+
+  return (
+    <svg viewBox={`0 0 ${HIST_W} ${HIST_H + 32}`} style={{ width: "100%", height: "auto" }} role="img" aria-label="Grand total distribution">
+      {bins.map((b, i) => {
+        const h = (b.count / maxCount) * HIST_H;
+        return (
+          <rect key={i} x={i * barW + 1} y={HIST_H - h} width={Math.max(1, barW - 2)} height={h} fill="#cbd5e1">
+            <title>{`${formatMoney(b.from, currency)} – ${formatMoney(b.to, currency)}: ${b.count}`}</title>
+          </rect>
+        );
+      })}
+      {markers.map((m) => (
+        <g key={m.key}>
+          <line x1={x(m.v)} x2={x(m.v)} y1={0} y2={HIST_H} stroke="#0f172a" strokeDasharray={m.key === "P50" ? undefined : "4 3"} />
+          <text x={x(m.v)} y={HIST_H + 13} fontSize={10} textAnchor="middle" fontWeight={900}>
+            {m.key}
+          </text>
+        </g>
+      ))}
+      <line x1={x(mc.point.grandTotal)} x2={x(mc.point.grandTotal)} y1={0} y2={HIST_H} stroke="#dc2626" />
+      <text x={0} y={HIST_H + 28} fontSize={10}>
+        {formatMoney(lo, currency)}
+      </text>
+      <text x={HIST_W} y={HIST_H + 28} fontSize={10} textAnchor="end">
+        {formatMoney(hi, currency)}
+      </text>
+    </svg>
+  );
+}
+
+export function UncertaintyPanel({ currency, config, setConfig, scenarios }: Props) {
+  const [focusId, setFocusId] = useState<string>("");
+  const focus = scenarios.find((s) => s.id === focusId && s.result) ?? scenarios.find((s) => s.result) ?? null;
+
+  const set = (patch: Partial<UncertaintyConfigV1>) => setConfig({ ...config, ...patch });
+
+  const spreadInput = (label: string, key: "categorySpread" | "locationSpread" | "typologySpread" | "indirectSpread") => (
+    <div>
+      <label className="label">{label} (± %)</label>
+      <input
+        className="input"
+        type="number"
+        step="0.5"
+        min={0}
+        value={pctToInput(config[key])}
+        onChange={(e) => set({ [key]: Math.max(0, Math.min(0.9, inputToPct(e.target.value))) })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="card" style={{ marginTop: 18 }}>
+      <div className="adminHeader">
+        <div>
+          <h2>Cost Range (Monte Carlo)</h2>
+          <div className="muted">
+            Treats each category, the location factor, typology factor and indirect rates as triangular distributions and reports P10 / P50 / P90.
+            Seeded, so the same inputs always give the same range.
+          </div>
+        </div>
+
+        <label style={{ display: "flex", alignItems: "center", gap: 10, fontWeight: 900 }}>
+          <input type="checkbox" checked={config.enabled} onChange={(e) => set({ enabled: e.target.checked })} />
+          Uncertainty Mode
+        </label>
+      </div>
+
+      {config.enabled && (
+        <div className="adminTopGrid noPrint" style={{ gridTemplateColumns: "repeat(4, 1fr)", marginTop: 10 }}>
+          <div>
+            <label className="label">Category distribution</label>
+            <select
+              className="input"
+              value={config.categoryMode}
+              onChange={(e) => set({ categoryMode: e.target.value as UncertaintyCategoryMode })}
+            >
+              <option value="bands">Triangular: LOW → selected → HIGH</option>
+              <option value="selected">Triangular: selected ± spread</option>
+            </select>
+          </div>
+          <div>
+            <label className="label">Iterations</label>
+            <input
+              className="input"
+              type="number"
+              min={MIN_ITERATIONS}
+              max={MAX_ITERATIONS}
+              step={100}
+              value={config.iterations}
+              onChange={(e) => set({ iterations: Math.max(MIN_ITERATIONS, Math.min(MAX_ITERATIONS, Math.round(Number(e.target.value) || 0))) })}
+            />
+          </div>
+          <div>
+            <label className="label">Seed</label>
+            <input className="input" type="number" value={config.seed} onChange={(e) => set({ seed: Math.round(Number(e.target.value) || 0) })} />
+          </div>
+          {spreadInput("Category spread", "categorySpread")}
+          {spreadInput("Location factor", "locationSpread")}
+          {spreadInput("Typology factor", "typologySpread")}
+          {spreadInput("Indirect rates", "indirectSpread")}
+        </div>
+      )}
+
+      {!config.enabled ? (
+        <div className="muted" style={{ marginTop: 10 }}>
+          Uncertainty mode is off. Turn it on to see a probabilistic range next to each point estimate.
+        </div>
+      ) : (
+        <>
+          <table className="table small" style={{ marginTop: 12 }}>
+            <thead>
+              <tr>
+                <th>Scenario</th>
+                <th>Measure</th>
+                <th style={{ textAlign: "right" }}>Point</th>
+                <th style={{ textAlign: "right" }}>P10</th>
+                <th style={{ textAlign: "right" }}>P50</th>
+                <th style={{ textAlign: "right" }}>P90</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scenarios.map((s) =>
+                s.result ? (
+                  (
+                    [
+                      ["Direct Hard Costs", s.result.point.direct, s.result.direct],
+                      ["Construction Contract", s.result.point.contract, s.result.contract],
+                      ["Grand Total (All-in)", s.result.point.grandTotal, s.result.grandTotal],
+                    ] as const
+                  ).map(([label, point, p], idx) => (
+                    <tr key={`${s.id}_${label}`}>
+                      <td>{idx === 0 ? <strong>{s.name}</strong> : null}</td>
+                      <td>{label}</td>
+                      <td style={{ textAlign: "right" }}>{formatMoney(point, currency)}</td>
+                      <td style={{ textAlign: "right" }}>{formatMoney(p.p10, currency)}</td>
+                      <td style={{ textAlign: "right" }}>{formatMoney(p.p50, currency)}</td>
+                      <td style={{ textAlign: "right" }}>{formatMoney(p.p90, currency)}</td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr key={s.id}>
+                    <td>
+                      <strong>{s.name}</strong>
+                    </td>
+                    <td colSpan={5} className="muted">
+                      No result to simulate.
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+
+          {focus?.result && (
+            <div style={{ marginTop: 14 }}>
+              <div style={{ display: "flex", gap: 10, alignItems: "center", justifyContent: "space-between" }}>
+                <div style={{ fontWeight: 900 }}>
+                  Grand Total distribution — {focus.name}{" "}
+                  <span className="muted" style={{ fontWeight: 400 }}>
+                    ({focus.result.iterations.toLocaleString()} runs, seed {focus.result.seed}; red = point estimate)
+                  </span>
+                </div>
+                {scenarios.length > 1 && (
+                  <select className="input noPrint" style={{ width: 240 }} value={focus.id} onChange={(e) => setFocusId(e.target.value)}>
+                    {scenarios.map((s) => (
+                      <option key={s.id} value={s.id} disabled={!s.result}>
+                        {s.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              <div style={{ display: "grid", gridTemplateColumns: "3fr 2fr", gap: 14, marginTop: 8 }}>
+                <Histogram mc={focus.result} currency={currency} />
+
+                <div>
+                  <div className="label">Largest variance contributors</div>
+                  <table className="table small">
+                    <tbody>
+                      {focus.result.contributors.slice(0, 6).map((c) => (
+                        <tr key={c.id}>
+                          <td>{c.label}</td>
+                          <td style={{ width: "45%" }}>
+                            <div aria-hidden="true" style={{ height: 8, borderRadius: 999, background: "rgba(15,23,42,0.08)" }}>
+                              <div style={{ height: 8, borderRadius: 999, background: "#0f172a", width: `${Math.min(100, c.share * 100)}%` }} />
+                            </div>
+                          </td>
+                          <td style={{ textAlign: "right" }}>{formatPct(c.share)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
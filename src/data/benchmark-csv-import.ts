@@ -0,0 +1,359 @@
+import { AreaUnit, BandProvenance, BenchmarkSet, HeatBand, VMX_CATEGORIES, VmxCategoryId, getSubElements, psqftToRate, rateToPsqft } from "../domain/vmx-domain";
+import { BenchmarkLibrary, TierDefinition, TierId, tierLabel, updateBenchmarkForRegionTier } from "./benchmark-library-storage";
+
+/**
+ * CSV band import
+ *
+ * Long-format spreadsheets (one row per region / tier / category / band) are
+ * mapped onto the library. Nothing is written until the user has seen the
+ * plan: every changed cell, plus warnings for bands that are zero or not in
+ * the file (those keep their current library value instead of becoming 0).
+ */
+
+export type CsvField = "region" | "tier" | "category" | "band" | "rate" | "minPct" | "maxPct";
+
+export const CSV_FIELDS: { key: CsvField; label: string; hint: string }[] = [
+  { key: "region", label: "Region", hint: "Region id or name" },
+  { key: "tier", label: "Tier", hint: "Select / Reserve / Signature / Legacy" },
+  { key: "category", label: "Category", hint: "VMX category id or label" },
+  { key: "band", label: "Band", hint: "LOW / MEDIUM / HIGH (or L / M / H)" },
+  { key: "rate", label: "Rate", hint: "$ per sq ft (or m²)" },
+  { key: "minPct", label: "Target min %", hint: "Optional, e.g. 8 or 8%" },
+  { key: "maxPct", label: "Target max %", hint: "Optional, e.g. 14 or 14%" },
+];
+
+export type ColumnMapping = Record<CsvField, number | null>;
+
+export type CsvIssue = { row: number | null; severity: "error" | "warning"; message: string };
+
+export type CellChange = {
+  regionId: string;
+  regionName: string;
+  tier: TierId;
+  categoryId: VmxCategoryId;
+  /** A band rate ($/sq ft) or a target range bound (fraction) */
+  field: HeatBand | "minPct" | "maxPct";
+  from: number;
+  to: number;
+};
+
+export type CsvImportPlan = {
+  rowsRead: number;
+  rowsUsed: number;
+  issues: CsvIssue[];
+  changes: CellChange[];
+  updates: { regionId: string; tier: TierId; benchmark: BenchmarkSet }[];
+};
+
+const BANDS: HeatBand[] = ["LOW", "MEDIUM", "HIGH"];
+
+/** RFC 4180-ish: quoted fields, doubled quotes, CRLF; blank lines dropped. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === '"') quoted = true;
+    else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += ch;
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+const norm = (s: string) => s.trim().toLowerCase().replace(/[^a-z0-9]+/g, "");
+
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  region: ["region", "regionid", "market", "location"],
+  tier: ["tier", "tierid", "quality"],
+  category: ["category", "categoryid", "element", "vmxcategory"],
+  band: ["band", "heatband", "level"],
+  rate: ["rate", "ratepersf", "ratepersqm", "psqft", "psf", "persf", "persqft", "costpersf", "value", "psqm", "persqm"],
+  minPct: ["min", "minpct", "targetmin", "targetminpct", "minimum"],
+  maxPct: ["max", "maxpct", "targetmax", "targetmaxpct", "maximum"],
+};
+
+/** Best guess from header names; unmatched fields stay null for the user to map. */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const keys = headers.map(norm);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  for (const f of CSV_FIELDS) {
+    const idx = keys.findIndex((k, i) => !used.has(i) && HEADER_ALIASES[f.key].includes(k));
+    mapping[f.key] = idx >= 0 ? idx : null;
+    if (idx >= 0) used.add(idx);
+  }
+  return mapping;
+}
+
+function matchCategory(value: string): VmxCategoryId | null {
+  const k = norm(value);
+  const hit = VMX_CATEGORIES.find((c) => norm(c.id) === k || norm(c.label) === k);
+  return hit ? hit.id : null;
+}
+
+function matchTier(value: string, tiers: TierDefinition[]): TierId | null {
+  const k = norm(value);
+  return tiers.find((t) => norm(t.id) === k || norm(t.label) === k)?.id ?? null;
+}
+
+function matchBand(value: string): HeatBand | null {
+  const k = norm(value);
+  if (k === "l" || k === "low") return "LOW";
+  if (k === "m" || k === "med" || k === "medium") return "MEDIUM";
+  if (k === "h" || k === "high") return "HIGH";
+  return null;
+}
+
+/** "$1,250.00" -> 1250; blank -> null; garbage -> NaN */
+function parseNumber(value: string): number | null {
+  const s = value.trim();
+  if (!s) return null;
+  const n = Number(s.replace(/[^0-9.-]/g, ""));
+  return Number.isFinite(n) ? n : NaN;
+}
+
+/** Ignores float noise from % <-> fraction and m² <-> sq ft round trips. */
+function sameValue(a: number, b: number): boolean {
+  return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+/**
+ * Builds the import plan. Row numbers in issues are 1-based spreadsheet rows
+ * (the header is row 1). `rateUnit` is the unit the file's rates are quoted in.
+ */
+export function planCsvImport(
+  lib: BenchmarkLibrary,
+  dataRows: string[][],
+  mapping: ColumnMapping,
+  rateUnit: AreaUnit,
+  /** Recorded as the provenance source of every changed rate */
+  sourceLabel = "Spreadsheet import"
+): CsvImportPlan {
+  const today = new Date().toISOString().slice(0, 10);
+  const issues: CsvIssue[] = [];
+  const missingCols = (["region", "tier", "category"] as CsvField[]).filter((f) => mapping[f] === null);
+  if (missingCols.length) {
+    issues.push({ row: null, severity: "error", message: `Map a column for: ${missingCols.join(", ")}` });
+  }
+  if (mapping.rate === null && mapping.minPct === null && mapping.maxPct === null) {
+    issues.push({ row: null, severity: "error", message: "Map a rate column and/or target min / max % columns" });
+  }
+  if (mapping.rate !== null && mapping.band === null) {
+    issues.push({ row: null, severity: "error", message: "A rate column needs a band column" });
+  }
+  if (issues.length) return { rowsRead: dataRows.length, rowsUsed: 0, issues, changes: [], updates: [] };
+
+  const cell = (row: string[], f: CsvField) => {
+    const idx = mapping[f];
+    return idx === null ? "" : (row[idx] ?? "").trim();
+  };
+
+  // Working copies keyed by region::tier
+  const sets = new Map<
+    string,
+    { regionId: string; regionName: string; tier: TierId; current: BenchmarkSet; set: BenchmarkSet; seen: Set<string> }
+  >();
+  const seenCells = new Map<string, number>();
+  let rowsUsed = 0;
+
+  dataRows.forEach((row, i) => {
+    const rowNo = i + 2;
+    const err = (message: string) => issues.push({ row: rowNo, severity: "error", message });
+    const warn = (message: string) => issues.push({ row: rowNo, severity: "warning", message });
+
+    const regionRaw = cell(row, "region");
+    const region = lib.regions.find((r) => r.id === regionRaw || norm(r.name) === norm(regionRaw));
+    if (!region) return err(`Unknown region "${regionRaw}" (add it in the library first)`);
+
+    const tier = matchTier(cell(row, "tier"), lib.tiers);
+    if (!tier) return err(`Unknown tier "${cell(row, "tier")}"`);
+
+    const categoryId = matchCategory(cell(row, "category"));
+    if (!categoryId) return err(`Unknown category "${cell(row, "category")}" — expected one of ${VMX_CATEGORIES.map((c) => c.id).join(", ")}`);
+
+    const key = `${region.id}::${tier}`;
+    let entry = sets.get(key);
+    if (!entry) {
+      const current = region.byTier[tier];
+      entry = {
+        regionId: region.id,
+        regionName: region.name,
+        tier,
+        current,
+        set: { ...current, bands: current.bands.map((b) => ({ ...b })), targetRanges: current.targetRanges.map((r) => ({ ...r })) },
+        seen: new Set(),
+      };
+      sets.set(key, entry);
+    }
+    const where = `${region.name} / ${tierLabel(tier, lib.tiers)} / ${categoryId}`;
+    let used = false;
+
+    const rate = mapping.rate === null ? null : parseNumber(cell(row, "rate"));
+    if (rate !== null) {
+      const band = matchBand(cell(row, "band"));
+      if (!band) return err(`Unknown band "${cell(row, "band")}" for ${where}`);
+      if (Number.isNaN(rate) || rate < 0) return err(`Invalid rate "${cell(row, "rate")}" for ${where} ${band}`);
+
+      const cellKey = `${key}::${categoryId}::${band}`;
+      const prev = seenCells.get(cellKey);
+      if (prev) warn(`${where} ${band} also on row ${prev} — this row wins`);
+      seenCells.set(cellKey, rowNo);
+
+      if (rate === 0) warn(`${where} ${band} is 0`);
+      if (getSubElements(entry.set, categoryId).length) {
+        warn(`${where} rolls up from sub-elements — ${band} rate ignored (edit the sub-elements instead)`);
+      } else {
+        const psqft = rateToPsqft(rate, rateUnit);
+        const b = entry.set.bands.find((x) => x.categoryId === categoryId && x.band === band);
+        // Imported rates carry the file as their source; sample count / confidence / author carry over
+        const provenance: BandProvenance = {
+          source: sourceLabel,
+          effectiveDate: today,
+          sampleCount: b?.provenance?.sampleCount ?? 0,
+          confidence: b?.provenance?.confidence ?? "medium",
+          author: b?.provenance?.author ?? "",
+        };
+        if (b) {
+          if (!sameValue(b.psqft, psqft)) b.provenance = provenance;
+          b.psqft = psqft;
+        } else entry.set.bands.push({ categoryId, band, psqft, provenance });
+      }
+      entry.seen.add(`${categoryId}::${band}`);
+      used = true;
+    } else if (mapping.rate !== null && cell(row, "band")) {
+      warn(`${where} ${cell(row, "band")} has no rate`);
+    }
+
+    const minRaw = mapping.minPct === null ? null : parseNumber(cell(row, "minPct"));
+    const maxRaw = mapping.maxPct === null ? null : parseNumber(cell(row, "maxPct"));
+    if (minRaw !== null || maxRaw !== null) {
+      if (Number.isNaN(minRaw) || Number.isNaN(maxRaw)) return err(`Invalid target % for ${where}`);
+      const range = entry.set.targetRanges.find((r) => r.categoryId === categoryId);
+      let minPct = minRaw !== null ? minRaw / 100 : range?.minPct ?? 0;
+      let maxPct = maxRaw !== null ? maxRaw / 100 : range?.maxPct ?? 1;
+      if (minPct < 0 || maxPct > 1) {
+        warn(`${where} target % outside 0–100 — clamped`);
+        minPct = Math.max(0, minPct);
+        maxPct = Math.min(1, maxPct);
+      }
+      if (maxPct < minPct) {
+        warn(`${where} target max is below min — max set to min`);
+        maxPct = minPct;
+      }
+      if (range) {
+        range.minPct = minPct;
+        range.maxPct = maxPct;
+      } else {
+        entry.set.targetRanges.push({ categoryId, minPct, maxPct });
+      }
+      used = true;
+    }
+
+    if (used) rowsUsed++;
+  });
+
+  const changes: CellChange[] = [];
+  const updates: CsvImportPlan["updates"] = [];
+
+  for (const entry of sets.values()) {
+    const current = entry.current;
+    const label = `${entry.regionName} / ${tierLabel(entry.tier, lib.tiers)}`;
+
+    for (const cat of VMX_CATEGORIES) {
+      for (const band of BANDS) {
+        const from = current.bands.find((b) => b.categoryId === cat.id && b.band === band)?.psqft ?? 0;
+        const to = entry.set.bands.find((b) => b.categoryId === cat.id && b.band === band)?.psqft ?? 0;
+        if (mapping.rate !== null && !entry.seen.has(`${cat.id}::${band}`)) {
+          issues.push({
+            row: null,
+            severity: "warning",
+            message:
+              from > 0
+                ? `${label}: ${cat.id} ${band} not in file — keeps current value`
+                : `${label}: ${cat.id} ${band} not in file and is 0 in the library`,
+          });
+        }
+        if (!sameValue(from, to)) {
+          changes.push({ regionId: entry.regionId, regionName: entry.regionName, tier: entry.tier, categoryId: cat.id, field: band, from, to });
+        }
+      }
+      const ra = current.targetRanges.find((r) => r.categoryId === cat.id);
+      const rb = entry.set.targetRanges.find((r) => r.categoryId === cat.id);
+      for (const field of ["minPct", "maxPct"] as const) {
+        const from = ra?.[field] ?? 0;
+        const to = rb?.[field] ?? 0;
+        if (!sameValue(from, to)) {
+          changes.push({ regionId: entry.regionId, regionName: entry.regionName, tier: entry.tier, categoryId: cat.id, field, from, to });
+        }
+      }
+    }
+
+    updates.push({ regionId: entry.regionId, tier: entry.tier, benchmark: entry.set });
+  }
+
+  return { rowsRead: dataRows.length, rowsUsed, issues, changes, updates };
+}
+
+export function applyCsvImport(lib: BenchmarkLibrary, plan: CsvImportPlan): BenchmarkLibrary {
+  return plan.updates.reduce((next, u) => updateBenchmarkForRegionTier(next, u.regionId, u.tier, u.benchmark), lib);
+}
+
+function csvCell(value: string | number): string {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Current library in the importer's long format — a round-trippable starting sheet. */
+export function buildBandsCsv(lib: BenchmarkLibrary, rateUnit: AreaUnit): string {
+  const unit = rateUnit === "sqm" ? "sqm" : "sf";
+  const lines = [["Region", "Tier", "Category", "Band", `Rate per ${unit}`, "Target Min %", "Target Max %"].join(",")];
+  for (const r of lib.regions) {
+    for (const { id: t, label } of lib.tiers) {
+      const set = r.byTier[t];
+      for (const cat of VMX_CATEGORIES) {
+        const range = set.targetRanges.find((x) => x.categoryId === cat.id);
+        for (const band of BANDS) {
+          const psqft = set.bands.find((b) => b.categoryId === cat.id && b.band === band)?.psqft ?? 0;
+          lines.push(
+            [
+              csvCell(r.id),
+              csvCell(label),
+              cat.id,
+              band,
+              String(Number(psqftToRate(psqft, rateUnit).toPrecision(10))),
+              range ? String(Number((range.minPct * 100).toPrecision(10))) : "",
+              range ? String(Number((range.maxPct * 100).toPrecision(10))) : "",
+            ].join(",")
+          );
+        }
+      }
+    }
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,433 @@
+import { HeatBand, VMX_CATEGORIES } from "../domain/vmx-domain";
+import {
+  BenchmarkLibrary,
+  RegionEntry,
+  TierDefinition,
+  TierId,
+  regionTree,
+  tierLabel,
+  updateBenchmarkForRegionTier,
+  validateLibrary,
+} from "./benchmark-library-storage";
+
+/**
+ * Benchmark library version history
+ *
+ * Every library change is recorded as a version holding a full copy of the
+ * library plus a cell-level change list against the previous version. Rapid
+ * edits by the same person to the same region / tier are folded into one
+ * version so typing in BenchmarkAdmin does not produce one version per key.
+ *
+ * Published versions are never pruned; drafts beyond MAX_VERSIONS are
+ * dropped oldest first.
+ */
+
+export type LibraryChangeField =
+  | HeatBand
+  | "minPct"
+  | "maxPct"
+  | "region"
+  | "name"
+  | "currency"
+  | "effectiveDate"
+  | "provenance"
+  | "subElements"
+  | "parent"
+  | "archived"
+  | "inherit"
+  | "order"
+  | "tier"
+  | "indirects";
+
+export type LibraryChange = {
+  regionId: string;
+  regionName: string;
+  /** null for region-level changes (added / removed / renamed / re-parented / archived / reordered) */
+  tier: TierId | null;
+  /** Tier label when the change was recorded (the tier may since be renamed or removed) */
+  tierName?: string;
+  categoryId?: string;
+  field: LibraryChangeField;
+  from: number | string | null;
+  to: number | string | null;
+};
+
+export type LibraryPublication = {
+  tag: string;
+  atIso: string;
+  by: string;
+};
+
+export type LibraryVersion = {
+  id: string;
+  /** 1-based, never reused */
+  number: number;
+  /** First edit in this version; the fold window is measured from it */
+  createdAtIso: string;
+  /** Last edit folded into this version */
+  updatedAtIso?: string;
+  author: string;
+  /** Set for non-edit versions (initial, rollback, reset…); noted versions are never folded */
+  note: string;
+  /** Against the previous version */
+  changes: LibraryChange[];
+  library: BenchmarkLibrary;
+  published?: LibraryPublication;
+  /** A snapshot, client pack or printed report recorded this version; it is never changed afterwards */
+  referenced?: boolean;
+};
+
+export type LibraryHistoryV1 = {
+  version: 1;
+  /** Name recorded on new versions ("who changed it") */
+  author: string;
+  versions: LibraryVersion[];
+};
+
+/** What estimates and snapshots record about the library they priced from */
+export type LibraryVersionRef = {
+  id: string;
+  number: number;
+  createdAtIso: string;
+  /** Tag when this exact version is published */
+  publishedTag?: string;
+  /** Most recent published version at the time, when this one is a draft */
+  lastPublished?: { number: number; tag: string };
+};
+
+const STORAGE_KEY = "vmx_benchmark_library_history_v1";
+const MAX_VERSIONS = 60;
+/** Same author + same region / tier within this window of the version's first edit → one version */
+const FOLD_WINDOW_MS = 2 * 60 * 1000;
+const BANDS: HeatBand[] = ["LOW", "MEDIUM", "HIGH"];
+
+export function getDefaultLibraryHistory(): LibraryHistoryV1 {
+  return { version: 1, author: "", versions: [] };
+}
+
+function normalizeVersion(v: unknown): LibraryVersion | null {
+  if (!v || typeof v !== "object") return null;
+  const raw = v as Record<string, unknown>;
+  if (typeof raw.id !== "string" || typeof raw.number !== "number" || typeof raw.createdAtIso !== "string") return null;
+  if (!raw.library || typeof raw.library !== "object") return null;
+
+  const pub = raw.published && typeof raw.published === "object" ? (raw.published as Record<string, unknown>) : null;
+  const published = pub && typeof pub.tag === "string" ? { tag: pub.tag, atIso: String(pub.atIso ?? ""), by: String(pub.by ?? "") } : undefined;
+
+  return {
+    id: raw.id,
+    number: raw.number,
+    createdAtIso: raw.createdAtIso,
+    updatedAtIso: typeof raw.updatedAtIso === "string" ? raw.updatedAtIso : undefined,
+    author: typeof raw.author === "string" ? raw.author : "",
+    note: typeof raw.note === "string" ? raw.note : "",
+    changes: Array.isArray(raw.changes) ? (raw.changes as LibraryChange[]) : [],
+    library: validateLibrary(raw.library).library,
+    published,
+    referenced: raw.referenced === true ? true : undefined,
+  };
+}
+
+export function loadLibraryHistory(): LibraryHistoryV1 {
+  const def = getDefaultLibraryHistory();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return def;
+    const parsed = JSON.parse(raw);
+    if (!parsed || parsed.version !== 1) return def;
+    return {
+      version: 1,
+      author: typeof parsed.author === "string" ? parsed.author : "",
+      versions: Array.isArray(parsed.versions)
+        ? parsed.versions.map(normalizeVersion).filter((v: LibraryVersion | null): v is LibraryVersion => !!v)
+        : [],
+    };
+  } catch {
+    return def;
+  }
+}
+
+/** Full library copies add up; on a quota error the oldest drafts are dropped until it fits. */
+export function saveLibraryHistory(h: LibraryHistoryV1) {
+  let next = h;
+  for (let attempt = 0; attempt < 10; attempt++) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return;
+    } catch {
+      const drafts = next.versions.slice(0, -1).filter((v) => !v.published);
+      if (!drafts.length) return;
+      const drop = new Set(drafts.slice(0, Math.max(1, Math.ceil(drafts.length / 4))).map((v) => v.id));
+      next = { ...next, versions: next.versions.filter((v) => !drop.has(v.id)) };
+    }
+  }
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Catalogue entries are reported under the pseudo-region "Tier catalogue" (regionId ""). */
+const CATALOGUE = { regionId: "", regionName: "Tier catalogue" };
+
+const describeIndirects = (t: TierDefinition) => {
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+  const r = t.indirects;
+  return `GC ${pct(r.generalConditionsRate)} · GL ${pct(r.glInsuranceRate)} · Contingency ${pct(r.contingencyRate)} · Fee ${pct(r.feeRate)}`;
+};
+
+function diffTierCatalogue(a: TierDefinition[], b: TierDefinition[], out: LibraryChange[]) {
+  for (const t of b) {
+    const prev = a.find((x) => x.id === t.id);
+    const at = { ...CATALOGUE, tier: t.id, tierName: t.label };
+    if (!prev) {
+      out.push({ ...at, field: "tier", from: null, to: t.label });
+      continue;
+    }
+    if (prev.label !== t.label) out.push({ ...at, field: "name", from: prev.label, to: t.label });
+    if (describeIndirects(prev) !== describeIndirects(t)) out.push({ ...at, field: "indirects", from: describeIndirects(prev), to: describeIndirects(t) });
+  }
+  for (const t of a) {
+    if (!b.some((x) => x.id === t.id)) out.push({ ...CATALOGUE, tier: t.id, tierName: t.label, field: "tier", from: t.label, to: null });
+  }
+
+  const kept = (list: TierDefinition[], other: TierDefinition[]) => list.filter((t) => other.some((x) => x.id === t.id));
+  const orderA = kept(a, b);
+  kept(b, a).forEach((t, i) => {
+    if (orderA[i]?.id === t.id) return;
+    out.push({ ...CATALOGUE, tier: t.id, tierName: t.label, field: "order", from: orderA.findIndex((x) => x.id === t.id) + 1, to: i + 1 });
+  });
+}
+
+function diffRegion(a: RegionEntry, b: RegionEntry, tiers: TierDefinition[], out: LibraryChange[]) {
+  const base = { regionId: b.id, regionName: b.name };
+  if (a.name !== b.name) out.push({ ...base, tier: null, field: "name", from: a.name, to: b.name });
+  if ((a.parentId ?? null) !== (b.parentId ?? null)) out.push({ ...base, tier: null, field: "parent", from: a.parentId ?? null, to: b.parentId ?? null });
+  if (!!a.archived !== !!b.archived) out.push({ ...base, tier: null, field: "archived", from: a.archived ? "archived" : "active", to: b.archived ? "archived" : "active" });
+  if ((a.inherit?.factor ?? null) !== (b.inherit?.factor ?? null)) {
+    out.push({ ...base, tier: null, field: "inherit", from: a.inherit?.factor ?? null, to: b.inherit?.factor ?? null });
+  }
+
+  // Tiers added to / removed from the catalogue are reported once, by diffTierCatalogue
+  for (const { id: tier, label } of tiers) {
+    const x = a.byTier[tier];
+    const y = b.byTier[tier];
+    if (!x || !y) continue;
+    const at = { ...base, tier, tierName: label };
+    if (x.name !== y.name) out.push({ ...at, field: "name", from: x.name, to: y.name });
+    if (x.currency !== y.currency) out.push({ ...at, field: "currency", from: x.currency, to: y.currency });
+    if ((x.effectiveDate ?? "") !== (y.effectiveDate ?? "")) {
+      out.push({ ...at, field: "effectiveDate", from: x.effectiveDate ?? null, to: y.effectiveDate ?? null });
+    }
+
+    for (const cat of VMX_CATEGORIES) {
+      for (const band of BANDS) {
+        const bx = x.bands.find((z) => z.categoryId === cat.id && z.band === band);
+        const by = y.bands.find((z) => z.categoryId === cat.id && z.band === band);
+        if ((bx?.psqft ?? null) !== (by?.psqft ?? null)) {
+          out.push({ ...at, categoryId: cat.id, field: band, from: bx?.psqft ?? null, to: by?.psqft ?? null });
+        }
+        if (!sameJson(bx?.provenance, by?.provenance)) {
+          out.push({ ...at, categoryId: cat.id, field: "provenance", from: bx?.provenance?.source ?? null, to: by?.provenance?.source ?? null });
+        }
+      }
+      const rx = x.targetRanges.find((r) => r.categoryId === cat.id);
+      const ry = y.targetRanges.find((r) => r.categoryId === cat.id);
+      if ((rx?.minPct ?? null) !== (ry?.minPct ?? null)) out.push({ ...at, categoryId: cat.id, field: "minPct", from: rx?.minPct ?? null, to: ry?.minPct ?? null });
+      if ((rx?.maxPct ?? null) !== (ry?.maxPct ?? null)) out.push({ ...at, categoryId: cat.id, field: "maxPct", from: rx?.maxPct ?? null, to: ry?.maxPct ?? null });
+    }
+
+    if (!sameJson(x.subElements ?? [], y.subElements ?? [])) {
+      out.push({ ...at, field: "subElements", from: x.subElements?.length ?? 0, to: y.subElements?.length ?? 0 });
+    }
+  }
+}
+
+/** Cell-level differences from `a` to `b` (regions matched by id). */
+export function diffLibraryVersions(a: BenchmarkLibrary, b: BenchmarkLibrary): LibraryChange[] {
+  const out: LibraryChange[] = [];
+  diffTierCatalogue(a.tiers, b.tiers, out);
+  for (const r of b.regions) {
+    const prev = a.regions.find((x) => x.id === r.id);
+    if (prev) diffRegion(prev, r, b.tiers, out);
+    else out.push({ regionId: r.id, regionName: r.name, tier: null, field: "region", from: null, to: r.name });
+  }
+  for (const r of a.regions) {
+    if (!b.regions.some((x) => x.id === r.id)) out.push({ regionId: r.id, regionName: r.name, tier: null, field: "region", from: r.name, to: null });
+  }
+
+  // Picker (tree) order, counting only regions present in both versions
+  const kept = (lib: BenchmarkLibrary, other: BenchmarkLibrary) =>
+    regionTree(lib)
+      .map((row) => row.region)
+      .filter((r) => other.regions.some((x) => x.id === r.id));
+  const orderA = kept(a, b);
+  const orderB = kept(b, a);
+  orderB.forEach((r, i) => {
+    if (orderA[i]?.id === r.id) return;
+    const from = orderA.findIndex((x) => x.id === r.id);
+    out.push({ regionId: r.id, regionName: r.name, tier: null, field: "order", from: from + 1, to: i + 1 });
+  });
+  return out;
+}
+
+function placeOf(c: LibraryChange): string {
+  if (!c.tier) return c.regionName;
+  return `${c.regionName} / ${c.tierName ?? tierLabel(c.tier)}`;
+}
+
+export function describeLibraryChange(c: LibraryChange, formatRate: (psqft: number) => string = (n) => String(n)): string {
+  const where = placeOf(c);
+  const cat = c.categoryId ? VMX_CATEGORIES.find((x) => x.id === c.categoryId)?.label ?? c.categoryId : "";
+  const show = (v: number | string | null, fmt: (n: number) => string) => (v === null ? "—" : typeof v === "number" ? fmt(v) : v || "—");
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+  switch (c.field) {
+    case "region":
+      return c.from === null ? `Region added: ${c.to}` : `Region removed: ${c.from}`;
+    case "tier":
+      return c.from === null ? `Tier added: ${c.to}` : `Tier removed: ${c.from}`;
+    case "parent":
+      return `${where} · parent: ${show(c.from, String)} → ${show(c.to, String)}`;
+    case "archived":
+      return `${where} · ${c.to === "archived" ? "archived" : "unarchived"}`;
+    case "inherit":
+      return c.to === null
+        ? `${where} · stopped following parent`
+        : `${where} · follows parent ×${Number(c.to).toFixed(2)}${c.from === null ? "" : ` (was ×${Number(c.from).toFixed(2)})`}`;
+    case "order":
+      return `${where} · moved from position ${c.from} to ${c.to}`;
+    case "LOW":
+    case "MEDIUM":
+    case "HIGH":
+      return `${where} · ${cat} ${c.field}: ${show(c.from, formatRate)} → ${show(c.to, formatRate)}`;
+    case "minPct":
+    case "maxPct":
+      return `${where} · ${cat} target ${c.field === "minPct" ? "min" : "max"}: ${show(c.from, pct)} → ${show(c.to, pct)}`;
+    case "provenance":
+      return `${where} · ${cat} source: ${show(c.from, String)} → ${show(c.to, String)}`;
+    case "subElements":
+      return `${where} · sub-elements: ${c.from} → ${c.to}`;
+    case "effectiveDate":
+      return `${where} · effective date: ${show(c.from, String)} → ${show(c.to, String)}`;
+    default:
+      return `${where} · ${c.field}: ${show(c.from, String)} → ${show(c.to, String)}`;
+  }
+}
+
+/** One-line summary of a change list ("4 band, 1 range change(s) in US / Reserve"). */
+export function summarizeLibraryChanges(changes: LibraryChange[]): string {
+  if (!changes.length) return "No changes";
+  const bands = changes.filter((c) => BANDS.includes(c.field as HeatBand)).length;
+  const ranges = changes.filter((c) => c.field === "minPct" || c.field === "maxPct").length;
+  const other = changes.length - bands - ranges;
+  const parts = [bands ? `${bands} band` : "", ranges ? `${ranges} range` : "", other ? `${other} other` : ""].filter(Boolean);
+  const places = [...new Set(changes.map(placeOf))];
+  return `${parts.join(", ")} change(s) in ${places.length > 2 ? `${places.length} region/tier sets` : places.join(", ")}`;
+}
+
+function touchedKeys(changes: LibraryChange[]): string {
+  return [...new Set(changes.map((c) => `${c.regionId}::${c.tier ?? ""}`))].sort().join("|");
+}
+
+function createVersionId(): string {
+  return `lv_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+function prune(versions: LibraryVersion[]): LibraryVersion[] {
+  let excess = versions.length - MAX_VERSIONS;
+  if (excess <= 0) return versions;
+  // Keep the latest version and every published one
+  return versions.filter((v, i) => {
+    if (excess <= 0 || v.published || i === versions.length - 1) return true;
+    excess--;
+    return false;
+  });
+}
+
+/**
+ * Adds `lib` as a new version unless it matches the latest one. An un-noted,
+ * unpublished, unreferenced latest version by the same author touching the
+ * same region / tier sets within FOLD_WINDOW_MS of its first edit is updated
+ * in place instead.
+ */
+export function recordLibraryVersion(h: LibraryHistoryV1, lib: BenchmarkLibrary, nowIso: string, note = ""): LibraryHistoryV1 {
+  const author = h.author.trim();
+  const latest = h.versions[h.versions.length - 1];
+
+  if (!latest) {
+    const first: LibraryVersion = { id: createVersionId(), number: 1, createdAtIso: nowIso, author, note: note || "Initial library", changes: [], library: lib };
+    return { ...h, versions: [first] };
+  }
+
+  const changes = diffLibraryVersions(latest.library, lib);
+  if (!changes.length) return h;
+
+  const previous = h.versions[h.versions.length - 2];
+  const canFold =
+    !!previous &&
+    !note &&
+    !latest.note &&
+    !latest.published &&
+    !latest.referenced &&
+    latest.author === author &&
+    Date.parse(nowIso) - Date.parse(latest.createdAtIso) < FOLD_WINDOW_MS &&
+    touchedKeys(changes) === touchedKeys(latest.changes);
+
+  if (canFold) {
+    const folded = diffLibraryVersions(previous.library, lib);
+    // Edited back to the previous version: drop the draft entirely
+    if (!folded.length) return { ...h, versions: h.versions.slice(0, -1) };
+    return { ...h, versions: [...h.versions.slice(0, -1), { ...latest, updatedAtIso: nowIso, changes: folded, library: lib }] };
+  }
+
+  const next: LibraryVersion = { id: createVersionId(), number: latest.number + 1, createdAtIso: nowIso, author, note, changes, library: lib };
+  return { ...h, versions: prune([...h.versions, next]) };
+}
+
+export function publishLibraryVersion(h: LibraryHistoryV1, versionId: string, tag: string, nowIso: string): LibraryHistoryV1 {
+  const published: LibraryPublication = { tag: tag.trim() || "Published", atIso: nowIso, by: h.author.trim() };
+  return { ...h, versions: h.versions.map((v) => (v.id === versionId ? { ...v, published } : v)) };
+}
+
+export function unpublishLibraryVersion(h: LibraryHistoryV1, versionId: string): LibraryHistoryV1 {
+  return { ...h, versions: h.versions.map((v) => (v.id === versionId ? { ...v, published: undefined } : v)) };
+}
+
+/**
+ * Current library with one region / tier set taken from an older version.
+ * A region that no longer exists is restored whole. Null when the version
+ * does not contain the region.
+ */
+export function rollbackRegionTier(current: BenchmarkLibrary, source: BenchmarkLibrary, regionId: string, tier: TierId): BenchmarkLibrary | null {
+  const region = source.regions.find((r) => r.id === regionId);
+  if (!region || !region.byTier[tier] || !current.tiers.some((t) => t.id === tier)) return null;
+  if (!current.regions.some((r) => r.id === regionId)) {
+    // Re-validated so a parent that no longer exists is dropped
+    return validateLibrary({ ...current, regions: [...current.regions, region] }).library;
+  }
+  return updateBenchmarkForRegionTier(current, regionId, tier, region.byTier[tier]);
+}
+
+/** Freezes a version once an estimate records it, so later edits start a new version */
+export function markLibraryVersionReferenced(h: LibraryHistoryV1, versionId: string): LibraryHistoryV1 {
+  if (!h.versions.some((v) => v.id === versionId && !v.referenced)) return h;
+  return { ...h, versions: h.versions.map((v) => (v.id === versionId ? { ...v, referenced: true } : v)) };
+}
+
+export function libraryVersionRef(h: LibraryHistoryV1): LibraryVersionRef | undefined {
+  const latest = h.versions[h.versions.length - 1];
+  if (!latest) return undefined;
+  const lastPublished = [...h.versions].reverse().find((v) => v.published);
+  return {
+    id: latest.id,
+    number: latest.number,
+    createdAtIso: latest.createdAtIso,
+    publishedTag: latest.published?.tag,
+    lastPublished: !latest.published && lastPublished?.published ? { number: lastPublished.number, tag: lastPublished.published.tag } : undefined,
+  };
+}
+
+export function describeLibraryVersionRef(ref: LibraryVersionRef | undefined): string {
+  if (!ref) return "Library version not recorded";
+  if (ref.publishedTag) return `Library v${ref.number} — published "${ref.publishedTag}"`;
+  return `Library v${ref.number} — draft${ref.lastPublished ? ` (last published v${ref.lastPublished.number} "${ref.lastPublished.tag}")` : ""}`;
+}
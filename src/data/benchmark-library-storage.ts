@@ -1,36 +1,94 @@
 import {
+  BandProvenance,
+  BenchmarkBand,
   BenchmarkSet,
   HeatBand,
+  PROVENANCE_CONFIDENCES,
+  ProvenanceConfidence,
+  SubElementBenchmark,
   VMX_CATEGORIES,
+  VmxCategoryId,
   ensureCompleteTargetRanges,
+  rollUpSubElements,
 } from "../domain/vmx-domain";
 import { demoBenchmark, demoBenchmarkME } from "./demo-benchmark";
 
-export type TierId = "select" | "reserve" | "signature" | "legacy";
-export const TIERS: TierId[] = ["select", "reserve", "signature", "legacy"];
+/** Slug id from the library tier catalogue (built-ins: select / reserve / signature / legacy) */
+export type TierId = string;
 
-export function tierLabel(t: TierId) {
-  return t === "select"
-    ? "Select"
-    : t === "reserve"
-      ? "Reserve"
-      : t === "signature"
-        ? "Signature"
-        : "Legacy";
+/** Default construction indirect rates for a tier (fractions, e.g. 0.08 = 8%) */
+export type TierIndirectRates = {
+  generalConditionsRate: number;
+  glInsuranceRate: number;
+  contingencyRate: number;
+  feeRate: number;
+};
+
+export type TierDefinition = {
+  id: TierId;
+  label: string;
+  /** Ascending; pickers, tables and exports list tiers in this order */
+  sort: number;
+  indirects: TierIndirectRates;
+};
+
+/** Catalogue of libraries saved before tiers were configurable (midpoints of typical US luxury ranges, 2025) */
+export const DEFAULT_TIERS: TierDefinition[] = [
+  { id: "select", label: "Select", sort: 10, indirects: { generalConditionsRate: 0.06, glInsuranceRate: 0.01, contingencyRate: 0.05, feeRate: 0.1 } },
+  { id: "reserve", label: "Reserve", sort: 20, indirects: { generalConditionsRate: 0.08, glInsuranceRate: 0.01, contingencyRate: 0.05, feeRate: 0.12 } },
+  { id: "signature", label: "Signature", sort: 30, indirects: { generalConditionsRate: 0.1, glInsuranceRate: 0.0125, contingencyRate: 0.08, feeRate: 0.14 } },
+  { id: "legacy", label: "Legacy", sort: 40, indirects: { generalConditionsRate: 0.13, glInsuranceRate: 0.015, contingencyRate: 0.12, feeRate: 0.16 } },
+];
+
+/** Tier ids of the library, in catalogue order. */
+export function tierIds(lib: BenchmarkLibrary): TierId[] {
+  return lib.tiers.map((t) => t.id);
+}
+
+/** Label from the given catalogue; unknown ids (e.g. a tier removed since a snapshot) show as the id. */
+export function tierLabel(t: TierId, tiers: TierDefinition[] = DEFAULT_TIERS): string {
+  return tiers.find((x) => x.id === t)?.label ?? DEFAULT_TIERS.find((x) => x.id === t)?.label ?? t;
 }
 
+/** Fallback tier for new scenarios and for references to a removed tier: Reserve when present, else the middle tier. */
+export function defaultTierId(tiers: TierDefinition[]): TierId {
+  return tiers.find((t) => t.id === "reserve")?.id ?? tiers[Math.floor((tiers.length - 1) / 2)]?.id ?? "reserve";
+}
+
+/** `tier` when the catalogue has it, else defaultTierId. */
+export function safeTierId(tiers: TierDefinition[], tier: unknown): TierId {
+  return typeof tier === "string" && tiers.some((t) => t.id === tier) ? tier : defaultTierId(tiers);
+}
+
+export type RegionInheritance = {
+  /** Multiplier on the parent's rates (e.g. 1.15 for a pricier sub-market) */
+  factor: number;
+  /** Cells kept as entered instead of following the parent ("CATEGORY::BAND"), per tier */
+  overrides: Partial<Record<TierId, string[]>>;
+};
+
 export type RegionEntry = {
   id: string;
   name: string;
   byTier: Record<TierId, BenchmarkSet>;
+  /** Grouping parent (US → Florida → Palm Beach); absent for top-level regions */
+  parentId?: string;
+  /** Hidden from region pickers; still priced for scenarios and snapshots that use it */
+  archived?: boolean;
+  /** Band rates follow the parent (× factor) except overridden cells; needs parentId */
+  inherit?: RegionInheritance;
 };
 
 export type BenchmarkLibrary = {
-  version: 2;
+  version: 3;
+  /** Sorted by `sort`; every region has a BenchmarkSet for each tier */
+  tiers: TierDefinition[];
   regions: RegionEntry[];
 };
 
-const LIB_KEY = "vmx_benchmark_library_v2";
+const LIB_KEY = "vmx_benchmark_library_v3";
+/** Version 2 libraries (fixed four tiers) are migrated from here on first load */
+const LEGACY_LIB_KEY = "vmx_benchmark_library_v2";
 const SEL_KEY = "vmx_benchmark_library_selection_v1";
 
 const HEAT_BANDS: HeatBand[] = ["LOW", "MEDIUM", "HIGH"] as unknown as HeatBand[];
@@ -86,24 +144,25 @@ function demoForRegion(region: { id: string; name: string }): BenchmarkSet {
   return looksLikeME(region) ? demoBenchmarkME : demoBenchmark;
 }
 
-function makeDemoBenchmark(base: BenchmarkSet, regionLabel: string, tier: TierId): BenchmarkSet {
+function makeDemoBenchmark(base: BenchmarkSet, regionLabel: string, tier: TierId, tiers: TierDefinition[] = DEFAULT_TIERS): BenchmarkSet {
   const next = cloneBenchmarkSet(base);
   next.id = `demo-${regionLabel.toLowerCase()}-${tier}`;
-  next.name = `${regionLabel} — Demo — ${tierLabel(tier)}`;
+  next.name = `${regionLabel} — Demo — ${tierLabel(tier, tiers)}`;
   return next;
 }
 
 function buildDemoLibrary(): BenchmarkLibrary {
   const usByTier = Object.fromEntries(
-    TIERS.map((t) => [t, makeDemoBenchmark(demoBenchmark, "US", t)])
+    DEFAULT_TIERS.map((t) => [t.id, makeDemoBenchmark(demoBenchmark, "US", t.id)])
   ) as Record<TierId, BenchmarkSet>;
 
   const meByTier = Object.fromEntries(
-    TIERS.map((t) => [t, makeDemoBenchmark(demoBenchmarkME, "ME", t)])
+    DEFAULT_TIERS.map((t) => [t.id, makeDemoBenchmark(demoBenchmarkME, "ME", t.id)])
   ) as Record<TierId, BenchmarkSet>;
 
   return {
-    version: 2,
+    version: 3,
+    tiers: DEFAULT_TIERS,
     regions: [
       { id: "us", name: "US", byTier: usByTier },
       { id: "me", name: "ME", byTier: meByTier },
@@ -111,15 +170,71 @@ function buildDemoLibrary(): BenchmarkLibrary {
   };
 }
 
+/** Collects human-readable fix-ups while normalizing (library import reports them). */
+type FixLog = { fixes: string[]; path: string };
+
+/** Optional UniFormat L2 sub-elements; drops malformed entries, returns undefined when there are none. */
+function normalizeSubElements(input: unknown, log?: FixLog): SubElementBenchmark[] | undefined {
+  if (!Array.isArray(input)) return undefined;
+  const catIds = getCategoryIds();
+  const seen = new Set<string>();
+  const out: SubElementBenchmark[] = [];
+  input.forEach((s, i) => {
+    if (!isObject(s) || typeof s.id !== "string" || !s.id || seen.has(s.id)) {
+      log?.fixes.push(`${log.path}: sub-element #${i + 1} dropped (missing or duplicate id)`);
+      return;
+    }
+    if (typeof s.parentId !== "string" || !catIds.includes(s.parentId)) {
+      log?.fixes.push(`${log.path}: sub-element "${s.id}" dropped (unknown parent category "${String(s.parentId)}")`);
+      return;
+    }
+    const rates = isObject(s.psqft) ? s.psqft : {};
+    const psqft = {} as Record<HeatBand, number>;
+    for (const band of HEAT_BANDS) {
+      const n = Number(rates[band]);
+      if (!Number.isFinite(n) || n < 0) log?.fixes.push(`${log.path}: sub-element "${s.id}" ${band} rate set to 0`);
+      psqft[band] = Number.isFinite(n) ? Math.max(0, n) : 0;
+    }
+    seen.add(s.id);
+    out.push({
+      id: s.id,
+      parentId: s.parentId as VmxCategoryId,
+      label: typeof s.label === "string" && s.label.trim() ? s.label : s.id,
+      code: typeof s.code === "string" && s.code ? s.code : undefined,
+      psqft,
+    });
+  });
+  return out.length ? out : undefined;
+}
+
+/** Band provenance is optional; a malformed one is dropped rather than half-kept. */
+function normalizeProvenance(input: unknown): BandProvenance | undefined {
+  if (!isObject(input) || typeof input.source !== "string") return undefined;
+  const n = Number(input.sampleCount);
+  return {
+    source: input.source,
+    effectiveDate: typeof input.effectiveDate === "string" ? input.effectiveDate : "",
+    sampleCount: Number.isFinite(n) && n > 0 ? Math.round(n) : 0,
+    confidence: PROVENANCE_CONFIDENCES.includes(input.confidence as ProvenanceConfidence) ? (input.confidence as ProvenanceConfidence) : "medium",
+    author: typeof input.author === "string" ? input.author : "",
+  };
+}
+
 function normalizeBenchmarkSet(
   input: unknown,
   fallback: BenchmarkSet,
-  nameHint?: string
+  nameHint?: string,
+  log?: FixLog
 ): { next: BenchmarkSet; changed: boolean } {
   let changed = false;
+  const fix = (msg: string) => {
+    changed = true;
+    log?.fixes.push(`${log.path}: ${msg}`);
+  };
 
   if (!isObject(input)) {
-    return { next: cloneBenchmarkSet(fallback), changed: true };
+    fix("missing or not an object — replaced with demo values");
+    return { next: cloneBenchmarkSet(fallback), changed };
   }
 
   const base: any = input;
@@ -131,17 +246,21 @@ function normalizeBenchmarkSet(
     bands: [],
     targetRanges: base.targetRanges ?? (fallback as any).targetRanges ?? [],
   };
+  // id / name / currency fall back silently for stored libraries (historic behaviour), but imports report them
+  if (typeof base.id !== "string") log?.fixes.push(`${log.path}: id missing — set to "${next.id}"`);
+  if (typeof base.name !== "string") log?.fixes.push(`${log.path}: name missing — set to "${next.name}"`);
+  if (typeof base.currency !== "string") log?.fixes.push(`${log.path}: currency missing — set to ${next.currency}`);
 
   // --- bands ---
   const catIds = getCategoryIds();
   const rawBands: any[] = Array.isArray(base.bands) ? base.bands : [];
-  if (!Array.isArray(base.bands)) changed = true;
+  if (!Array.isArray(base.bands)) fix("bands missing");
 
-  const cleaned: { categoryId: string; band: HeatBand; psqft: number }[] = [];
-  for (const b of rawBands) {
+  const cleaned: BenchmarkBand[] = [];
+  rawBands.forEach((b, i) => {
     if (!isObject(b)) {
-      changed = true;
-      continue;
+      fix(`band entry #${i + 1} dropped (not an object)`);
+      return;
     }
     const categoryId = typeof b.categoryId === "string" ? b.categoryId : undefined;
     const band = typeof b.band === "string" ? (b.band as HeatBand) : undefined;
@@ -153,13 +272,20 @@ function normalizeBenchmarkSet(
           : NaN;
 
     if (!categoryId || !band || !Number.isFinite(psqft)) {
-      changed = true;
-      continue;
+      fix(`band entry #${i + 1} dropped (needs categoryId, band and a numeric psqft)`);
+      return;
     }
-    cleaned.push({ categoryId, band, psqft });
-  }
+    if (!catIds.includes(categoryId) || !HEAT_BANDS.includes(band)) {
+      fix(`band entry #${i + 1} dropped (unknown category / band "${categoryId} ${band}")`);
+      return;
+    }
+    if (typeof b.psqft === "string") log?.fixes.push(`${log.path}: ${categoryId} ${band} rate converted from text`);
+    const provenance = normalizeProvenance(b.provenance);
+    if (b.provenance !== undefined && !provenance) log?.fixes.push(`${log.path}: ${categoryId} ${band} provenance dropped (needs a source)`);
+    cleaned.push(provenance ? { categoryId: categoryId as VmxCategoryId, band, psqft, provenance } : { categoryId: categoryId as VmxCategoryId, band, psqft });
+  });
 
-  const map = new Map<string, { categoryId: string; band: HeatBand; psqft: number }>();
+  const map = new Map<string, BenchmarkBand>();
   for (const b of cleaned) map.set(`${b.categoryId}::${b.band}`, b);
 
   // Ensure every category has LOW/MEDIUM/HIGH entries (avoid downstream undefined reads)
@@ -167,17 +293,46 @@ function normalizeBenchmarkSet(
     for (const band of HEAT_BANDS) {
       const key = `${catId}::${band}`;
       if (!map.has(key)) {
-        map.set(key, { categoryId: catId, band, psqft: 0 });
-        changed = true;
+        map.set(key, { categoryId: catId as VmxCategoryId, band, psqft: 0 });
+        fix(`${catId} ${band} rate missing — set to 0`);
       }
     }
   }
 
   next.bands = Array.from(map.values());
 
+  // --- optional sub-elements (category bands roll up from them) ---
+  const subElements = normalizeSubElements(base.subElements, log);
+  if (subElements) {
+    next.subElements = subElements;
+    const rolled = rollUpSubElements(next as BenchmarkSet).bands;
+    const round = (n: number) => Math.round(n * 100) / 100;
+    rolled.forEach((b, i) => {
+      const before = next.bands[i] as BenchmarkBand;
+      if (Math.abs(b.psqft - before.psqft) > 1e-9) {
+        fix(`${b.categoryId} ${b.band} rate ${round(before.psqft)} → ${round(b.psqft)} (rolled up from sub-elements)`);
+      }
+    });
+    next.bands = rolled;
+  } else if (base.subElements !== undefined) {
+    fix("sub-elements removed (none were valid)");
+  }
+
+  // --- effective date (optional, YYYY-MM) ---
+  if (typeof base.effectiveDate === "string" && /^\d{4}-(0[1-9]|1[0-2])$/.test(base.effectiveDate)) {
+    next.effectiveDate = base.effectiveDate;
+  } else if (base.effectiveDate !== undefined) {
+    fix(`effective date "${String(base.effectiveDate)}" dropped (not YYYY-MM)`);
+  }
+
   // --- targetRanges ---
+  const rawRanges: any[] = Array.isArray(next.targetRanges) ? next.targetRanges : [];
+  const missingRanges = catIds.filter((id) => !rawRanges.some((r) => isObject(r) && r.categoryId === id));
   try {
-    next.targetRanges = ensureCompleteTargetRanges(next.targetRanges as any);
+    next.targetRanges = ensureCompleteTargetRanges(next as BenchmarkSet);
+    if (missingRanges.length) {
+      log?.fixes.push(`${log.path}: target range missing for ${missingRanges.join(", ")} — derived from Medium band mix`);
+    }
   } catch {
     // If ensureCompleteTargetRanges signature changes, do not hard-fail app boot.
     // The UI will still render, and the user can re-save to normalize later.
@@ -186,55 +341,235 @@ function normalizeBenchmarkSet(
   return { next: next as BenchmarkSet, changed };
 }
 
+function clampIndirect(v: unknown, fallback: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.max(0, Math.min(1, n)) : fallback;
+}
+
+/** Tier catalogue: unique slug ids, sorted; libraries without one (version 2) get DEFAULT_TIERS. */
+function normalizeTiers(input: unknown, fixes?: string[]): { next: TierDefinition[]; changed: boolean } {
+  if (!Array.isArray(input)) return { next: DEFAULT_TIERS, changed: true };
+
+  let changed = false;
+  const tiers: TierDefinition[] = [];
+  input.forEach((raw, i) => {
+    const id = isObject(raw) && typeof raw.id === "string" ? slugify(raw.id) : "";
+    if (!isObject(raw) || !id || tiers.some((t) => t.id === id)) {
+      changed = true;
+      fixes?.push(`Tier #${i + 1} dropped (needs a unique id)`);
+      return;
+    }
+    const builtIn = DEFAULT_TIERS.find((t) => t.id === id) ?? DEFAULT_TIERS[1];
+    const ind = isObject(raw.indirects) ? raw.indirects : {};
+    const sort = Number(raw.sort);
+    tiers.push({
+      id,
+      label: typeof raw.label === "string" && raw.label.trim() ? raw.label.trim() : id,
+      sort: Number.isFinite(sort) ? sort : (i + 1) * 10,
+      indirects: {
+        generalConditionsRate: clampIndirect(ind.generalConditionsRate, builtIn.indirects.generalConditionsRate),
+        glInsuranceRate: clampIndirect(ind.glInsuranceRate, builtIn.indirects.glInsuranceRate),
+        contingencyRate: clampIndirect(ind.contingencyRate, builtIn.indirects.contingencyRate),
+        feeRate: clampIndirect(ind.feeRate, builtIn.indirects.feeRate),
+      },
+    });
+  });
+
+  if (tiers.length === 0) {
+    fixes?.push("No valid tiers — default catalogue used");
+    return { next: DEFAULT_TIERS, changed: true };
+  }
+  return { next: sortTiers(tiers), changed };
+}
+
+function sortTiers(tiers: TierDefinition[]): TierDefinition[] {
+  return [...tiers].sort((a, b) => a.sort - b.sort || a.id.localeCompare(b.id));
+}
+
 function normalizeByTier(
   inputByTier: unknown,
   region: { id: string; name: string },
-  demoBase: BenchmarkSet
+  demoBase: BenchmarkSet,
+  tiers: TierDefinition[],
+  fixes?: string[]
 ): { next: Record<TierId, BenchmarkSet>; changed: boolean } {
   let changed = false;
   const byTier: Record<TierId, BenchmarkSet> = {} as any;
 
   const src = isObject(inputByTier) ? (inputByTier as any) : {};
-  if (!isObject(inputByTier)) changed = true;
+  if (!isObject(inputByTier)) {
+    changed = true;
+    fixes?.push(`${region.name}: tiers missing — every tier seeded with demo values`);
+  }
 
-  for (const t of TIERS) {
-    const fallback = makeDemoBenchmark(demoBase, region.name, t);
-    const { next, changed: c } = normalizeBenchmarkSet(src[t], fallback, `${region.name} — ${tierLabel(t)}`);
+  // Catalogue ids are slugged; a region may still key its rates by the raw id (e.g. "Super Luxury")
+  const sourceKey = (t: TierId) => (t in src ? t : Object.keys(src).find((k) => slugify(k) === t));
+
+  for (const { id: t, label } of tiers) {
+    const fallback = makeDemoBenchmark(demoBase, region.name, t, tiers);
+    const log = fixes && isObject(inputByTier) ? { fixes, path: `${region.name} / ${label}` } : undefined;
+    const key = sourceKey(t);
+    if (key !== undefined && key !== t) {
+      changed = true;
+      fixes?.push(`${region.name}: tier "${key}" renamed to "${t}"`);
+    }
+    const { next, changed: c } = normalizeBenchmarkSet(key === undefined ? undefined : src[key], fallback, `${region.name} — ${label}`, log);
     if (c) changed = true;
     byTier[t] = next;
   }
+  for (const key of Object.keys(src)) {
+    if (tiers.some((t) => sourceKey(t.id) === key)) continue;
+    changed = true;
+    fixes?.push(`${region.name}: tier "${key}" is not in the tier catalogue — dropped`);
+  }
 
   return { next: byTier, changed };
 }
 
-function migrateLibrary(input: unknown): { next: BenchmarkLibrary; changed: boolean } {
+/**
+ * Validates and repairs anything that claims to be a library. `fixes` (when
+ * given) receives one line per field that had to be dropped or defaulted.
+ */
+function migrateLibrary(input: unknown, fixes?: string[]): { next: BenchmarkLibrary; changed: boolean } {
   const demoLib = buildDemoLibrary();
 
   if (!isObject(input) || !Array.isArray((input as any).regions)) {
+    fixes?.push("No regions found — demo library used");
     return { next: demoLib, changed: true };
   }
 
   const inLib: any = input;
-  let changed = inLib.version !== 2;
+  let changed = inLib.version !== 3;
+  if (changed) fixes?.push(`Library version ${String(inLib.version)} migrated to 3`);
+
+  const { next: tiers, changed: tiersChanged } = normalizeTiers(inLib.tiers, fixes);
+  if (tiersChanged) changed = true;
 
   const regions: RegionEntry[] = [];
-  for (const r of inLib.regions as any[]) {
+  (inLib.regions as any[]).forEach((r, i) => {
     if (!isObject(r) || typeof r.id !== "string" || typeof r.name !== "string") {
       changed = true;
-      continue;
+      fixes?.push(`Region #${i + 1} dropped (needs a string id and name)`);
+      return;
+    }
+    if (regions.some((x) => x.id === r.id)) {
+      changed = true;
+      fixes?.push(`Region "${r.name}" dropped (duplicate id "${r.id}")`);
+      return;
     }
 
     const region = { id: r.id, name: r.name };
     const demoBase = demoForRegion(region);
-    const { next: byTier, changed: c } = normalizeByTier(r.byTier, region, demoBase);
+    const { next: byTier, changed: c } = normalizeByTier(r.byTier, region, demoBase, tiers, fixes);
     if (c) changed = true;
 
     regions.push({ id: region.id, name: region.name, byTier });
+  });
+
+  if (regions.length === 0) {
+    fixes?.push("No valid regions — demo library used");
+    return { next: demoLib, changed: true };
   }
 
-  if (regions.length === 0) return { next: demoLib, changed: true };
+  // Hierarchy, archive and inheritance need the full region list (parents may come later)
+  const raw: unknown[] = inLib.regions;
+  for (const region of regions) {
+    const r = raw.filter(isObject).find((x) => x.id === region.id);
+    if (!r) continue;
+    if (r.archived === true) region.archived = true;
 
-  return { next: { version: 2, regions }, changed };
+    if (r.parentId === undefined) continue;
+    if (typeof r.parentId !== "string" || !regions.some((x) => x.id === r.parentId) || r.parentId === region.id) {
+      changed = true;
+      fixes?.push(`${region.name}: parent "${String(r.parentId)}" not found — made top-level`);
+      continue;
+    }
+    region.parentId = r.parentId;
+
+    if (isObject(r.inherit)) {
+      const factor = Number(r.inherit.factor);
+      const overrides: Partial<Record<TierId, string[]>> = {};
+      for (const { id: t } of tiers) {
+        const list = isObject(r.inherit.overrides) ? r.inherit.overrides[t] : undefined;
+        if (Array.isArray(list)) overrides[t] = list.filter((k: unknown): k is string => typeof k === "string" && k.includes("::"));
+      }
+      region.inherit = { factor: Number.isFinite(factor) && factor > 0 ? factor : 1, overrides };
+    }
+  }
+  for (const region of regions) {
+    if (region.parentId && isAncestor(regions, region.id, region.parentId)) {
+      changed = true;
+      fixes?.push(`${region.name}: parent loop removed — made top-level`);
+      delete region.parentId;
+      delete region.inherit;
+    }
+  }
+
+  return { next: resolveRegionInheritance({ version: 3, tiers, regions }), changed };
+}
+
+/** True when `ancestorId` is `regionId` itself or sits above it in the parent chain starting at `parentId`. */
+function isAncestor(regions: RegionEntry[], ancestorId: string, parentId: string | undefined): boolean {
+  const seen = new Set<string>();
+  let cur = parentId;
+  while (cur && !seen.has(cur)) {
+    if (cur === ancestorId) return true;
+    seen.add(cur);
+    cur = regions.find((r) => r.id === cur)?.parentId;
+  }
+  return false;
+}
+
+export function bandKey(categoryId: string, band: HeatBand): string {
+  return `${categoryId}::${band}`;
+}
+
+function inheritTier(own: BenchmarkSet, parent: BenchmarkSet, factor: number, overrides: Set<string>): BenchmarkSet {
+  // Categories priced from the child's own sub-elements never follow the parent
+  const ownSubs = new Set((own.subElements ?? []).map((s) => s.parentId));
+  const bands = own.bands.map((b) => {
+    if (overrides.has(bandKey(b.categoryId, b.band)) || ownSubs.has(b.categoryId as VmxCategoryId)) return b;
+    const pb = parent.bands.find((x) => x.categoryId === b.categoryId && x.band === b.band);
+    if (!pb) return b;
+    const next: BenchmarkBand = { ...b, psqft: pb.psqft * factor };
+    if (pb.provenance) next.provenance = pb.provenance;
+    else delete next.provenance;
+    return next;
+  });
+
+  const next: BenchmarkSet = { ...own, bands };
+  // Fully inherited tiers are as current as the parent
+  if (overrides.size === 0) {
+    if (parent.effectiveDate) next.effectiveDate = parent.effectiveDate;
+    else delete next.effectiveDate;
+  }
+  return next;
+}
+
+/** Recomputes inherited cells of every inheriting region from its (resolved) parent. */
+export function resolveRegionInheritance(lib: BenchmarkLibrary): BenchmarkLibrary {
+  if (!lib.regions.some((r) => r.inherit && r.parentId)) return lib;
+
+  const resolved = new Map<string, RegionEntry>();
+  const resolve = (r: RegionEntry, depth: number): RegionEntry => {
+    const hit = resolved.get(r.id);
+    if (hit) return hit;
+    const parent = r.inherit && r.parentId ? lib.regions.find((x) => x.id === r.parentId) : undefined;
+    if (!r.inherit || !parent || depth > lib.regions.length) {
+      resolved.set(r.id, r);
+      return r;
+    }
+    const p = resolve(parent, depth + 1);
+    const byTier = { ...r.byTier };
+    for (const t of tierIds(lib)) {
+      byTier[t] = inheritTier(r.byTier[t], p.byTier[t], r.inherit.factor, new Set(r.inherit.overrides[t] ?? []));
+    }
+    const next = { ...r, byTier };
+    resolved.set(r.id, next);
+    return next;
+  };
+
+  return { ...lib, regions: lib.regions.map((r) => resolve(r, 0)) };
 }
 
 // --- Public API ---
@@ -243,7 +578,7 @@ export function getInitialLibrary(): BenchmarkLibrary {
   const demoLib = buildDemoLibrary();
 
   try {
-    const raw = localStorage.getItem(LIB_KEY);
+    const raw = localStorage.getItem(LIB_KEY) ?? localStorage.getItem(LEGACY_LIB_KEY);
     if (!raw) return demoLib;
 
     const parsed = JSON.parse(raw);
@@ -260,6 +595,13 @@ export function getInitialLibrary(): BenchmarkLibrary {
   }
 }
 
+/** Runs untrusted library data (e.g. an imported file) through the same validation as boot, reporting every fix-up. */
+export function validateLibrary(input: unknown): { library: BenchmarkLibrary; fixes: string[] } {
+  const fixes: string[] = [];
+  const { next } = migrateLibrary(input, fixes);
+  return { library: next, fixes };
+}
+
 export function saveLibrary(lib: BenchmarkLibrary) {
   try {
     localStorage.setItem(LIB_KEY, JSON.stringify(lib));
@@ -268,32 +610,185 @@ export function saveLibrary(lib: BenchmarkLibrary) {
   }
 }
 
-/**
- * Exported because BenchmarkLibraryAdmin imports it.
- */
-export function addRegion(lib: BenchmarkLibrary, name: string): BenchmarkLibrary {
+/** Slug id from a region name, suffixed (-2, -3…) until it is unused in the library. */
+export function uniqueRegionId(lib: BenchmarkLibrary, name: string): string {
   const baseId = slugify(name) || "region";
   let id = baseId;
   let n = 2;
   while (lib.regions.some((r) => r.id === id)) {
     id = `${baseId}-${n++}`;
   }
+  return id;
+}
+
+/**
+ * Exported because BenchmarkLibraryAdmin imports it.
+ */
+export function addRegion(lib: BenchmarkLibrary, name: string, parentId?: string): BenchmarkLibrary {
+  const id = uniqueRegionId(lib, name);
+  const parent = parentId ? lib.regions.find((r) => r.id === parentId) : undefined;
 
   // Seed with US demo values; user can overwrite after creation.
   const demoBase = demoBenchmark;
   const byTier = Object.fromEntries(
-    TIERS.map((t) => [t, makeDemoBenchmark(demoBase, name, t)])
+    lib.tiers.map((t) => [t.id, makeDemoBenchmark(demoBase, name, t.id, lib.tiers)])
   ) as Record<TierId, BenchmarkSet>;
 
-  const nextRegion: RegionEntry = { id, name, byTier };
+  // A sub-region starts out following its parent's rates
+  const nextRegion: RegionEntry = parent
+    ? { id, name, byTier, parentId: parent.id, inherit: { factor: 1, overrides: {} } }
+    : { id, name, byTier };
+
+  // Appended after the parent's last descendant (or at the end for a top-level region)
+  const regions = [...lib.regions];
+  let at = regions.length;
+  if (parent) {
+    at = regions.findIndex((r) => r.id === parent.id) + 1;
+    while (at < regions.length && isAncestor(regions, parent.id, regions[at].parentId)) at++;
+  }
+  regions.splice(at, 0, nextRegion);
+
+  return resolveRegionInheritance({ ...lib, regions });
+}
 
+/**
+ * Removes a region. Direct children move up to the deleted region's parent
+ * and stop inheriting (their current rates are kept as entered). The last
+ * region cannot be deleted.
+ */
+export function deleteRegion(lib: BenchmarkLibrary, regionId: string): BenchmarkLibrary {
+  const target = lib.regions.find((r) => r.id === regionId);
+  if (!target || lib.regions.length <= 1) return lib;
+
+  const regions = lib.regions
+    .filter((r) => r.id !== regionId)
+    .map((r) => {
+      if (r.parentId !== regionId) return r;
+      const next: RegionEntry = { ...r };
+      delete next.inherit;
+      if (target.parentId) next.parentId = target.parentId;
+      else delete next.parentId;
+      return next;
+    });
+  return resolveRegionInheritance({ ...lib, regions });
+}
+
+export function setRegionArchived(lib: BenchmarkLibrary, regionId: string, archived: boolean): BenchmarkLibrary {
   return {
     ...lib,
-    // Put new region at the top (BenchmarkLibraryAdmin assumes this)
-    regions: [nextRegion, ...lib.regions],
+    regions: lib.regions.map((r) => {
+      if (r.id !== regionId) return r;
+      const next: RegionEntry = { ...r };
+      if (archived) next.archived = true;
+      else delete next.archived;
+      return next;
+    }),
   };
 }
 
+/** Moves a region in front of `beforeId` (or to the end when null). */
+export function moveRegion(lib: BenchmarkLibrary, regionId: string, beforeId: string | null): BenchmarkLibrary {
+  const moving = lib.regions.find((r) => r.id === regionId);
+  if (!moving || regionId === beforeId) return lib;
+  const rest = lib.regions.filter((r) => r.id !== regionId);
+  const at = beforeId ? rest.findIndex((r) => r.id === beforeId) : -1;
+  rest.splice(at < 0 ? rest.length : at, 0, moving);
+  return { ...lib, regions: rest };
+}
+
+/**
+ * Re-parents a region (null = top-level). Returns the library unchanged when
+ * the new parent is the region itself or one of its descendants.
+ */
+export function setRegionParent(lib: BenchmarkLibrary, regionId: string, parentId: string | null): BenchmarkLibrary {
+  if (parentId && (!lib.regions.some((r) => r.id === parentId) || isAncestor(lib.regions, regionId, parentId))) return lib;
+  return resolveRegionInheritance({
+    ...lib,
+    regions: lib.regions.map((r) => {
+      if (r.id !== regionId) return r;
+      const next: RegionEntry = { ...r };
+      if (parentId) next.parentId = parentId;
+      else {
+        delete next.parentId;
+        delete next.inherit;
+      }
+      return next;
+    }),
+  });
+}
+
+/** factor = null stops inheriting (current rates are kept as entered). */
+export function setRegionInheritance(lib: BenchmarkLibrary, regionId: string, factor: number | null): BenchmarkLibrary {
+  return resolveRegionInheritance({
+    ...lib,
+    regions: lib.regions.map((r) => {
+      if (r.id !== regionId || !r.parentId) return r;
+      const next: RegionEntry = { ...r };
+      if (factor === null || !Number.isFinite(factor) || factor <= 0) delete next.inherit;
+      else next.inherit = { factor, overrides: r.inherit?.overrides ?? {} };
+      return next;
+    }),
+  });
+}
+
+/** Drops one override (or every override of the tier) so the cells follow the parent again. */
+export function clearRegionOverrides(lib: BenchmarkLibrary, regionId: string, tier: TierId, key?: string): BenchmarkLibrary {
+  return resolveRegionInheritance({
+    ...lib,
+    regions: lib.regions.map((r) => {
+      if (r.id !== regionId || !r.inherit) return r;
+      const list = key ? (r.inherit.overrides[tier] ?? []).filter((k) => k !== key) : [];
+      return { ...r, inherit: { ...r.inherit, overrides: { ...r.inherit.overrides, [tier]: list } } };
+    }),
+  });
+}
+
+/** The region itself plus everything below it (not valid as its new parent). */
+export function regionSubtreeIds(lib: BenchmarkLibrary, regionId: string): string[] {
+  return lib.regions.filter((r) => r.id === regionId || isAncestor(lib.regions, regionId, r.parentId)).map((r) => r.id);
+}
+
+export type RegionTreeRow = { region: RegionEntry; depth: number };
+
+/** Depth-first: top-level regions in library order, each followed by its children (also in library order). */
+export function regionTree(lib: BenchmarkLibrary): RegionTreeRow[] {
+  const out: RegionTreeRow[] = [];
+  const ids = new Set(lib.regions.map((r) => r.id));
+  const visit = (r: RegionEntry, depth: number) => {
+    if (out.some((x) => x.region.id === r.id)) return;
+    out.push({ region: r, depth });
+    for (const c of lib.regions) if (c.parentId === r.id) visit(c, depth + 1);
+  };
+  for (const r of lib.regions) if (!r.parentId || !ids.has(r.parentId)) visit(r, 0);
+  return out;
+}
+
+/** "US › Florida › Palm Beach" */
+export function regionPath(lib: BenchmarkLibrary, regionId: string): string {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let cur = lib.regions.find((r) => r.id === regionId);
+  while (cur && !seen.has(cur.id)) {
+    names.unshift(cur.name);
+    seen.add(cur.id);
+    cur = cur.parentId ? lib.regions.find((r) => r.id === cur?.parentId) : undefined;
+  }
+  return names.join(" › ");
+}
+
+/**
+ * Indented picker options in tree order. Archived regions are left out
+ * unless listed in `keepIds` (e.g. the region a scenario already uses).
+ */
+export function regionOptions(lib: BenchmarkLibrary, keepIds: string[] = []): { id: string; label: string }[] {
+  return regionTree(lib)
+    .filter(({ region }) => !region.archived || keepIds.includes(region.id))
+    .map(({ region, depth }) => ({
+      id: region.id,
+      label: `${"\u00A0\u00A0\u00A0".repeat(depth)}${region.name}${region.archived ? " (archived)" : ""}`,
+    }));
+}
+
 /**
  * Exported because BenchmarkLibraryAdmin imports it.
  */
@@ -305,28 +800,69 @@ export function updateRegionName(lib: BenchmarkLibrary, regionId: string, name:
 }
 
 /**
- * Exported because BenchmarkLibraryAdmin imports it.
+ * Adds a tier to the catalogue, last in sort order. Every region gets a copy
+ * of its `copyFrom` tier (rates, ranges, sub-elements, inheritance overrides)
+ * and the new tier starts with that tier's indirect rates.
  */
+export function addTier(lib: BenchmarkLibrary, label: string, copyFrom: TierId): BenchmarkLibrary {
+  const source = lib.tiers.find((t) => t.id === copyFrom) ?? lib.tiers[0];
+  const baseId = slugify(label) || "tier";
+  let id = baseId;
+  let n = 2;
+  while (lib.tiers.some((t) => t.id === id)) id = `${baseId}-${n++}`;
+
+  const sort = Math.max(0, ...lib.tiers.map((t) => t.sort)) + 10;
+  const tiers = [...lib.tiers, { id, label, sort, indirects: { ...source.indirects } }];
+
+  return {
+    ...lib,
+    tiers,
+    regions: lib.regions.map((r) => {
+      const set = cloneBenchmarkSet(r.byTier[source.id]);
+      set.id = `${set.id}-${id}`;
+      set.name = set.name.includes(source.label) ? set.name.replace(source.label, label) : `${set.name} (${label})`;
+      const next: RegionEntry = { ...r, byTier: { ...r.byTier, [id]: set } };
+      if (r.inherit) next.inherit = { ...r.inherit, overrides: { ...r.inherit.overrides, [id]: [...(r.inherit.overrides[source.id] ?? [])] } };
+      return next;
+    }),
+  };
+}
+
+/** Label, sort order and default indirect rates; the id never changes. */
+export function updateTier(lib: BenchmarkLibrary, tierId: TierId, patch: Partial<Omit<TierDefinition, "id">>): BenchmarkLibrary {
+  return { ...lib, tiers: sortTiers(lib.tiers.map((t) => (t.id === tierId ? { ...t, ...patch } : t))) };
+}
+
+/** Drops a tier and its rates from every region. The last tier cannot be removed. */
+export function removeTier(lib: BenchmarkLibrary, tierId: TierId): BenchmarkLibrary {
+  if (lib.tiers.length <= 1 || !lib.tiers.some((t) => t.id === tierId)) return lib;
+  return {
+    ...lib,
+    tiers: lib.tiers.filter((t) => t.id !== tierId),
+    regions: lib.regions.map((r) => {
+      const byTier = { ...r.byTier };
+      delete byTier[tierId];
+      const next: RegionEntry = { ...r, byTier };
+      if (r.inherit) {
+        const overrides = { ...r.inherit.overrides };
+        delete overrides[tierId];
+        next.inherit = { ...r.inherit, overrides };
+      }
+      return next;
+    }),
+  };
+}
+
 export function copyTierWithinRegion(
   lib: BenchmarkLibrary,
   regionId: string,
   fromTier: TierId,
   toTier: TierId
 ): BenchmarkLibrary {
-  return {
-    ...lib,
-    regions: lib.regions.map((r) => {
-      if (r.id !== regionId) return r;
-      const src = r.byTier[fromTier] ?? makeDemoBenchmark(demoForRegion(r), r.name, fromTier);
-      return {
-        ...r,
-        byTier: {
-          ...r.byTier,
-          [toTier]: cloneBenchmarkSet(src),
-        },
-      };
-    }),
-  };
+  const r = lib.regions.find((x) => x.id === regionId);
+  if (!r) return lib;
+  const src = r.byTier[fromTier] ?? makeDemoBenchmark(demoForRegion(r), r.name, fromTier, lib.tiers);
+  return updateBenchmarkForRegionTier(lib, regionId, toTier, cloneBenchmarkSet(src));
 }
 
 export function updateBenchmarkForRegionTier(
@@ -335,28 +871,42 @@ export function updateBenchmarkForRegionTier(
   tier: TierId,
   nextBenchmark: BenchmarkSet
 ): BenchmarkLibrary {
-  return {
+  return resolveRegionInheritance({
     ...lib,
     regions: lib.regions.map((r) => {
       if (r.id !== regionId) return r;
 
       const demoBase = demoForRegion(r);
-      const fallback = makeDemoBenchmark(demoBase, r.name, tier);
-      const { next } = normalizeBenchmarkSet(nextBenchmark as any, fallback, `${r.name} — ${tierLabel(tier)}`);
+      const fallback = makeDemoBenchmark(demoBase, r.name, tier, lib.tiers);
+      const { next } = normalizeBenchmarkSet(nextBenchmark as any, fallback, `${r.name} — ${tierLabel(tier, lib.tiers)}`);
+
+      // Inheriting region: any cell that now differs from the inherited value becomes an override
+      let inherit = r.inherit;
+      if (inherit) {
+        const overrides = new Set(inherit.overrides[tier] ?? []);
+        for (const b of next.bands) {
+          const prev = r.byTier[tier].bands.find((x) => x.categoryId === b.categoryId && x.band === b.band);
+          if (!prev || prev.psqft !== b.psqft) overrides.add(bandKey(b.categoryId, b.band));
+        }
+        inherit = { ...inherit, overrides: { ...inherit.overrides, [tier]: [...overrides] } };
+      }
 
       return {
         ...r,
+        ...(inherit ? { inherit } : {}),
         byTier: {
           ...r.byTier,
           [tier]: next,
         },
       };
     }),
-  };
+  });
 }
 
+/** An inheriting region goes back to its parent's rates instead of demo values. */
 export function resetRegionTierToDemo(lib: BenchmarkLibrary, regionId: string, tier: TierId): BenchmarkLibrary {
-  return {
+  if (lib.regions.some((r) => r.id === regionId && r.inherit)) return clearRegionOverrides(lib, regionId, tier);
+  return resolveRegionInheritance({
     ...lib,
     regions: lib.regions.map((r) => {
       if (r.id !== regionId) return r;
@@ -366,15 +916,15 @@ export function resetRegionTierToDemo(lib: BenchmarkLibrary, regionId: string, t
         ...r,
         byTier: {
           ...r.byTier,
-          [tier]: makeDemoBenchmark(base, r.name, tier),
+          [tier]: makeDemoBenchmark(base, r.name, tier, lib.tiers),
         },
       };
     }),
-  };
+  });
 }
 
 export function getInitialSelection(lib: BenchmarkLibrary): { regionId: string; tier: TierId } {
-  const fallback = { regionId: lib.regions[0]?.id ?? "us", tier: "reserve" as TierId };
+  const fallback = { regionId: lib.regions[0]?.id ?? "us", tier: defaultTierId(lib.tiers) };
 
   try {
     const raw = localStorage.getItem(SEL_KEY);
@@ -382,7 +932,7 @@ export function getInitialSelection(lib: BenchmarkLibrary): { regionId: string;
 
     const parsed = JSON.parse(raw);
     const regionId = typeof parsed?.regionId === "string" ? parsed.regionId : fallback.regionId;
-    const tier: TierId = TIERS.includes(parsed?.tier) ? parsed.tier : fallback.tier;
+    const tier = safeTierId(lib.tiers, parsed?.tier);
 
     const exists = lib.regions.some((r) => r.id === regionId);
     return exists ? { regionId, tier } : fallback;
@@ -0,0 +1,285 @@
+import { HeatBand, VMX_CATEGORIES } from "../domain/vmx-domain";
+import {
+  BenchmarkLibrary,
+  RegionEntry,
+  TierId,
+  uniqueRegionId,
+  validateLibrary,
+} from "./benchmark-library-storage";
+
+/**
+ * Benchmark library file format
+ *
+ * A portable JSON document holding the full library (regions × tiers) plus a
+ * checksum of the library payload. Imports always go through validateLibrary,
+ * so a hand-edited or older file is repaired the same way localStorage is at
+ * boot, and every fix-up is listed before anything is applied.
+ */
+
+export const LIBRARY_FILE_FORMAT = "vmx-benchmark-library";
+export const LIBRARY_FILE_VERSION = 1;
+
+export type BenchmarkLibraryFile = {
+  format: typeof LIBRARY_FILE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  appVersion: string;
+  /** FNV-1a (hex) of the canonical JSON of `library` */
+  checksum: string;
+  library: BenchmarkLibrary;
+};
+
+export type ChecksumStatus = "valid" | "mismatch" | "missing";
+
+export type ParsedLibraryFile =
+  | { ok: false; error: string }
+  | {
+      ok: true;
+      library: BenchmarkLibrary;
+      fixes: string[];
+      checksum: ChecksumStatus;
+      formatVersion: number | null;
+      exportedAt: string | null;
+      appVersion: string | null;
+    };
+
+export type ImportMode = "replace" | "merge" | "add";
+
+export type BandChange = { categoryId: string; band: HeatBand; from: number | null; to: number | null };
+
+export type TierDiff = {
+  tier: TierId;
+  bandChanges: BandChange[];
+  /** Non-band differences (name, currency, effective date, target ranges, provenance, sub-elements) */
+  otherChanges: string[];
+};
+
+export type RegionDiff = {
+  id: string;
+  name: string;
+  /** "removed" = only in the current library (dropped by Replace) */
+  status: "new" | "changed" | "unchanged" | "removed";
+  /** Current region name when the import renames it */
+  renamedFrom?: string;
+  /** Parent / archive / inheritance differences */
+  regionChanges: string[];
+  tiers: TierDiff[];
+};
+
+/** JSON with object keys sorted, so the checksum does not depend on key order. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj)
+      .filter((k) => obj[k] !== undefined)
+      .sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/** 32-bit FNV-1a; enough to catch truncation and hand edits (not a security signature). */
+export function libraryChecksum(lib: BenchmarkLibrary): string {
+  const text = canonicalJson(lib);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export function buildLibraryFile(lib: BenchmarkLibrary, appVersion: string, now = new Date()): BenchmarkLibraryFile {
+  return {
+    format: LIBRARY_FILE_FORMAT,
+    formatVersion: LIBRARY_FILE_VERSION,
+    exportedAt: now.toISOString(),
+    appVersion,
+    checksum: libraryChecksum(lib),
+    library: lib,
+  };
+}
+
+/**
+ * Accepts an export document or a bare library object (e.g. copied from
+ * localStorage). A checksum mismatch is reported, not rejected — the file
+ * still goes through validation and the user decides from the preview.
+ */
+export function parseLibraryFile(text: string): ParsedLibraryFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "File is not valid JSON." };
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ok: false, error: "File does not contain a benchmark library." };
+  }
+
+  const doc = raw as Record<string, unknown>;
+  const isEnvelope = doc.format === LIBRARY_FILE_FORMAT;
+  if (!isEnvelope && doc.format !== undefined) {
+    return { ok: false, error: `Unrecognised file format "${String(doc.format)}".` };
+  }
+
+  const formatVersion = isEnvelope && typeof doc.formatVersion === "number" ? doc.formatVersion : null;
+  if (formatVersion !== null && formatVersion > LIBRARY_FILE_VERSION) {
+    return { ok: false, error: `File format v${formatVersion} is newer than this app supports (v${LIBRARY_FILE_VERSION}).` };
+  }
+
+  const payload = isEnvelope ? doc.library : raw;
+  if (!payload || typeof payload !== "object" || !Array.isArray((payload as { regions?: unknown }).regions)) {
+    return { ok: false, error: "File does not contain any regions." };
+  }
+
+  let checksum: ChecksumStatus = "missing";
+  if (isEnvelope && typeof doc.checksum === "string") {
+    checksum = libraryChecksum(payload as BenchmarkLibrary) === doc.checksum ? "valid" : "mismatch";
+  }
+
+  const { library, fixes } = validateLibrary(payload);
+
+  return {
+    ok: true,
+    library,
+    fixes,
+    checksum,
+    formatVersion,
+    exportedAt: isEnvelope && typeof doc.exportedAt === "string" ? doc.exportedAt : null,
+    appVersion: isEnvelope && typeof doc.appVersion === "string" ? doc.appVersion : null,
+  };
+}
+
+function bandMap(set: RegionEntry["byTier"][TierId]): Map<string, number> {
+  const m = new Map<string, number>();
+  for (const b of set.bands) m.set(`${b.categoryId}::${b.band}`, b.psqft);
+  return m;
+}
+
+function diffTier(current: RegionEntry, incoming: RegionEntry, tier: TierId): TierDiff {
+  const a = current.byTier[tier];
+  const b = incoming.byTier[tier];
+  const am = bandMap(a);
+  const bm = bandMap(b);
+
+  const bandChanges: BandChange[] = [];
+  for (const cat of VMX_CATEGORIES) {
+    for (const band of ["LOW", "MEDIUM", "HIGH"] as HeatBand[]) {
+      const key = `${cat.id}::${band}`;
+      const from = am.get(key) ?? null;
+      const to = bm.get(key) ?? null;
+      if (from !== to) bandChanges.push({ categoryId: cat.id, band, from, to });
+    }
+  }
+
+  const otherChanges: string[] = [];
+  if (a.name !== b.name) otherChanges.push(`Name "${a.name}" → "${b.name}"`);
+  if (a.currency !== b.currency) otherChanges.push(`Currency ${a.currency} → ${b.currency}`);
+  if ((a.effectiveDate ?? "") !== (b.effectiveDate ?? "")) otherChanges.push(`Effective date ${a.effectiveDate || "—"} → ${b.effectiveDate || "—"}`);
+  if (canonicalJson(a.targetRanges) !== canonicalJson(b.targetRanges)) otherChanges.push("Target ranges differ");
+  const provenanceChanges = b.bands.filter((x) => {
+    const y = a.bands.find((z) => z.categoryId === x.categoryId && z.band === x.band);
+    return canonicalJson(x.provenance ?? null) !== canonicalJson(y?.provenance ?? null);
+  }).length;
+  if (provenanceChanges) otherChanges.push(`Provenance on ${provenanceChanges} band(s)`);
+  if (canonicalJson(a.subElements ?? []) !== canonicalJson(b.subElements ?? [])) {
+    otherChanges.push(`Sub-elements ${a.subElements?.length ?? 0} → ${b.subElements?.length ?? 0}`);
+  }
+
+  return { tier, bandChanges, otherChanges };
+}
+
+/** Region-by-region comparison keyed on region id. */
+export function diffLibraries(current: BenchmarkLibrary, incoming: BenchmarkLibrary): RegionDiff[] {
+  const out: RegionDiff[] = incoming.regions.map((r) => {
+    const existing = current.regions.find((x) => x.id === r.id);
+    if (!existing) return { id: r.id, name: r.name, status: "new", regionChanges: [], tiers: [] };
+
+    const tiers = incoming.tiers
+      .filter((t) => existing.byTier[t.id])
+      .map((t) => diffTier(existing, r, t.id))
+      .filter((d) => d.bandChanges.length || d.otherChanges.length);
+    const renamedFrom = existing.name !== r.name ? existing.name : undefined;
+    const regionChanges: string[] = [];
+    const parentName = (lib: BenchmarkLibrary, id?: string) => (id ? lib.regions.find((x) => x.id === id)?.name ?? id : "top level");
+    if ((existing.parentId ?? "") !== (r.parentId ?? "")) {
+      regionChanges.push(`Parent ${parentName(current, existing.parentId)} → ${parentName(incoming, r.parentId)}`);
+    }
+    if (!!existing.archived !== !!r.archived) regionChanges.push(r.archived ? "Archived" : "Unarchived");
+    if (canonicalJson(existing.inherit ?? null) !== canonicalJson(r.inherit ?? null)) {
+      regionChanges.push(r.inherit ? `Follows parent ×${r.inherit.factor.toFixed(2)}` : "Stops following parent");
+    }
+    const changed = tiers.length || renamedFrom || regionChanges.length;
+    return { id: r.id, name: r.name, status: changed ? "changed" : "unchanged", renamedFrom, regionChanges, tiers };
+  });
+
+  for (const r of current.regions) {
+    if (!incoming.regions.some((x) => x.id === r.id)) out.push({ id: r.id, name: r.name, status: "removed", regionChanges: [], tiers: [] });
+  }
+  return out;
+}
+
+export function importModeLabel(mode: ImportMode): string {
+  return mode === "replace" ? "Replace library" : mode === "merge" ? "Merge by region" : "Add as new regions";
+}
+
+/**
+ * - replace: the imported library wins outright
+ * - merge: regions with a matching id are overwritten, new ids are appended
+ * - add: every imported region is appended under a fresh id (names suffixed on collision)
+ */
+export function applyLibraryImport(current: BenchmarkLibrary, incoming: BenchmarkLibrary, mode: ImportMode): BenchmarkLibrary {
+  if (mode === "replace") return incoming;
+
+  // Tiers only in the file are appended to the catalogue; validateLibrary then
+  // seeds every region that lacks one of the combined tiers with demo values
+  const tiers = [...current.tiers, ...incoming.tiers.filter((t) => !current.tiers.some((x) => x.id === t.id))];
+
+  if (mode === "merge") {
+    const regions = current.regions.map((r) => incoming.regions.find((x) => x.id === r.id) ?? r);
+    for (const r of incoming.regions) {
+      if (!current.regions.some((x) => x.id === r.id)) regions.push(r);
+    }
+    // Re-validate: a merged region may point at a parent that only exists in one library
+    return validateLibrary({ ...current, tiers, regions }).library;
+  }
+
+  // Fresh ids: parent links are remapped to the added copies
+  let next: BenchmarkLibrary = { ...current, tiers, regions: [...current.regions] };
+  const idMap = new Map<string, string>();
+  for (const r of incoming.regions) {
+    const taken = next.regions.some((x) => x.name.trim().toLowerCase() === r.name.trim().toLowerCase());
+    const name = taken ? `${r.name} (imported)` : r.name;
+    const id = uniqueRegionId(next, name);
+    idMap.set(r.id, id);
+    next = { ...next, regions: [...next.regions, { ...r, id, name }] };
+  }
+  const regions = next.regions.map((r) => {
+    const source = incoming.regions.find((x) => idMap.get(x.id) === r.id);
+    return source?.parentId ? { ...r, parentId: idMap.get(source.parentId) ?? source.parentId } : r;
+  });
+  return validateLibrary({ ...next, regions }).library;
+}
+
+/** Catalogue differences, listed above the region table in the import preview. */
+export function diffTierCatalogues(current: BenchmarkLibrary, incoming: BenchmarkLibrary, mode: ImportMode): string[] {
+  const out: string[] = [];
+  for (const t of incoming.tiers) {
+    const existing = current.tiers.find((x) => x.id === t.id);
+    if (!existing) out.push(`New tier ${t.label} (${t.id})${mode === "replace" ? "" : " — current regions get demo values for it"}`);
+    else if (existing.label !== t.label) out.push(`Tier ${existing.label} is labelled "${t.label}" in the file`);
+  }
+  for (const t of current.tiers) {
+    if (!incoming.tiers.some((x) => x.id === t.id)) {
+      out.push(`Tier ${t.label} is not in the file${mode === "replace" ? " — removed" : " — imported regions get demo values for it"}`);
+    }
+  }
+  return out;
+}
+
+export function describeBandChange(c: BandChange): string {
+  const cat = VMX_CATEGORIES.find((x) => x.id === c.categoryId)?.label ?? c.categoryId;
+  const fmt = (n: number | null) => (n === null ? "—" : String(n));
+  return `${cat} ${c.band}: ${fmt(c.from)} → ${fmt(c.to)}`;
+}
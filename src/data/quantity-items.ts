@@ -0,0 +1,110 @@
+import { QuantityItem, VmxCategoryId } from "../domain/vmx-domain";
+import { DEFAULT_TIERS, type TierDefinition, type TierId } from "./benchmark-library-storage";
+
+/**
+ * Quantity / allowance presets
+ *
+ * Common items that are priced per unit rather than per sq ft. Default rates
+ * are US dollars per unit for the built-in tiers (other catalogue tiers use
+ * the nearest built-in tier by sort order); the user can overwrite rate and
+ * quantity once the item is on a scenario.
+ */
+
+export type QuantityItemPreset = {
+  key: string;
+  categoryId: VmxCategoryId;
+  label: string;
+  unit: string;
+  defaultQuantity: number;
+  rates: Record<TierId, number>;
+};
+
+export const QUANTITY_ITEM_PRESETS: QuantityItemPreset[] = [
+  {
+    key: "elevator",
+    categoryId: "SERVICES",
+    label: "Residential elevator",
+    unit: "ea",
+    defaultQuantity: 1,
+    rates: { select: 85000, reserve: 140000, signature: 220000, legacy: 350000 },
+  },
+  {
+    key: "generator",
+    categoryId: "SERVICES",
+    label: "Standby generator + ATS",
+    unit: "ea",
+    defaultQuantity: 1,
+    rates: { select: 45000, reserve: 80000, signature: 140000, legacy: 220000 },
+  },
+  {
+    key: "pool",
+    categoryId: "EXTERNAL_WORKS",
+    label: "Swimming pool + spa",
+    unit: "ls",
+    defaultQuantity: 1,
+    rates: { select: 180000, reserve: 350000, signature: 650000, legacy: 1100000 },
+  },
+  {
+    key: "retaining_wall",
+    categoryId: "FACILITATING",
+    label: "Retaining wall",
+    unit: "lf",
+    defaultQuantity: 100,
+    rates: { select: 450, reserve: 750, signature: 1200, legacy: 1800 },
+  },
+  {
+    key: "guardhouse",
+    categoryId: "EXTERNAL_WORKS",
+    label: "Gatehouse / guardhouse",
+    unit: "ls",
+    defaultQuantity: 1,
+    rates: { select: 150000, reserve: 300000, signature: 550000, legacy: 900000 },
+  },
+  {
+    key: "wine_room",
+    categoryId: "FF_E",
+    label: "Climate-controlled wine room",
+    unit: "ls",
+    defaultQuantity: 1,
+    rates: { select: 60000, reserve: 120000, signature: 250000, legacy: 450000 },
+  },
+  {
+    key: "home_theater",
+    categoryId: "FF_E",
+    label: "Home theater (AV + acoustics)",
+    unit: "ls",
+    defaultQuantity: 1,
+    rates: { select: 75000, reserve: 150000, signature: 300000, legacy: 600000 },
+  },
+  {
+    key: "solar_pv",
+    categoryId: "SERVICES",
+    label: "Solar PV array",
+    unit: "kW",
+    defaultQuantity: 20,
+    rates: { select: 3200, reserve: 3800, signature: 4500, legacy: 5500 },
+  },
+];
+
+export function createQuantityItemId(): string {
+  return `qi_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function presetRate(preset: QuantityItemPreset, tier: TierId, tiers: TierDefinition[] = DEFAULT_TIERS): number {
+  if (preset.rates[tier] !== undefined) return preset.rates[tier];
+  const sort = tiers.find((t) => t.id === tier)?.sort ?? 0;
+  const nearest = DEFAULT_TIERS.reduce((best, t) => (Math.abs(t.sort - sort) < Math.abs(best.sort - sort) ? t : best));
+  return preset.rates[nearest.id] ?? 0;
+}
+
+/** New scenario item from a preset, priced at the scenario tier's default rate. */
+export function quantityItemFromPreset(preset: QuantityItemPreset, tier: TierId, tiers: TierDefinition[] = DEFAULT_TIERS): QuantityItem {
+  return {
+    id: createQuantityItemId(),
+    categoryId: preset.categoryId,
+    label: preset.label,
+    unit: preset.unit,
+    quantity: preset.defaultQuantity,
+    rate: presetRate(preset, tier, tiers),
+  };
+}
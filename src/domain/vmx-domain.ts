@@ -35,10 +35,28 @@ export const VMX_CATEGORIES: CategoryDef[] = [
   { id: "EXTERNAL_WORKS", label: "Exterior Improvements", sortOrder: 7 },
 ];
 
+export type ProvenanceConfidence = "low" | "medium" | "high";
+
+export const PROVENANCE_CONFIDENCES: ProvenanceConfidence[] = ["low", "medium", "high"];
+
+/** Where a band rate comes from. */
+export interface BandProvenance {
+  /** Project, publication or dataset the rate is based on */
+  source: string;
+  /** YYYY-MM-DD the rate is valid as of */
+  effectiveDate: string;
+  /** Projects / data points behind the rate (0 = professional judgement) */
+  sampleCount: number;
+  confidence: ProvenanceConfidence;
+  author: string;
+}
+
 export interface BenchmarkBand {
   categoryId: VmxCategoryId;
   band: HeatBand;
   psqft: number; // US-first: price per square foot
+  /** Optional: absent on bands entered before provenance existed */
+  provenance?: BandProvenance;
 }
 
 export interface TargetRange {
@@ -47,6 +65,20 @@ export interface TargetRange {
   maxPct: number; // decimal, e.g. 0.30
 }
 
+/**
+ * Optional UniFormat Level 2 sub-element under one of the 7 categories.
+ * Rates are $/sq ft per band; when a category has sub-elements its band rate
+ * is the sum of its sub-elements (see rollUpSubElements).
+ */
+export interface SubElementBenchmark {
+  id: string;
+  parentId: VmxCategoryId;
+  label: string;
+  /** UniFormat code, e.g. "B30" */
+  code?: string;
+  psqft: Record<HeatBand, number>;
+}
+
 export interface BenchmarkSet {
   id: string;
   name: string;
@@ -57,20 +89,143 @@ export interface BenchmarkSet {
    * IMPORTANT: keep this name as targetRanges (this is what the app expects)
    */
   targetRanges: TargetRange[];
+
+  /** Optional drill-down; absent on 7-category libraries */
+  subElements?: SubElementBenchmark[];
+
+  /** YYYY-MM the band rates were priced at; drives cost index escalation to the estimate date */
+  effectiveDate?: string;
 }
 
 export interface ScenarioSelection {
   categoryId: VmxCategoryId;
   band: HeatBand;
+  /** Manual $/sq ft (e.g. from a sub-contractor quote); replaces the priced band rate */
   overridePsqft?: number;
+  /** Why the band rate was overridden (required whenever overridePsqft is set from the UI) */
+  overrideReason?: string;
+  /** Where the number came from (quote reference, sub name, date…) */
+  overrideSource?: string;
+}
+
+/** One manual rate override with its delta vs the band rate it replaced. */
+export type RateOverrideLine = {
+  categoryId: VmxCategoryId;
+  label: string;
+  band: HeatBand;
+  /** Band rate from the priced benchmark (location / typology applied) */
+  bandPsqft: number;
+  overridePsqft: number;
+  deltaPsqft: number;
+  /** deltaPsqft × area */
+  deltaCost: number;
+  reason: string;
+  source: string;
+};
+
+export function listRateOverrides(params: {
+  areaSqft: number;
+  benchmark: BenchmarkSet;
+  selections: ScenarioSelection[];
+}): RateOverrideLine[] {
+  const { areaSqft, benchmark, selections } = params;
+  const out: RateOverrideLine[] = [];
+  for (const cat of VMX_CATEGORIES) {
+    const sel = selections.find((s) => s.categoryId === cat.id);
+    if (!sel || sel.overridePsqft === undefined) continue;
+    const bandPsqft = benchmark.bands.find((b) => b.categoryId === cat.id && b.band === sel.band)?.psqft ?? 0;
+    const deltaPsqft = sel.overridePsqft - bandPsqft;
+    out.push({
+      categoryId: cat.id,
+      label: cat.label,
+      band: sel.band,
+      bandPsqft,
+      overridePsqft: sel.overridePsqft,
+      deltaPsqft,
+      deltaCost: deltaPsqft * areaSqft,
+      reason: sel.overrideReason ?? "",
+      source: sel.overrideSource ?? "",
+    });
+  }
+  return out;
+}
+
+export function getBandProvenance(benchmark: BenchmarkSet, categoryId: VmxCategoryId, band: HeatBand): BandProvenance | undefined {
+  return benchmark.bands.find((b) => b.categoryId === categoryId && b.band === band)?.provenance;
+}
+
+/** One line for tooltips and exports, e.g. "RLB Q3 report · as of 2025-09-30 · n=12 · high confidence · J. Smith". */
+export function describeProvenance(p: BandProvenance | undefined): string {
+  if (!p) return "No source recorded";
+  const parts = [p.source || "Unnamed source"];
+  if (p.effectiveDate) parts.push(`as of ${p.effectiveDate}`);
+  parts.push(p.sampleCount > 0 ? `n=${p.sampleCount}` : "judgement");
+  parts.push(`${p.confidence} confidence`);
+  if (p.author) parts.push(p.author);
+  return parts.join(" · ");
+}
+
+/** What underpins one priced category rate (client pack sources appendix). */
+export type RateSourceLine = {
+  categoryId: VmxCategoryId;
+  label: string;
+  band: HeatBand;
+  psqftUsed: number;
+  /** Priced from a manual override rather than the band */
+  isOverride: boolean;
+  provenance?: BandProvenance;
+  overrideReason?: string;
+  overrideSource?: string;
+};
+
+export function listRateSources(result: ScenarioResult, benchmark: BenchmarkSet, selections: ScenarioSelection[]): RateSourceLine[] {
+  return result.categories.map((c) => {
+    const sel = selections.find((s) => s.categoryId === c.categoryId);
+    const isOverride = sel?.overridePsqft !== undefined;
+    return {
+      categoryId: c.categoryId,
+      label: c.label,
+      band: c.band,
+      psqftUsed: c.psqftUsed,
+      isOverride,
+      provenance: getBandProvenance(benchmark, c.categoryId, c.band),
+      overrideReason: isOverride ? sel?.overrideReason : undefined,
+      overrideSource: isOverride ? sel?.overrideSource : undefined,
+    };
+  });
+}
+
+/**
+ * Allowance / quantity × unit-rate item attached to a category, for things
+ * that don't scale with floor area (elevators, pools, generators, linear feet
+ * of retaining wall…). Its amount is added to the category cost.
+ */
+export interface QuantityItem {
+  id: string;
+  categoryId: VmxCategoryId;
+  label: string;
+  /** Display unit, e.g. "ea", "lf", "ls" */
+  unit: string;
+  quantity: number;
+  /** Currency per unit (not location-adjusted) */
+  rate: number;
+}
+
+export function quantityItemAmount(item: QuantityItem): number {
+  const v = item.quantity * item.rate;
+  return Number.isFinite(v) ? Math.max(0, v) : 0;
 }
 
 export interface CategoryResult {
   categoryId: VmxCategoryId;
   label: string;
   band: HeatBand;
+  /** Area-based $/sq ft (quantity items are not folded into the rate) */
   psqftUsed: number;
+  /** Area cost + quantity items */
   cost: number;
+  /** Portion of cost from quantity items (absent on results saved before quantity items existed) */
+  quantityCost?: number;
   pctOfTotal: number;
 
   targetMinPct: number;
@@ -271,8 +426,10 @@ export function computeScenarioResult(params: {
   areaSqft: number;
   benchmark: BenchmarkSet;
   selections: ScenarioSelection[];
+  quantityItems?: QuantityItem[];
 }): ScenarioResult {
   const { areaSqft, benchmark, selections } = params;
+  const quantityItems = params.quantityItems ?? [];
 
   if (!Number.isFinite(areaSqft) || areaSqft <= 0) {
     throw new Error("areaSqft must be a positive number");
@@ -291,12 +448,13 @@ export function computeScenarioResult(params: {
 
     const base = requireBand(benchmark, cat.id, sel.band);
     const psqftUsed = sel.overridePsqft ?? base.psqft;
-    const cost = areaSqft * psqftUsed;
+    const quantityCost = quantityItems.filter((q) => q.categoryId === cat.id).reduce((sum, q) => sum + quantityItemAmount(q), 0);
+    const cost = areaSqft * psqftUsed + quantityCost;
 
     const range =
       safeTargetRanges.find((r) => r.categoryId === cat.id) ?? getTargetRangeForCategory(benchmark, cat.id);
 
-    return { categoryId: cat.id, label: cat.label, band: sel.band, psqftUsed, cost, range };
+    return { categoryId: cat.id, label: cat.label, band: sel.band, psqftUsed, cost, quantityCost, range };
   });
 
   const totalCost = interim.reduce((sum, r) => sum + r.cost, 0);
@@ -315,6 +473,7 @@ export function computeScenarioResult(params: {
       band: r.band,
       psqftUsed: r.psqftUsed,
       cost: r.cost,
+      quantityCost: r.quantityCost,
       pctOfTotal: pct,
       targetMinPct: fixed.minPct,
       targetMaxPct: fixed.maxPct,
@@ -328,4 +487,216 @@ export function computeScenarioResult(params: {
   return { areaSqft, currency: benchmark.currency, totalCost, totalPsqft, categories };
 }
 
-// Backlog: Add unit selector (sq ft / sq m) and convert area + benchmarks accordingly.
+/**
+ * Rolls several buildings (each priced with computeScenarioResult) up into one
+ * project result. Areas and category costs add; psqftUsed becomes the
+ * area-weighted rate and guardrails are re-checked on the combined allocation
+ * against `benchmark` (the main building's). Bands are reported from the first part.
+ */
+export function combineScenarioResults(parts: ScenarioResult[], benchmark: BenchmarkSet): ScenarioResult {
+  if (parts.length === 0) throw new Error("No buildings to combine");
+  if (parts.length === 1) return parts[0];
+
+  const areaSqft = parts.reduce((sum, p) => sum + p.areaSqft, 0);
+  const totalCost = parts.reduce((sum, p) => sum + p.totalCost, 0);
+  if (totalCost <= 0) throw new Error("Total cost computed as non-positive");
+
+  const safeTargetRanges = ensureCompleteTargetRanges(benchmark);
+
+  const categories: CategoryResult[] = VMX_CATEGORIES.map((cat) => {
+    const rows = parts.map((p) => p.categories.find((c) => c.categoryId === cat.id));
+    const cost = rows.reduce((sum, r) => sum + (r?.cost ?? 0), 0);
+    const quantityCost = rows.reduce((sum, r) => sum + (r?.quantityCost ?? 0), 0);
+    const areaCost = parts.reduce((sum, p, i) => sum + p.areaSqft * (rows[i]?.psqftUsed ?? 0), 0);
+    const pct = cost / totalCost;
+
+    const range = safeTargetRanges.find((r) => r.categoryId === cat.id) ?? getTargetRangeForCategory(benchmark, cat.id);
+    const fixed = ensureMinMax(range.minPct, range.maxPct);
+    const rangeStatus = classifyRange(pct, fixed.minPct, fixed.maxPct);
+
+    return {
+      categoryId: cat.id,
+      label: cat.label,
+      band: rows[0]?.band ?? "MEDIUM",
+      psqftUsed: areaCost / areaSqft,
+      cost,
+      quantityCost,
+      pctOfTotal: pct,
+      targetMinPct: fixed.minPct,
+      targetMaxPct: fixed.maxPct,
+      rangeStatus,
+      isOutOfRange: rangeStatus !== "OK",
+    };
+  });
+
+  return { areaSqft, currency: parts[0].currency, totalCost, totalPsqft: totalCost / areaSqft, categories };
+}
+
+// ---------------------------------------------------------------------------
+// UniFormat Level 2 sub-elements
+// When a category has sub-elements its band rates are rolled up from them
+// (rollUpSubElements: each band rate = the sum of its sub-element rates), and
+// computeScenarioResult prices the category from that rolled-up rate. The
+// breakdown then splits the priced parent cost by each sub-element's share,
+// so location / typology / overrides flow through unchanged.
+// ---------------------------------------------------------------------------
+
+export type SubElementDef = { id: string; parentId: VmxCategoryId; label: string; code: string };
+
+/** Suggested sub-elements per category (admins may also add custom ones). */
+export const UNIFORMAT_L2_ELEMENTS: SubElementDef[] = [
+  { id: "G10_SITE_PREP", parentId: "FACILITATING", label: "Site Preparation", code: "G10" },
+  { id: "G30_SITE_MECH", parentId: "FACILITATING", label: "Site Civil / Mechanical Utilities", code: "G30" },
+  { id: "G40_SITE_ELEC", parentId: "FACILITATING", label: "Site Electrical Utilities", code: "G40" },
+
+  { id: "A10_FOUNDATIONS", parentId: "SUBSTRUCTURE", label: "Foundations", code: "A10" },
+  { id: "A20_BASEMENT", parentId: "SUBSTRUCTURE", label: "Basement Construction", code: "A20" },
+
+  { id: "B10_STRUCTURE", parentId: "SUPERSTRUCTURE", label: "Superstructure (Frame)", code: "B10" },
+  { id: "B2010_WALLS", parentId: "SUPERSTRUCTURE", label: "Exterior Walls", code: "B2010" },
+  { id: "B2020_WINDOWS", parentId: "SUPERSTRUCTURE", label: "Exterior Windows", code: "B2020" },
+  { id: "B2030_DOORS", parentId: "SUPERSTRUCTURE", label: "Exterior Doors", code: "B2030" },
+  { id: "B30_ROOFING", parentId: "SUPERSTRUCTURE", label: "Roofing", code: "B30" },
+
+  { id: "C10_INT_CONSTRUCTION", parentId: "INTERNAL_FINISHES", label: "Interior Construction", code: "C10" },
+  { id: "C20_STAIRS", parentId: "INTERNAL_FINISHES", label: "Stairs", code: "C20" },
+  { id: "C30_INT_FINISHES", parentId: "INTERNAL_FINISHES", label: "Interior Finishes", code: "C30" },
+
+  { id: "E10_EQUIPMENT", parentId: "FF_E", label: "Equipment", code: "E10" },
+  { id: "E20_FURNISHINGS", parentId: "FF_E", label: "Furnishings", code: "E20" },
+
+  { id: "D10_CONVEYING", parentId: "SERVICES", label: "Conveying", code: "D10" },
+  { id: "D20_PLUMBING", parentId: "SERVICES", label: "Plumbing", code: "D20" },
+  { id: "D30_HVAC", parentId: "SERVICES", label: "HVAC", code: "D30" },
+  { id: "D40_FIRE", parentId: "SERVICES", label: "Fire Protection", code: "D40" },
+  { id: "D50_ELECTRICAL", parentId: "SERVICES", label: "Electrical", code: "D50" },
+  { id: "D5030_LOW_VOLTAGE", parentId: "SERVICES", label: "Low Voltage / AV", code: "D5030" },
+
+  { id: "G20_SITE_IMPROVEMENTS", parentId: "EXTERNAL_WORKS", label: "Site Improvements", code: "G20" },
+  { id: "G2050_LANDSCAPING", parentId: "EXTERNAL_WORKS", label: "Landscaping", code: "G2050" },
+];
+
+export function getSubElements(benchmark: BenchmarkSet, categoryId: VmxCategoryId): SubElementBenchmark[] {
+  return (benchmark.subElements ?? []).filter((s) => s.parentId === categoryId);
+}
+
+/** Share of each sub-element within its parent at a band (equal split if every rate is 0). */
+export function subElementShares(subs: SubElementBenchmark[], band: HeatBand): number[] {
+  const rates = subs.map((s) => (Number.isFinite(s.psqft[band]) ? Math.max(0, s.psqft[band]) : 0));
+  const sum = rates.reduce((a, b) => a + b, 0);
+  if (sum <= 0) return subs.map(() => 1 / Math.max(1, subs.length));
+  return rates.map((r) => r / sum);
+}
+
+/** Sets every category band that has sub-elements to the sum of its sub-element rates. */
+export function rollUpSubElements(benchmark: BenchmarkSet): BenchmarkSet {
+  const subs = benchmark.subElements ?? [];
+  if (subs.length === 0) return benchmark;
+  const bands = benchmark.bands.map((b) => {
+    const children = subs.filter((s) => s.parentId === b.categoryId);
+    if (children.length === 0) return b;
+    return { ...b, psqft: children.reduce((sum, s) => sum + (Number.isFinite(s.psqft[b.band]) ? s.psqft[b.band] : 0), 0) };
+  });
+  return { ...benchmark, bands };
+}
+
+export type SubElementResult = {
+  id: string;
+  parentId: VmxCategoryId;
+  label: string;
+  code?: string;
+  psqftUsed: number;
+  cost: number;
+  /** Share of the parent category cost */
+  shareOfParent: number;
+  pctOfTotal: number;
+};
+
+/** Splits each priced category's area-based cost into its sub-elements (categories without sub-elements are omitted). */
+export function computeSubElementBreakdown(result: ScenarioResult, benchmark: BenchmarkSet): SubElementResult[] {
+  const out: SubElementResult[] = [];
+  for (const c of result.categories) {
+    const subs = getSubElements(benchmark, c.categoryId);
+    if (subs.length === 0) continue;
+    const shares = subElementShares(subs, c.band);
+    // Quantity items sit on the category itself, so only the area-based cost is split
+    const areaCost = c.cost - (c.quantityCost ?? 0);
+    subs.forEach((s, i) => {
+      const cost = areaCost * shares[i];
+      out.push({
+        id: s.id,
+        parentId: c.categoryId,
+        label: s.label,
+        code: s.code,
+        psqftUsed: c.psqftUsed * shares[i],
+        cost,
+        shareOfParent: shares[i],
+        pctOfTotal: result.totalCost > 0 ? cost / result.totalCost : 0,
+      });
+    });
+  }
+  return out;
+}
+
+
+/**
+ * Location multipliers by category. The global factor applies everywhere, except
+ * that high-cost locations (> 1.10) only pass half the uplift to Interiors and FF&E.
+ */
+export function locationCategoryFactors(globalFactor: number): Record<VmxCategoryId, number> {
+  const factor = Number.isFinite(globalFactor) && globalFactor > 0 ? globalFactor : 1;
+  const factors = {} as Record<VmxCategoryId, number>;
+  for (const c of VMX_CATEGORIES) factors[c.id] = factor;
+  if (factor > 1.10) {
+    const damped = 1 + (factor - 1) * 0.5;
+    factors.INTERNAL_FINISHES = damped;
+    factors.FF_E = damped;
+  }
+  return factors;
+}
+
+// ---------------------------------------------------------------------------
+// Area units
+// Benchmarks, selections and results are ALWAYS stored canonically in sq ft ($/sq ft).
+// Metric mode is an input/display concern only, so switching units never re-writes
+// (or drifts) stored numbers.
+// ---------------------------------------------------------------------------
+
+export type AreaUnit = "sqft" | "sqm";
+
+export const AREA_UNITS: AreaUnit[] = ["sqft", "sqm"];
+
+/** 1 m = 3.28084 ft, so 1 m² = 10.7639104… sq ft */
+export const SQFT_PER_SQM = 10.76391041671;
+
+export function areaUnitLabel(unit: AreaUnit): string {
+  return unit === "sqm" ? "m²" : "sq ft";
+}
+
+export function isAreaUnit(v: unknown): v is AreaUnit {
+  return v === "sqft" || v === "sqm";
+}
+
+/** Canonical sq ft -> display unit. */
+export function sqftToArea(sqft: number, unit: AreaUnit): number {
+  const safe = Number.isFinite(sqft) ? sqft : 0;
+  return unit === "sqm" ? safe / SQFT_PER_SQM : safe;
+}
+
+/** Display unit -> canonical sq ft. */
+export function areaToSqft(value: number, unit: AreaUnit): number {
+  const safe = Number.isFinite(value) ? value : 0;
+  return unit === "sqm" ? safe * SQFT_PER_SQM : safe;
+}
+
+/** Canonical $/sq ft -> $/display unit (a m² costs ~10.76× a sq ft). */
+export function psqftToRate(psqft: number, unit: AreaUnit): number {
+  const safe = Number.isFinite(psqft) ? psqft : 0;
+  return unit === "sqm" ? safe * SQFT_PER_SQM : safe;
+}
+
+/** $/display unit -> canonical $/sq ft. */
+export function rateToPsqft(rate: number, unit: AreaUnit): number {
+  const safe = Number.isFinite(rate) ? rate : 0;
+  return unit === "sqm" ? safe / SQFT_PER_SQM : safe;
+}
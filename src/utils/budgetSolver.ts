@@ -0,0 +1,182 @@
+import {
+  VMX_CATEGORIES,
+  combineScenarioResults,
+  computeScenarioResult,
+  ensureCompleteTargetRanges,
+  type BenchmarkSet,
+  type HeatBand,
+  type QuantityItem,
+  type ScenarioResult,
+  type ScenarioSelection,
+  type VmxCategoryId,
+} from "../domain/vmx-domain";
+import { computeConstructionIndirects, type ConstructionIndirectsRates, type PricedBuilding } from "./constructionIndirects";
+import { computeSoftCosts, type SoftCostsConfig } from "./softCosts";
+import { computeProjectFinancing, type FinancingConfigV1 } from "./financing";
+
+/**
+ * Design-to-budget solver
+ *
+ * Works backwards from a budget: enumerates band combinations (3^7 at most,
+ * fewer once categories are locked), prices each with computeScenarioResult,
+ * keeps the ones that land within tolerance of the target and ranks them by
+ * guardrail fit (TargetRange status) and how balanced the allocation is.
+ */
+
+export type BudgetTargetKind = "grandTotal" | "directHard" | "psqft";
+
+export const BUDGET_TARGET_LABELS: Record<BudgetTargetKind, string> = {
+  grandTotal: "Grand Total (All-in)",
+  directHard: "Direct Hard Costs",
+  psqft: "Direct Hard Cost rate",
+};
+
+const BANDS: HeatBand[] = ["LOW", "MEDIUM", "HIGH"];
+
+export type BudgetSolution = {
+  selections: Record<VmxCategoryId, ScenarioSelection>;
+  result: ScenarioResult;
+  directHard: number;
+  grandTotal: number;
+  /** Value compared against the target (same units as the target) */
+  metric: number;
+  /** metric − target */
+  gap: number;
+  gapPct: number;
+  withinTolerance: boolean;
+  /** Categories outside their TargetRange */
+  outOfRange: number;
+  /** 1 = every category sits at the centre of its TargetRange; falls towards 0 as shares drift */
+  balance: number;
+  /** Categories whose band differs from the current selection */
+  changes: number;
+};
+
+export type BudgetSolveResult = {
+  solutions: BudgetSolution[];
+  evaluated: number;
+  /** True when nothing landed within tolerance and the closest combinations are shown instead */
+  closestOnly: boolean;
+};
+
+function balanceScore(result: ScenarioResult): number {
+  const deviations = result.categories.map((c) => {
+    const center = (c.targetMinPct + c.targetMaxPct) / 2;
+    const half = Math.max(0.005, (c.targetMaxPct - c.targetMinPct) / 2);
+    return (c.pctOfTotal - center) / half;
+  });
+  const rms = Math.sqrt(deviations.reduce((sum, d) => sum + d * d, 0) / Math.max(1, deviations.length));
+  return 1 / (1 + rms);
+}
+
+function compareSolutions(a: BudgetSolution, b: BudgetSolution): number {
+  if (a.outOfRange !== b.outOfRange) return a.outOfRange - b.outOfRange;
+  if (Math.abs(a.balance - b.balance) > 1e-9) return b.balance - a.balance;
+  if (Math.abs(a.gap) !== Math.abs(b.gap)) return Math.abs(a.gap) - Math.abs(b.gap);
+  return a.changes - b.changes;
+}
+
+export function solveForBudget(args: {
+  areaSqft: number;
+  /** Benchmark actually priced (location / typology / program already applied) */
+  benchmark: BenchmarkSet;
+  current: Record<VmxCategoryId, ScenarioSelection>;
+  /** Categories pinned to a band; locked categories keep any $/sf override */
+  locks: Partial<Record<VmxCategoryId, HeatBand>>;
+  targetKind: BudgetTargetKind;
+  /** Currency amount, or canonical $/sq ft when targetKind is "psqft" */
+  targetValue: number;
+  /** Decimal, e.g. 0.03 = ±3% */
+  tolerance: number;
+  indirectRates: ConstructionIndirectsRates;
+  softCostsConfig: SoftCostsConfig;
+  landCost: number;
+  /** Construction loan carry, included in the Grand Total target */
+  financingConfig?: FinancingConfigV1;
+  /** Fixed quantity / allowance items; they don't change with band choice */
+  quantityItems?: QuantityItem[];
+  /** Additional buildings, held at their current pricing; bands are solved for the main residence */
+  otherBuildings?: PricedBuilding[];
+  maxSolutions?: number;
+}): BudgetSolveResult {
+  const { areaSqft, current, locks, targetKind, targetValue, indirectRates, softCostsConfig } = args;
+  const tolerance = Math.max(0, args.tolerance);
+  const landCost = Math.max(0, args.landCost || 0);
+  const maxSolutions = args.maxSolutions ?? 5;
+  const others = args.otherBuildings ?? [];
+  const othersContract = others.reduce((sum, b) => sum + b.indirects.contractTotal, 0);
+  const othersIndirects = others.reduce((sum, b) => sum + b.indirects.totalIndirects, 0);
+
+  if (!(targetValue > 0) || !(areaSqft > 0)) return { solutions: [], evaluated: 0, closestOnly: false };
+
+  // Resolve target ranges once so each combination doesn't re-derive them
+  const benchmark: BenchmarkSet = { ...args.benchmark, targetRanges: ensureCompleteTargetRanges(args.benchmark) };
+
+  const free = VMX_CATEGORIES.filter((c) => !locks[c.id]).map((c) => c.id);
+  const combos = Math.pow(BANDS.length, free.length);
+
+  const all: BudgetSolution[] = [];
+  for (let n = 0; n < combos; n++) {
+    const selections = {} as Record<VmxCategoryId, ScenarioSelection>;
+    for (const c of VMX_CATEGORIES) {
+      const locked = locks[c.id];
+      if (locked) {
+        const cur = current[c.id];
+        selections[c.id] = cur && cur.band === locked ? cur : { categoryId: c.id, band: locked };
+      }
+    }
+    let k = n;
+    for (const id of free) {
+      selections[id] = { categoryId: id, band: BANDS[k % BANDS.length] };
+      k = Math.floor(k / BANDS.length);
+    }
+
+    let main: ScenarioResult;
+    let result: ScenarioResult;
+    try {
+      main = computeScenarioResult({ areaSqft, benchmark, selections: Object.values(selections), quantityItems: args.quantityItems });
+      result = combineScenarioResults([main, ...others.map((b) => b.result)], benchmark);
+    } catch {
+      continue;
+    }
+
+    const directHard = result.totalCost;
+    // Always priced in full, whatever the target, so every solution reports its real Grand Total
+    const indirects = computeConstructionIndirects({ directHardCost: main.totalCost, areaSqft, rates: indirectRates });
+    const soft = computeSoftCosts(result, softCostsConfig);
+    const financing = computeProjectFinancing({
+      result,
+      softCostsConfig,
+      indirectsAmount: indirects.totalIndirects + othersIndirects,
+      landCost,
+      config: args.financingConfig,
+    });
+    const grandTotal = indirects.contractTotal + othersContract + landCost + soft.softBase + soft.escalationAmount + (financing?.carry ?? 0);
+
+    const metric = targetKind === "grandTotal" ? grandTotal : targetKind === "directHard" ? directHard : result.totalPsqft;
+    const gap = metric - targetValue;
+    const gapPct = gap / targetValue;
+
+    all.push({
+      selections,
+      result,
+      directHard,
+      grandTotal,
+      metric,
+      gap,
+      gapPct,
+      withinTolerance: Math.abs(gapPct) <= tolerance,
+      outOfRange: result.categories.filter((c) => c.rangeStatus !== "OK").length,
+      balance: balanceScore(result),
+      changes: VMX_CATEGORIES.filter((c) => current[c.id]?.band !== selections[c.id].band).length,
+    });
+  }
+
+  const hits = all.filter((s) => s.withinTolerance);
+  if (hits.length) {
+    return { solutions: hits.sort(compareSolutions).slice(0, maxSolutions), evaluated: all.length, closestOnly: false };
+  }
+
+  const closest = all.sort((a, b) => Math.abs(a.gap) - Math.abs(b.gap) || compareSolutions(a, b)).slice(0, maxSolutions);
+  return { solutions: closest, evaluated: all.length, closestOnly: true };
+}
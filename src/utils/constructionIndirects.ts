@@ -1,4 +1,5 @@
-import type { TierId } from "../data/benchmark-library-storage";
+import { DEFAULT_TIERS, type TierDefinition, type TierId, type TierIndirectRates } from "../data/benchmark-library-storage";
+import type { ScenarioResult } from "../domain/vmx-domain";
 
 /**
  * US-style Construction Indirects
@@ -47,89 +48,26 @@ function clampRate(n: any, fallback: number): number {
   return Math.max(0, Math.min(1, v));
 }
 
-export function getDefaultConstructionIndirectsRates(tier: TierId): ConstructionIndirectsRates {
-  // Midpoints of typical US luxury ranges (2025) by tier.
-  // You can tune these later; we keep them conservative but realistic.
-  if (tier === "select") {
-    return {
-      generalConditionsRate: 0.06,
-      glInsuranceRate: 0.01,
-      contingencyRate: 0.05,
-      feeRate: 0.10,
-      feeBase: "cost_of_work",
-    };
-  }
-  if (tier === "reserve") {
-    return {
-      generalConditionsRate: 0.08,
-      glInsuranceRate: 0.01,
-      contingencyRate: 0.05,
-      feeRate: 0.12,
-      feeBase: "cost_of_work",
-    };
-  }
-  if (tier === "signature") {
-    return {
-      generalConditionsRate: 0.10,
-      glInsuranceRate: 0.0125,
-      contingencyRate: 0.08,
-      feeRate: 0.14,
-      feeBase: "cost_of_work",
-    };
-  }
-  // legacy
-  return {
-    generalConditionsRate: 0.13,
-    glInsuranceRate: 0.015,
-    contingencyRate: 0.12,
-    feeRate: 0.16,
-    feeBase: "cost_of_work",
-  };
+/** A tier's default rates come from the library tier catalogue (built-in defaults for unknown ids). */
+export function getDefaultConstructionIndirectsRates(tier: TierId, tiers: TierDefinition[] = DEFAULT_TIERS): ConstructionIndirectsRates {
+  const def = tiers.find((t) => t.id === tier) ?? DEFAULT_TIERS.find((t) => t.id === tier) ?? DEFAULT_TIERS[1];
+  return { ...def.indirects, feeBase: "cost_of_work" };
 }
 
 export type ConstructionIndirectsConfigV1 = {
   version: 1;
-  byTier: Record<TierId, Omit<ConstructionIndirectsRates, "feeBase">>;
+  /** Edited rates per tier; tiers without an entry use their catalogue defaults */
+  byTier: Partial<Record<TierId, TierIndirectRates>>;
   feeBase: IndirectFeeBase;
 };
 
 const STORAGE_KEY = "vmx_construction_indirects_v1";
 
 export function getDefaultConstructionIndirectsConfig(): ConstructionIndirectsConfigV1 {
-  const select = getDefaultConstructionIndirectsRates("select");
-  const reserve = getDefaultConstructionIndirectsRates("reserve");
-  const signature = getDefaultConstructionIndirectsRates("signature");
-  const legacy = getDefaultConstructionIndirectsRates("legacy");
-
   return {
     version: 1,
     feeBase: "cost_of_work",
-    byTier: {
-      select: {
-        generalConditionsRate: select.generalConditionsRate,
-        glInsuranceRate: select.glInsuranceRate,
-        contingencyRate: select.contingencyRate,
-        feeRate: select.feeRate,
-      },
-      reserve: {
-        generalConditionsRate: reserve.generalConditionsRate,
-        glInsuranceRate: reserve.glInsuranceRate,
-        contingencyRate: reserve.contingencyRate,
-        feeRate: reserve.feeRate,
-      },
-      signature: {
-        generalConditionsRate: signature.generalConditionsRate,
-        glInsuranceRate: signature.glInsuranceRate,
-        contingencyRate: signature.contingencyRate,
-        feeRate: signature.feeRate,
-      },
-      legacy: {
-        generalConditionsRate: legacy.generalConditionsRate,
-        glInsuranceRate: legacy.glInsuranceRate,
-        contingencyRate: legacy.contingencyRate,
-        feeRate: legacy.feeRate,
-      },
-    },
+    byTier: {},
   };
 }
 
@@ -143,37 +81,24 @@ export function loadConstructionIndirectsConfig(): ConstructionIndirectsConfigV1
 
     const feeBase: IndirectFeeBase = parsed.feeBase === "direct_only" ? "direct_only" : "cost_of_work";
 
-    const byTier = parsed.byTier || {};
-    const next: ConstructionIndirectsConfigV1 = {
-      version: 1,
-      feeBase,
-      byTier: {
-        select: {
-          generalConditionsRate: clampRate(byTier?.select?.generalConditionsRate, def.byTier.select.generalConditionsRate),
-          glInsuranceRate: clampRate(byTier?.select?.glInsuranceRate, def.byTier.select.glInsuranceRate),
-          contingencyRate: clampRate(byTier?.select?.contingencyRate, def.byTier.select.contingencyRate),
-          feeRate: clampRate(byTier?.select?.feeRate, def.byTier.select.feeRate),
-        },
-        reserve: {
-          generalConditionsRate: clampRate(byTier?.reserve?.generalConditionsRate, def.byTier.reserve.generalConditionsRate),
-          glInsuranceRate: clampRate(byTier?.reserve?.glInsuranceRate, def.byTier.reserve.glInsuranceRate),
-          contingencyRate: clampRate(byTier?.reserve?.contingencyRate, def.byTier.reserve.contingencyRate),
-          feeRate: clampRate(byTier?.reserve?.feeRate, def.byTier.reserve.feeRate),
-        },
-        signature: {
-          generalConditionsRate: clampRate(byTier?.signature?.generalConditionsRate, def.byTier.signature.generalConditionsRate),
-          glInsuranceRate: clampRate(byTier?.signature?.glInsuranceRate, def.byTier.signature.glInsuranceRate),
-          contingencyRate: clampRate(byTier?.signature?.contingencyRate, def.byTier.signature.contingencyRate),
-          feeRate: clampRate(byTier?.signature?.feeRate, def.byTier.signature.feeRate),
-        },
-        legacy: {
-          generalConditionsRate: clampRate(byTier?.legacy?.generalConditionsRate, def.byTier.legacy.generalConditionsRate),
-          glInsuranceRate: clampRate(byTier?.legacy?.glInsuranceRate, def.byTier.legacy.glInsuranceRate),
-          contingencyRate: clampRate(byTier?.legacy?.contingencyRate, def.byTier.legacy.contingencyRate),
-          feeRate: clampRate(byTier?.legacy?.feeRate, def.byTier.legacy.feeRate),
-        },
-      },
-    };
+    // Entries still equal to the built-in defaults (saved before the tier catalogue) are
+    // dropped, so those tiers follow catalogue edits
+    const byTier: ConstructionIndirectsConfigV1["byTier"] = {};
+    for (const [tier, rates] of Object.entries(parsed.byTier || {})) {
+      if (!rates || typeof rates !== "object") continue;
+      const r = rates as Record<string, unknown>;
+      const fallback = getDefaultConstructionIndirectsRates(tier);
+      const next: TierIndirectRates = {
+        generalConditionsRate: clampRate(r.generalConditionsRate, fallback.generalConditionsRate),
+        glInsuranceRate: clampRate(r.glInsuranceRate, fallback.glInsuranceRate),
+        contingencyRate: clampRate(r.contingencyRate, fallback.contingencyRate),
+        feeRate: clampRate(r.feeRate, fallback.feeRate),
+      };
+      const builtIn = DEFAULT_TIERS.find((t) => t.id === tier)?.indirects;
+      if (builtIn && JSON.stringify(builtIn) === JSON.stringify(next)) continue;
+      byTier[tier] = next;
+    }
+    const next: ConstructionIndirectsConfigV1 = { version: 1, feeBase, byTier };
 
     // Persist normalized
     try {
@@ -196,9 +121,9 @@ export function saveConstructionIndirectsConfig(cfg: ConstructionIndirectsConfig
   }
 }
 
-export function getRatesForTier(cfg: ConstructionIndirectsConfigV1, tier: TierId): ConstructionIndirectsRates {
+export function getRatesForTier(cfg: ConstructionIndirectsConfigV1, tier: TierId, tiers: TierDefinition[] = DEFAULT_TIERS): ConstructionIndirectsRates {
   const t = cfg.byTier[tier];
-  const def = getDefaultConstructionIndirectsRates(tier);
+  const def = getDefaultConstructionIndirectsRates(tier, tiers);
   return {
     generalConditionsRate: clampRate(t?.generalConditionsRate, def.generalConditionsRate),
     glInsuranceRate: clampRate(t?.glInsuranceRate, def.glInsuranceRate),
@@ -208,6 +133,51 @@ export function getRatesForTier(cfg: ConstructionIndirectsConfigV1, tier: TierId
   };
 }
 
+/** A building priced at its own tier / typology / indirect rates, held fixed while another building is flexed. */
+export type PricedBuilding = {
+  result: ScenarioResult;
+  indirects: ConstructionIndirectsComputed;
+};
+
+/**
+ * Sums per-building indirects into one project roll-up. ratesUsed become the
+ * effective blended rates, so re-running computeConstructionIndirects on the
+ * combined direct cost with them reproduces the same contract total.
+ */
+export function combineConstructionIndirects(parts: ConstructionIndirectsComputed[], areaSqft: number): ConstructionIndirectsComputed {
+  if (parts.length === 1) return parts[0];
+
+  const area = Number.isFinite(areaSqft) ? Math.max(1, areaSqft) : 1;
+  const direct = parts.reduce((sum, p) => sum + p.directHardCost, 0);
+  const costOfWorkSubtotal = parts.reduce((sum, p) => sum + p.costOfWorkSubtotal, 0);
+  const totalIndirects = parts.reduce((sum, p) => sum + p.totalIndirects, 0);
+  const contractTotal = parts.reduce((sum, p) => sum + p.contractTotal, 0);
+
+  const lines: ConstructionIndirectLine[] = (parts[0]?.lines ?? []).map((first) => {
+    const same = parts.map((p) => p.lines.find((l) => l.id === first.id));
+    const base = same.reduce((sum, l) => sum + (l?.base ?? 0), 0);
+    const amount = same.reduce((sum, l) => sum + (l?.amount ?? 0), 0);
+    return { id: first.id, label: first.label, rate: base > 0 ? amount / base : first.rate, base, amount };
+  });
+  const rateOf = (id: ConstructionIndirectLine["id"]) => lines.find((l) => l.id === id)?.rate ?? 0;
+
+  return {
+    directHardCost: direct,
+    costOfWorkSubtotal,
+    totalIndirects,
+    contractTotal,
+    contractPsqft: contractTotal / area,
+    lines,
+    ratesUsed: {
+      generalConditionsRate: rateOf("general_conditions"),
+      glInsuranceRate: rateOf("gl_insurance"),
+      contingencyRate: rateOf("contingency"),
+      feeRate: rateOf("gc_fee"),
+      feeBase: parts[0]?.ratesUsed.feeBase ?? "cost_of_work",
+    },
+  };
+}
+
 export function computeConstructionIndirects(args: {
   directHardCost: number;
   areaSqft: number;
@@ -0,0 +1,292 @@
+import { BenchmarkSet } from "../domain/vmx-domain";
+import { BenchmarkLibrary } from "../data/benchmark-library-storage";
+import { parseCsv } from "../data/benchmark-csv-import";
+
+/**
+ * Cost index escalation (benchmark date → estimate date)
+ *
+ * Each BenchmarkSet may carry the month its rates were priced at. A cost
+ * index series per region (or one fallback series for all regions) turns that
+ * into a factor: index(estimate month) / index(effective month), linearly
+ * interpolated between points. Dates outside the series use the nearest point
+ * and are flagged — the index is never extrapolated.
+ *
+ * This only brings stale benchmarks up to the estimate date. Forward
+ * escalation over the construction period stays in computeSoftCosts.
+ */
+
+/** Series used for regions that have none of their own */
+export const FALLBACK_SERIES_ID = "*";
+
+export type CostIndexPoint = {
+  /** YYYY-MM */
+  date: string;
+  value: number;
+};
+
+export type CostIndexSeries = {
+  /** Region id, or FALLBACK_SERIES_ID */
+  regionId: string;
+  /** Publisher / index name, shown next to the factor */
+  label: string;
+  /** Sorted by date, one point per month */
+  points: CostIndexPoint[];
+};
+
+export type CostIndexConfigV1 = {
+  version: 1;
+  enabled: boolean;
+  /** YYYY-MM to escalate to; "" = current month */
+  estimateDate: string;
+  series: CostIndexSeries[];
+};
+
+export type IndexEscalationStatus = "applied" | "disabled" | "no-effective-date" | "no-index";
+
+export type IndexEscalation = {
+  status: IndexEscalationStatus;
+  /** 1 unless status is "applied" */
+  factor: number;
+  /** Benchmark effective month */
+  fromDate: string | null;
+  /** Estimate month */
+  toDate: string;
+  fromValue: number | null;
+  toValue: number | null;
+  seriesLabel: string | null;
+  /** A date fell outside the series and the nearest point was used */
+  clamped: boolean;
+};
+
+const STORAGE_KEY = "vmx_cost_index_v1";
+
+export function currentMonth(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+export function isMonth(v: unknown): v is string {
+  return typeof v === "string" && /^\d{4}-(0[1-9]|1[0-2])$/.test(v);
+}
+
+function monthNumber(date: string): number {
+  const [y, m] = date.split("-").map(Number);
+  return y * 12 + (m - 1);
+}
+
+export function getDefaultCostIndexConfig(): CostIndexConfigV1 {
+  return { version: 1, enabled: true, estimateDate: "", series: [] };
+}
+
+/** Valid points only, sorted, last value wins for a repeated month. */
+export function normalizePoints(input: unknown): CostIndexPoint[] {
+  if (!Array.isArray(input)) return [];
+  const byMonth = new Map<string, number>();
+  for (const p of input) {
+    if (!p || typeof p !== "object") continue;
+    const raw = p as Record<string, unknown>;
+    const value = Number(raw.value);
+    if (isMonth(raw.date) && Number.isFinite(value) && value > 0) byMonth.set(raw.date, value);
+  }
+  return [...byMonth.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([date, value]) => ({ date, value }));
+}
+
+function normalizeSeries(input: unknown): CostIndexSeries | null {
+  if (!input || typeof input !== "object") return null;
+  const raw = input as Record<string, unknown>;
+  if (typeof raw.regionId !== "string" || !raw.regionId) return null;
+  return {
+    regionId: raw.regionId,
+    label: typeof raw.label === "string" ? raw.label : "Cost index",
+    points: normalizePoints(raw.points),
+  };
+}
+
+export function loadCostIndexConfig(): CostIndexConfigV1 {
+  const def = getDefaultCostIndexConfig();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return def;
+    const parsed = JSON.parse(raw);
+    if (!parsed || parsed.version !== 1) return def;
+
+    const series: CostIndexSeries[] = [];
+    for (const s of Array.isArray(parsed.series) ? parsed.series : []) {
+      const n = normalizeSeries(s);
+      if (n && !series.some((x) => x.regionId === n.regionId)) series.push(n);
+    }
+    return {
+      version: 1,
+      enabled: parsed.enabled !== false,
+      estimateDate: isMonth(parsed.estimateDate) ? parsed.estimateDate : "",
+      series,
+    };
+  } catch {
+    return def;
+  }
+}
+
+export function saveCostIndexConfig(cfg: CostIndexConfigV1) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cfg));
+  } catch {
+    // ignore
+  }
+}
+
+export function seriesForRegion(cfg: CostIndexConfigV1, regionId: string): CostIndexSeries | null {
+  const own = cfg.series.find((s) => s.regionId === regionId && s.points.length);
+  return own ?? cfg.series.find((s) => s.regionId === FALLBACK_SERIES_ID && s.points.length) ?? null;
+}
+
+/** Index value at a month (linear between points, nearest point outside the series). */
+export function indexValueAt(points: CostIndexPoint[], date: string): { value: number; clamped: boolean } | null {
+  if (!points.length || !isMonth(date)) return null;
+  const t = monthNumber(date);
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (t <= monthNumber(first.date)) return { value: first.value, clamped: t < monthNumber(first.date) };
+  if (t >= monthNumber(last.date)) return { value: last.value, clamped: t > monthNumber(last.date) };
+
+  for (let i = 1; i < points.length; i++) {
+    const b = points[i];
+    const tb = monthNumber(b.date);
+    if (t > tb) continue;
+    const a = points[i - 1];
+    const ta = monthNumber(a.date);
+    return { value: a.value + ((b.value - a.value) * (t - ta)) / (tb - ta), clamped: false };
+  }
+  return { value: last.value, clamped: false };
+}
+
+export function resolveEstimateDate(cfg: CostIndexConfigV1): string {
+  return isMonth(cfg.estimateDate) ? cfg.estimateDate : currentMonth();
+}
+
+export function computeIndexEscalation(cfg: CostIndexConfigV1, regionId: string, effectiveDate: string | undefined): IndexEscalation {
+  const toDate = resolveEstimateDate(cfg);
+  const fromDate = isMonth(effectiveDate) ? effectiveDate : null;
+  const none = (status: IndexEscalationStatus, seriesLabel: string | null = null): IndexEscalation => ({
+    status,
+    factor: 1,
+    fromDate,
+    toDate,
+    fromValue: null,
+    toValue: null,
+    seriesLabel,
+    clamped: false,
+  });
+
+  if (!cfg.enabled) return none("disabled");
+  if (!fromDate) return none("no-effective-date");
+  const series = seriesForRegion(cfg, regionId);
+  if (!series) return none("no-index");
+
+  const from = indexValueAt(series.points, fromDate);
+  const to = indexValueAt(series.points, toDate);
+  if (!from || !to) return none("no-index", series.label);
+
+  return {
+    status: "applied",
+    factor: to.value / from.value,
+    fromDate,
+    toDate,
+    fromValue: from.value,
+    toValue: to.value,
+    seriesLabel: series.label,
+    clamped: from.clamped || to.clamped,
+  };
+}
+
+/** Scales every band rate by the index factor (provenance and target ranges unchanged). */
+export function applyIndexEscalation(benchmark: BenchmarkSet, escalation: IndexEscalation): BenchmarkSet {
+  if (escalation.status !== "applied" || Math.abs(escalation.factor - 1) < 1e-9) return benchmark;
+  return {
+    ...benchmark,
+    name: `${benchmark.name} (Idx×${escalation.factor.toFixed(3)})`,
+    bands: benchmark.bands.map((b) => ({ ...b, psqft: b.psqft * escalation.factor })),
+  };
+}
+
+export function describeIndexEscalation(e: IndexEscalation): string {
+  switch (e.status) {
+    case "disabled":
+      return "Cost index escalation off";
+    case "no-effective-date":
+      return `No benchmark effective date — not escalated to ${e.toDate}`;
+    case "no-index":
+      return `No cost index for this region — not escalated from ${e.fromDate} to ${e.toDate}`;
+    case "applied":
+      return `Index ×${e.factor.toFixed(3)} (${e.fromDate} → ${e.toDate}, ${e.seriesLabel}${e.clamped ? ", outside index range — nearest point used" : ""})`;
+  }
+}
+
+export type CostIndexCsvResult = { series: CostIndexSeries[]; pointCount: number; issues: string[] };
+
+export const COST_INDEX_CSV_HEADERS = ["Region", "Date (YYYY-MM)", "Index", "Series"];
+
+const norm = (s: string) => s.trim().toLowerCase().replace(/[^a-z0-9]+/g, "");
+
+/**
+ * One point per row: region (id, name, or "*" / "all" for the fallback
+ * series), month and index value; an optional series column names the index.
+ * Returns the imported series only — callers merge them into the config.
+ */
+export function parseCostIndexCsv(text: string, lib: BenchmarkLibrary): CostIndexCsvResult {
+  const rows = parseCsv(text);
+  if (rows.length < 2) return { series: [], pointCount: 0, issues: ["Needs a header row and at least one index row."] };
+
+  const headers = rows[0].map(norm);
+  const col = (...names: string[]) => headers.findIndex((h) => names.some((n) => h.startsWith(n)));
+  const idx = { region: col("region"), date: col("date", "month", "period"), value: col("index", "value"), label: col("series", "source", "label") };
+
+  const issues: string[] = [];
+  for (const [k, v] of Object.entries({ region: idx.region, date: idx.date, index: idx.value })) {
+    if (v < 0) issues.push(`Missing "${k}" column.`);
+  }
+  if (issues.length) return { series: [], pointCount: 0, issues };
+
+  const bySeries = new Map<string, { label: string; points: CostIndexPoint[] }>();
+  let pointCount = 0;
+  rows.slice(1).forEach((row, i) => {
+    const rowNo = i + 2;
+    const get = (index: number) => (index >= 0 ? (row[index] ?? "").trim() : "");
+    if (row.every((c) => !c.trim())) return;
+
+    const regionRaw = get(idx.region);
+    const regionId =
+      regionRaw === FALLBACK_SERIES_ID || norm(regionRaw) === "all"
+        ? FALLBACK_SERIES_ID
+        : lib.regions.find((r) => r.id === regionRaw || norm(r.name) === norm(regionRaw))?.id;
+    if (!regionId) return issues.push(`Row ${rowNo}: unknown region "${regionRaw}" — skipped.`);
+
+    const date = get(idx.date).slice(0, 7);
+    if (!isMonth(date)) return issues.push(`Row ${rowNo}: date "${get(idx.date)}" not YYYY-MM — skipped.`);
+
+    const value = Number(get(idx.value).replace(/[^0-9.-]/g, ""));
+    if (!Number.isFinite(value) || value <= 0) return issues.push(`Row ${rowNo}: invalid index value "${get(idx.value)}" — skipped.`);
+
+    const entry = bySeries.get(regionId) ?? { label: get(idx.label) || "Imported index", points: [] };
+    entry.points.push({ date, value });
+    bySeries.set(regionId, entry);
+    pointCount++;
+  });
+
+  const series = [...bySeries.entries()].map(([regionId, s]) => ({ regionId, label: s.label, points: normalizePoints(s.points) }));
+  return { series, pointCount, issues };
+}
+
+/** Imported series replace the existing series for the same region. */
+export function mergeCostIndexSeries(cfg: CostIndexConfigV1, incoming: CostIndexSeries[]): CostIndexConfigV1 {
+  const series = cfg.series.filter((s) => !incoming.some((x) => x.regionId === s.regionId));
+  return { ...cfg, series: [...series, ...incoming] };
+}
+
+export function buildCostIndexCsv(cfg: CostIndexConfigV1): string {
+  const lines = [COST_INDEX_CSV_HEADERS.join(",")];
+  for (const s of cfg.series) {
+    const label = /[",\n]/.test(s.label) ? `"${s.label.replace(/"/g, '""')}"` : s.label;
+    for (const p of s.points) lines.push([s.regionId, p.date, p.value, label].join(","));
+  }
+  return lines.join("\n") + "\n";
+}
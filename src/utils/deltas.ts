@@ -0,0 +1,168 @@
+import { CategoryResult, ScenarioResult, VMX_CATEGORIES, VmxCategoryId } from "../domain/vmx-domain";
+
+/**
+ * Category deltas + key drivers
+ *
+ * Shared by compare mode (scenario vs baseline scenario) and the snapshot diff
+ * (later snapshot vs earlier snapshot) so both read the same way.
+ */
+
+export type DeltaHeat = "low" | "medium" | "high";
+export type DeltaDirection = "increase" | "decrease" | "flat";
+export type DeltaSortMode = "impact" | "category";
+
+export type DeltaRow = {
+  categoryId: VmxCategoryId;
+  categoryLabel: string;
+  deltaCost: number; // scenario - baseline
+  deltaPct: number; // scenario% - baseline%
+  absFracOfATotal: number; // |deltaCost| / baseline total
+  direction: DeltaDirection;
+  heat: DeltaHeat;
+  isTopDriver: boolean;
+};
+
+// Key Drivers (interactive comparisons)
+export type DriverLine = {
+  categoryId: VmxCategoryId;
+  label: string;
+  deltaCost: number; // scenario - baseline
+  deltaPct: number; // (scenario/baseline)-1
+};
+
+const KEY_DRIVER_PCT_THRESHOLD = 0.05; // 5%
+
+function buildCategoryCostMap(result: { categories: CategoryResult[] }) {
+  const out = new Map<VmxCategoryId, { label: string; cost: number }>();
+  for (const c of result.categories) out.set(c.categoryId, { label: c.label, cost: c.cost });
+  return out;
+}
+
+export function computeDriverLines(args: {
+  scenario: { totalCost: number; categories: CategoryResult[] };
+  baseline: { totalCost: number; categories: CategoryResult[] };
+}): { totalDeltaCost: number; totalDeltaPct: number; lines: DriverLine[] } {
+  const { scenario, baseline } = args;
+
+  const scenarioMap = buildCategoryCostMap(scenario);
+  const baselineMap = buildCategoryCostMap(baseline);
+
+  const lines: DriverLine[] = [];
+
+  for (const cat of VMX_CATEGORIES) {
+    const s = scenarioMap.get(cat.id);
+    const b = baselineMap.get(cat.id);
+    const sCost = s?.cost ?? 0;
+    const bCost = b?.cost ?? 0;
+    const deltaCost = sCost - bCost;
+    const deltaPct = bCost > 0 ? sCost / bCost - 1 : 0;
+    lines.push({ categoryId: cat.id, label: s?.label ?? cat.label, deltaCost, deltaPct });
+  }
+
+  // Only show categories with meaningful movement
+  const filtered = lines
+    .filter((l) => Math.abs(l.deltaPct) >= KEY_DRIVER_PCT_THRESHOLD)
+    .sort((a, b) => Math.abs(b.deltaCost) - Math.abs(a.deltaCost))
+    .slice(0, 6);
+
+  const totalDeltaCost = scenario.totalCost - baseline.totalCost;
+  const totalDeltaPct = baseline.totalCost > 0 ? scenario.totalCost / baseline.totalCost - 1 : 0;
+
+  return { totalDeltaCost, totalDeltaPct, lines: filtered };
+}
+
+export type DeltaSettings = {
+  mediumThr: number;
+  highThr: number;
+  sort: DeltaSortMode;
+  driversOnly: boolean;
+  driverMode: "topN" | "pct";
+  driverTopN: number;
+  driverPctThreshold: number;
+  driverPctMaxDrivers: number;
+};
+
+export type DeltaSummary = {
+  totalDelta: number;
+  rows: DeltaRow[];
+  increases: DeltaRow[];
+  decreases: DeltaRow[];
+  currency: string;
+  aTotal: number; // baseline
+  bTotal: number; // scenario
+};
+
+/** Category deltas (scenario − baseline) with heat + driver flags. */
+export function computeDeltaSummary(baseline: ScenarioResult, scenario: ScenarioResult, settings: DeltaSettings): DeltaSummary {
+  const aTotal = baseline.totalCost > 0 ? baseline.totalCost : 1;
+  const totalDelta = scenario.totalCost - baseline.totalCost;
+
+  const baseRows: DeltaRow[] = baseline.categories.map((a: CategoryResult) => {
+    const b = scenario.categories.find((x: CategoryResult) => x.categoryId === a.categoryId);
+    if (!b) throw new Error(`Missing category in scenario: ${a.categoryId}`);
+
+    const deltaCost = b.cost - a.cost;
+    const deltaPct = b.pctOfTotal - a.pctOfTotal;
+    const absFrac = Math.abs(deltaCost) / aTotal;
+
+    let direction: DeltaDirection = "flat";
+    if (deltaCost > 0) direction = "increase";
+    else if (deltaCost < 0) direction = "decrease";
+
+    let heat: DeltaHeat = "low";
+    if (absFrac >= settings.highThr) heat = "high";
+    else if (absFrac >= settings.mediumThr) heat = "medium";
+
+    return {
+      categoryId: a.categoryId,
+      categoryLabel: a.label,
+      deltaCost,
+      deltaPct,
+      absFracOfATotal: absFrac,
+      direction,
+      heat,
+      isTopDriver: false,
+    };
+  });
+
+  const eligible = [...baseRows].filter((r) => Math.abs(r.deltaCost) > 0);
+  const byAbs = eligible.sort((x, y) => Math.abs(y.deltaCost) - Math.abs(x.deltaCost));
+  let driverIds = new Set<VmxCategoryId>();
+  if (settings.driverMode === "topN") {
+    const n = Math.max(1, Math.floor(settings.driverTopN));
+    driverIds = new Set(byAbs.slice(0, n).map((r) => r.categoryId));
+  } else {
+    const thr = Math.max(0, settings.driverPctThreshold);
+    const cap = Math.max(1, Math.floor(settings.driverPctMaxDrivers));
+    const candidates = byAbs.filter((r) => r.absFracOfATotal >= thr);
+    driverIds = new Set(candidates.slice(0, cap).map((r) => r.categoryId));
+  }
+
+  let rows = baseRows.map((r) => {
+    const isTopDriver = driverIds.has(r.categoryId);
+    const heat: DeltaHeat = isTopDriver && r.heat === "low" && r.absFracOfATotal > 0 ? "medium" : r.heat;
+    return { ...r, isTopDriver, heat };
+  });
+
+  if (settings.sort === "impact") {
+    rows = [...rows].sort((a, b) => Math.abs(b.deltaCost) - Math.abs(a.deltaCost));
+  } else {
+    const order = new Map<VmxCategoryId, number>(VMX_CATEGORIES.map((c, idx) => [c.id, idx]));
+    rows = [...rows].sort((a, b) => (order.get(a.categoryId) ?? 999) - (order.get(b.categoryId) ?? 999));
+  }
+
+  if (settings.driversOnly) rows = rows.filter((r) => r.isTopDriver);
+
+  const increases = [...rows].filter((r) => r.deltaCost > 0).sort((a, b) => b.deltaCost - a.deltaCost).slice(0, 3);
+  const decreases = [...rows].filter((r) => r.deltaCost < 0).sort((a, b) => a.deltaCost - b.deltaCost).slice(0, 3);
+
+  return {
+    totalDelta,
+    rows,
+    increases,
+    decreases,
+    currency: baseline.currency ?? "USD",
+    aTotal: baseline.totalCost,
+    bTotal: scenario.totalCost,
+  };
+}
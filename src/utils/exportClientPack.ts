@@ -1,17 +1,51 @@
 import JSZip from "jszip";
-import { ScenarioSelection, ScenarioResult } from "../domain/vmx-domain";
-import { formatMoney, formatPct } from "./format";
-import { CashflowYearRow, SoftCostsComputed, SoftCostsConfig, configToPrettyJson } from "./softCosts";
+import {
+  AreaUnit,
+  QuantityItem,
+  RateOverrideLine,
+  RateSourceLine,
+  ScenarioSelection,
+  ScenarioResult,
+  SubElementResult,
+  VMX_CATEGORIES,
+  areaUnitLabel,
+  psqftToRate,
+  quantityItemAmount,
+  sqftToArea,
+} from "../domain/vmx-domain";
+import { formatArea, formatMoney, formatPct, formatRate } from "./format";
+import {
+  CashflowPeriodRow,
+  CashflowStream,
+  SoftCostsComputed,
+  SoftCostsConfig,
+  addMonths,
+  configToPrettyJson,
+  formatMonth,
+  resolveCashflowStart,
+} from "./softCosts";
+import { projectDurationMonths } from "./projectPhases";
+import type { FinancingComputed, FinancingConfigV1, LoanBalanceRow } from "./financing";
+import type { MonteCarloResult, UncertaintyConfigV1 } from "./monteCarlo";
+import { SENSITIVITY_GROUP_LABELS, type SensitivityResult } from "./sensitivity";
+import { describeIndexEscalation, type IndexEscalation } from "./costIndex";
 
 /**
  * VMX Client Pack Export
  *
  * Produces a lightweight, meeting-ready bundle (ZIP) that captures:
- * - Scenario selections + computed results
- * - Compare deltas (if enabled)
+ * - Scenario selections + computed results (any number of scenarios)
+ * - Quantity / allowance line items (included in category costs)
+ * - Per-building breakdown for multi-building estates
+ * - Deltas vs the baseline scenario (if compare is enabled)
  * - Soft costs + cashflow (if enabled)
  * - Optional N4S context + modifiers (location/typology/land)
  * - Optional construction indirects snapshot (if provided by App)
+ * - Optional Monte Carlo range (P10 / P50 / P90) when uncertainty mode is on
+ * - Sensitivity (tornado) drivers ranked by Grand Total swing
+ * - Sources appendix: the provenance behind every rate used in each estimate
+ * - Cost index factor applied to bring library rates to the estimate date
+ * - Construction loan carry and monthly loan balance (if financing is on)
  */
 
 export type ClientPackMeta = {
@@ -20,41 +54,26 @@ export type ClientPackMeta = {
   datasetName: string;
   datasetLastUpdated: string;
   assumptions: string;
-  areaSqft: number;
-  tierLabel: string;
-  scenarioAName: string;
-  scenarioABenchmarkName: string;
+  areaUnit?: AreaUnit;
   compareMode: boolean;
-  scenarioBName?: string;
-  scenarioBBenchmarkName?: string;
   generatedAtIso: string;
+  /** YYYY-MM library rates were escalated to */
+  estimateDate?: string;
+  /** Benchmark library version priced from (label + id) */
+  libraryVersion?: string;
+  libraryVersionId?: string;
+
+  baselineScenarioId?: string;
+  baselineScenarioName?: string;
 
   // Phase A (optional)
   n4sProjectId?: string;
   n4sProjectName?: string;
   n4sClientName?: string;
 
-  locationFactorA?: number;
-  locationFactorB?: number;
-
-  scenarioALocationId?: string;
-  scenarioALocationName?: string;
-  scenarioALocationPreset?: string;
-  scenarioATypology?: string;
-  scenarioALandCost?: number;
-
-  scenarioBLocationId?: string;
-  scenarioBLocationName?: string;
-  scenarioBLocationPreset?: string;
-  scenarioBTypology?: string;
-  scenarioBLandCost?: number;
-
   baselineLocationId?: string;
   baselineTypology?: string;
 
-  grandTotalA?: number;
-  grandTotalB?: number;
-
   // Future-safe
   [k: string]: any;
 };
@@ -65,31 +84,95 @@ export type DeltaRowExport = {
   direction: string;
   deltaCost: number;
   deltaPct: number;
-  impactVsATotal: number;
+  impactVsBaselineTotal: number;
   heat: string;
   isDriver: boolean;
 };
 
-type Args = {
-  meta: ClientPackMeta;
-  selectionsA: Record<string, ScenarioSelection>;
-  resultA: ScenarioResult;
+/** One building of a multi-building scenario (labels already resolved) */
+export type ClientPackBuildingRow = {
+  name: string;
+  isMain: boolean;
+  /** Always canonical sq ft */
+  areaSqft: number;
+  tierLabel: string;
+  typology: string;
+  directHard: number;
+  indirects: number;
+  contract: number;
+};
 
-  selectionsB: Record<string, ScenarioSelection> | null;
-  resultB: ScenarioResult | null;
+/** Rate sources for one building of a scenario */
+export type ClientPackSourceGroup = {
+  buildingName: string;
+  lines: RateSourceLine[];
+};
 
-  deltaRows: DeltaRowExport[] | null;
+export type ClientPackScenario = {
+  id: string;
+  /** Position letter (A, B, C…) used for file names */
+  letter: string;
+  name: string;
+  benchmarkName: string;
+  isBaseline: boolean;
 
-  // Optional: construction indirects snapshots (owned by App)
-  indirectsA?: any;
-  indirectsB?: any;
+  /** Always canonical sq ft (see meta.areaUnit for how it was presented). All buildings combined. */
+  areaSqft: number;
+  tierLabel: string;
+  interiorTierOverride?: string;
+
+  regionId: string;
+  regionName: string;
+  locationPreset: string;
+  locationFactor: number;
+  typology: string;
+  landCost: number;
+  grandTotal?: number;
+  /** Library effective date → estimate date escalation (already in all rates) */
+  costIndex?: IndexEscalation;
+
+  selections: Record<string, ScenarioSelection>;
+  /** Manual $/sf overrides with their delta vs the band rate */
+  rateOverrides?: RateOverrideLine[];
+  /** Quantity × rate items already included in result category costs */
+  quantityItems?: QuantityItem[];
+  result: ScenarioResult;
+  /** Per-building breakdown (only when the scenario has more than one building) */
+  buildings?: ClientPackBuildingRow[];
+  /** UniFormat Level 2 split of categories that have sub-elements */
+  subElements?: SubElementResult[];
+  /** What underpins each rate used (one group per building) */
+  sources?: ClientPackSourceGroup[];
+
+  // Optional: construction indirects snapshot (owned by App)
+  indirects?: any;
 
   // Optional: soft costs + cashflow
+  softCosts?: SoftCostsComputed;
+  cashflow?: CashflowPeriodRow[];
+  /** Draw columns of the cashflow (hard cost by phase, indirects, soft line items) */
+  cashflowStreams?: CashflowStream[];
+
+  /** Construction loan carry (financing enabled only) */
+  financing?: FinancingComputed;
+
+  /** Monte Carlo range (uncertainty mode only) */
+  uncertainty?: MonteCarloResult;
+
+  /** One-at-a-time sensitivity drivers (largest Grand Total swing first) */
+  sensitivity?: SensitivityResult;
+
+  /** Deltas vs the baseline scenario (omitted for the baseline itself) */
+  deltaRows?: DeltaRowExport[] | null;
+};
+
+type Args = {
+  meta: ClientPackMeta;
+  /** Ordered as presented; the first entry is the primary scenario. */
+  scenarios: ClientPackScenario[];
   softCostsConfig?: SoftCostsConfig;
-  softCostsA?: SoftCostsComputed;
-  softCostsB?: SoftCostsComputed;
-  cashflowA?: CashflowYearRow[];
-  cashflowB?: CashflowYearRow[];
+  uncertaintyConfig?: UncertaintyConfigV1;
+  financingConfig?: FinancingConfigV1;
 };
 
 function safeFileName(name: string) {
@@ -105,41 +188,166 @@ function toCsvRow(cols: (string | number)[]) {
   return out.join(",") + "\n";
 }
 
-function buildAllocationCsv(result: ScenarioResult) {
-  let csv = "Category,Cost,% of Total,Target Min %,Target Max %,Status\n";
+function buildAllocationCsv(result: ScenarioResult, unit: AreaUnit, subElements: SubElementResult[] = []) {
+  let csv = toCsvRow(["Category", `Rate (${result.currency} / ${areaUnitLabel(unit)})`, "Cost", "% of Total", "Target Min %", "Target Max %", "Status", "Parent Category", "Quantity Items"]);
   for (const r of result.categories) {
     csv += toCsvRow([
       r.label,
+      psqftToRate(r.psqftUsed, unit).toFixed(2),
       r.cost,
       (r.pctOfTotal * 100).toFixed(2),
       (r.targetMinPct * 100).toFixed(2),
       (r.targetMaxPct * 100).toFixed(2),
       r.rangeStatus,
+      "",
+      r.quantityCost ?? 0,
     ]);
+    for (const s of subElements.filter((x) => x.parentId === r.categoryId)) {
+      csv += toCsvRow([
+        s.code ? `${s.code} ${s.label}` : s.label,
+        psqftToRate(s.psqftUsed, unit).toFixed(2),
+        s.cost,
+        (s.pctOfTotal * 100).toFixed(2),
+        "",
+        "",
+        "",
+        r.label,
+        "",
+      ]);
+    }
   }
   return csv;
 }
 
-function buildSelectionsJson(selections: Record<string, ScenarioSelection>) {
-  return JSON.stringify(selections, null, 2);
+function buildQuantityItemsCsv(items: QuantityItem[], currency: string) {
+  let csv = toCsvRow(["Category", "Item", "Unit", "Quantity", `Rate (${currency} / unit)`, "Amount"]);
+  for (const q of items) {
+    const cat = VMX_CATEGORIES.find((c) => c.id === q.categoryId);
+    csv += toCsvRow([cat?.label ?? q.categoryId, q.label, q.unit, q.quantity, q.rate, quantityItemAmount(q)]);
+  }
+  return csv;
 }
 
-function buildDeltaCsv(rows: DeltaRowExport[]) {
-  let csv = "Category,Direction,Delta Cost,Delta % of Total,Impact vs A,Heat,Is Driver\n";
-  for (const r of rows) {
+function buildBuildingsCsv(rows: ClientPackBuildingRow[], currency: string, unit: AreaUnit) {
+  const unitLabel = areaUnitLabel(unit);
+  let csv = toCsvRow([
+    "Building",
+    "Main",
+    `Area (${unitLabel})`,
+    "Tier",
+    "Typology",
+    "Direct Hard",
+    `Direct Hard (${currency} / ${unitLabel})`,
+    "Construction Indirects",
+    "Construction Contract",
+  ]);
+  for (const b of rows) {
     csv += toCsvRow([
-      r.categoryLabel,
-      r.direction,
-      r.deltaCost,
-      (r.deltaPct * 100).toFixed(2),
-      (r.impactVsATotal * 100).toFixed(2),
-      r.heat,
-      r.isDriver ? "yes" : "no",
+      b.name,
+      b.isMain ? "yes" : "no",
+      Math.round(sqftToArea(b.areaSqft, unit)),
+      b.tierLabel,
+      b.typology,
+      b.directHard,
+      psqftToRate(b.directHard / Math.max(1, b.areaSqft), unit).toFixed(2),
+      b.indirects,
+      b.contract,
     ]);
   }
   return csv;
 }
 
+function buildSourcesCsv(scenarios: ClientPackScenario[], unit: AreaUnit) {
+  let csv = toCsvRow([
+    "Scenario",
+    "Building",
+    "Category",
+    "Band",
+    `Rate Used (per ${areaUnitLabel(unit)})`,
+    "Basis",
+    "Source",
+    "Effective Date",
+    "Sample Count",
+    "Confidence",
+    "Author",
+  ]);
+  for (const s of scenarios) {
+    for (const g of s.sources ?? []) {
+      for (const l of g.lines) {
+        const p = l.provenance;
+        csv += toCsvRow([
+          `${s.letter} — ${s.name}`,
+          g.buildingName,
+          l.label,
+          l.band,
+          psqftToRate(l.psqftUsed, unit).toFixed(2),
+          l.isOverride ? "Manual override" : "Benchmark band",
+          l.isOverride ? [l.overrideReason, l.overrideSource].filter(Boolean).join(" — ") : p?.source ?? "No source recorded",
+          l.isOverride ? "" : p?.effectiveDate ?? "",
+          l.isOverride ? "" : p?.sampleCount ?? "",
+          l.isOverride ? "" : p?.confidence ?? "",
+          l.isOverride ? "" : p?.author ?? "",
+        ]);
+      }
+    }
+  }
+  return csv;
+}
+
+function buildSelectionsJson(selections: Record<string, ScenarioSelection>, rateOverrides: RateOverrideLine[] = []) {
+  return JSON.stringify({ selections, rateOverrides }, null, 2);
+}
+
+function buildDeltaCsv(baselineName: string, scenarios: ClientPackScenario[]) {
+  let csv = "Scenario,Baseline,Category,Direction,Delta Cost,Delta % of Total,Impact vs Baseline,Heat,Is Driver\n";
+  for (const s of scenarios) {
+    for (const r of s.deltaRows ?? []) {
+      csv += toCsvRow([
+        s.name,
+        baselineName,
+        r.categoryLabel,
+        r.direction,
+        r.deltaCost,
+        (r.deltaPct * 100).toFixed(2),
+        (r.impactVsBaselineTotal * 100).toFixed(2),
+        r.heat,
+        r.isDriver ? "yes" : "no",
+      ]);
+    }
+  }
+  return csv;
+}
+
+/** meta.json carries a light per-scenario summary; full payloads live in scenarioX_* files. */
+function summarizeScenario(s: ClientPackScenario) {
+  return {
+    id: s.id,
+    letter: s.letter,
+    name: s.name,
+    benchmarkName: s.benchmarkName,
+    isBaseline: s.isBaseline,
+    areaSqft: s.areaSqft,
+    tierLabel: s.tierLabel,
+    interiorTierOverride: s.interiorTierOverride,
+    regionId: s.regionId,
+    regionName: s.regionName,
+    locationPreset: s.locationPreset,
+    locationFactor: s.locationFactor,
+    typology: s.typology,
+    costIndex: s.costIndex
+      ? { status: s.costIndex.status, factor: s.costIndex.factor, fromDate: s.costIndex.fromDate, toDate: s.costIndex.toDate, series: s.costIndex.seriesLabel }
+      : undefined,
+    landCost: s.landCost,
+    directHardCost: s.result.totalCost,
+    buildings: s.buildings?.map((b) => ({ name: b.name, areaSqft: b.areaSqft, directHard: b.directHard, contract: b.contract })),
+    grandTotal: s.grandTotal,
+    financingCarry: s.financing?.carry,
+    grandTotalRange: s.uncertainty
+      ? { p10: s.uncertainty.grandTotal.p10, p50: s.uncertainty.grandTotal.p50, p90: s.uncertainty.grandTotal.p90 }
+      : undefined,
+  };
+}
+
 function buildSoftCostsCsv(soft: SoftCostsComputed) {
   let csv = "Line Item,Amount\n";
   for (const b of soft.breakdown) {
@@ -151,24 +359,85 @@ function buildSoftCostsCsv(soft: SoftCostsComputed) {
   return csv;
 }
 
-function buildCashflowCsv(rows: CashflowYearRow[]) {
-  let csv = "Year,Weight,Base Draw,Escalation,Total Draw,Cumulative,Cumulative %\n";
+/** Monthly loan draws and balance */
+export function buildLoanBalanceCsv(rows: LoanBalanceRow[]) {
+  let csv = toCsvRow(["Month", "Date (YYYY-MM)", "Cost Draw", "Equity Draw", "Loan Draw", "Interest", "Interest Paid by Owner", "Loan Balance"]);
+  for (const r of rows) {
+    csv += toCsvRow([r.month, r.date, r.costDraw, r.equityDraw, r.loanDraw, r.interest, r.interestPaid, r.closingBalance]);
+  }
+  return csv;
+}
+
+/** Project phases with their dates (month 0 = the cashflow start) */
+function buildProjectScheduleCsv(cfg: SoftCostsConfig) {
+  const start = resolveCashflowStart(cfg);
+  let csv = toCsvRow(["Phase", "Start Month", "Duration (months)", "Start (YYYY-MM)", "End (YYYY-MM)"]);
+  for (const p of cfg.phases) {
+    csv += toCsvRow([p.label, p.startMonth, p.durationMonths, addMonths(start, p.startMonth), addMonths(start, p.startMonth + p.durationMonths - 1)]);
+  }
+  csv += toCsvRow(["Completion", projectDurationMonths(cfg.phases), "", "", addMonths(start, projectDurationMonths(cfg.phases) - 1)]);
+  return csv;
+}
+
+/** Dated draw rows; `streams` adds one base-draw column per stream (hard cost first) */
+export function buildCashflowCsv(rows: CashflowPeriodRow[], streams: CashflowStream[] = []) {
+  let csv = toCsvRow([
+    "Period",
+    "Start (YYYY-MM)",
+    "End (YYYY-MM)",
+    "Months",
+    "Weight",
+    "Base Draw",
+    "Escalation",
+    "Total Draw",
+    "Cumulative",
+    "Cumulative %",
+    ...streams.map((s) => s.label),
+  ]);
   for (const r of rows) {
     csv += toCsvRow([
-      r.year,
+      r.period,
+      r.startDate,
+      r.endDate,
+      r.months,
       (r.weight * 100).toFixed(2),
       r.baseDraw,
       r.escalationDraw,
       r.totalDraw,
       r.cumulativeTotal,
       (r.cumulativePct * 100).toFixed(2),
+      ...streams.map((s) => r.draws[s.id] ?? 0),
     ]);
   }
   return csv;
 }
 
-function buildReportText(meta: ClientPackMeta, resultA: ScenarioResult, resultB: ScenarioResult | null, deltaRows: DeltaRowExport[] | null) {
+function buildSensitivityCsv(scenarios: ClientPackScenario[]) {
+  let csv = "Scenario,Rank,Driver,Group,Low Setting,High Setting,Grand Total at Low,Grand Total at High,Swing,Base Grand Total\n";
+  for (const s of scenarios) {
+    if (!s.sensitivity) continue;
+    const base = s.sensitivity.baseTotal;
+    s.sensitivity.drivers.forEach((d, i) => {
+      csv += toCsvRow([
+        s.name,
+        i + 1,
+        d.label,
+        SENSITIVITY_GROUP_LABELS[d.group],
+        d.lowLabel,
+        d.highLabel,
+        Math.round(d.lowTotal),
+        Math.round(d.highTotal),
+        Math.round(d.swing),
+        Math.round(base),
+      ]);
+    });
+  }
+  return csv;
+}
+
+function buildReportText(meta: ClientPackMeta, scenarios: ClientPackScenario[]) {
   const lines: string[] = [];
+  const unit: AreaUnit = meta.areaUnit ?? "sqft";
 
   const title = meta.n4sProjectName ? `VMX Client Pack — ${meta.n4sProjectName}` : "VMX Client Pack";
   lines.push(title);
@@ -177,38 +446,81 @@ function buildReportText(meta: ClientPackMeta, resultA: ScenarioResult, resultB:
   lines.push(`VMX Version: ${meta.appVersion}`);
   lines.push(`Dataset: ${meta.datasetName}`);
   lines.push(`Dataset Updated: ${meta.datasetLastUpdated}`);
+  if (meta.libraryVersion) lines.push(`Benchmark Library: ${meta.libraryVersion}`);
+  if (meta.estimateDate) lines.push(`Estimate Date: ${meta.estimateDate}`);
   lines.push(`Assumptions: ${meta.assumptions}`);
-  lines.push(`Area: ${meta.areaSqft.toLocaleString()} sq ft`);
-  lines.push("");
-
-  const landA = Number(meta.scenarioALandCost || 0);
-  const grandA = typeof meta.grandTotalA === "number" ? meta.grandTotalA : undefined;
-
-  lines.push(`Scenario A: ${meta.scenarioABenchmarkName}`);
-  lines.push(
-    `Construction (direct categories): ${formatMoney(resultA.totalCost, resultA.currency)} (${formatMoney(resultA.totalCost / Math.max(1, meta.areaSqft), resultA.currency)} / sq ft)`
-  );
-  if (landA > 0) lines.push(`Land Acquisition: ${formatMoney(landA, resultA.currency)}`);
-  if (typeof grandA === "number") lines.push(`Grand Total (all-in): ${formatMoney(grandA, resultA.currency)}`);
-
-  if (meta.compareMode && resultB) {
-    const landB = Number(meta.scenarioBLandCost || 0);
-    const grandB = typeof meta.grandTotalB === "number" ? meta.grandTotalB : undefined;
+  if (meta.compareMode && scenarios.length > 1 && meta.baselineScenarioName) {
+    lines.push(`Scenarios: ${scenarios.length} (deltas vs baseline: ${meta.baselineScenarioName})`);
+  }
 
+  for (const s of scenarios) {
+    const r = s.result;
     lines.push("");
-    lines.push(`Scenario B: ${meta.scenarioBBenchmarkName}`);
+    lines.push(`Scenario ${s.letter} — ${s.name}${s.isBaseline && meta.compareMode && scenarios.length > 1 ? " [baseline]" : ""}`);
+    lines.push(`Benchmark: ${s.benchmarkName}`);
+    lines.push(`Area: ${formatArea(r.areaSqft, unit)} • Tier: ${s.tierLabel}`);
+    if (s.interiorTierOverride) lines.push(`Interiors + FF&E package: ${s.interiorTierOverride}`);
+    if (s.costIndex && s.costIndex.status !== "disabled") lines.push(`Benchmark escalation: ${describeIndexEscalation(s.costIndex)}`);
     lines.push(
-      `Construction (direct categories): ${formatMoney(resultB.totalCost, resultB.currency)} (${formatMoney(resultB.totalCost / Math.max(1, meta.areaSqft), resultB.currency)} / sq ft)`
+      `Construction (direct categories): ${formatMoney(r.totalCost, r.currency)} (${formatRate(r.totalCost / Math.max(1, r.areaSqft), r.currency, unit)})`
     );
-    if (landB > 0) lines.push(`Land Acquisition: ${formatMoney(landB, resultA.currency)}`);
-    if (typeof grandB === "number") lines.push(`Grand Total (all-in): ${formatMoney(grandB, resultA.currency)}`);
+    if (s.rateOverrides?.length) {
+      lines.push("Manual rate overrides:");
+      for (const o of s.rateOverrides) {
+        lines.push(
+          `- ${o.label}: ${formatRate(o.overridePsqft, r.currency, unit)} vs ${o.band} band ${formatRate(o.bandPsqft, r.currency, unit)} (Δ ${formatMoney(o.deltaCost, r.currency)}) — ${o.reason}${o.source ? ` [${o.source}]` : ""}`
+        );
+      }
+    }
+    if (s.buildings && s.buildings.length > 1) {
+      lines.push(`Buildings (${s.buildings.length}, combined above):`);
+      for (const b of s.buildings) {
+        lines.push(`- ${b.name}: ${formatArea(b.areaSqft, unit)} • ${b.tierLabel} • ${b.typology} • Direct ${formatMoney(b.directHard, r.currency)} • Contract ${formatMoney(b.contract, r.currency)}`);
+      }
+    }
+    if (s.quantityItems?.length) {
+      const qty = s.quantityItems.reduce((sum, q) => sum + quantityItemAmount(q), 0);
+      lines.push(`Quantity / allowance items (included above): ${s.quantityItems.length} • ${formatMoney(qty, r.currency)}`);
+    }
+    if (s.landCost > 0) lines.push(`Land Acquisition: ${formatMoney(s.landCost, r.currency)}`);
+    if (s.cashflow?.length) {
+      const first = s.cashflow[0];
+      const last = s.cashflow[s.cashflow.length - 1];
+      const peak = s.cashflow.reduce((a, b) => (b.totalDraw > a.totalDraw ? b : a));
+      lines.push(
+        `Draw schedule: ${formatMonth(first.startDate)} – ${formatMonth(last.endDate)} in ${s.cashflow.length} period(s); peak ${peak.label} ${formatMoney(peak.totalDraw, r.currency)}`
+      );
+    }
+    if (s.financing) {
+      const f = s.financing;
+      lines.push(
+        `Financing carry: ${formatMoney(f.carry, r.currency)} (interest ${formatMoney(f.totalInterest, r.currency)} + fees ${formatMoney(f.originationFee + f.closingCosts, r.currency)}) on a ${formatMoney(f.loanCommitment, r.currency)} loan; peak balance ${formatMoney(f.peakBalance, r.currency)}`
+      );
+    }
+    if (typeof s.grandTotal === "number") {
+      const mc = s.uncertainty;
+      const range = mc
+        ? ` — range P10 ${formatMoney(mc.grandTotal.p10, r.currency)} / P50 ${formatMoney(mc.grandTotal.p50, r.currency)} / P90 ${formatMoney(mc.grandTotal.p90, r.currency)}`
+        : "";
+      lines.push(`Grand Total (all-in): ${formatMoney(s.grandTotal, r.currency)}${range}`);
+      if (mc) {
+        const top = mc.contributors.slice(0, 3).map((c) => `${c.label} (${formatPct(c.share)})`);
+        lines.push(`Largest variance contributors: ${top.join(", ")}`);
+      }
+    }
 
-    if (deltaRows && deltaRows.length) {
-      lines.push("");
-      lines.push("Delta Summary (B − A)");
-      for (const r of deltaRows.slice(0, 10)) {
+    if (s.sensitivity && s.sensitivity.drivers.length) {
+      lines.push("Most sensitive inputs (Grand Total swing, low → high):");
+      for (const d of s.sensitivity.drivers.slice(0, 5)) {
+        lines.push(`- ${d.label} (${d.lowLabel} → ${d.highLabel}): ${formatMoney(d.swing, r.currency)}`);
+      }
+    }
+
+    if (s.deltaRows && s.deltaRows.length) {
+      lines.push(`Delta Summary (${s.name} − ${meta.baselineScenarioName ?? "baseline"})`);
+      for (const d of s.deltaRows.slice(0, 10)) {
         lines.push(
-          `- ${r.categoryLabel}: ${formatMoney(r.deltaCost, resultA.currency)} (${formatPct(r.deltaPct)}) [${r.heat}]${r.isDriver ? " (driver)" : ""}`
+          `- ${d.categoryLabel}: ${formatMoney(d.deltaCost, r.currency)} (${formatPct(d.deltaPct)}) [${d.heat}]${d.isDriver ? " (driver)" : ""}`
         );
       }
     }
@@ -220,28 +532,53 @@ function buildReportText(meta: ClientPackMeta, resultA: ScenarioResult, resultB:
   lines.push("- Location and typology can re-weight category budgets (site conditions, logistics, code constraints).");
   lines.push("- High-cost locations may dampen Finishes + FF&E impacts relative to raw labor/structural costs.");
   lines.push("- Land Acquisition is optional and is included in Grand Total if entered.");
+  if (scenarios.some((s) => s.quantityItems?.length)) {
+    lines.push("- Quantity / allowance items are priced at their entered rate (no location or typology adjustment) and count toward their category's % of total.");
+  }
+  if (scenarios.some((s) => s.costIndex?.status === "applied")) {
+    lines.push("- Library rates are escalated from their effective date to the estimate date by the regional cost index; forward escalation during construction is separate (soft costs).");
+  }
+  if (scenarios.some((s) => s.uncertainty)) {
+    lines.push("- P10 / P50 / P90 ranges come from a seeded Monte Carlo run; the point estimate is the Grand Total shown first.");
+  }
+  if (unit !== "sqft") lines.push("- JSON files keep canonical $/sq ft values (psqftUsed, areaSqft); CSV + this summary use the selected unit.");
+
+  const withSources = scenarios.filter((s) => s.sources?.length);
+  if (withSources.length) {
+    lines.push("");
+    lines.push("Sources appendix");
+    lines.push("----------------");
+    lines.push("Full detail per scenario, building and category: sources_appendix.csv");
+    const seen = new Map<string, string[]>();
+    const undocumented: string[] = [];
+    for (const s of withSources) {
+      for (const g of s.sources ?? []) {
+        for (const l of g.lines) {
+          if (l.isOverride) continue;
+          const key = l.provenance?.source;
+          if (!key) {
+            if (!undocumented.includes(l.label)) undocumented.push(l.label);
+            continue;
+          }
+          const labels = seen.get(key) ?? [];
+          if (!labels.includes(l.label)) labels.push(l.label);
+          seen.set(key, labels);
+        }
+      }
+    }
+    for (const [source, labels] of seen) lines.push(`- ${source}: ${labels.join(", ")}`);
+    if (undocumented.length) lines.push(`- No source recorded: ${undocumented.join(", ")}`);
+    if (withSources.some((s) => s.rateOverrides?.length)) lines.push("- Manually overridden rates are sourced as stated in their override reason.");
+  }
 
   return lines.join("\n");
 }
 
 export async function exportClientPackZip(args: Args) {
-  const {
-    meta,
-    selectionsA,
-    resultA,
-    selectionsB,
-    resultB,
-    deltaRows,
-    indirectsA,
-    indirectsB,
-    softCostsConfig,
-    softCostsA,
-    softCostsB,
-    cashflowA,
-    cashflowB,
-  } = args;
+  const { meta, scenarios, softCostsConfig, uncertaintyConfig, financingConfig } = args;
 
   const zip = new JSZip();
+  const unit: AreaUnit = meta.areaUnit ?? "sqft";
 
   const dateToken = meta.generatedAtIso?.slice(0, 10) || new Date().toISOString().slice(0, 10);
   const projectToken = safeFileName(meta.n4sProjectName || meta.datasetName || "VMX");
@@ -249,50 +586,78 @@ export async function exportClientPackZip(args: Args) {
   const folder = zip.folder(rootName) ?? zip;
 
   // README
-  folder.file("README.txt", buildReportText(meta, resultA, resultB, deltaRows));
+  folder.file("README.txt", buildReportText(meta, scenarios));
 
   // Meta
-  folder.file("meta.json", JSON.stringify(meta, null, 2));
-
-  // Scenario A
-  folder.file("scenarioA_selections.json", buildSelectionsJson(selectionsA));
-  folder.file("scenarioA_result.json", JSON.stringify(resultA, null, 2));
-  folder.file("scenarioA_allocation.csv", buildAllocationCsv(resultA));
-  if (indirectsA) folder.file("scenarioA_indirects.json", JSON.stringify(indirectsA, null, 2));
-
-  // Scenario B
-  if (meta.compareMode && selectionsB && resultB) {
-    folder.file("scenarioB_selections.json", buildSelectionsJson(selectionsB));
-    folder.file("scenarioB_result.json", JSON.stringify(resultB, null, 2));
-    folder.file("scenarioB_allocation.csv", buildAllocationCsv(resultB));
-    if (indirectsB) folder.file("scenarioB_indirects.json", JSON.stringify(indirectsB, null, 2));
+  folder.file("meta.json", JSON.stringify({ ...meta, scenarios: scenarios.map(summarizeScenario) }, null, 2));
+
+  // Scenarios
+  for (const s of scenarios) {
+    const prefix = `scenario${s.letter}`;
+    folder.file(`${prefix}_selections.json`, buildSelectionsJson(s.selections, s.rateOverrides));
+    folder.file(`${prefix}_result.json`, JSON.stringify(s.result, null, 2));
+    folder.file(`${prefix}_allocation.csv`, buildAllocationCsv(s.result, unit, s.subElements));
+    if (s.buildings && s.buildings.length > 1) folder.file(`${prefix}_buildings.csv`, buildBuildingsCsv(s.buildings, s.result.currency, unit));
+    if (s.quantityItems?.length) folder.file(`${prefix}_quantity_items.csv`, buildQuantityItemsCsv(s.quantityItems, s.result.currency));
+    if (s.indirects) folder.file(`${prefix}_indirects.json`, JSON.stringify(s.indirects, null, 2));
+    if (s.softCosts) {
+      folder.file(`${prefix}_soft_costs.csv`, buildSoftCostsCsv(s.softCosts));
+      folder.file(`${prefix}_soft_costs.json`, JSON.stringify(s.softCosts, null, 2));
+    }
+    if (s.cashflow) {
+      folder.file(`${prefix}_cashflow.csv`, buildCashflowCsv(s.cashflow, s.cashflowStreams ?? []));
+      folder.file(`${prefix}_cashflow.json`, JSON.stringify(s.cashflow, null, 2));
+    }
+    if (s.financing) folder.file(`${prefix}_loan_balance.csv`, buildLoanBalanceCsv(s.financing.rows));
+    if (s.uncertainty) folder.file(`${prefix}_uncertainty.json`, JSON.stringify(s.uncertainty, null, 2));
   }
 
-  // Delta
-  if (meta.compareMode && deltaRows && deltaRows.length) {
-    folder.file("delta_heat.csv", buildDeltaCsv(deltaRows));
-    folder.file("delta_heat.json", JSON.stringify(deltaRows, null, 2));
+  // Deltas (every non-baseline scenario vs the baseline)
+  const withDeltas = scenarios.filter((s) => s.deltaRows && s.deltaRows.length);
+  if (meta.compareMode && withDeltas.length) {
+    const baselineName = meta.baselineScenarioName ?? "Baseline";
+    folder.file("delta_heat.csv", buildDeltaCsv(baselineName, withDeltas));
+    folder.file(
+      "delta_heat.json",
+      JSON.stringify(
+        withDeltas.map((s) => ({ scenarioId: s.id, scenarioName: s.name, baselineId: meta.baselineScenarioId, rows: s.deltaRows })),
+        null,
+        2
+      )
+    );
   }
 
-  // Soft costs + cashflow
-  if (softCostsConfig) {
-    folder.file("soft_costs_config.json", configToPrettyJson(softCostsConfig));
+  // Sensitivity (all scenarios in one table)
+  const withSensitivity = scenarios.filter((s) => s.sensitivity && s.sensitivity.drivers.length);
+  if (withSensitivity.length) {
+    folder.file("sensitivity_tornado.csv", buildSensitivityCsv(withSensitivity));
+    folder.file(
+      "sensitivity_tornado.json",
+      JSON.stringify(
+        withSensitivity.map((s) => ({ scenarioId: s.id, scenarioName: s.name, ...s.sensitivity })),
+        null,
+        2
+      )
+    );
   }
-  if (softCostsA) {
-    folder.file("scenarioA_soft_costs.csv", buildSoftCostsCsv(softCostsA));
-    folder.file("scenarioA_soft_costs.json", JSON.stringify(softCostsA, null, 2));
+
+  // Sources appendix (all scenarios in one table)
+  if (scenarios.some((s) => s.sources?.length)) {
+    folder.file("sources_appendix.csv", buildSourcesCsv(scenarios, unit));
   }
-  if (cashflowA) {
-    folder.file("scenarioA_cashflow.csv", buildCashflowCsv(cashflowA));
-    folder.file("scenarioA_cashflow.json", JSON.stringify(cashflowA, null, 2));
+
+  // Soft costs config (shared)
+  if (softCostsConfig) {
+    folder.file("soft_costs_config.json", configToPrettyJson(softCostsConfig));
+    folder.file("project_schedule.csv", buildProjectScheduleCsv(softCostsConfig));
   }
-  if (softCostsB) {
-    folder.file("scenarioB_soft_costs.csv", buildSoftCostsCsv(softCostsB));
-    folder.file("scenarioB_soft_costs.json", JSON.stringify(softCostsB, null, 2));
+
+  if (uncertaintyConfig) {
+    folder.file("uncertainty_config.json", JSON.stringify(uncertaintyConfig, null, 2));
   }
-  if (cashflowB) {
-    folder.file("scenarioB_cashflow.csv", buildCashflowCsv(cashflowB));
-    folder.file("scenarioB_cashflow.json", JSON.stringify(cashflowB, null, 2));
+
+  if (financingConfig) {
+    folder.file("financing_config.json", JSON.stringify(financingConfig, null, 2));
   }
 
   const blob = await zip.generateAsync({ type: "blob" });
@@ -0,0 +1,231 @@
+import type { ScenarioResult } from "../domain/vmx-domain";
+import { CashflowPeriodRow, SoftCostsConfig, computeCashflowSchedule } from "./softCosts";
+
+/**
+ * Financing / carry
+ *
+ * A construction loan sized on loan-to-cost and drawn against the monthly
+ * cashflow (the soft-costs schedule regenerated at monthly granularity, plus
+ * land, origination and closing costs in month 1 — the first schedule month,
+ * which accrues interest like any other). Equity either goes in first or
+ * alongside the loan pro-rata. Interest accrues monthly on the opening balance plus half the
+ * month's draw; with an interest reserve it is drawn from the undrawn
+ * commitment and compounds, otherwise the owner pays it as it falls due. The
+ * balance never exceeds the commitment: once it is fully drawn the owner pays
+ * the interest. The loan is repaid at completion (the last month of the
+ * schedule).
+ *
+ * Interest plus origination / closing costs is the capitalised carry added to
+ * the Grand Total.
+ */
+
+export type FinancingDrawOrder = "equity_first" | "pro_rata";
+
+export type FinancingConfigV1 = {
+  version: 1;
+  enabled: boolean;
+  drawOrder: FinancingDrawOrder;
+  /** Loan commitment as a share of project cost before financing (0.65 = 65% LTC) */
+  loanToCost: number;
+  /** Annual rate as decimal, accrued monthly */
+  annualInterestRate: number;
+  /** Origination / commitment fee as a share of the loan commitment */
+  originationFeeRate: number;
+  /** Lender legal, appraisal and other closing costs */
+  closingCosts: number;
+  /** Interest is drawn from the loan (and compounds); otherwise the owner pays it monthly */
+  interestReserve: boolean;
+  /** Land is funded in month 1 (the first schedule month) and counts toward the cost the loan is sized on */
+  includeLand: boolean;
+};
+
+export const FINANCING_DRAW_ORDER_LABELS: Record<FinancingDrawOrder, string> = {
+  equity_first: "Equity first",
+  pro_rata: "Pro-rata (equity + loan together)",
+};
+
+const STORAGE_KEY = "vmx_financing_config_v1";
+
+export function getDefaultFinancingConfig(): FinancingConfigV1 {
+  return {
+    version: 1,
+    enabled: false,
+    drawOrder: "equity_first",
+    loanToCost: 0.65,
+    annualInterestRate: 0.08,
+    originationFeeRate: 0.01,
+    closingCosts: 0,
+    interestReserve: true,
+    includeLand: true,
+  };
+}
+
+function clampRate(n: unknown, fallback: number, max: number): number {
+  const v = Number(n);
+  if (!Number.isFinite(v)) return fallback;
+  return Math.max(0, Math.min(max, v));
+}
+
+export function normalizeFinancingConfig(raw: unknown): FinancingConfigV1 {
+  const def = getDefaultFinancingConfig();
+  if (!raw || typeof raw !== "object") return def;
+  const r = raw as Partial<FinancingConfigV1>;
+  const closing = Number(r.closingCosts);
+  return {
+    version: 1,
+    enabled: r.enabled === true,
+    drawOrder: r.drawOrder === "pro_rata" ? "pro_rata" : "equity_first",
+    loanToCost: clampRate(r.loanToCost, def.loanToCost, 1),
+    annualInterestRate: clampRate(r.annualInterestRate, def.annualInterestRate, 0.5),
+    originationFeeRate: clampRate(r.originationFeeRate, def.originationFeeRate, 0.2),
+    closingCosts: Number.isFinite(closing) ? Math.max(0, closing) : def.closingCosts,
+    interestReserve: r.interestReserve !== false,
+    includeLand: r.includeLand !== false,
+  };
+}
+
+export function loadFinancingConfig(): FinancingConfigV1 {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeFinancingConfig(JSON.parse(raw)) : getDefaultFinancingConfig();
+  } catch {
+    return getDefaultFinancingConfig();
+  }
+}
+
+export function saveFinancingConfig(cfg: FinancingConfigV1) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cfg));
+  } catch {
+    // ignore
+  }
+}
+
+export type LoanBalanceRow = {
+  /** 1-based month from the project start */
+  month: number;
+  /** YYYY-MM */
+  date: string;
+  /** Project cost funded this month (cashflow draw, plus land and loan fees in month 1) */
+  costDraw: number;
+  equityDraw: number;
+  loanDraw: number;
+  interest: number;
+  /** Interest paid by the owner (no interest reserve, or the commitment is fully drawn) */
+  interestPaid: number;
+  closingBalance: number;
+};
+
+export type FinancingComputed = {
+  /** Cost the loan is sized on (cashflow total, plus land when included) */
+  costBasis: number;
+  loanCommitment: number;
+  originationFee: number;
+  closingCosts: number;
+  /** Equity put into project cost and fees (excludes interest paid by the owner) */
+  equity: number;
+  totalInterest: number;
+  /** Capitalised interest + origination + closing costs */
+  carry: number;
+  peakBalance: number;
+  /** Balance repaid at completion */
+  payoff: number;
+  rows: LoanBalanceRow[];
+};
+
+/** Loan draws, interest and balance month by month over a monthly cashflow */
+export function computeFinancing(rows: CashflowPeriodRow[], landCost: number, cfg: FinancingConfigV1): FinancingComputed {
+  const land = cfg.includeLand ? Math.max(0, landCost || 0) : 0;
+  const costs = rows.map((r, i) => Math.max(0, r.totalDraw) + (i === 0 ? land : 0));
+  const costBasis = costs.reduce((a, b) => a + b, 0);
+
+  const loanCommitment = costBasis * cfg.loanToCost;
+  const originationFee = loanCommitment * cfg.originationFeeRate;
+  const closingCosts = cfg.closingCosts;
+  // Fees are due at loan close and are funded like any other month-1 cost
+  if (costs.length) costs[0] += originationFee + closingCosts;
+  const fundedTotal = costBasis + originationFee + closingCosts;
+  const loanShare = fundedTotal > 0 ? Math.min(1, loanCommitment / fundedTotal) : 0;
+
+  const monthlyRate = cfg.annualInterestRate / 12;
+  let equityRemaining = Math.max(0, fundedTotal - loanCommitment);
+  let undrawn = loanCommitment;
+  let balance = 0;
+  let equity = 0;
+  let totalInterest = 0;
+  let peakBalance = 0;
+
+  const out: LoanBalanceRow[] = rows.map((r, i) => {
+    const need = costs[i];
+    let equityDraw = cfg.drawOrder === "equity_first" ? Math.min(need, equityRemaining) : need * (1 - loanShare);
+    const loanDraw = Math.min(undrawn, need - equityDraw);
+    // Anything the commitment can't cover falls back to equity
+    equityDraw = need - loanDraw;
+    equityRemaining = Math.max(0, equityRemaining - equityDraw);
+    undrawn -= loanDraw;
+    equity += equityDraw;
+
+    const interest = (balance + loanDraw / 2) * monthlyRate;
+    // The reserve can only draw what is left of the commitment
+    const capitalised = cfg.interestReserve ? Math.min(interest, undrawn) : 0;
+    undrawn -= capitalised;
+    totalInterest += interest;
+    balance += loanDraw + capitalised;
+    peakBalance = Math.max(peakBalance, balance);
+
+    return {
+      month: i + 1,
+      date: r.startDate,
+      costDraw: need,
+      equityDraw,
+      loanDraw,
+      interest,
+      interestPaid: interest - capitalised,
+      closingBalance: balance,
+    };
+  });
+
+  return {
+    costBasis,
+    loanCommitment,
+    originationFee,
+    closingCosts,
+    equity,
+    totalInterest,
+    carry: totalInterest + originationFee + closingCosts,
+    peakBalance,
+    payoff: balance,
+    rows: out,
+  };
+}
+
+// Monthly copy of each soft-costs config, kept stable so its cashflow timeline stays cached
+const monthlyConfigs = new WeakMap<SoftCostsConfig, SoftCostsConfig>();
+
+function monthlyConfig(cfg: SoftCostsConfig): SoftCostsConfig {
+  if (cfg.cashflow.granularity === "month") return cfg;
+  let monthly = monthlyConfigs.get(cfg);
+  if (!monthly) {
+    monthly = { ...cfg, cashflow: { ...cfg.cashflow, granularity: "month" } };
+    monthlyConfigs.set(cfg, monthly);
+  }
+  return monthly;
+}
+
+/**
+ * Financing for a priced scenario: the cashflow is rebuilt monthly whatever the
+ * display granularity. Null when financing is off.
+ */
+export function computeProjectFinancing(args: {
+  result: ScenarioResult;
+  softCostsConfig: SoftCostsConfig;
+  /** Construction indirects total (drawn in the cashflow) */
+  indirectsAmount: number;
+  landCost: number;
+  config: FinancingConfigV1 | undefined;
+}): FinancingComputed | null {
+  const { config } = args;
+  if (!config?.enabled) return null;
+  const schedule = computeCashflowSchedule(args.result, monthlyConfig(args.softCostsConfig), args.indirectsAmount);
+  return computeFinancing(schedule.rows, args.landCost, config);
+}
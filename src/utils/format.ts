@@ -1,3 +1,5 @@
+import { AreaUnit, areaUnitLabel, psqftToRate, sqftToArea } from "../domain/vmx-domain";
+
 export function formatMoney(amount: number, currency: string) {
   const safe = Number.isFinite(amount) ? amount : 0;
   return new Intl.NumberFormat(undefined, {
@@ -11,3 +13,13 @@ export function formatPct(p: number) {
   const safe = Number.isFinite(p) ? p : 0;
   return `${(safe * 100).toFixed(1)}%`;
 }
+
+/** Canonical sq ft area, shown in the selected unit (e.g. "1,394 m²"). */
+export function formatArea(sqft: number, unit: AreaUnit) {
+  return `${Math.round(sqftToArea(sqft, unit)).toLocaleString()} ${areaUnitLabel(unit)}`;
+}
+
+/** Canonical $/sq ft rate, shown in the selected unit (e.g. "$5,597 / m²"). */
+export function formatRate(psqft: number, currency: string, unit: AreaUnit) {
+  return `${formatMoney(psqftToRate(psqft, unit), currency)} / ${areaUnitLabel(unit)}`;
+}
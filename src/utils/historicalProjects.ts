@@ -0,0 +1,346 @@
+import { BandProvenance, BenchmarkSet, HeatBand, ProvenanceConfidence, VMX_CATEGORIES, VmxCategoryId, getSubElements, locationCategoryFactors } from "../domain/vmx-domain";
+import { BenchmarkLibrary, TierId } from "../data/benchmark-library-storage";
+import { parseCsv } from "../data/benchmark-csv-import";
+
+/**
+ * Historical projects → benchmark bands
+ *
+ * Closed-out projects are entered (or imported) with their actual category
+ * costs. Each cost is normalised to a national-average, base-date $/sq ft:
+ *   actual / area / location factor (same per-category damping as pricing)
+ *   × (1 + escalation) ^ (years from completion to base date)
+ * LOW / MEDIUM / HIGH are then percentiles of those normalised rates.
+ */
+
+export type HistoricalProject = {
+  id: string;
+  name: string;
+  regionId: string;
+  tier: TierId;
+  /** YYYY-MM */
+  completionDate: string;
+  /** Global location factor of the site (1.00 = national average) */
+  locationFactor: number;
+  /** Always canonical sq ft */
+  areaSqft: number;
+  /** Actual cost by category; missing = not reported */
+  costs: Partial<Record<VmxCategoryId, number>>;
+  included: boolean;
+};
+
+export type HistoricalDatasetV1 = {
+  version: 1;
+  /** YYYY-MM all actuals are escalated to */
+  baseDate: string;
+  annualEscalationRate: number;
+  /** 0–100 per band */
+  percentiles: Record<HeatBand, number>;
+  /** Fewer samples than this leaves the category's library bands untouched */
+  minSample: number;
+  projects: HistoricalProject[];
+};
+
+export type CategoryDerivation = {
+  categoryId: VmxCategoryId;
+  n: number;
+  mean: number;
+  stdev: number;
+  /** Coefficient of variation (stdev / mean) */
+  cv: number;
+  min: number;
+  max: number;
+  /** Percentile rate per band, null when there are no samples */
+  bands: Record<HeatBand, number> | null;
+};
+
+export type BandDerivation = {
+  regionId: string;
+  tier: TierId;
+  /** Included projects matching region + tier */
+  projectCount: number;
+  categories: CategoryDerivation[];
+};
+
+const STORAGE_KEY = "vmx_historical_projects_v1";
+const BANDS: HeatBand[] = ["LOW", "MEDIUM", "HIGH"];
+
+function currentMonth(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+export function getDefaultHistoricalDataset(): HistoricalDatasetV1 {
+  return {
+    version: 1,
+    baseDate: currentMonth(),
+    annualEscalationRate: 0.05,
+    percentiles: { LOW: 25, MEDIUM: 50, HIGH: 75 },
+    minSample: 3,
+    projects: [],
+  };
+}
+
+function isMonth(v: unknown): v is string {
+  return typeof v === "string" && /^\d{4}-(0[1-9]|1[0-2])$/.test(v);
+}
+
+function clampNumber(v: unknown, fallback: number, min: number, max: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback;
+}
+
+function normalizeProject(p: unknown): HistoricalProject | null {
+  if (!p || typeof p !== "object") return null;
+  const raw = p as Record<string, unknown>;
+  if (typeof raw.id !== "string" || typeof raw.regionId !== "string") return null;
+
+  const costsIn = raw.costs && typeof raw.costs === "object" ? (raw.costs as Record<string, unknown>) : {};
+  const costs: Partial<Record<VmxCategoryId, number>> = {};
+  for (const c of VMX_CATEGORIES) {
+    const n = Number(costsIn[c.id]);
+    if (costsIn[c.id] !== undefined && Number.isFinite(n) && n >= 0) costs[c.id] = n;
+  }
+
+  return {
+    id: raw.id,
+    name: typeof raw.name === "string" ? raw.name : "Project",
+    regionId: raw.regionId,
+    // Any tier id is kept; one removed from the catalogue just stops matching derivations
+    tier: typeof raw.tier === "string" && raw.tier ? raw.tier : "reserve",
+    completionDate: isMonth(raw.completionDate) ? raw.completionDate : currentMonth(),
+    locationFactor: clampNumber(raw.locationFactor, 1, 0.5, 3),
+    areaSqft: clampNumber(raw.areaSqft, 1, 1, 1e7),
+    costs,
+    included: raw.included !== false,
+  };
+}
+
+export function loadHistoricalDataset(): HistoricalDatasetV1 {
+  const def = getDefaultHistoricalDataset();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return def;
+    const parsed = JSON.parse(raw);
+    if (!parsed || parsed.version !== 1) return def;
+
+    const pct = parsed.percentiles || {};
+    return {
+      version: 1,
+      baseDate: isMonth(parsed.baseDate) ? parsed.baseDate : def.baseDate,
+      annualEscalationRate: clampNumber(parsed.annualEscalationRate, def.annualEscalationRate, 0, 0.5),
+      percentiles: {
+        LOW: clampNumber(pct.LOW, def.percentiles.LOW, 0, 100),
+        MEDIUM: clampNumber(pct.MEDIUM, def.percentiles.MEDIUM, 0, 100),
+        HIGH: clampNumber(pct.HIGH, def.percentiles.HIGH, 0, 100),
+      },
+      minSample: Math.round(clampNumber(parsed.minSample, def.minSample, 1, 100)),
+      projects: Array.isArray(parsed.projects) ? parsed.projects.map(normalizeProject).filter((p: HistoricalProject | null): p is HistoricalProject => !!p) : [],
+    };
+  } catch {
+    return def;
+  }
+}
+
+export function saveHistoricalDataset(ds: HistoricalDatasetV1) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ds));
+  } catch {
+    // ignore
+  }
+}
+
+export function createHistoricalProjectId(): string {
+  return `hp_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/** Months from `from` to `to` (both YYYY-MM); negative when `to` is earlier. */
+function monthsBetween(from: string, to: string): number {
+  const [fy, fm] = from.split("-").map(Number);
+  const [ty, tm] = to.split("-").map(Number);
+  return (ty - fy) * 12 + (tm - fm);
+}
+
+/** Multiplier that brings a cost from its completion date to the base date (compounded annually, pro-rata by month). */
+export function escalationToBase(completionDate: string, ds: HistoricalDatasetV1): number {
+  if (!isMonth(completionDate) || !isMonth(ds.baseDate)) return 1;
+  return Math.pow(1 + ds.annualEscalationRate, monthsBetween(completionDate, ds.baseDate) / 12);
+}
+
+/** Base-date, national-average $/sq ft per reported category. */
+export function normalizedProjectRates(p: HistoricalProject, ds: HistoricalDatasetV1): Partial<Record<VmxCategoryId, number>> {
+  const loc = locationCategoryFactors(p.locationFactor);
+  const esc = escalationToBase(p.completionDate, ds);
+  const out: Partial<Record<VmxCategoryId, number>> = {};
+  for (const c of VMX_CATEGORIES) {
+    const cost = p.costs[c.id];
+    if (cost === undefined || p.areaSqft <= 0) continue;
+    out[c.id] = (cost / p.areaSqft / loc[c.id]) * esc;
+  }
+  return out;
+}
+
+/** Linear interpolation between closest ranks (Excel PERCENTILE.INC). */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (Math.max(0, Math.min(100, p)) / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+export function deriveBandsFromHistory(ds: HistoricalDatasetV1, regionId: string, tier: TierId): BandDerivation {
+  const projects = ds.projects.filter((p) => p.included && p.regionId === regionId && p.tier === tier);
+  const rates = projects.map((p) => normalizedProjectRates(p, ds));
+
+  const categories = VMX_CATEGORIES.map((c): CategoryDerivation => {
+    const values = rates
+      .map((r) => r[c.id])
+      .filter((v): v is number => v !== undefined && Number.isFinite(v))
+      .sort((a, b) => a - b);
+    const n = values.length;
+    if (n === 0) return { categoryId: c.id, n, mean: 0, stdev: 0, cv: 0, min: 0, max: 0, bands: null };
+
+    const mean = values.reduce((a, b) => a + b, 0) / n;
+    const stdev = n > 1 ? Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / (n - 1)) : 0;
+    const bands = {} as Record<HeatBand, number>;
+    for (const band of BANDS) bands[band] = percentile(values, ds.percentiles[band]);
+
+    return { categoryId: c.id, n, mean, stdev, cv: mean > 0 ? stdev / mean : 0, min: values[0], max: values[n - 1], bands };
+  });
+
+  return { regionId, tier, projectCount: projects.length, categories };
+}
+
+/** Rough confidence from sample size and spread. */
+export function derivationConfidence(d: CategoryDerivation): ProvenanceConfidence {
+  if (d.n >= 10 && d.cv <= 0.2) return "high";
+  if (d.n >= 5 && d.cv <= 0.35) return "medium";
+  return "low";
+}
+
+/**
+ * Replaces bands for categories with at least `minSample` samples, stamping
+ * each with provenance. Categories that roll up from sub-elements are skipped
+ * (their bands are computed).
+ */
+export function applyDerivedBands(
+  current: BenchmarkSet,
+  derivation: BandDerivation,
+  ds: HistoricalDatasetV1
+): { benchmark: BenchmarkSet; applied: VmxCategoryId[]; skipped: { categoryId: VmxCategoryId; reason: string }[] } {
+  const applied: VmxCategoryId[] = [];
+  const skipped: { categoryId: VmxCategoryId; reason: string }[] = [];
+  const { minSample } = ds;
+  let bands = current.bands;
+
+  for (const d of derivation.categories) {
+    if (!d.bands || d.n < minSample) {
+      skipped.push({ categoryId: d.categoryId, reason: `${d.n} sample(s), need ${minSample}` });
+      continue;
+    }
+    if (getSubElements(current, d.categoryId).length) {
+      skipped.push({ categoryId: d.categoryId, reason: "rolls up from sub-elements" });
+      continue;
+    }
+    const derived = d.bands;
+    const provenance = (band: HeatBand): BandProvenance => ({
+      source: `Historical projects — P${ds.percentiles[band]} of ${d.n}, normalised to national average`,
+      effectiveDate: `${ds.baseDate}-01`,
+      sampleCount: d.n,
+      confidence: derivationConfidence(d),
+      author: "",
+    });
+    bands = bands
+      .filter((b) => b.categoryId !== d.categoryId)
+      .concat(BANDS.map((band) => ({ categoryId: d.categoryId, band, psqft: Math.round(derived[band] * 100) / 100, provenance: provenance(band) })));
+    applied.push(d.categoryId);
+  }
+
+  return { benchmark: { ...current, bands }, applied, skipped };
+}
+
+export type HistoricalCsvResult = { projects: HistoricalProject[]; issues: string[] };
+
+export const HISTORICAL_CSV_HEADERS = ["Name", "Region", "Tier", "Completion (YYYY-MM)", "Location Factor", "Area (sq ft)", ...VMX_CATEGORIES.map((c) => c.id)];
+
+const norm = (s: string) => s.trim().toLowerCase().replace(/[^a-z0-9]+/g, "");
+
+/**
+ * One project per row. Fixed columns are matched by header name; category
+ * columns by VMX category id or label. Blank category cells = not reported.
+ */
+export function parseHistoricalCsv(text: string, lib: BenchmarkLibrary, baseDate: string): HistoricalCsvResult {
+  const rows = parseCsv(text);
+  const issues: string[] = [];
+  if (rows.length < 2) return { projects: [], issues: ["Needs a header row and at least one project row."] };
+
+  const headers = rows[0].map(norm);
+  const col = (...names: string[]) => headers.findIndex((h) => names.some((n) => h.startsWith(n)));
+  const idx = {
+    name: col("name", "project"),
+    region: col("region"),
+    tier: col("tier"),
+    date: col("completion", "date", "completed"),
+    loc: col("location", "locfactor"),
+    area: col("area", "gfa", "sqft"),
+  };
+  const catCols = VMX_CATEGORIES.map((c) => ({ id: c.id, index: headers.findIndex((h) => h === norm(c.id) || h === norm(c.label)) }));
+
+  for (const [k, v] of Object.entries({ region: idx.region, tier: idx.tier, area: idx.area })) {
+    if (v < 0) issues.push(`Missing "${k}" column.`);
+  }
+  const unmapped = catCols.filter((c) => c.index < 0).map((c) => c.id);
+  if (unmapped.length === VMX_CATEGORIES.length) issues.push("No category columns found (use VMX category ids or labels as headers).");
+  if (issues.length) return { projects: [], issues };
+  if (unmapped.length) issues.push(`No column for ${unmapped.join(", ")} — treated as not reported.`);
+
+  const projects: HistoricalProject[] = [];
+  rows.slice(1).forEach((row, i) => {
+    const rowNo = i + 2;
+    const get = (index: number) => (index >= 0 ? (row[index] ?? "").trim() : "");
+    const num = (s: string) => Number(s.replace(/[^0-9.-]/g, ""));
+
+    const regionRaw = get(idx.region);
+    const region = lib.regions.find((r) => r.id === regionRaw || norm(r.name) === norm(regionRaw));
+    if (!region) return issues.push(`Row ${rowNo}: unknown region "${regionRaw}" — skipped.`);
+
+    const tier = lib.tiers.find((t) => norm(t.id) === norm(get(idx.tier)) || norm(t.label) === norm(get(idx.tier)))?.id;
+    if (!tier) return issues.push(`Row ${rowNo}: unknown tier "${get(idx.tier)}" — skipped.`);
+
+    const area = num(get(idx.area));
+    if (!Number.isFinite(area) || area <= 0) return issues.push(`Row ${rowNo}: invalid area — skipped.`);
+
+    const date = get(idx.date).slice(0, 7);
+    if (!isMonth(date)) issues.push(`Row ${rowNo}: completion date "${get(idx.date)}" not YYYY-MM — using base date (no escalation).`);
+
+    const locRaw = get(idx.loc);
+    const loc = locRaw ? num(locRaw) : 1;
+    if (!Number.isFinite(loc) || loc <= 0) issues.push(`Row ${rowNo}: invalid location factor — using 1.00.`);
+
+    const costs: Partial<Record<VmxCategoryId, number>> = {};
+    for (const c of catCols) {
+      const raw = get(c.index);
+      if (!raw) continue;
+      const n = num(raw);
+      if (!Number.isFinite(n) || n < 0) {
+        issues.push(`Row ${rowNo}: invalid ${c.id} cost "${raw}" — treated as not reported.`);
+        continue;
+      }
+      costs[c.id] = n;
+    }
+
+    projects.push({
+      id: createHistoricalProjectId(),
+      name: get(idx.name) || `Project row ${rowNo}`,
+      regionId: region.id,
+      tier,
+      completionDate: isMonth(date) ? date : baseDate,
+      locationFactor: Number.isFinite(loc) && loc > 0 ? loc : 1,
+      areaSqft: area,
+      costs,
+      included: true,
+    });
+  });
+
+  return { projects, issues };
+}
@@ -0,0 +1,369 @@
+import {
+  BenchmarkSet,
+  HeatBand,
+  ScenarioResult,
+  ScenarioSelection,
+  VMX_CATEGORIES,
+  VmxCategoryId,
+} from "../domain/vmx-domain";
+import { ConstructionIndirectsRates, computeConstructionIndirects } from "./constructionIndirects";
+import { SoftCostsConfig, computeSoftCosts } from "./softCosts";
+import { FinancingConfigV1, computeProjectFinancing } from "./financing";
+
+/**
+ * Uncertainty mode (Monte Carlo)
+ *
+ * The deterministic engine prices one $/sf per category. Here each category is
+ * treated as a triangular distribution instead:
+ * - "bands":    LOW band → selected $/sf → HIGH band
+ * - "selected": selected $/sf ± categorySpread
+ *
+ * On top of that we sample a location multiplier (all categories), a typology
+ * multiplier (only the categories the typology moves) and each indirect rate.
+ * Multi-building scenarios sample every building against its own benchmark
+ * bands and indirect rates; the location, typology and indirect-rate samples
+ * are shared, so the buildings move together. Runs are seeded so the same
+ * inputs always give the same range.
+ */
+
+export type UncertaintyCategoryMode = "bands" | "selected";
+
+export type UncertaintyConfigV1 = {
+  version: 1;
+  enabled: boolean;
+  iterations: number;
+  seed: number;
+  categoryMode: UncertaintyCategoryMode;
+  /** ± fraction around the selected $/sf (mode "selected", and manual overrides in either mode) */
+  categorySpread: number;
+  /** ± fraction on the location multiplier */
+  locationSpread: number;
+  /** ± fraction on typology-affected categories */
+  typologySpread: number;
+  /** ± fraction on each construction indirect rate */
+  indirectSpread: number;
+};
+
+const STORAGE_KEY = "vmx_uncertainty_v1";
+
+export const MIN_ITERATIONS = 200;
+export const MAX_ITERATIONS = 20000;
+
+export function getDefaultUncertaintyConfig(): UncertaintyConfigV1 {
+  return {
+    version: 1,
+    enabled: false,
+    iterations: 2000,
+    seed: 12345,
+    categoryMode: "bands",
+    categorySpread: 0.1,
+    locationSpread: 0.05,
+    typologySpread: 0.1,
+    indirectSpread: 0.15,
+  };
+}
+
+function clampSpread(n: unknown, fallback: number): number {
+  const v = Number(n);
+  if (!Number.isFinite(v)) return fallback;
+  return Math.max(0, Math.min(0.9, v));
+}
+
+export function normalizeUncertaintyConfig(raw: unknown): UncertaintyConfigV1 {
+  const def = getDefaultUncertaintyConfig();
+  if (!raw || typeof raw !== "object") return def;
+  const r = raw as Partial<UncertaintyConfigV1>;
+  const iterations = Math.round(Number(r.iterations));
+  const seed = Math.round(Number(r.seed));
+  return {
+    version: 1,
+    enabled: r.enabled === true,
+    iterations: Number.isFinite(iterations) ? Math.max(MIN_ITERATIONS, Math.min(MAX_ITERATIONS, iterations)) : def.iterations,
+    seed: Number.isFinite(seed) ? seed : def.seed,
+    categoryMode: r.categoryMode === "selected" ? "selected" : "bands",
+    categorySpread: clampSpread(r.categorySpread, def.categorySpread),
+    locationSpread: clampSpread(r.locationSpread, def.locationSpread),
+    typologySpread: clampSpread(r.typologySpread, def.typologySpread),
+    indirectSpread: clampSpread(r.indirectSpread, def.indirectSpread),
+  };
+}
+
+export function loadUncertaintyConfig(): UncertaintyConfigV1 {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeUncertaintyConfig(JSON.parse(raw)) : getDefaultUncertaintyConfig();
+  } catch {
+    return getDefaultUncertaintyConfig();
+  }
+}
+
+export function saveUncertaintyConfig(cfg: UncertaintyConfigV1) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cfg));
+  } catch {
+    // ignore
+  }
+}
+
+/** mulberry32 — small, fast, good enough for sampling */
+function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleTriangular(u: number, min: number, mode: number, max: number): number {
+  if (!(max > min)) return mode;
+  const c = (mode - min) / (max - min);
+  if (u < c) return min + Math.sqrt(u * (max - min) * (mode - min));
+  return max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+function correlation(xs: number[], ys: number[]): number {
+  const n = xs.length;
+  if (n < 2) return 0;
+  let mx = 0;
+  let my = 0;
+  for (let i = 0; i < n; i++) {
+    mx += xs[i];
+    my += ys[i];
+  }
+  mx /= n;
+  my /= n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - mx;
+    const dy = ys[i] - my;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+}
+
+export type Percentiles = { p10: number; p50: number; p90: number; mean: number };
+
+export type HistogramBin = { from: number; to: number; count: number };
+
+export type VarianceContributor = {
+  id: string;
+  label: string;
+  /** Share of explained variance (squared correlation, normalized to 1) */
+  share: number;
+  /** Sign of the relationship with the total */
+  correlation: number;
+};
+
+export type MonteCarloResult = {
+  iterations: number;
+  seed: number;
+  categoryMode: UncertaintyCategoryMode;
+  point: { direct: number; contract: number; grandTotal: number };
+  direct: Percentiles;
+  contract: Percentiles;
+  grandTotal: Percentiles;
+  /** Grand total distribution */
+  histogram: HistogramBin[];
+  contributors: VarianceContributor[];
+};
+
+function summarize(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((a, b) => a + b, 0) / Math.max(1, values.length);
+  return { p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9), mean };
+}
+
+function buildHistogram(values: number[], bins: number): HistogramBin[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / bins || 1;
+  const out: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  for (const v of values) {
+    const idx = Math.min(bins - 1, Math.max(0, Math.floor((v - min) / width)));
+    out[idx].count += 1;
+  }
+  return out;
+}
+
+function bandPsqft(benchmark: BenchmarkSet, categoryId: VmxCategoryId, band: HeatBand): number | null {
+  const hit = benchmark.bands.find((b) => b.categoryId === categoryId && b.band === band);
+  return hit && Number.isFinite(hit.psqft) ? hit.psqft : null;
+}
+
+/** One building of a scenario, priced on its own */
+export type MonteCarloBuilding = {
+  result: ScenarioResult;
+  /** Benchmark actually priced (location / typology / program already applied) */
+  benchmark: BenchmarkSet;
+  selections: ScenarioSelection[];
+  /** Categories the building's typology moves */
+  typologyCategories: VmxCategoryId[];
+  indirectRates: ConstructionIndirectsRates;
+};
+
+export function runMonteCarlo(args: {
+  /** Deterministic result for the same inputs, rolled up across buildings (point estimate + category order) */
+  result: ScenarioResult;
+  /** Main residence first, then any additional buildings */
+  buildings: MonteCarloBuilding[];
+  softCostsConfig: SoftCostsConfig;
+  landCost: number;
+  /** Construction loan carry is re-run on each sample's cashflow */
+  financingConfig?: FinancingConfigV1;
+  config: UncertaintyConfigV1;
+}): MonteCarloResult {
+  const { result, buildings, softCostsConfig, financingConfig, config } = args;
+  const landCost = Math.max(0, args.landCost || 0);
+  const area = result.areaSqft;
+  const rng = createRng(config.seed);
+  const n = Math.max(MIN_ITERATIONS, Math.min(MAX_ITERATIONS, Math.round(config.iterations)));
+
+  // Triangular (min, mode, max) per building category, in $/sf, against that building's own bands
+  const sampledBuildings = buildings.map((b) => {
+    const selectionByCat = new Map<VmxCategoryId, ScenarioSelection>();
+    for (const s of b.selections) selectionByCat.set(s.categoryId, s);
+    const triangles = b.result.categories.map((c) => {
+      const mode = c.psqftUsed;
+      const sel = selectionByCat.get(c.categoryId);
+      if (config.categoryMode === "bands" && sel?.overridePsqft === undefined) {
+        const low = bandPsqft(b.benchmark, c.categoryId, "LOW") ?? mode;
+        const high = bandPsqft(b.benchmark, c.categoryId, "HIGH") ?? mode;
+        return { min: Math.min(low, mode), mode, max: Math.max(high, mode) };
+      }
+      return { min: mode * (1 - config.categorySpread), mode, max: mode * (1 + config.categorySpread) };
+    });
+    return { ...b, triangles, typologySet: new Set(b.typologyCategories) };
+  });
+  const catIndex = new Map(result.categories.map((c, k) => [c.categoryId, k]));
+  const movesWithTypology = sampledBuildings.some((b) => b.typologySet.size > 0);
+
+  const indirectsFor = (direct: (b: MonteCarloBuilding, i: number) => number, rates: (b: MonteCarloBuilding) => ConstructionIndirectsRates) =>
+    buildings.reduce(
+      (sum, b, i) => {
+        const x = computeConstructionIndirects({ directHardCost: direct(b, i), areaSqft: b.result.areaSqft, rates: rates(b) });
+        return { contractTotal: sum.contractTotal + x.contractTotal, totalIndirects: sum.totalIndirects + x.totalIndirects };
+      },
+      { contractTotal: 0, totalIndirects: 0 }
+    );
+
+  const pointIndirects = indirectsFor(
+    (b) => b.result.totalCost,
+    (b) => b.indirectRates
+  );
+  const pointSoft = computeSoftCosts(result, softCostsConfig);
+  const carryFor = (r: ScenarioResult, indirectsAmount: number) =>
+    computeProjectFinancing({ result: r, softCostsConfig, indirectsAmount, landCost, config: financingConfig })?.carry ?? 0;
+  const point = {
+    direct: result.totalCost,
+    contract: pointIndirects.contractTotal,
+    grandTotal:
+      pointIndirects.contractTotal + landCost + pointSoft.softBase + pointSoft.escalationAmount + carryFor(result, pointIndirects.totalIndirects),
+  };
+
+  const rateKeys = ["generalConditionsRate", "glInsuranceRate", "contingencyRate", "feeRate"] as const;
+  const rateLabels: Record<(typeof rateKeys)[number], string> = {
+    generalConditionsRate: "General Conditions rate",
+    glInsuranceRate: "GC GL Insurance rate",
+    contingencyRate: "Contingency rate",
+    feeRate: "GC Fee rate",
+  };
+
+  // Sample columns (for variance attribution) + outputs; indirect rates are sampled as multipliers on each building's rate
+  const catSamples: number[][] = result.categories.map(() => new Array(n));
+  const locSamples: number[] = new Array(n);
+  const typSamples: number[] = new Array(n);
+  const rateSamples: number[][] = rateKeys.map(() => new Array(n));
+  const directs: number[] = new Array(n);
+  const contracts: number[] = new Array(n);
+  const grands: number[] = new Array(n);
+
+  for (let i = 0; i < n; i++) {
+    const loc = sampleTriangular(rng(), 1 - config.locationSpread, 1, 1 + config.locationSpread);
+    const typ = sampleTriangular(rng(), 1 - config.typologySpread, 1, 1 + config.typologySpread);
+    locSamples[i] = loc;
+    typSamples[i] = typ;
+
+    const costByCat = result.categories.map(() => 0);
+    const buildingDirects = sampledBuildings.map((b) => {
+      let buildingDirect = 0;
+      b.result.categories.forEach((c, k) => {
+        const t = b.triangles[k];
+        const psqft = sampleTriangular(rng(), t.min, t.mode, t.max) * loc * (b.typologySet.has(c.categoryId) ? typ : 1);
+        // Quantity items are priced explicitly, so they are held fixed
+        const cost = b.result.areaSqft * psqft + (c.quantityCost ?? 0);
+        const idx = catIndex.get(c.categoryId);
+        if (idx !== undefined) costByCat[idx] += cost;
+        buildingDirect += cost;
+      });
+      return buildingDirect;
+    });
+    const direct = buildingDirects.reduce((a, b) => a + b, 0);
+    costByCat.forEach((cost, k) => (catSamples[k][i] = cost));
+
+    const factors = rateKeys.map((key, k) => {
+      const f = sampleTriangular(rng(), 1 - config.indirectSpread, 1, 1 + config.indirectSpread);
+      rateSamples[k][i] = f;
+      return f;
+    });
+    const indirects = indirectsFor(
+      (_, j) => buildingDirects[j],
+      (b) => {
+        const rates = { ...b.indirectRates };
+        rateKeys.forEach((key, k) => (rates[key] = b.indirectRates[key] * factors[k]));
+        return rates;
+      }
+    );
+
+    const categories = result.categories.map((c, k) => ({ ...c, psqftUsed: (costByCat[k] - (c.quantityCost ?? 0)) / area, cost: costByCat[k] }));
+    const sampled = { ...result, totalCost: direct, totalPsqft: direct / area, categories };
+    const soft = computeSoftCosts(sampled, softCostsConfig);
+
+    directs[i] = direct;
+    contracts[i] = indirects.contractTotal;
+    grands[i] = indirects.contractTotal + landCost + soft.softBase + soft.escalationAmount + carryFor(sampled, indirects.totalIndirects);
+  }
+
+  const drivers: { id: string; label: string; samples: number[] }[] = [
+    ...result.categories.map((c, k) => ({
+      id: c.categoryId,
+      label: VMX_CATEGORIES.find((x) => x.id === c.categoryId)?.label ?? c.label,
+      samples: catSamples[k],
+    })),
+    { id: "location", label: "Location factor", samples: locSamples },
+    ...(movesWithTypology ? [{ id: "typology", label: "Typology factor", samples: typSamples }] : []),
+    ...rateKeys.map((key, k) => ({ id: key, label: rateLabels[key], samples: rateSamples[k] })),
+  ];
+
+  const withCorr = drivers.map((d) => ({ ...d, correlation: correlation(d.samples, grands) }));
+  const explained = withCorr.reduce((sum, d) => sum + d.correlation * d.correlation, 0) || 1;
+  const contributors: VarianceContributor[] = withCorr
+    .map((d) => ({ id: d.id, label: d.label, correlation: d.correlation, share: (d.correlation * d.correlation) / explained }))
+    .sort((a, b) => b.share - a.share);
+
+  return {
+    iterations: n,
+    seed: config.seed,
+    categoryMode: config.categoryMode,
+    point,
+    direct: summarize(directs),
+    contract: summarize(contracts),
+    grandTotal: summarize(grands),
+    histogram: buildHistogram(grands, 24),
+    contributors,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Project phase timeline (a simple Gantt)
+ *
+ * Month 0 is the project start. Phases are placed by start month + duration
+ * and may overlap (permitting alongside late design, FF&E install alongside
+ * the end of construction). Hard-cost categories, construction indirects and
+ * soft-cost lines are drawn inside the phase they are attached to, so the
+ * cashflow, escalation midpoints and time to completion all follow this
+ * schedule.
+ */
+
+export type ProjectPhase = {
+  id: string;
+  label: string;
+  /** Months from the project start */
+  startMonth: number;
+  durationMonths: number;
+};
+
+/** Always present: the hard-cost curve and anything attached to an unknown phase use it */
+export const CONSTRUCTION_PHASE_ID = "construction";
+
+/** Pseudo-phase spanning the whole timeline (soft-cost timing only) */
+export const PROJECT_PHASE_ID = "project";
+
+export const MAX_PHASE_MONTHS = 120;
+
+export function getDefaultPhases(): ProjectPhase[] {
+  return [
+    { id: "pre_design", label: "Pre-design", startMonth: 0, durationMonths: 2 },
+    { id: "design", label: "Design", startMonth: 2, durationMonths: 9 },
+    { id: "permitting", label: "Permitting", startMonth: 9, durationMonths: 5 },
+    { id: CONSTRUCTION_PHASE_ID, label: "Construction", startMonth: 14, durationMonths: 48 },
+    { id: "ffe_install", label: "FF&E install", startMonth: 56, durationMonths: 8 },
+    { id: "closeout", label: "Closeout", startMonth: 62, durationMonths: 3 },
+  ];
+}
+
+/**
+ * Timeline for configs saved before phases existed: the construction period,
+ * with the pre-construction / closeout windows of the old timing settings.
+ */
+export function legacyPhases(constructionMonths: number, preconstructionMonths = 0, closeoutMonths = 0): ProjectPhase[] {
+  const out: ProjectPhase[] = [];
+  if (preconstructionMonths > 0) out.push({ id: "pre_construction", label: "Pre-construction", startMonth: 0, durationMonths: preconstructionMonths });
+  out.push({ id: CONSTRUCTION_PHASE_ID, label: "Construction", startMonth: preconstructionMonths, durationMonths: constructionMonths });
+  if (closeoutMonths > 0) {
+    out.push({ id: "post_construction", label: "Closeout", startMonth: preconstructionMonths + constructionMonths, durationMonths: closeoutMonths });
+  }
+  return out;
+}
+
+function clampMonths(v: unknown, fallback: number, min: number): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.max(min, Math.min(MAX_PHASE_MONTHS * 2, Math.round(n))) : fallback;
+}
+
+function slugify(input: string): string {
+  return (
+    input
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "phase"
+  );
+}
+
+/** Valid, unique phases sorted by start; a construction phase is added when missing */
+export function normalizePhases(input: unknown, fallback: ProjectPhase[]): ProjectPhase[] {
+  if (!Array.isArray(input)) return fallback.map((p) => ({ ...p }));
+  const seen = new Set<string>([PROJECT_PHASE_ID]);
+  const out: ProjectPhase[] = [];
+  for (const raw of input) {
+    if (!raw || typeof raw !== "object") continue;
+    const p = raw as Partial<Record<keyof ProjectPhase, unknown>>;
+    const label = typeof p.label === "string" && p.label.trim() ? p.label.trim() : "";
+    const id = slugify(typeof p.id === "string" && p.id ? p.id : label);
+    if (!label || seen.has(id)) continue;
+    seen.add(id);
+    out.push({
+      id,
+      label,
+      startMonth: clampMonths(p.startMonth, 0, 0),
+      durationMonths: Math.min(MAX_PHASE_MONTHS, clampMonths(p.durationMonths, 1, 1)),
+    });
+  }
+  if (!out.some((p) => p.id === CONSTRUCTION_PHASE_ID)) {
+    const construction = fallback.find((p) => p.id === CONSTRUCTION_PHASE_ID) ?? getDefaultPhases()[3];
+    out.push({ ...construction });
+  }
+  return sortPhases(out);
+}
+
+function sortPhases(phases: ProjectPhase[]): ProjectPhase[] {
+  return [...phases].sort((a, b) => a.startMonth - b.startMonth || a.startMonth + a.durationMonths - (b.startMonth + b.durationMonths));
+}
+
+export function findPhase(phases: ProjectPhase[], id: string): ProjectPhase | undefined {
+  return phases.find((p) => p.id === id);
+}
+
+/** Known phase id, else construction */
+export function safePhaseId(phases: ProjectPhase[], id: string | undefined): string {
+  return id && (id === PROJECT_PHASE_ID || phases.some((p) => p.id === id)) ? id : CONSTRUCTION_PHASE_ID;
+}
+
+/** Months from the project start (end exclusive). Unknown ids resolve to construction */
+export function phaseWindow(phases: ProjectPhase[], id: string): { start: number; end: number } {
+  if (id === PROJECT_PHASE_ID) return { start: 0, end: projectDurationMonths(phases) };
+  const p = findPhase(phases, id) ?? findPhase(phases, CONSTRUCTION_PHASE_ID) ?? phases[0];
+  return { start: p.startMonth, end: p.startMonth + p.durationMonths };
+}
+
+/** Time to completion: the end of the last phase */
+export function projectDurationMonths(phases: ProjectPhase[]): number {
+  return Math.max(1, ...phases.map((p) => p.startMonth + p.durationMonths));
+}
+
+export function phaseLabel(phases: ProjectPhase[], id: string): string {
+  if (id === PROJECT_PHASE_ID) return "Whole project";
+  return findPhase(phases, id)?.label ?? id;
+}
+
+export function updatePhase(phases: ProjectPhase[], id: string, patch: Partial<Omit<ProjectPhase, "id">>): ProjectPhase[] {
+  return sortPhases(phases.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+}
+
+export function addPhase(phases: ProjectPhase[], label: string): ProjectPhase[] {
+  const base = slugify(label);
+  let id = base;
+  for (let i = 2; id === PROJECT_PHASE_ID || phases.some((p) => p.id === id); i++) id = `${base}_${i}`;
+  return sortPhases([...phases, { id, label, startMonth: projectDurationMonths(phases), durationMonths: 3 }]);
+}
+
+export function removePhase(phases: ProjectPhase[], id: string): ProjectPhase[] {
+  return id === CONSTRUCTION_PHASE_ID ? phases : phases.filter((p) => p.id !== id);
+}
+
+/**
+ * Stretches or shortens construction; later phases that run past its end
+ * (FF&E install, closeout) move with it so the rest of the schedule keeps its shape.
+ */
+export function setConstructionDuration(phases: ProjectPhase[], months: number): ProjectPhase[] {
+  const construction = findPhase(phases, CONSTRUCTION_PHASE_ID);
+  if (!construction) return phases;
+  const next = Math.max(1, Math.min(MAX_PHASE_MONTHS, Math.round(months)));
+  const end = construction.startMonth + construction.durationMonths;
+  const delta = next - construction.durationMonths;
+  return phases.map((p) =>
+    p.id === CONSTRUCTION_PHASE_ID
+      ? { ...p, durationMonths: next }
+      : p.startMonth > construction.startMonth && p.startMonth + p.durationMonths > end
+        ? { ...p, startMonth: Math.max(0, p.startMonth + delta) }
+        : p
+  );
+}
+
+export function constructionMonths(phases: ProjectPhase[]): number {
+  return findPhase(phases, CONSTRUCTION_PHASE_ID)?.durationMonths ?? 1;
+}
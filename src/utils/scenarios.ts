@@ -0,0 +1,386 @@
+import { type TierId } from "../data/benchmark-library-storage";
+import { HeatBand, QuantityItem, ScenarioSelection, VMX_CATEGORIES, VmxCategoryId } from "../domain/vmx-domain";
+import { createQuantityItemId } from "../data/quantity-items";
+import type { ConstructionIndirectsRates } from "./constructionIndirects";
+
+/**
+ * Scenario collection
+ *
+ * Replaces the old hard-coded A/B pair with an ordered list of scenarios.
+ * Each scenario carries ALL of its own inputs (region, tier, area, interiors
+ * package, location, typology, land and band selections). One scenario is the
+ * delta baseline; every other scenario is compared against it.
+ *
+ * The scenario's own area / tier / typology / selections describe the main
+ * residence. Estates can add further buildings (guest house, pool pavilion,
+ * staff quarters…) that share the scenario's region, location and land but
+ * carry their own area, tier, typology, bands and optional indirect rates.
+ *
+ * Stored under vmx_scenarios_v1. On first load we migrate the legacy A/B keys
+ * so existing users keep their setup.
+ */
+
+export type TypologyId = "suburban" | "hillside" | "waterfront" | "urban" | "rural" | "desert";
+
+export const TYPOLOGY_IDS: TypologyId[] = ["suburban", "hillside", "waterfront", "urban", "rural", "desert"];
+
+/** Indirect rates for one building (fee base always follows the global config) */
+export type BuildingIndirectRates = Omit<ConstructionIndirectsRates, "feeBase">;
+
+export type ScenarioBuilding = {
+  id: string;
+  name: string;
+  /** Always canonical sq ft */
+  areaSqft: number;
+  tier: TierId;
+  typology: TypologyId;
+  selections: Record<VmxCategoryId, ScenarioSelection>;
+  /** null = tier defaults (typology-adjusted), like the main residence */
+  indirectRates: BuildingIndirectRates | null;
+};
+
+export type ScenarioInputs = {
+  id: string;
+  name: string;
+  regionId: string;
+  tier: TierId;
+  /** Always canonical sq ft */
+  areaSqft: number;
+  /** "match" or a TierId (Interiors + Equipment & Furnishings only) */
+  interiorTierOverride: string;
+  locationPreset: string;
+  locationCustom: number;
+  typology: TypologyId;
+  landCost: number;
+  selections: Record<VmxCategoryId, ScenarioSelection>;
+  /** Allowance / quantity × rate items added on top of the $/sf categories */
+  quantityItems: QuantityItem[];
+  /** Label for the scenario's own building in per-building breakdowns */
+  mainBuildingName: string;
+  /** Additional structures priced alongside the main residence */
+  buildings: ScenarioBuilding[];
+};
+
+export type ScenarioCollectionV1 = {
+  version: 1;
+  scenarios: ScenarioInputs[];
+  /** Scenario used as the reference for all deltas */
+  baselineId: string;
+};
+
+/** Upper bound keeps the compare grid + exports legible. */
+export const MAX_SCENARIOS = 8;
+
+const STORAGE_KEY = "vmx_scenarios_v1";
+
+export function buildDefaultSelections(): Record<VmxCategoryId, ScenarioSelection> {
+  const rec = {} as Record<VmxCategoryId, ScenarioSelection>;
+  for (const c of VMX_CATEGORIES) rec[c.id] = { categoryId: c.id, band: "MEDIUM" };
+  return rec;
+}
+
+/** A, B, C… (falls back to numbers after Z). */
+export function scenarioLetter(index: number): string {
+  return index >= 0 && index < 26 ? String.fromCharCode(65 + index) : String(index + 1);
+}
+
+export function createScenarioId(): string {
+  return `sc_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function createScenario(seed: Partial<ScenarioInputs> & { regionId: string; tier: TierId }): ScenarioInputs {
+  return {
+    id: seed.id ?? createScenarioId(),
+    name: seed.name ?? "Scenario",
+    regionId: seed.regionId,
+    tier: seed.tier,
+    areaSqft: seed.areaSqft ?? 15000,
+    interiorTierOverride: seed.interiorTierOverride ?? "match",
+    locationPreset: seed.locationPreset ?? "national",
+    locationCustom: seed.locationCustom ?? 1.0,
+    typology: seed.typology ?? "suburban",
+    landCost: seed.landCost ?? 0,
+    selections: seed.selections ?? buildDefaultSelections(),
+    quantityItems: seed.quantityItems ?? [],
+    mainBuildingName: seed.mainBuildingName ?? "Main residence",
+    buildings: seed.buildings ?? [],
+  };
+}
+
+function copySelections(source: Record<VmxCategoryId, ScenarioSelection>): Record<VmxCategoryId, ScenarioSelection> {
+  const selections = {} as Record<VmxCategoryId, ScenarioSelection>;
+  for (const c of VMX_CATEGORIES) selections[c.id] = { ...source[c.id] };
+  return selections;
+}
+
+/** Copy of an existing scenario with a fresh id (selections, quantity items and buildings are deep-copied). */
+export function duplicateScenario(source: ScenarioInputs, name: string): ScenarioInputs {
+  const quantityItems = source.quantityItems.map((q) => ({ ...q, id: createQuantityItemId() }));
+  const buildings = source.buildings.map((b) => ({
+    ...b,
+    id: createBuildingId(),
+    selections: copySelections(b.selections),
+    indirectRates: b.indirectRates ? { ...b.indirectRates } : null,
+  }));
+  return { ...source, id: createScenarioId(), name, selections: copySelections(source.selections), quantityItems, buildings };
+}
+
+export function createBuildingId(): string {
+  return `bld_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function createBuilding(seed: Partial<ScenarioBuilding> & { tier: TierId; typology: TypologyId }): ScenarioBuilding {
+  return {
+    id: seed.id ?? createBuildingId(),
+    name: seed.name ?? "Building",
+    areaSqft: seed.areaSqft ?? 2000,
+    tier: seed.tier,
+    typology: seed.typology,
+    selections: seed.selections ?? buildDefaultSelections(),
+    indirectRates: seed.indirectRates ?? null,
+  };
+}
+
+/** Next unused "Scenario X" name. */
+export function nextScenarioName(list: ScenarioInputs[]): string {
+  const taken = new Set(list.map((s) => s.name.trim().toLowerCase()));
+  for (let i = 0; i < 52; i++) {
+    const candidate = `Scenario ${scenarioLetter(i)}`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+  return `Scenario ${list.length + 1}`;
+}
+
+export function moveScenario(list: ScenarioInputs[], id: string, dir: -1 | 1): ScenarioInputs[] {
+  const idx = list.findIndex((s) => s.id === id);
+  const target = idx + dir;
+  if (idx < 0 || target < 0 || target >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(idx, 1);
+  next.splice(target, 0, item);
+  return next;
+}
+
+function num(v: unknown, fallback: number, min = 0): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n >= min ? n : fallback;
+}
+
+/** Any non-empty id; App re-points scenarios whose tier left the library catalogue. */
+function isTier(v: unknown): v is TierId {
+  return typeof v === "string" && v.length > 0;
+}
+
+function isBand(v: unknown): v is HeatBand {
+  return v === "LOW" || v === "MEDIUM" || v === "HIGH";
+}
+
+type LooseRecord = Record<string, unknown>;
+
+function asRecord(v: unknown): LooseRecord | null {
+  return v && typeof v === "object" ? (v as LooseRecord) : null;
+}
+
+function normalizeSelections(raw: unknown): Record<VmxCategoryId, ScenarioSelection> {
+  const out = buildDefaultSelections();
+  const rec = asRecord(raw);
+  if (!rec) return out;
+  for (const c of VMX_CATEGORIES) {
+    const r = asRecord(rec[c.id]);
+    if (!r) continue;
+    const band = isBand(r.band) ? r.band : "MEDIUM";
+    const overridePsqft = Number(r.overridePsqft);
+    out[c.id] = Number.isFinite(overridePsqft) && overridePsqft > 0
+      ? {
+          categoryId: c.id,
+          band,
+          overridePsqft,
+          overrideReason: typeof r.overrideReason === "string" ? r.overrideReason : "",
+          overrideSource: typeof r.overrideSource === "string" ? r.overrideSource : "",
+        }
+      : { categoryId: c.id, band };
+  }
+  return out;
+}
+
+function normalizeQuantityItems(raw: unknown): QuantityItem[] {
+  if (!Array.isArray(raw)) return [];
+  const categoryIds = VMX_CATEGORIES.map((c) => c.id as string);
+  const out: QuantityItem[] = [];
+  for (const item of raw) {
+    const r = asRecord(item);
+    if (!r || typeof r.categoryId !== "string" || !categoryIds.includes(r.categoryId)) continue;
+    out.push({
+      id: typeof r.id === "string" && r.id ? r.id : createQuantityItemId(),
+      categoryId: r.categoryId as VmxCategoryId,
+      label: typeof r.label === "string" ? r.label : "Item",
+      unit: typeof r.unit === "string" && r.unit ? r.unit : "ea",
+      quantity: num(r.quantity, 0, 0),
+      rate: num(r.rate, 0, 0),
+    });
+  }
+  return out;
+}
+
+function normalizeBuildingRates(raw: unknown): BuildingIndirectRates | null {
+  const r = asRecord(raw);
+  if (!r) return null;
+  const rate = (v: unknown) => Math.min(1, num(v, 0, 0));
+  return {
+    generalConditionsRate: rate(r.generalConditionsRate),
+    glInsuranceRate: rate(r.glInsuranceRate),
+    contingencyRate: rate(r.contingencyRate),
+    feeRate: rate(r.feeRate),
+  };
+}
+
+function normalizeBuildings(raw: unknown, fallback: ScenarioInputs): ScenarioBuilding[] {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const out: ScenarioBuilding[] = [];
+  for (const item of raw) {
+    const r = asRecord(item);
+    if (!r) continue;
+    let id = typeof r.id === "string" && r.id ? r.id : createBuildingId();
+    if (seen.has(id)) id = createBuildingId();
+    seen.add(id);
+    out.push({
+      id,
+      name: typeof r.name === "string" && r.name.trim() ? r.name : "Building",
+      areaSqft: num(r.areaSqft, 2000, 1),
+      tier: isTier(r.tier) ? r.tier : fallback.tier,
+      typology: TYPOLOGY_IDS.includes(r.typology as TypologyId) ? (r.typology as TypologyId) : fallback.typology,
+      selections: normalizeSelections(r.selections),
+      indirectRates: normalizeBuildingRates(r.indirectRates),
+    });
+  }
+  return out;
+}
+
+function normalizeScenario(raw: unknown, fallback: ScenarioInputs, regionIds: string[]): ScenarioInputs {
+  const r = asRecord(raw) ?? {};
+  const regionId = typeof r.regionId === "string" && regionIds.includes(r.regionId) ? r.regionId : fallback.regionId;
+  const override = r.interiorTierOverride === "match" || isTier(r.interiorTierOverride) ? r.interiorTierOverride : "match";
+
+  const scenario: ScenarioInputs = {
+    id: typeof r.id === "string" && r.id ? r.id : createScenarioId(),
+    name: typeof r.name === "string" && r.name.trim() ? r.name : fallback.name,
+    regionId,
+    tier: isTier(r.tier) ? r.tier : fallback.tier,
+    areaSqft: num(r.areaSqft, fallback.areaSqft, 1),
+    interiorTierOverride: override,
+    locationPreset: typeof r.locationPreset === "string" && r.locationPreset ? r.locationPreset : "national",
+    locationCustom: num(r.locationCustom, 1.0, 0.01),
+    typology: TYPOLOGY_IDS.includes(r.typology as TypologyId) ? (r.typology as TypologyId) : "suburban",
+    landCost: num(r.landCost, 0, 0),
+    selections: normalizeSelections(r.selections),
+    quantityItems: normalizeQuantityItems(r.quantityItems),
+    mainBuildingName:
+      typeof r.mainBuildingName === "string" && r.mainBuildingName.trim() ? r.mainBuildingName : fallback.mainBuildingName,
+    buildings: [],
+  };
+  scenario.buildings = normalizeBuildings(r.buildings, scenario);
+  return scenario;
+}
+
+/**
+ * Keep a collection usable against the current library:
+ * - at least one scenario
+ * - unique ids
+ * - region ids that still exist
+ * - a baseline that points at a scenario
+ */
+export function normalizeScenarioCollection(
+  raw: unknown,
+  ctx: { regionIds: string[]; defaultRegionId: string; defaultTier: TierId }
+): ScenarioCollectionV1 {
+  const rec = asRecord(raw);
+  const list: unknown[] = rec && Array.isArray(rec.scenarios) ? rec.scenarios.slice(0, MAX_SCENARIOS) : [];
+  const seen = new Set<string>();
+  const scenarios: ScenarioInputs[] = [];
+
+  list.forEach((item, idx) => {
+    const fallback = createScenario({
+      name: `Scenario ${scenarioLetter(idx)}`,
+      regionId: ctx.defaultRegionId,
+      tier: ctx.defaultTier,
+    });
+    const s = normalizeScenario(item, fallback, ctx.regionIds);
+    if (seen.has(s.id)) s.id = createScenarioId();
+    seen.add(s.id);
+    scenarios.push(s);
+  });
+
+  if (scenarios.length === 0) {
+    scenarios.push(createScenario({ name: "Scenario A", regionId: ctx.defaultRegionId, tier: ctx.defaultTier }));
+  }
+
+  const rawBaseline = rec?.baselineId;
+  const baselineId =
+    typeof rawBaseline === "string" && scenarios.some((s) => s.id === rawBaseline) ? rawBaseline : scenarios[0].id;
+
+  return { version: 1, scenarios, baselineId };
+}
+
+function readLegacy(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+/** Build Scenario A/B from the pre-collection localStorage keys. */
+function migrateLegacyAB(ctx: {
+  regionIds: string[];
+  defaultRegionId: string;
+  secondRegionId: string;
+  defaultTier: TierId;
+}): ScenarioCollectionV1 {
+  const a = createScenario({
+    name: "Scenario A",
+    regionId: ctx.defaultRegionId,
+    tier: ctx.defaultTier,
+    interiorTierOverride: readLegacy("vmx_interior_tier_override_v1") || "match",
+    locationPreset: readLegacy("vmx_location_a_preset_v1") || "national",
+    locationCustom: num(readLegacy("vmx_location_a_custom_v1"), 1.0, 0.01),
+    typology: (readLegacy("vmx_typology_a_v1") as TypologyId) || "suburban",
+    landCost: num(readLegacy("vmx_land_cost_a_v1"), 0, 0),
+  });
+
+  const b = createScenario({
+    name: "Scenario B",
+    regionId: readLegacy("vmx_compare_region_b_v1") || ctx.secondRegionId,
+    tier: (readLegacy("vmx_compare_tier_b_v1") as TierId) || ctx.defaultTier,
+    interiorTierOverride: readLegacy("vmx_interior_tier_override_b_v1") || "match",
+    locationPreset: readLegacy("vmx_location_b_preset_v1") || "national",
+    locationCustom: num(readLegacy("vmx_location_b_custom_v1"), 1.0, 0.01),
+    typology: (readLegacy("vmx_typology_b_v1") as TypologyId) || "suburban",
+    landCost: num(readLegacy("vmx_land_cost_b_v1"), 0, 0),
+  });
+
+  return normalizeScenarioCollection({ version: 1, scenarios: [a, b], baselineId: a.id }, ctx);
+}
+
+export function loadScenarioCollection(ctx: {
+  regionIds: string[];
+  defaultRegionId: string;
+  secondRegionId: string;
+  defaultTier: TierId;
+}): ScenarioCollectionV1 {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return migrateLegacyAB(ctx);
+    return normalizeScenarioCollection(JSON.parse(raw), ctx);
+  } catch {
+    return migrateLegacyAB(ctx);
+  }
+}
+
+export function saveScenarioCollection(collection: ScenarioCollectionV1) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(collection));
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,296 @@
+import {
+  VMX_CATEGORIES,
+  combineScenarioResults,
+  computeScenarioResult,
+  type BenchmarkSet,
+  type HeatBand,
+  type QuantityItem,
+  type ScenarioSelection,
+} from "../domain/vmx-domain";
+import { computeConstructionIndirects, type ConstructionIndirectsRates, type PricedBuilding } from "./constructionIndirects";
+import { MAX_PHASE_MONTHS, constructionMonths, setConstructionDuration } from "./projectPhases";
+import { computeSoftCosts, type SoftCostLineItem, type SoftCostsConfig } from "./softCosts";
+import { computeProjectFinancing, type FinancingConfigV1 } from "./financing";
+
+/**
+ * Sensitivity (tornado)
+ *
+ * One-at-a-time flex of every input driver: each driver is moved to a low and
+ * a high value with everything else held at the current inputs, and the
+ * resulting Grand Total swing is ranked. Everything reuses the same pure
+ * functions as the main pipeline (computeScenarioResult →
+ * computeConstructionIndirects → computeSoftCosts → computeProjectFinancing).
+ */
+
+export type SensitivityInputs = {
+  areaSqft: number;
+  /** Benchmark actually priced (location / typology / program already applied) */
+  benchmark: BenchmarkSet;
+  selections: ScenarioSelection[];
+  indirectRates: ConstructionIndirectsRates;
+  softCostsConfig: SoftCostsConfig;
+  landCost: number;
+  quantityItems?: QuantityItem[];
+  /** Additional buildings, held at their current pricing (only the main residence is flexed) */
+  otherBuildings?: PricedBuilding[];
+  /** Construction loan carry (omitted or disabled = no financing line) */
+  financingConfig?: FinancingConfigV1;
+};
+
+export type SensitivityGroup = "category" | "location" | "typology" | "indirects" | "escalation" | "softCosts" | "land";
+
+export const SENSITIVITY_GROUP_LABELS: Record<SensitivityGroup, string> = {
+  category: "Category band",
+  location: "Location",
+  typology: "Typology",
+  indirects: "Construction indirects",
+  escalation: "Escalation",
+  softCosts: "Soft costs",
+  land: "Land",
+};
+
+/** A driver moved to a low and a high value (App builds location / typology flexes, which need its benchmark helpers). */
+export type SensitivityFlex = {
+  id: string;
+  label: string;
+  group: SensitivityGroup;
+  low: { label: string; inputs: SensitivityInputs };
+  high: { label: string; inputs: SensitivityInputs };
+};
+
+export type SensitivitySettings = {
+  /** Relative flex on indirect + soft-cost line rates (0.2 = ±20%) */
+  rateSwing: number;
+  /** Absolute flex on the annual escalation rate (0.02 = ±2 points) */
+  escalationRateSwing: number;
+  /** Flex on project duration, in years */
+  durationSwingYears: number;
+  /** Relative flex on land cost */
+  landSwing: number;
+  /** Absolute flex on the location factor (0.1 = ×0.10) */
+  locationSwing: number;
+};
+
+export function getDefaultSensitivitySettings(): SensitivitySettings {
+  return { rateSwing: 0.2, escalationRateSwing: 0.02, durationSwingYears: 1, landSwing: 0.2, locationSwing: 0.1 };
+}
+
+export type SensitivityDriver = {
+  id: string;
+  label: string;
+  group: SensitivityGroup;
+  lowLabel: string;
+  highLabel: string;
+  /** Grand Total at the low / high setting */
+  lowTotal: number;
+  highTotal: number;
+  /** |highTotal − lowTotal| */
+  swing: number;
+};
+
+export type SensitivityResult = {
+  baseTotal: number;
+  drivers: SensitivityDriver[];
+};
+
+/** Grand Total (All-in) for one set of inputs, or null when the scenario can't be priced. */
+export function grandTotalFor(inputs: SensitivityInputs): number | null {
+  try {
+    const main = computeScenarioResult({
+      areaSqft: inputs.areaSqft,
+      benchmark: inputs.benchmark,
+      selections: inputs.selections,
+      quantityItems: inputs.quantityItems,
+    });
+    const others = inputs.otherBuildings ?? [];
+    const result = combineScenarioResults([main, ...others.map((b) => b.result)], inputs.benchmark);
+    const indirects = computeConstructionIndirects({ directHardCost: main.totalCost, areaSqft: inputs.areaSqft, rates: inputs.indirectRates });
+    const contract = indirects.contractTotal + others.reduce((sum, b) => sum + b.indirects.contractTotal, 0);
+    const soft = computeSoftCosts(result, inputs.softCostsConfig);
+    const financing = computeProjectFinancing({
+      result,
+      softCostsConfig: inputs.softCostsConfig,
+      indirectsAmount: indirects.totalIndirects + others.reduce((sum, b) => sum + b.indirects.totalIndirects, 0),
+      landCost: Math.max(0, inputs.landCost || 0),
+      config: inputs.financingConfig,
+    });
+    return contract + Math.max(0, inputs.landCost || 0) + soft.softBase + soft.escalationAmount + (financing?.carry ?? 0);
+  } catch {
+    return null;
+  }
+}
+
+function pctLabel(v: number) {
+  return `${(v * 100).toFixed(1)}%`;
+}
+
+function withBand(selections: ScenarioSelection[], categoryId: string, band: HeatBand): ScenarioSelection[] {
+  return selections.map((s) => (s.categoryId === categoryId ? { categoryId: s.categoryId, band } : s));
+}
+
+/** Flexes that only need the current inputs (bands, indirect rates, escalation, soft-cost lines, land). */
+export function buildStandardFlexes(base: SensitivityInputs, settings: SensitivitySettings): SensitivityFlex[] {
+  const out: SensitivityFlex[] = [];
+  const cfg = base.softCostsConfig;
+
+  for (const c of VMX_CATEGORIES) {
+    out.push({
+      id: `band_${c.id}`,
+      label: c.label,
+      group: "category",
+      low: { label: "LOW", inputs: { ...base, selections: withBand(base.selections, c.id, "LOW") } },
+      high: { label: "HIGH", inputs: { ...base, selections: withBand(base.selections, c.id, "HIGH") } },
+    });
+  }
+
+  const rateKeys = [
+    ["generalConditionsRate", "General Conditions rate"],
+    ["glInsuranceRate", "GC GL Insurance rate"],
+    ["contingencyRate", "Contingency rate"],
+    ["feeRate", "GC Fee rate"],
+  ] as const;
+  for (const [key, label] of rateKeys) {
+    const r = base.indirectRates[key];
+    const lo = Math.max(0, r * (1 - settings.rateSwing));
+    const hi = Math.min(1, r * (1 + settings.rateSwing));
+    out.push({
+      id: `indirect_${key}`,
+      label,
+      group: "indirects",
+      low: { label: pctLabel(lo), inputs: { ...base, indirectRates: { ...base.indirectRates, [key]: lo } } },
+      high: { label: pctLabel(hi), inputs: { ...base, indirectRates: { ...base.indirectRates, [key]: hi } } },
+    });
+  }
+
+  const escLo = Math.max(0, cfg.annualEscalationRate - settings.escalationRateSwing);
+  const escHi = cfg.annualEscalationRate + settings.escalationRateSwing;
+  out.push({
+    id: "escalation_rate",
+    label: "Annual escalation rate",
+    group: "escalation",
+    low: { label: pctLabel(escLo), inputs: { ...base, softCostsConfig: { ...cfg, annualEscalationRate: escLo } } },
+    high: { label: pctLabel(escHi), inputs: { ...base, softCostsConfig: { ...cfg, annualEscalationRate: escHi } } },
+  });
+
+  // Construction stretches or compresses; later phases move with it so the completion date shifts too
+  const swing = settings.durationSwingYears * 12;
+  const months = constructionMonths(cfg.phases);
+  const moLo = Math.max(cfg.cashflow.method === "preset" ? 12 : 1, months - swing);
+  const moHi = Math.min(MAX_PHASE_MONTHS, months + swing);
+  const withMonths = (m: number): SoftCostsConfig => {
+    const next = { ...cfg, phases: setConstructionDuration(cfg.phases, m) };
+    if (cfg.cashflow.method !== "preset") return next;
+    // Year-weight presets are keyed by whole years
+    const years = Math.max(1, Math.min(10, Math.round(m / 12)));
+    return cfg.cashflowPresets[String(years)] ? { ...next, projectDurationYears: years, selectedPresetKey: String(years) } : next;
+  };
+  out.push({
+    id: "escalation_duration",
+    label: "Construction duration",
+    group: "escalation",
+    low: { label: `${moLo} mo`, inputs: { ...base, softCostsConfig: withMonths(moLo) } },
+    high: { label: `${moHi} mo`, inputs: { ...base, softCostsConfig: withMonths(moHi) } },
+  });
+
+  for (const li of cfg.lineItems) {
+    if (!li.enabled) continue;
+    const isFixed = li.basis === "fixed";
+    // Sliding scales flex every band rate together
+    const isScaled = !isFixed && Boolean(li.scale?.length);
+    const v = isFixed ? li.fixedAmount : li.rate;
+    const lo = Math.max(0, v * (1 - settings.rateSwing));
+    const hi = v * (1 + settings.rateSwing);
+    const flexed = (x: SoftCostLineItem, factor: number, n: number): SoftCostLineItem =>
+      isFixed
+        ? { ...x, fixedAmount: n }
+        : isScaled
+          ? { ...x, scale: x.scale?.map((b) => ({ ...b, rate: Math.min(1, b.rate * factor) })) }
+          : { ...x, rate: n };
+    const withValue = (factor: number, n: number): SoftCostsConfig => ({
+      ...cfg,
+      lineItems: cfg.lineItems.map((x) => (x.id === li.id ? flexed(x, factor, n) : x)),
+    });
+    const swingLabel = (sign: string) => `${sign}${Math.round(settings.rateSwing * 100)}%`;
+    out.push({
+      id: `soft_${li.id}`,
+      label: li.label,
+      group: "softCosts",
+      low: {
+        label: isFixed || isScaled ? swingLabel("−") : pctLabel(lo),
+        inputs: { ...base, softCostsConfig: withValue(1 - settings.rateSwing, lo) },
+      },
+      high: {
+        label: isFixed || isScaled ? swingLabel("+") : pctLabel(hi),
+        inputs: { ...base, softCostsConfig: withValue(1 + settings.rateSwing, hi) },
+      },
+    });
+  }
+
+  if (base.landCost > 0) {
+    out.push({
+      id: "land",
+      label: "Land acquisition",
+      group: "land",
+      low: { label: `−${Math.round(settings.landSwing * 100)}%`, inputs: { ...base, landCost: base.landCost * (1 - settings.landSwing) } },
+      high: { label: `+${Math.round(settings.landSwing * 100)}%`, inputs: { ...base, landCost: base.landCost * (1 + settings.landSwing) } },
+    });
+  }
+
+  return out;
+}
+
+/** Prices every flex and ranks drivers by swing (largest first). Drivers that don't move the total are dropped. */
+export function computeSensitivity(base: SensitivityInputs, flexes: SensitivityFlex[]): SensitivityResult | null {
+  const baseTotal = grandTotalFor(base);
+  if (baseTotal === null) return null;
+
+  const drivers: SensitivityDriver[] = [];
+  for (const f of flexes) {
+    const lowTotal = grandTotalFor(f.low.inputs);
+    const highTotal = grandTotalFor(f.high.inputs);
+    if (lowTotal === null || highTotal === null) continue;
+    const swing = Math.abs(highTotal - lowTotal);
+    if (swing < 0.5) continue;
+    drivers.push({ id: f.id, label: f.label, group: f.group, lowLabel: f.low.label, highLabel: f.high.label, lowTotal, highTotal, swing });
+  }
+
+  drivers.sort((a, b) => b.swing - a.swing);
+  return { baseTotal, drivers };
+}
+
+const STORAGE_KEY = "vmx_sensitivity_v1";
+
+function clampNumber(v: unknown, fallback: number, min: number, max: number) {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, n));
+}
+
+export function normalizeSensitivitySettings(raw: unknown): SensitivitySettings {
+  const def = getDefaultSensitivitySettings();
+  const r = raw && typeof raw === "object" ? (raw as Partial<Record<keyof SensitivitySettings, unknown>>) : {};
+  return {
+    rateSwing: clampNumber(r.rateSwing, def.rateSwing, 0, 1),
+    escalationRateSwing: clampNumber(r.escalationRateSwing, def.escalationRateSwing, 0, 0.2),
+    durationSwingYears: Math.round(clampNumber(r.durationSwingYears, def.durationSwingYears, 0, 5)),
+    landSwing: clampNumber(r.landSwing, def.landSwing, 0, 1),
+    locationSwing: clampNumber(r.locationSwing, def.locationSwing, 0, 0.5),
+  };
+}
+
+export function loadSensitivitySettings(): SensitivitySettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return normalizeSensitivitySettings(raw ? JSON.parse(raw) : null);
+  } catch {
+    return getDefaultSensitivitySettings();
+  }
+}
+
+export function saveSensitivitySettings(settings: SensitivitySettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // ignore
+  }
+}
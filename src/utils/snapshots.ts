@@ -0,0 +1,250 @@
+import { tierLabel, type TierId } from "../data/benchmark-library-storage";
+import { VMX_CATEGORIES, quantityItemAmount, type AreaUnit, type BenchmarkSet, type ScenarioResult } from "../domain/vmx-domain";
+import { formatArea, formatMoney, formatRate } from "./format";
+import type { ConstructionIndirectsConfigV1 } from "./constructionIndirects";
+import type { CostIndexConfigV1 } from "./costIndex";
+import type { FinancingConfigV1 } from "./financing";
+import { describeLibraryVersionRef, type LibraryVersionRef } from "../data/benchmark-library-history";
+import type { ScenarioCollectionV1, TypologyId } from "./scenarios";
+import type { SoftCostsConfig } from "./softCosts";
+
+/**
+ * Snapshots
+ *
+ * v1 snapshots only kept the primary ScenarioResult. Snapshots now also carry
+ * the complete input state (scenario collection, soft-cost config, indirect
+ * rates, baselines) and the exact benchmark sets that were priced, so a
+ * snapshot can be restored into the app or recomputed against today's library.
+ *
+ * Older snapshots without `inputs` still load; they just can't be restored.
+ */
+
+export type SnapshotInputsV1 = {
+  version: 1;
+  scenarios: ScenarioCollectionV1;
+  compareMode: boolean;
+  areaUnit: AreaUnit;
+  softCostsConfig: SoftCostsConfig;
+  indirectsConfig: ConstructionIndirectsConfigV1;
+  programProfile: { totalSF?: number; byZoneSF?: Record<string, number> } | null;
+  baselineLocationPreset: string;
+  baselineLocationCustom: number;
+  baselineTypology: TypologyId;
+  /** Cost index table + estimate date (absent on snapshots saved before index escalation) */
+  costIndex?: CostIndexConfigV1;
+  /** Construction loan settings (absent on snapshots saved before financing) */
+  financing?: FinancingConfigV1;
+};
+
+export type SnapshotBenchmark = {
+  scenarioId: string;
+  scenarioName: string;
+  regionId: string;
+  regionName: string;
+  tier: TierId;
+  /** Library tier set (after the interiors override, before location / typology / program) */
+  source: BenchmarkSet;
+  /** Exact set that was priced */
+  applied: BenchmarkSet;
+};
+
+export type Snapshot = {
+  id: string;
+  name: string;
+  createdAtIso: string;
+  currency: string;
+  totalCost: number;
+  totalPsqft?: number;
+  /** Primary scenario result at save time */
+  payload: ScenarioResult;
+  inputs?: SnapshotInputsV1;
+  benchmarks?: SnapshotBenchmark[];
+  /** Benchmark library version priced from (absent on snapshots saved before library history) */
+  libraryVersion?: LibraryVersionRef;
+  /** N4S project the snapshot belongs to (groups the timeline) */
+  projectId?: string;
+  projectName?: string;
+};
+
+/** What App hands the panel when saving (everything except id/name/timestamp). */
+export type SnapshotCapture = {
+  result: ScenarioResult;
+  inputs: SnapshotInputsV1;
+  benchmarks: SnapshotBenchmark[];
+  libraryVersion?: LibraryVersionRef;
+  projectId?: string;
+  projectName?: string;
+};
+
+/** Primary scenario re-priced with today's library. */
+export type SnapshotRecompute = {
+  result: ScenarioResult | null;
+  error: string | null;
+  /** The snapshot's region no longer exists, so the first library region was used */
+  regionMissing: boolean;
+};
+
+const STORAGE_KEY = "vmx_snapshots_v1";
+
+function safeParse<T>(raw: string | null): T | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+function isSnapshot(v: unknown): v is Snapshot {
+  if (!v || typeof v !== "object") return false;
+  const s = v as Partial<Snapshot>;
+  return typeof s.id === "string" && typeof s.createdAtIso === "string" && !!s.payload && typeof s.totalCost === "number";
+}
+
+export function loadSnapshots(): Snapshot[] {
+  try {
+    const parsed = safeParse<unknown[]>(localStorage.getItem(STORAGE_KEY));
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(isSnapshot).map((s) => (s.inputs && s.inputs.version !== 1 ? { ...s, inputs: undefined } : s));
+  } catch {
+    return [];
+  }
+}
+
+export function persistSnapshots(next: Snapshot[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // ignore
+  }
+}
+
+export function createSnapshot(name: string, capture: SnapshotCapture): Snapshot {
+  return {
+    id: `${Date.now()}_${Math.random().toString(16).slice(2)}`,
+    name,
+    createdAtIso: new Date().toISOString(),
+    currency: capture.result.currency,
+    totalCost: capture.result.totalCost,
+    totalPsqft: capture.result.totalPsqft,
+    payload: capture.result,
+    inputs: capture.inputs,
+    benchmarks: capture.benchmarks,
+    libraryVersion: capture.libraryVersion,
+    projectId: capture.projectId || undefined,
+    projectName: capture.projectName || undefined,
+  };
+}
+
+/** Primary scenario inputs recorded in a snapshot (null for legacy result-only snapshots). */
+export function snapshotPrimaryScenario(s: Snapshot) {
+  return s.inputs?.scenarios.scenarios[0] ?? null;
+}
+
+/** Oldest first — the order the timeline and diff read in. */
+export function sortSnapshotsByDate(list: Snapshot[]): Snapshot[] {
+  return [...list].sort((a, b) => a.createdAtIso.localeCompare(b.createdAtIso));
+}
+
+export type InputChangeLabels = {
+  areaUnit: AreaUnit;
+  location?: (id: string) => string;
+  typology?: (id: string) => string;
+  tier?: (id: string) => string;
+};
+
+function sameJson(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Human-readable list of what changed between two snapshots (primary scenario
+ * inputs, shared settings and the library rates that were priced).
+ */
+export function describeInputChanges(prev: Snapshot, next: Snapshot, labels: InputChangeLabels): string[] {
+  const a = prev.inputs;
+  const b = next.inputs;
+  if (!a || !b) return ["Inputs not recorded (result-only snapshot)"];
+
+  const sa = a.scenarios.scenarios[0];
+  const sb = b.scenarios.scenarios[0];
+  const loc = labels.location ?? ((id: string) => id);
+  const typ = labels.typology ?? ((id: string) => id);
+  const tierName = labels.tier ?? ((id: string) => tierLabel(id));
+  const out: string[] = [];
+
+  const regionA = prev.benchmarks?.[0]?.regionName ?? sa.regionId;
+  const regionB = next.benchmarks?.[0]?.regionName ?? sb.regionId;
+  if (sa.regionId !== sb.regionId) out.push(`Region: ${regionA} → ${regionB}`);
+  if (sa.tier !== sb.tier) out.push(`Tier: ${tierName(sa.tier)} → ${tierName(sb.tier)}`);
+  if (sa.areaSqft !== sb.areaSqft) {
+    out.push(`Area: ${formatArea(sa.areaSqft, labels.areaUnit)} → ${formatArea(sb.areaSqft, labels.areaUnit)}`);
+  }
+  if (sa.interiorTierOverride !== sb.interiorTierOverride) {
+    const name = (v: string) => (v === "match" ? "Match tier" : tierName(v));
+    out.push(`Interiors + FF&E: ${name(sa.interiorTierOverride)} → ${name(sb.interiorTierOverride)}`);
+  }
+  if (sa.locationPreset !== sb.locationPreset) {
+    out.push(`Location: ${loc(sa.locationPreset)} → ${loc(sb.locationPreset)}`);
+  } else if (sa.locationPreset === "custom" && sa.locationCustom !== sb.locationCustom) {
+    out.push(`Location factor: ×${sa.locationCustom.toFixed(2)} → ×${sb.locationCustom.toFixed(2)}`);
+  }
+  if (sa.typology !== sb.typology) out.push(`Typology: ${typ(sa.typology)} → ${typ(sb.typology)}`);
+  if (sa.landCost !== sb.landCost) {
+    out.push(`Land: ${formatMoney(sa.landCost, prev.currency)} → ${formatMoney(sb.landCost, next.currency)}`);
+  }
+
+  for (const c of VMX_CATEGORIES) {
+    const x = sa.selections[c.id];
+    const y = sb.selections[c.id];
+    if (x?.band !== y?.band) out.push(`${c.label}: ${x?.band ?? "—"} → ${y?.band ?? "—"}`);
+    if (x?.overridePsqft !== y?.overridePsqft) {
+      const rate = (v: number | undefined) => (v === undefined ? "band rate" : formatRate(v, next.currency, labels.areaUnit));
+      out.push(`${c.label} override: ${rate(x?.overridePsqft)} → ${rate(y?.overridePsqft)}${y?.overrideReason ? ` (${y.overrideReason})` : ""}`);
+    }
+  }
+
+  if (!sameJson(sa.quantityItems ?? [], sb.quantityItems ?? [])) {
+    const total = (list: typeof sa.quantityItems | undefined) => (list ?? []).reduce((sum, q) => sum + quantityItemAmount(q), 0);
+    out.push(`Quantity items: ${formatMoney(total(sa.quantityItems), prev.currency)} → ${formatMoney(total(sb.quantityItems), next.currency)}`);
+  }
+
+  if (!sameJson(sa.buildings ?? [], sb.buildings ?? [])) {
+    const names = (list: typeof sa.buildings | undefined) => (list ?? []).map((x) => x.name).join(", ") || "none";
+    out.push(`Additional buildings: ${names(sa.buildings)} → ${names(sb.buildings)}`);
+  }
+
+  if (prev.libraryVersion && next.libraryVersion && prev.libraryVersion.id !== next.libraryVersion.id) {
+    out.push(`${describeLibraryVersionRef(prev.libraryVersion)} → ${describeLibraryVersionRef(next.libraryVersion)}`);
+  }
+
+  // Library rates moved underneath the same region + tier
+  const srcA = prev.benchmarks?.[0]?.source;
+  const srcB = next.benchmarks?.[0]?.source;
+  if (srcA && srcB && sa.regionId === sb.regionId && sa.tier === sb.tier) {
+    const moved = VMX_CATEGORIES.filter((c) => {
+      const bandsA = srcA.bands.filter((band) => band.categoryId === c.id);
+      const bandsB = srcB.bands.filter((band) => band.categoryId === c.id);
+      return !sameJson(bandsA, bandsB);
+    });
+    if (moved.length) out.push(`Library rates updated: ${moved.map((c) => c.label).join(", ")}`);
+  }
+
+  if (!sameJson(a.softCostsConfig, b.softCostsConfig)) out.push("Soft-cost settings changed");
+  if (!sameJson(a.indirectsConfig, b.indirectsConfig)) out.push("Construction indirect rates changed");
+  if (a.costIndex && b.costIndex) {
+    if (a.costIndex.estimateDate !== b.costIndex.estimateDate) {
+      out.push(`Estimate date: ${a.costIndex.estimateDate || "today"} → ${b.costIndex.estimateDate || "today"}`);
+    }
+    if (a.costIndex.enabled !== b.costIndex.enabled || !sameJson(a.costIndex.series, b.costIndex.series)) out.push("Cost index table changed");
+  }
+  if (a.financing && b.financing && !sameJson(a.financing, b.financing)) {
+    out.push(a.financing.enabled !== b.financing.enabled ? `Financing ${b.financing.enabled ? "added" : "removed"}` : "Financing terms changed");
+  }
+  if (!sameJson(a.programProfile, b.programProfile)) out.push("Program profile changed");
+  if (a.scenarios.scenarios.length !== b.scenarios.scenarios.length) {
+    out.push(`Scenarios: ${a.scenarios.scenarios.length} → ${b.scenarios.scenarios.length}`);
+  }
+
+  return out;
+}
@@ -1,6 +1,23 @@
 import { ScenarioResult } from "../domain/vmx-domain";
+import { currentMonth, isMonth } from "./costIndex";
+import { formatMoney, formatPct } from "./format";
+import {
+  CONSTRUCTION_PHASE_ID,
+  ProjectPhase,
+  getDefaultPhases,
+  legacyPhases,
+  normalizePhases,
+  phaseLabel,
+  phaseWindow,
+  projectDurationMonths,
+  safePhaseId,
+} from "./projectPhases";
 
-export type SoftCostBasis = "hard" | "ffe" | "hard_plus_ffe" | "total_before_escalation" | "fixed";
+/**
+ * "total_before_escalation" = hard cost + every line not itself on that basis;
+ * "line_items" = the sum of the lines listed in `basisItems` (fees on fees).
+ */
+export type SoftCostBasis = "hard" | "ffe" | "hard_plus_ffe" | "total_before_escalation" | "line_items" | "fixed";
 
 export type SoftCostLineItem = {
   id: string;
@@ -12,6 +29,38 @@ export type SoftCostLineItem = {
   fixedAmount: number;
   /** show/hide in UI */
   enabled: boolean;
+  /** When the item is drawn in the cashflow */
+  timing: SoftCostTiming;
+  /** Line item ids summed into the base (basis=line_items), e.g. a PM fee on the design fees */
+  basisItems?: string[];
+  /** Marginal sliding scale on the base; replaces `rate` when present. Base above the last band is charged at its rate */
+  scale?: SoftCostFeeBand[];
+  /** Minimum fee / cap on the calculated amount (0 = none). Ignored for basis=fixed */
+  minAmount?: number;
+  maxAmount?: number;
+  /** Formula overrides per library tier id (e.g. a higher architect fee on the top tier) */
+  byTier?: Record<string, SoftCostFormula>;
+};
+
+/** One band of a sliding scale: `rate` applies to the part of the base up to `upTo` (null = no limit) */
+export type SoftCostFeeBand = { upTo: number | null; rate: number };
+
+/** Formula fields a tier can override */
+export type SoftCostFormula = Partial<Pick<SoftCostLineItem, "enabled" | "rate" | "fixedAmount" | "scale" | "minAmount" | "maxAmount">>;
+
+/** One line of a soft cost's calculation, in order (base, rate or bands, minimum / cap) */
+export type SoftCostTraceStep = { label: string; amount: number };
+
+/** "follow_hard" uses the hard-cost curve; "at_start" / "at_end" draw the whole amount in one month */
+export type SoftCostCurve = "follow_hard" | "linear" | "classic" | "front_loaded" | "back_loaded" | "at_start" | "at_end";
+
+export type SoftCostTiming = {
+  /** Project phase id (or PROJECT_PHASE_ID for the whole timeline) */
+  phase: string;
+  curve: SoftCostCurve;
+  /** Months added to the phase start / end (negative = earlier) */
+  startOffsetMonths: number;
+  endOffsetMonths: number;
 };
 
 export type CashflowPreset = {
@@ -20,6 +69,22 @@ export type CashflowPreset = {
   yearWeights: number[];
 };
 
+export type CashflowGranularity = "month" | "quarter" | "year";
+
+export type SCurveShape = "classic" | "front_loaded" | "back_loaded" | "linear" | "custom";
+
+export type CashflowSettings = {
+  /** "preset" spreads the year-weight preset evenly over each year's months; "s_curve" generates the weights */
+  method: "preset" | "s_curve";
+  granularity: CashflowGranularity;
+  /** Project start = month 0 of the phase timeline (YYYY-MM). Blank = current month */
+  startDate: string;
+  shape: SCurveShape;
+  /** Beta distribution parameters, used when shape = custom */
+  alpha: number;
+  beta: number;
+};
+
 export type SoftCostsConfig = {
   version: 1;
   projectDurationYears: number; // default 4
@@ -32,6 +97,14 @@ export type SoftCostsConfig = {
   cashflowPresets: Record<string, CashflowPreset>;
   /** Which preset to use (defaults to duration as string) */
   selectedPresetKey: string;
+  /** Draw schedule period, start date and shape */
+  cashflow: CashflowSettings;
+  /** Project timeline; construction duration drives the hard-cost curve */
+  phases: ProjectPhase[];
+  /** Hard-cost categories drawn outside construction (category id → phase id) */
+  categoryPhases: Record<string, string>;
+  /** Phase the construction indirects (GCs, GL, contingency, fee) are drawn in */
+  indirectsPhase: string;
 };
 
 export type SoftCostsComputed = {
@@ -43,19 +116,40 @@ export type SoftCostsComputed = {
   escalationBase: number;
   escalationAmount: number;
   totalWithEscalation: number;
-  breakdown: Array<{ label: string; amount: number; basis: SoftCostBasis; rate: number }>;
+  /** `rate` is the effective rate (amount / base); `trace` shows how the amount was reached */
+  breakdown: Array<{ id: string; label: string; amount: number; basis: SoftCostBasis; rate: number; base: number; trace: SoftCostTraceStep[] }>;
+  /** Direct hard cost split by the phase its categories are drawn in */
+  hardByPhase: Array<{ phaseId: string; amount: number }>;
+  /** Rule problems (circular references); the affected lines are priced at 0 */
+  issues: string[];
 };
 
-export type CashflowYearRow = {
-  year: number;
+export type CashflowPeriodRow = {
+  /** 1-based period number from the project start */
+  period: number;
+  /** First and last month of the period (YYYY-MM) */
+  startDate: string;
+  endDate: string;
+  months: number;
+  label: string;
   weight: number;
   baseDraw: number;
   escalationDraw: number;
   totalDraw: number;
   cumulativeTotal: number;
   cumulativePct: number;
+  /** Base draw per stream (see cashflowStreams) */
+  draws: Record<string, number>;
 };
 
+/** Cashflow stream id for construction-phase hard cost; other phases use hardStreamId() */
+export const HARD_STREAM_ID = "hard";
+export const INDIRECTS_STREAM_ID = "indirects";
+
+export function hardStreamId(phaseId: string): string {
+  return phaseId === CONSTRUCTION_PHASE_ID ? HARD_STREAM_ID : `hard:${phaseId}`;
+}
+
 const DEFAULT_CONFIG_KEY = "vmx_soft_costs_config_v1";
 
 export function getDefaultSoftCostsConfig(): SoftCostsConfig {
@@ -72,6 +166,7 @@ export function getDefaultSoftCostsConfig(): SoftCostsConfig {
         rate: 0.06,
         fixedAmount: 0,
         enabled: true,
+        timing: { phase: "design", curve: "front_loaded", startOffsetMonths: 0, endOffsetMonths: 6 },
       },
       {
         id: "interior_design_fee",
@@ -80,6 +175,7 @@ export function getDefaultSoftCostsConfig(): SoftCostsConfig {
         rate: 0.06,
         fixedAmount: 0,
         enabled: true,
+        timing: { phase: "design", curve: "linear", startOffsetMonths: 0, endOffsetMonths: 12 },
       },
       {
         id: "id_procurement_fee",
@@ -88,6 +184,7 @@ export function getDefaultSoftCostsConfig(): SoftCostsConfig {
         rate: 0.06,
         fixedAmount: 0,
         enabled: true,
+        timing: { phase: "ffe_install", curve: "linear", startOffsetMonths: -12, endOffsetMonths: 0 },
       },
       {
         id: "freight_warehousing_install",
@@ -96,6 +193,7 @@ export function getDefaultSoftCostsConfig(): SoftCostsConfig {
         rate: 0.20,
         fixedAmount: 0,
         enabled: true,
+        timing: { phase: "ffe_install", curve: "back_loaded", startOffsetMonths: 0, endOffsetMonths: 0 },
       },
       {
         id: "engineering",
@@ -104,6 +202,7 @@ export function getDefaultSoftCostsConfig(): SoftCostsConfig {
         rate: 0.04,
         fixedAmount: 0,
         enabled: true,
+        timing: { phase: "design", curve: "front_loaded", startOffsetMonths: 0, endOffsetMonths: 0 },
       },
       {
         id: "permits_fees",
@@ -112,6 +211,7 @@ export function getDefaultSoftCostsConfig(): SoftCostsConfig {
         rate: 0.02,
         fixedAmount: 0,
         enabled: true,
+        timing: { phase: "permitting", curve: "at_end", startOffsetMonths: 0, endOffsetMonths: 0 },
       },
       {
         id: "owners_rep",
@@ -120,6 +220,7 @@ export function getDefaultSoftCostsConfig(): SoftCostsConfig {
         rate: 0.015,
         fixedAmount: 0,
         enabled: true,
+        timing: { phase: "project", curve: "linear", startOffsetMonths: 0, endOffsetMonths: 0 },
       },
       {
         id: "insurance",
@@ -128,6 +229,7 @@ export function getDefaultSoftCostsConfig(): SoftCostsConfig {
         rate: 0.01,
         fixedAmount: 0,
         enabled: true,
+        timing: { phase: "construction", curve: "linear", startOffsetMonths: 0, endOffsetMonths: 0 },
       },
       {
         id: "soft_contingency",
@@ -136,6 +238,7 @@ export function getDefaultSoftCostsConfig(): SoftCostsConfig {
         rate: 0.03,
         fixedAmount: 0,
         enabled: true,
+        timing: { phase: "construction", curve: "back_loaded", startOffsetMonths: 0, endOffsetMonths: 0 },
       },
       {
         id: "legal_tax",
@@ -144,6 +247,7 @@ export function getDefaultSoftCostsConfig(): SoftCostsConfig {
         rate: 0.005,
         fixedAmount: 0,
         enabled: true,
+        timing: { phase: "construction", curve: "follow_hard", startOffsetMonths: 0, endOffsetMonths: 0 },
       },
     ],
     cashflowPresets: {
@@ -152,11 +256,319 @@ export function getDefaultSoftCostsConfig(): SoftCostsConfig {
       "5": { label: "5-year (more gradual)", yearWeights: [0.15, 0.25, 0.25, 0.20, 0.15] },
     },
     selectedPresetKey: "4",
+    cashflow: getDefaultCashflowSettings(),
+    phases: getDefaultPhases(),
+    categoryPhases: { FF_E: "ffe_install" },
+    indirectsPhase: CONSTRUCTION_PHASE_ID,
   };
 
   return defaults;
 }
 
+export function getDefaultCashflowSettings(): CashflowSettings {
+  return { method: "s_curve", granularity: "quarter", startDate: "", shape: "classic", alpha: 2, beta: 2 };
+}
+
+/** Beta (α, β) parameters behind each named S-curve shape */
+export const S_CURVE_SHAPES: Record<Exclude<SCurveShape, "custom">, { label: string; alpha: number; beta: number }> = {
+  classic: { label: "Classic S-curve", alpha: 2, beta: 2 },
+  front_loaded: { label: "Front-loaded", alpha: 1.6, beta: 2.8 },
+  back_loaded: { label: "Back-loaded", alpha: 2.8, beta: 1.6 },
+  linear: { label: "Straight line", alpha: 1, beta: 1 },
+};
+
+export const GRANULARITY_MONTHS: Record<CashflowGranularity, number> = { month: 1, quarter: 3, year: 12 };
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export function addMonths(date: string, n: number): string {
+  const [y, m] = date.split("-").map(Number);
+  const idx = y * 12 + (m - 1) + n;
+  return `${Math.floor(idx / 12)}-${String((idx % 12) + 1).padStart(2, "0")}`;
+}
+
+export function formatMonth(date: string): string {
+  const [y, m] = date.split("-").map(Number);
+  return `${MONTH_NAMES[m - 1] ?? "?"} ${y}`;
+}
+
+type ScheduleFields = Pick<SoftCostsConfig, "cashflow" | "phases" | "categoryPhases" | "indirectsPhase">;
+
+/**
+ * Cashflow settings + phase timeline. Configs saved before phases existed get
+ * a timeline built from their old duration (and pre-construction / closeout
+ * windows), so their schedule is unchanged.
+ */
+function normalizeSchedule(input: unknown, durationYears: number): ScheduleFields {
+  const def = getDefaultCashflowSettings();
+  const parsed = input && typeof input === "object" ? (input as Partial<Record<keyof ScheduleFields, unknown>>) : {};
+  const raw = parsed.cashflow && typeof parsed.cashflow === "object" ? (parsed.cashflow as Record<string, unknown>) : null;
+  const shape: SCurveShape =
+    raw?.shape === "custom" || (typeof raw?.shape === "string" && raw.shape in S_CURVE_SHAPES) ? (raw.shape as SCurveShape) : def.shape;
+  // Configs saved before the S-curve existed keep their annual preset schedule
+  const cashflow: CashflowSettings = raw
+    ? {
+        method: raw.method === "preset" ? "preset" : "s_curve",
+        granularity: raw.granularity === "month" || raw.granularity === "year" ? raw.granularity : "quarter",
+        startDate: isMonth(raw.startDate) ? raw.startDate : "",
+        shape,
+        alpha: clampNumber(raw.alpha, def.alpha, 1, 10),
+        beta: clampNumber(raw.beta, def.beta, 1, 10),
+      }
+    : { ...def, method: "preset", granularity: "year" };
+
+  const legacyConstruction =
+    raw && cashflow.method === "s_curve" ? Math.round(clampNumber(raw.durationMonths, durationYears * 12, 1, 120)) : durationYears * 12;
+  const phases = normalizePhases(
+    parsed.phases,
+    legacyPhases(
+      legacyConstruction,
+      Math.round(clampNumber(raw?.preconstructionMonths, 0, 0, 60)),
+      Math.round(clampNumber(raw?.closeoutMonths, 0, 0, 60))
+    )
+  );
+
+  const categoryPhases: Record<string, string> = {};
+  if (parsed.categoryPhases && typeof parsed.categoryPhases === "object") {
+    for (const [categoryId, phaseId] of Object.entries(parsed.categoryPhases as Record<string, unknown>)) {
+      if (typeof phaseId === "string" && phaseId !== CONSTRUCTION_PHASE_ID && phases.some((p) => p.id === phaseId)) categoryPhases[categoryId] = phaseId;
+    }
+  }
+  const indirectsPhase = phases.some((p) => p.id === parsed.indirectsPhase) ? String(parsed.indirectsPhase) : CONSTRUCTION_PHASE_ID;
+
+  return { cashflow, phases, categoryPhases, indirectsPhase };
+}
+
+function normalizeTiming(raw: unknown): SoftCostTiming {
+  // Items saved before timing existed keep drawing with the hard cost
+  if (!raw || typeof raw !== "object") return { ...FOLLOW_HARD };
+  const input = raw as Partial<Record<keyof SoftCostTiming, unknown>>;
+  const curve = typeof input.curve === "string" && input.curve in SOFT_COST_CURVE_LABELS ? (input.curve as SoftCostCurve) : FOLLOW_HARD.curve;
+  return {
+    // Unknown phase ids resolve to construction when the timeline is built
+    phase: typeof input.phase === "string" && input.phase ? input.phase : FOLLOW_HARD.phase,
+    curve,
+    startOffsetMonths: Math.round(clampNumber(input.startOffsetMonths, 0, -120, 120)),
+    endOffsetMonths: Math.round(clampNumber(input.endOffsetMonths, 0, -120, 120)),
+  };
+}
+
+function normalizeScale(raw: unknown): SoftCostFeeBand[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const bands = raw
+    .filter((b): b is Record<string, unknown> => Boolean(b) && typeof b === "object")
+    .map((b) => {
+      const upTo = Number(b.upTo);
+      return { upTo: b.upTo === null || b.upTo === undefined || !Number.isFinite(upTo) ? null : Math.max(0, upTo), rate: clampNumber(b.rate, 0, 0, 1) };
+    })
+    // Bands apply in order of their upper limit; the open-ended band goes last
+    .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  return bands.length ? bands : undefined;
+}
+
+/** Sliding scale, minimum / cap and per-tier overrides; absent fields stay absent */
+function normalizeFormula(raw: unknown): SoftCostFormula {
+  if (!raw || typeof raw !== "object") return {};
+  const input = raw as Partial<Record<keyof SoftCostFormula, unknown>>;
+  const out: SoftCostFormula = {};
+  if (typeof input.enabled === "boolean") out.enabled = input.enabled;
+  if (input.rate !== undefined) out.rate = clampNumber(input.rate, 0, 0, 1);
+  if (input.fixedAmount !== undefined) out.fixedAmount = clampNumber(input.fixedAmount, 0, 0);
+  const scale = normalizeScale(input.scale);
+  if (scale) out.scale = scale;
+  if (input.minAmount !== undefined) out.minAmount = clampNumber(input.minAmount, 0, 0);
+  if (input.maxAmount !== undefined) out.maxAmount = clampNumber(input.maxAmount, 0, 0);
+  return out;
+}
+
+function normalizeFormulaRules(raw: unknown): Pick<SoftCostLineItem, "basisItems" | "scale" | "minAmount" | "maxAmount" | "byTier"> {
+  if (!raw || typeof raw !== "object") return {};
+  const input = raw as Partial<Record<keyof SoftCostLineItem, unknown>>;
+  const { scale, minAmount, maxAmount } = normalizeFormula(raw);
+  const out: Pick<SoftCostLineItem, "basisItems" | "scale" | "minAmount" | "maxAmount" | "byTier"> = { scale, minAmount, maxAmount };
+  if (Array.isArray(input.basisItems)) out.basisItems = input.basisItems.filter((id): id is string => typeof id === "string" && Boolean(id));
+  if (input.byTier && typeof input.byTier === "object") {
+    const byTier: Record<string, SoftCostFormula> = {};
+    for (const [tierId, f] of Object.entries(input.byTier as Record<string, unknown>)) {
+      const formula = normalizeFormula(f);
+      if (Object.keys(formula).length) byTier[tierId] = formula;
+    }
+    if (Object.keys(byTier).length) out.byTier = byTier;
+  }
+  // Drop undefined keys so saved configs stay as they were
+  return Object.fromEntries(Object.entries(out).filter(([, v]) => v !== undefined));
+}
+
+/** Fills in cashflow settings, phases and timing for configs stored before they existed (e.g. in older snapshots) */
+export function upgradeSoftCostsConfig(cfg: SoftCostsConfig): SoftCostsConfig {
+  return {
+    ...cfg,
+    lineItems: cfg.lineItems.map((li) => ({ ...li, timing: normalizeTiming(li.timing) })),
+    ...normalizeSchedule(cfg, Math.max(1, Math.floor(cfg.projectDurationYears))),
+  };
+}
+
+export function resolveCashflowStart(cfg: SoftCostsConfig): string {
+  return isMonth(cfg.cashflow.startDate) ? cfg.cashflow.startDate : currentMonth();
+}
+
+/** Splits [0, 1] into n months and integrates the density over each (20 steps per month) */
+function curveWeights(n: number, density: (x: number) => number): number[] {
+  const steps = 20;
+  const weights: number[] = [];
+  for (let m = 0; m < n; m++) {
+    let sum = 0;
+    for (let s = 0; s < steps; s++) sum += density((m + (s + 0.5) / steps) / n);
+    weights.push(sum);
+  }
+  return normalizeWeights(weights);
+}
+
+function betaWeights(n: number, alpha: number, beta: number): number[] {
+  return curveWeights(n, (x) => Math.pow(x, alpha - 1) * Math.pow(1 - x, beta - 1));
+}
+
+/**
+ * Share of a phase's hard cost done in each of its n months. The S-curve
+ * integrates a beta(α, β) density; the preset method stretches its year
+ * weights over the phase (exact when the phase is a whole number of years).
+ */
+export function hardCurveWeights(cfg: SoftCostsConfig, n: number): number[] {
+  const cf = cfg.cashflow;
+  if (cf.method === "preset") {
+    const duration = Math.max(1, Math.floor(cfg.projectDurationYears));
+    const preset = cfg.cashflowPresets[cfg.selectedPresetKey] || cfg.cashflowPresets[String(duration)];
+    const rawWeights = preset?.yearWeights || new Array(duration).fill(1 / duration);
+    const years = normalizeWeights(rawWeights.slice(0, duration));
+    return curveWeights(n, (x) => years[Math.min(years.length - 1, Math.floor(x * years.length))] ?? 0);
+  }
+
+  const { alpha, beta } = cf.shape === "custom" ? cf : S_CURVE_SHAPES[cf.shape];
+  return betaWeights(n, alpha, beta);
+}
+
+export const SOFT_COST_CURVE_LABELS: Record<SoftCostCurve, string> = {
+  follow_hard: "Follow construction",
+  linear: "Straight line",
+  classic: "S-curve",
+  front_loaded: "Front-loaded",
+  back_loaded: "Back-loaded",
+  at_start: "Lump sum at start",
+  at_end: "Lump sum at end",
+};
+
+const FOLLOW_HARD: SoftCostTiming = { phase: CONSTRUCTION_PHASE_ID, curve: "follow_hard", startOffsetMonths: 0, endOffsetMonths: 0 };
+
+/** Window of a timing profile in months from the project start (end exclusive); follow_hard uses construction */
+export function softCostWindow(cfg: SoftCostsConfig, timing: SoftCostTiming): { start: number; end: number } {
+  if (timing.curve === "follow_hard") return phaseWindow(cfg.phases, CONSTRUCTION_PHASE_ID);
+  const phase = phaseWindow(cfg.phases, safePhaseId(cfg.phases, timing.phase));
+  const start = Math.max(0, phase.start + Math.round(timing.startOffsetMonths));
+  return { start, end: Math.max(start + 1, phase.end + Math.round(timing.endOffsetMonths)) };
+}
+
+/** Phase a hard-cost category is drawn in */
+export function categoryPhaseId(cfg: SoftCostsConfig, categoryId: string): string {
+  const id = cfg.categoryPhases[categoryId];
+  return id && cfg.phases.some((p) => p.id === id) ? id : CONSTRUCTION_PHASE_ID;
+}
+
+type CashflowStreamTiming = { id: string; firstMonth: number; weights: number[] };
+
+function phaseStreamTiming(cfg: SoftCostsConfig, id: string, phaseId: string): CashflowStreamTiming {
+  const { start, end } = phaseWindow(cfg.phases, phaseId);
+  return { id, firstMonth: start, weights: hardCurveWeights(cfg, end - start) };
+}
+
+function streamTiming(cfg: SoftCostsConfig, id: string, timing: SoftCostTiming): CashflowStreamTiming {
+  const { start, end } = softCostWindow(cfg, timing);
+  if (timing.curve === "follow_hard") return { id, firstMonth: start, weights: hardCurveWeights(cfg, end - start) };
+  if (timing.curve === "at_start" || timing.curve === "at_end") {
+    return { id, firstMonth: timing.curve === "at_start" ? start : end - 1, weights: [1] };
+  }
+  const shape = S_CURVE_SHAPES[timing.curve];
+  return { id, firstMonth: start, weights: betaWeights(end - start, shape.alpha, shape.beta) };
+}
+
+type CashflowPeriod = { period: number; firstMonth: number; months: number; midYears: number };
+
+type CashflowTimeline = { periods: CashflowPeriod[]; weights: Record<string, number[]> };
+
+// Monte Carlo and sensitivity re-price the same config many times; the timeline only depends on the config
+const timelineCache = new WeakMap<SoftCostsConfig, CashflowTimeline>();
+
+/**
+ * Hard cost per phase, construction indirects and every enabled soft line
+ * item, each on its own monthly timing, grouped into periods counted from the
+ * project start. Escalation is measured at each period's midpoint.
+ */
+function cashflowTimeline(cfg: SoftCostsConfig): CashflowTimeline {
+  const cached = timelineCache.get(cfg);
+  if (cached) return cached;
+
+  const hardPhases = new Set([CONSTRUCTION_PHASE_ID, ...Object.keys(cfg.categoryPhases).map((c) => categoryPhaseId(cfg, c))]);
+  const streams: CashflowStreamTiming[] = [
+    ...[...hardPhases].map((phaseId) => phaseStreamTiming(cfg, hardStreamId(phaseId), phaseId)),
+    phaseStreamTiming(cfg, INDIRECTS_STREAM_ID, cfg.indirectsPhase),
+  ];
+  for (const li of cfg.lineItems) {
+    if (li.enabled) streams.push(streamTiming(cfg, li.id, li.timing ?? FOLLOW_HARD));
+  }
+  const last = Math.max(projectDurationMonths(cfg.phases) - 1, ...streams.map((s) => s.firstMonth + s.weights.length - 1));
+
+  const size = GRANULARITY_MONTHS[cfg.cashflow.granularity];
+  const periods: CashflowPeriod[] = [];
+  for (let from = 0; from <= last; from += size) {
+    const months = Math.min(size, last - from + 1);
+    periods.push({ period: periods.length + 1, firstMonth: from, months, midYears: (from + months / 2) / 12 });
+  }
+
+  const weights: Record<string, number[]> = {};
+  for (const s of streams) {
+    weights[s.id] = periods.map((p) => {
+      let sum = 0;
+      for (let m = p.firstMonth; m < p.firstMonth + p.months; m++) sum += s.weights[m - s.firstMonth] ?? 0;
+      return sum;
+    });
+  }
+
+  const timeline = { periods, weights };
+  timelineCache.set(cfg, timeline);
+  return timeline;
+}
+
+function periodEscalation(rate: number, midYears: number): number {
+  return Math.pow(1 + rate, midYears) - 1;
+}
+
+/**
+ * Amount and escalation flag per cashflow stream. Construction indirects are
+ * drawn on the schedule but not escalated (escalation applies to direct hard
+ * cost, plus soft costs when the scope includes them).
+ */
+function cashflowStreamAmounts(cfg: SoftCostsConfig, totals: Pick<SoftCostsComputed, "hardByPhase" | "breakdown">, indirectsAmount: number) {
+  const soft = cfg.escalationScope === "hard_plus_soft";
+  return [
+    ...totals.hardByPhase.map((h) => ({ id: hardStreamId(h.phaseId), amount: h.amount, escalates: true })),
+    { id: INDIRECTS_STREAM_ID, amount: indirectsAmount, escalates: false },
+    ...totals.breakdown.map((b) => ({ id: b.id, amount: b.amount, escalates: soft })),
+  ];
+}
+
+export type CashflowStream = { id: string; label: string };
+
+/** Stream ids + labels, in draw-table order */
+function cashflowStreamLabels(cfg: SoftCostsConfig, totals: SoftCostsComputed, withIndirects: boolean): CashflowStream[] {
+  return [
+    ...totals.hardByPhase.map((h) => ({
+      id: hardStreamId(h.phaseId),
+      label: h.phaseId === CONSTRUCTION_PHASE_ID ? "Hard costs" : `Hard costs — ${phaseLabel(cfg.phases, h.phaseId)}`,
+    })),
+    ...(withIndirects ? [{ id: INDIRECTS_STREAM_ID, label: "Construction indirects" }] : []),
+    ...totals.breakdown.map((b) => ({ id: b.id, label: b.label })),
+  ];
+}
+
 function clampNumber(n: any, fallback: number, min?: number, max?: number): number {
   const v = Number(n);
   if (!Number.isFinite(v)) return fallback;
@@ -200,6 +612,7 @@ export function loadSoftCostsConfigWithAutoMigration(): SoftCostsConfig {
               li?.basis === "hard" ||
               li?.basis === "hard_plus_ffe" ||
               li?.basis === "total_before_escalation" ||
+              li?.basis === "line_items" ||
               li?.basis === "fixed"
                 ? li.basis
                 : "hard";
@@ -210,6 +623,8 @@ export function loadSoftCostsConfigWithAutoMigration(): SoftCostsConfig {
               rate: clampNumber(li?.rate, 0, 0, 1),
               fixedAmount: clampNumber(li?.fixedAmount, 0, 0),
               enabled: li?.enabled === false ? false : true,
+              timing: normalizeTiming(li?.timing),
+              ...normalizeFormulaRules(li),
             } as SoftCostLineItem;
           })
           .filter((x: SoftCostLineItem) => x.id && x.label)
@@ -226,6 +641,7 @@ export function loadSoftCostsConfigWithAutoMigration(): SoftCostsConfig {
       lineItems: lineItems.length ? lineItems : def.lineItems,
       cashflowPresets: presets,
       selectedPresetKey: selectedKey,
+      ...normalizeSchedule(parsed, duration),
     };
 
     // Ensure there is at least a preset for the chosen duration
@@ -252,70 +668,201 @@ export function saveSoftCostsConfig(cfg: SoftCostsConfig) {
   localStorage.setItem(DEFAULT_CONFIG_KEY, JSON.stringify(cfg, null, 2));
 }
 
-export function computeSoftCosts(result: ScenarioResult, cfg: SoftCostsConfig): SoftCostsComputed {
-  const hardBase = Number.isFinite(result.totalCost) ? Math.max(0, result.totalCost) : 0;
-  const ffeRow = result.categories.find((c) => c.categoryId === "FF_E");
-  const ffeBase = Number.isFinite(ffeRow?.cost) ? Math.max(0, ffeRow!.cost) : 0;
-  const hardPlusFfe = hardBase + ffeBase;
+export const SOFT_COST_BASIS_LABELS: Record<SoftCostBasis, string> = {
+  hard: "Hard cost",
+  ffe: "FF&E",
+  hard_plus_ffe: "Hard cost + FF&E",
+  total_before_escalation: "Hard + soft before escalation",
+  line_items: "Other line items",
+  fixed: "Fixed amount",
+};
 
-  const breakdown: SoftCostsComputed["breakdown"] = [];
-  let softBase = 0;
+/** Enabled line ids whose amounts feed this line's base */
+export function softCostDependencies(li: SoftCostLineItem, items: SoftCostLineItem[]): string[] {
+  const enabled = items.filter((x) => x.enabled);
+  if (li.basis === "line_items") return (li.basisItems ?? []).filter((id) => enabled.some((x) => x.id === id));
+  if (li.basis === "total_before_escalation") return enabled.filter((x) => x.id !== li.id && x.basis !== "total_before_escalation").map((x) => x.id);
+  return [];
+}
 
-  for (const li of cfg.lineItems) {
-    if (!li.enabled) continue;
+/**
+ * Enabled lines in calculation order (every line after the lines its base
+ * depends on), plus any circular references found as id paths (a → b → a).
+ */
+export function orderSoftCostLines(items: SoftCostLineItem[]): { order: SoftCostLineItem[]; cycles: string[][] } {
+  const enabled = items.filter((li) => li.enabled);
+  const byId = new Map(enabled.map((li) => [li.id, li]));
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+  const order: SoftCostLineItem[] = [];
+  const cycles: string[][] = [];
 
-    let base = 0;
-    if (li.basis === "hard") base = hardBase;
-    else if (li.basis === "ffe") base = ffeBase;
-    else if (li.basis === "hard_plus_ffe") base = hardPlusFfe;
-    else if (li.basis === "total_before_escalation") base = hardBase; // filled after
+  const visit = (li: SoftCostLineItem) => {
+    const s = state.get(li.id);
+    if (s === "done") return;
+    if (s === "visiting") {
+      cycles.push([...path.slice(path.indexOf(li.id)), li.id]);
+      return;
+    }
+    state.set(li.id, "visiting");
+    path.push(li.id);
+    for (const id of softCostDependencies(li, items)) {
+      const dep = byId.get(id);
+      if (dep) visit(dep);
+    }
+    path.pop();
+    state.set(li.id, "done");
+    order.push(li);
+  };
+  enabled.forEach(visit);
 
-    let amount = 0;
-    if (li.basis === "fixed") amount = li.fixedAmount;
-    else amount = base * li.rate;
+  return { order, cycles };
+}
 
-    amount = Number.isFinite(amount) ? Math.max(0, amount) : 0;
+/** Amount for one line from its base: rate or sliding scale, then minimum and cap */
+function computeSoftCostLine(li: SoftCostLineItem, base: number, baseLabel: string, currency: string): { amount: number; trace: SoftCostTraceStep[] } {
+  if (li.basis === "fixed") {
+    const amount = Number.isFinite(li.fixedAmount) ? Math.max(0, li.fixedAmount) : 0;
+    return { amount, trace: [{ label: "Fixed amount", amount }] };
+  }
 
-    breakdown.push({ label: li.label, amount, basis: li.basis, rate: li.rate });
-    softBase += amount;
+  const trace: SoftCostTraceStep[] = [{ label: `Base: ${baseLabel}`, amount: base }];
+  let amount = 0;
+  if (li.scale?.length) {
+    let from = 0;
+    for (const band of li.scale) {
+      const to = band.upTo ?? Infinity;
+      const portion = Math.max(0, Math.min(base, to) - from);
+      if (portion > 0) {
+        const fee = portion * band.rate;
+        amount += fee;
+        const range = band.upTo === null ? `above ${formatMoney(from, currency)}` : `${from === 0 ? "first" : "next"} ${formatMoney(to - from, currency)}`;
+        trace.push({ label: `${formatPct(band.rate)} on ${range}`, amount: fee });
+      }
+      from = to;
+      if (from >= base) break;
+    }
+    // No open-ended band: the excess is charged at the last band's rate rather than dropped
+    const last = li.scale[li.scale.length - 1];
+    if (base > from) {
+      const fee = (base - from) * last.rate;
+      amount += fee;
+      trace.push({ label: `${formatPct(last.rate)} on above ${formatMoney(from, currency)} (last band rate — scale has no open-ended band)`, amount: fee });
+    }
+  } else {
+    amount = base * li.rate;
+    trace.push({ label: `${formatPct(li.rate)} × base`, amount });
   }
 
-  const totalBeforeEscalation = hardBase + softBase;
+  if (li.minAmount && amount < li.minAmount) {
+    amount = li.minAmount;
+    trace.push({ label: `Minimum fee ${formatMoney(li.minAmount, currency)}`, amount });
+  }
+  if (li.maxAmount && amount > li.maxAmount) {
+    amount = li.maxAmount;
+    trace.push({ label: `Capped at ${formatMoney(li.maxAmount, currency)}`, amount });
+  }
+
+  return { amount: Number.isFinite(amount) ? Math.max(0, amount) : 0, trace };
+}
+
+/** A tier `rate` without its own `scale` replaces the line's sliding scale (the scale would otherwise win) */
+function applyTierFormula(li: SoftCostLineItem, formula: SoftCostFormula): SoftCostLineItem {
+  const next = { ...li, ...formula };
+  if (formula.rate !== undefined && !formula.scale) delete next.scale;
+  return next;
+}
+
+// Resolved configs are reused so downstream caches (cashflow timeline) keep hitting
+const tierConfigCache = new WeakMap<SoftCostsConfig, Map<string, SoftCostsConfig>>();
 
-  // Handle items that depend on total_before_escalation
-  // (Second pass so those bases can be computed accurately)
-  const adjustedBreakdown: SoftCostsComputed["breakdown"] = [];
-  let softBaseAdjusted = 0;
-  for (const item of breakdown) {
-    if (item.basis !== "total_before_escalation") {
-      adjustedBreakdown.push(item);
-      softBaseAdjusted += item.amount;
+/** The config with each line's overrides for a library tier applied (the same object when none apply) */
+export function resolveSoftCostsForTier(cfg: SoftCostsConfig, tierId: string): SoftCostsConfig {
+  if (!cfg.lineItems.some((li) => li.byTier?.[tierId])) return cfg;
+  let byTier = tierConfigCache.get(cfg);
+  if (!byTier) {
+    byTier = new Map();
+    tierConfigCache.set(cfg, byTier);
+  }
+  let resolved = byTier.get(tierId);
+  if (!resolved) {
+    resolved = { ...cfg, lineItems: cfg.lineItems.map((li) => (li.byTier?.[tierId] ? applyTierFormula(li, li.byTier[tierId]) : li)) };
+    byTier.set(tierId, resolved);
+  }
+  return resolved;
+}
+
+export function computeSoftCosts(result: ScenarioResult, cfg: SoftCostsConfig): SoftCostsComputed {
+  const hardBase = Number.isFinite(result.totalCost) ? Math.max(0, result.totalCost) : 0;
+  const ffeRow = result.categories.find((c) => c.categoryId === "FF_E");
+  const ffeBase = Number.isFinite(ffeRow?.cost) ? Math.max(0, ffeRow!.cost) : 0;
+  const hardPlusFfe = hardBase + ffeBase;
+
+  const { order, cycles } = orderSoftCostLines(cfg.lineItems);
+  const cyclic = new Set(cycles.flat());
+  const names = new Map(cfg.lineItems.map((li) => [li.id, li.label]));
+  const amounts = new Map<string, number>();
+  const lines = new Map<string, SoftCostsComputed["breakdown"][number]>();
+
+  for (const li of order) {
+    if (cyclic.has(li.id)) {
+      amounts.set(li.id, 0);
+      lines.set(li.id, { id: li.id, label: li.label, amount: 0, basis: li.basis, rate: li.rate, base: 0, trace: [{ label: "Circular reference — not calculated", amount: 0 }] });
       continue;
     }
-    const amount = totalBeforeEscalation * item.rate;
-    const fixedAmount = Number.isFinite(amount) ? Math.max(0, amount) : 0;
-    adjustedBreakdown.push({ ...item, amount: fixedAmount });
-    softBaseAdjusted += fixedAmount;
+
+    // Every dependency is earlier in `order`, so its amount is final
+    const deps = softCostDependencies(li, cfg.lineItems);
+    const base =
+      li.basis === "hard"
+        ? hardBase
+        : li.basis === "ffe"
+          ? ffeBase
+          : li.basis === "hard_plus_ffe"
+            ? hardPlusFfe
+            : li.basis === "total_before_escalation"
+              ? hardBase + deps.reduce((sum, id) => sum + (amounts.get(id) ?? 0), 0)
+              : li.basis === "line_items"
+                ? deps.reduce((sum, id) => sum + (amounts.get(id) ?? 0), 0)
+                : 0;
+    const baseLabel =
+      li.basis === "line_items" ? deps.map((id) => names.get(id) ?? id).join(" + ") || "no line items" : SOFT_COST_BASIS_LABELS[li.basis];
+    const calc = computeSoftCostLine(li, base, baseLabel, result.currency);
+    amounts.set(li.id, calc.amount);
+    lines.set(li.id, { id: li.id, label: li.label, amount: calc.amount, basis: li.basis, rate: base > 0 ? calc.amount / base : li.rate, base, trace: calc.trace });
   }
 
-  const softBaseFinal = softBaseAdjusted;
+  const adjustedBreakdown = cfg.lineItems.map((li) => lines.get(li.id)).filter((x): x is SoftCostsComputed["breakdown"][number] => Boolean(x));
+  const softBaseFinal = adjustedBreakdown.reduce((sum, b) => sum + b.amount, 0);
+  const issues = cycles.map((c) => `Circular reference: ${c.map((id) => names.get(id) ?? id).join(" → ")}`);
   const totalBeforeEscalationFinal = hardBase + softBaseFinal;
 
   const escalationBase = cfg.escalationScope === "hard_plus_soft" ? totalBeforeEscalationFinal : hardBase;
-  const duration = Math.max(1, Math.floor(cfg.projectDurationYears));
   const rate = Math.max(0, cfg.annualEscalationRate);
 
-  const preset = cfg.cashflowPresets[cfg.selectedPresetKey] || cfg.cashflowPresets[String(duration)];
-  const rawWeights = preset?.yearWeights || new Array(duration).fill(1 / duration);
-  const weights = normalizeWeights(rawWeights.slice(0, duration));
+  // Categories drawn outside construction (e.g. FF&E install); construction takes the rest
+  const outside = new Map<string, number>();
+  for (const c of result.categories) {
+    const phaseId = categoryPhaseId(cfg, c.categoryId);
+    if (phaseId === CONSTRUCTION_PHASE_ID || !Number.isFinite(c.cost)) continue;
+    outside.set(phaseId, (outside.get(phaseId) ?? 0) + Math.max(0, c.cost));
+  }
+  const outsideTotal = [...outside.values()].reduce((a, b) => a + b, 0);
+  const hardByPhase = [
+    { phaseId: CONSTRUCTION_PHASE_ID, amount: Math.max(0, hardBase - outsideTotal) },
+    ...[...outside.entries()].map(([phaseId, amount]) => ({ phaseId, amount: Math.min(amount, hardBase) })),
+  ];
 
-  // Mid-year assumption: year 1 uses t=0.5, year 2 uses t=1.5, etc.
-  const escalationPerYear = weights.map((w, idx) => {
-    const t = idx + 0.5;
-    const factor = Math.pow(1 + rate, t) - 1;
-    return escalationBase * w * factor;
-  });
-  const escalationAmount = escalationPerYear.reduce((a, b) => a + b, 0);
+  // Mid-period assumption: annual periods use t=0.5, 1.5, …; quarters t=0.125, 0.375, …
+  // Each stream escalates on its own timing, so costs drawn early escalate less
+  const timeline = cashflowTimeline(cfg);
+  const factors = timeline.periods.map((p) => periodEscalation(rate, p.midYears));
+  let escalationAmount = 0;
+  for (const s of cashflowStreamAmounts(cfg, { hardByPhase, breakdown: adjustedBreakdown }, 0)) {
+    if (!s.escalates) continue;
+    const w = timeline.weights[s.id] ?? [];
+    factors.forEach((f, i) => (escalationAmount += s.amount * (w[i] ?? 0) * f));
+  }
 
   const totalWithEscalation = totalBeforeEscalationFinal + escalationAmount;
 
@@ -329,50 +876,69 @@ export function computeSoftCosts(result: ScenarioResult, cfg: SoftCostsConfig):
     escalationAmount,
     totalWithEscalation,
     breakdown: adjustedBreakdown,
+    hardByPhase,
+    issues,
   };
 }
 
-export function computeCashflowSchedule(result: ScenarioResult, cfg: SoftCostsConfig): { rows: CashflowYearRow[]; totals: SoftCostsComputed } {
+/**
+ * Dated draw schedule over the whole phase timeline. Construction indirects
+ * are passed in (they are priced outside the soft-cost config) and only add
+ * draws; they are not escalated.
+ */
+export function computeCashflowSchedule(
+  result: ScenarioResult,
+  cfg: SoftCostsConfig,
+  indirectsAmount = 0
+): { rows: CashflowPeriodRow[]; totals: SoftCostsComputed; streams: CashflowStream[] } {
   const totals = computeSoftCosts(result, cfg);
+  const indirects = Number.isFinite(indirectsAmount) ? Math.max(0, indirectsAmount) : 0;
 
-  const duration = Math.max(1, Math.floor(cfg.projectDurationYears));
   const rate = Math.max(0, cfg.annualEscalationRate);
+  const start = resolveCashflowStart(cfg);
 
-  const preset = cfg.cashflowPresets[cfg.selectedPresetKey] || cfg.cashflowPresets[String(duration)];
-  const rawWeights = preset?.yearWeights || new Array(duration).fill(1 / duration);
-  const weights = normalizeWeights(rawWeights.slice(0, duration));
+  const timeline = cashflowTimeline(cfg);
+  const streams = cashflowStreamAmounts(cfg, totals, indirects);
+  const drawTotal = totals.totalBeforeEscalation + indirects;
 
-  const baseTotal = totals.totalBeforeEscalation;
-  const escalationBase = totals.escalationBase;
-
-  const rows: CashflowYearRow[] = [];
+  const rows: CashflowPeriodRow[] = [];
   let cumulative = 0;
 
-  for (let i = 0; i < duration; i++) {
-    const year = i + 1;
-    const w = weights[i] ?? 0;
-
-    const baseDraw = baseTotal * w;
-
-    const t = i + 0.5;
-    const factor = Math.pow(1 + rate, t) - 1;
-    const escalationDraw = escalationBase * w * factor;
+  for (const [i, p] of timeline.periods.entries()) {
+    const factor = periodEscalation(rate, p.midYears);
+    const draws: Record<string, number> = {};
+    let baseDraw = 0;
+    let escalationDraw = 0;
+    for (const s of streams) {
+      const draw = s.amount * (timeline.weights[s.id]?.[i] ?? 0);
+      draws[s.id] = (draws[s.id] ?? 0) + draw;
+      baseDraw += draw;
+      if (s.escalates) escalationDraw += draw * factor;
+    }
+    const w = baseDraw / Math.max(1, drawTotal);
 
     const totalDraw = baseDraw + escalationDraw;
     cumulative += totalDraw;
 
+    const startDate = addMonths(start, p.firstMonth);
+    const endDate = addMonths(start, p.firstMonth + p.months - 1);
     rows.push({
-      year,
+      period: p.period,
+      startDate,
+      endDate,
+      months: p.months,
+      label: p.months === 1 ? formatMonth(startDate) : `${formatMonth(startDate)} – ${formatMonth(endDate)}`,
       weight: w,
       baseDraw,
       escalationDraw,
       totalDraw,
       cumulativeTotal: cumulative,
-      cumulativePct: cumulative / Math.max(1, totals.totalWithEscalation),
+      cumulativePct: cumulative / Math.max(1, totals.totalWithEscalation + indirects),
+      draws,
     });
   }
 
-  return { rows, totals };
+  return { rows, totals, streams: cashflowStreamLabels(cfg, totals, indirects > 0) };
 }
 
 export function configToPrettyJson(cfg: SoftCostsConfig): string {
@@ -400,6 +966,7 @@ export function parseConfigFromJson(raw: string): { ok: true; value: SoftCostsCo
               li?.basis === "hard" ||
               li?.basis === "hard_plus_ffe" ||
               li?.basis === "total_before_escalation" ||
+              li?.basis === "line_items" ||
               li?.basis === "fixed"
                 ? li.basis
                 : "hard";
@@ -410,6 +977,8 @@ export function parseConfigFromJson(raw: string): { ok: true; value: SoftCostsCo
               rate: clampNumber(li?.rate, 0, 0, 1),
               fixedAmount: clampNumber(li?.fixedAmount, 0, 0),
               enabled: li?.enabled === false ? false : true,
+              timing: normalizeTiming(li?.timing),
+              ...normalizeFormulaRules(li),
             } as SoftCostLineItem;
           })
           .filter((x: SoftCostLineItem) => x.id && x.label)
@@ -428,6 +997,7 @@ export function parseConfigFromJson(raw: string): { ok: true; value: SoftCostsCo
       lineItems: lineItems.length ? lineItems : def.lineItems,
       cashflowPresets,
       selectedPresetKey,
+      ...normalizeSchedule(parsed, duration),
     };
 
     // Ensure there is a preset for the selected duration